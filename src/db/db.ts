@@ -165,6 +165,16 @@ export class Database {
     }
   }
 
+  /**
+   * A statement that fails when the statement just before it in a batch changed no rows, so the
+   * whole batch rolls back. Place it directly after a guarded UPDATE (e.g. `WHERE status = 'staged'`)
+   * when a stale or repeated request must not write anything.
+   */
+  prepareChangeCheck(): D1PreparedStatement {
+    // SQLite only has RAISE() inside triggers; json() rejecting its argument fails the statement instead.
+    return this.db.prepare(`SELECT CASE WHEN changes() = 0 THEN json('no rows changed') END`);
+  }
+
   /**
    * Provides direct access to the underlying D1Database instance.
    * Useful for operations not covered by this wrapper, or for creating
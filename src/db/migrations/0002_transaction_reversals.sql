@@ -0,0 +1,11 @@
+-- src/db/migrations/0002_transaction_reversals.sql
+-- Adds the columns needed to void posted transactions through reversing entries.
+-- Date: 2025-05-24
+
+-- A voided transaction keeps its lines untouched. Its effect is cancelled by a
+-- separate, posted reversing transaction that points back at it.
+ALTER TABLE transactions ADD COLUMN reverses_transaction_id TEXT REFERENCES transactions(id) ON DELETE RESTRICT;
+ALTER TABLE transactions ADD COLUMN voided_at INTEGER; -- Unix timestamp when the void was recorded
+ALTER TABLE transactions ADD COLUMN void_reason TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transactions_reverses_transaction_id ON transactions(reverses_transaction_id);
@@ -0,0 +1,15 @@
+-- src/db/migrations/0003_statement_subtypes.sql
+-- Tags the top-level default accounts with the subtypes the financial statements use to
+-- place accounts into GAAP sections. Descendants inherit the section of their nearest
+-- tagged ancestor, so only the group headers need a subtype.
+-- Date: 2025-05-25
+
+-- Only fill in missing subtypes so user customisations are preserved.
+UPDATE chart_of_accounts SET subtype = 'current_asset'         WHERE code = '1000' AND type = 'asset'     AND subtype IS NULL;
+UPDATE chart_of_accounts SET subtype = 'fixed_asset'           WHERE code = '1500' AND type = 'asset'     AND subtype IS NULL;
+UPDATE chart_of_accounts SET subtype = 'current_liability'     WHERE code = '2000' AND type = 'liability' AND subtype IS NULL;
+UPDATE chart_of_accounts SET subtype = 'long_term_liability'   WHERE code = '2500' AND type = 'liability' AND subtype IS NULL;
+UPDATE chart_of_accounts SET subtype = 'operating_revenue'     WHERE code = '4000' AND type = 'income'    AND subtype IS NULL;
+UPDATE chart_of_accounts SET subtype = 'non_operating_income'  WHERE code = '4500' AND type = 'income'    AND subtype IS NULL;
+UPDATE chart_of_accounts SET subtype = 'non_operating_expense' WHERE code = '5800' AND type = 'expense'   AND subtype IS NULL;
+UPDATE chart_of_accounts SET subtype = 'non_operating_expense' WHERE code = '5900' AND type = 'expense'   AND subtype IS NULL;
@@ -0,0 +1,18 @@
+-- src/db/migrations/0004_cash_flow_categories.sql
+-- Adds a per-account statement of cash flows classification and sets it on the default chart.
+-- Date: 2025-05-27
+
+-- 'cash' | 'operating' | 'investing' | 'financing' | 'non_cash'.
+-- NULL inherits from the parent account; balance-sheet accounts with no category in their
+-- ancestry are treated as operating.
+ALTER TABLE chart_of_accounts ADD COLUMN cash_flow_category TEXT;
+
+UPDATE chart_of_accounts SET cash_flow_category = 'cash'      WHERE code IN ('1010', '1300') AND type = 'asset';
+UPDATE chart_of_accounts SET cash_flow_category = 'operating' WHERE code IN ('1100', '1200') AND type = 'asset';
+UPDATE chart_of_accounts SET cash_flow_category = 'investing' WHERE code = '1500' AND type = 'asset';
+-- Accumulated depreciation moves with depreciation expense, which is added back instead.
+UPDATE chart_of_accounts SET cash_flow_category = 'non_cash'  WHERE code IN ('1525', '1535') AND type = 'asset';
+UPDATE chart_of_accounts SET cash_flow_category = 'operating' WHERE code = '2000' AND type = 'liability';
+UPDATE chart_of_accounts SET cash_flow_category = 'financing' WHERE code = '2500' AND type = 'liability';
+UPDATE chart_of_accounts SET cash_flow_category = 'financing' WHERE code IN ('3010', '3020') AND type = 'equity';
+UPDATE chart_of_accounts SET cash_flow_category = 'non_cash'  WHERE code = '5900' AND type = 'expense';
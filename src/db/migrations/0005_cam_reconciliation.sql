@@ -0,0 +1,29 @@
+-- src/db/migrations/0005_cam_reconciliation.sql
+-- Tenants participating in recoverable expense (CAM) pools and the estimated
+-- recoveries billed to them, used by the year-end CAM reconciliation.
+-- Date: 2025-05-29
+
+CREATE TABLE IF NOT EXISTS cam_tenants (
+  id TEXT PRIMARY KEY, -- e.g., UUID
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  entity_id TEXT NOT NULL REFERENCES entities(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  -- Pro-rata share of the recoverable pool in basis points (e.g., 25.00% = 2500)
+  pro_rata_share INTEGER NOT NULL CHECK (pro_rata_share BETWEEN 0 AND 10000),
+  is_active INTEGER NOT NULL DEFAULT 1, -- 0 for false, 1 for true
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  updated_at INTEGER NOT NULL DEFAULT (unixepoch())
+);
+CREATE INDEX IF NOT EXISTS idx_cam_tenants_entity ON cam_tenants(user_id, entity_id);
+
+CREATE TABLE IF NOT EXISTS cam_tenant_estimates (
+  id TEXT PRIMARY KEY, -- e.g., UUID
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  tenant_id TEXT NOT NULL REFERENCES cam_tenants(id) ON DELETE CASCADE,
+  year INTEGER NOT NULL, -- Reconciliation (calendar) year, e.g., 2025
+  billed_amount INTEGER NOT NULL DEFAULT 0, -- Estimated recoveries billed for the year, in cents
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  updated_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  CONSTRAINT uq_cam_tenant_estimates_tenant_year UNIQUE (tenant_id, year)
+);
+CREATE INDEX IF NOT EXISTS idx_cam_tenant_estimates_tenant ON cam_tenant_estimates(tenant_id);
@@ -0,0 +1,50 @@
+-- src/db/migrations/0006_loans.sql
+-- Notes receivable/payable and their amortization schedules.
+-- Date: 2025-05-30
+
+CREATE TABLE IF NOT EXISTS loans (
+  id TEXT PRIMARY KEY, -- e.g., UUID
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  entity_id TEXT NOT NULL REFERENCES entities(id) ON DELETE CASCADE,
+  direction TEXT NOT NULL CHECK (direction IN ('receivable', 'payable')),
+  borrower_name TEXT, -- Receivables: who owes the entity
+  lender_name TEXT, -- Payables: who the entity owes
+  description TEXT,
+  loan_type TEXT NOT NULL, -- 'mortgage', 'seller_financing', 'related_party', 'other_receivable', 'other_payable'
+  original_principal INTEGER NOT NULL, -- Cents
+  current_principal INTEGER NOT NULL, -- Cents
+  interest_rate INTEGER NOT NULL DEFAULT 0, -- Annual rate in basis points (e.g., 5.25% = 525)
+  interest_rate_type TEXT NOT NULL DEFAULT 'fixed', -- 'fixed', 'variable'
+  origination_date INTEGER NOT NULL, -- Unix timestamp
+  maturity_date INTEGER NOT NULL, -- Unix timestamp
+  payment_frequency TEXT NOT NULL, -- 'monthly', 'quarterly', 'annually', 'lump_sum', 'custom'
+  payment_interval_months INTEGER, -- Months between payments for 'custom' frequency
+  payment_amount INTEGER NOT NULL, -- Scheduled periodic payment in cents
+  status TEXT NOT NULL DEFAULT 'active', -- 'active', 'pending_approval', 'paid_off', 'defaulted', 'cancelled', 'draft'
+  collateral_description TEXT,
+  collateral_value INTEGER, -- Cents
+  next_payment_date INTEGER, -- Unix timestamp of the next unpaid scheduled payment
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  updated_at INTEGER NOT NULL DEFAULT (unixepoch())
+);
+CREATE INDEX IF NOT EXISTS idx_loans_entity ON loans(user_id, entity_id);
+
+CREATE TABLE IF NOT EXISTS loan_schedules (
+  id TEXT PRIMARY KEY, -- e.g., UUID
+  loan_id TEXT NOT NULL REFERENCES loans(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  payment_number INTEGER NOT NULL, -- 1-based
+  payment_date INTEGER NOT NULL, -- Scheduled payment date (Unix timestamp)
+  total_payment INTEGER NOT NULL, -- Cents
+  principal_portion INTEGER NOT NULL, -- Cents
+  interest_portion INTEGER NOT NULL, -- Cents
+  remaining_balance INTEGER NOT NULL, -- Expected principal balance after this payment, in cents
+  status TEXT NOT NULL DEFAULT 'scheduled', -- 'scheduled', 'paid', 'pending_payment', 'skipped', 'missed'
+  actual_payment_date INTEGER, -- Unix timestamp
+  actual_payment_amount INTEGER, -- Cents
+  transaction_id TEXT REFERENCES transactions(id) ON DELETE SET NULL,
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  updated_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  CONSTRAINT uq_loan_schedules_payment UNIQUE (loan_id, payment_number)
+);
+CREATE INDEX IF NOT EXISTS idx_loan_schedules_loan ON loan_schedules(loan_id, payment_date);
@@ -0,0 +1,5 @@
+-- src/db/migrations/0007_loan_payments.sql
+-- Tracks scheduled loan payments that were not covered in full and rolled into the next payment.
+-- Date: 2025-05-31
+
+ALTER TABLE loans ADD COLUMN arrears_amount INTEGER NOT NULL DEFAULT 0; -- Cents
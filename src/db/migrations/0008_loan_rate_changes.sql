@@ -0,0 +1,18 @@
+-- src/db/migrations/0008_loan_rate_changes.sql
+-- Effective-dated interest rate changes for variable-rate loans.
+-- Date: 2025-06-01
+
+CREATE TABLE IF NOT EXISTS loan_rate_changes (
+  id TEXT PRIMARY KEY, -- e.g., UUID
+  loan_id TEXT NOT NULL REFERENCES loans(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  effective_date INTEGER NOT NULL, -- Unix timestamp the new rate applies from
+  index_name TEXT, -- e.g., 'SOFR', 'Prime'
+  index_rate INTEGER, -- Index value in basis points, when the rate is index + margin
+  margin INTEGER, -- Spread over the index in basis points
+  interest_rate INTEGER NOT NULL, -- All-in annual rate in basis points
+  note TEXT,
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  CONSTRAINT uq_loan_rate_changes_effective UNIQUE (loan_id, effective_date)
+);
+CREATE INDEX IF NOT EXISTS idx_loan_rate_changes_loan ON loan_rate_changes(loan_id, effective_date);
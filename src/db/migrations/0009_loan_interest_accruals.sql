@@ -0,0 +1,24 @@
+-- src/db/migrations/0009_loan_interest_accruals.sql
+-- Day-count conventions on loans and month-end interest accruals with their reversals.
+-- Date: 2025-06-08
+
+ALTER TABLE loans ADD COLUMN day_count_convention TEXT NOT NULL DEFAULT 'actual_365'
+  CHECK (day_count_convention IN ('actual_365', 'actual_360', '30_360'));
+
+CREATE TABLE IF NOT EXISTS loan_interest_accruals (
+  id TEXT PRIMARY KEY, -- e.g., UUID
+  loan_id TEXT NOT NULL REFERENCES loans(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  entity_id TEXT NOT NULL REFERENCES entities(id) ON DELETE CASCADE,
+  period_end INTEGER NOT NULL, -- Unix timestamp of the last day of the accrual period
+  accrual_start INTEGER NOT NULL, -- Last scheduled payment date (or origination) accrued from
+  days INTEGER NOT NULL, -- Days accrued under the day-count convention
+  day_count_convention TEXT NOT NULL,
+  principal_balance INTEGER NOT NULL, -- Cents the interest was accrued on
+  amount INTEGER NOT NULL, -- Accrued interest in cents
+  transaction_id TEXT NOT NULL REFERENCES transactions(id),
+  reversal_transaction_id TEXT NOT NULL REFERENCES transactions(id),
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  CONSTRAINT uq_loan_interest_accruals_period UNIQUE (loan_id, period_end)
+);
+CREATE INDEX IF NOT EXISTS idx_loan_interest_accruals_entity ON loan_interest_accruals(entity_id, period_end);
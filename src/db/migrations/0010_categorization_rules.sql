@@ -0,0 +1,21 @@
+-- src/db/migrations/0010_categorization_rules.sql
+-- Per-user transaction categorization rules for the RuleEngine.
+-- Date: 2025-06-15
+
+CREATE TABLE IF NOT EXISTS categorization_rules (
+  id TEXT PRIMARY KEY, -- e.g., UUID
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  entity_id TEXT REFERENCES entities(id) ON DELETE CASCADE, -- NULL for rules that apply to every entity
+  template_id TEXT, -- Default rule this was seeded from (e.g., 'std-bank-fee-service')
+  name TEXT NOT NULL,
+  description TEXT,
+  is_active INTEGER NOT NULL DEFAULT 1, -- 0 for false, 1 for true
+  priority INTEGER NOT NULL DEFAULT 50, -- Higher runs first
+  conditions TEXT NOT NULL, -- JSON array of RuleCondition
+  action TEXT NOT NULL, -- JSON RuleAction; accountId is an entity_accounts id
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  updated_at INTEGER NOT NULL DEFAULT (unixepoch())
+);
+CREATE INDEX IF NOT EXISTS idx_categorization_rules_user_entity ON categorization_rules(user_id, entity_id);
+CREATE UNIQUE INDEX IF NOT EXISTS uq_categorization_rules_template
+  ON categorization_rules(user_id, entity_id, template_id) WHERE template_id IS NOT NULL;
@@ -0,0 +1,56 @@
+-- src/db/migrations/0011_bank_imports.sql
+-- Saved bank CSV column mappings and staged statement imports awaiting review.
+-- Date: 2025-06-22
+
+CREATE TABLE IF NOT EXISTS bank_import_mappings (
+  id TEXT PRIMARY KEY, -- e.g., UUID
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL, -- e.g., the bank's name
+  date_column TEXT NOT NULL,
+  description_column TEXT NOT NULL,
+  amount_column TEXT, -- Single signed amount column
+  debit_column TEXT, -- Or separate money-out / money-in columns
+  credit_column TEXT,
+  reference_column TEXT,
+  sign_convention TEXT NOT NULL DEFAULT 'deposits_positive'
+    CHECK (sign_convention IN ('deposits_positive', 'withdrawals_positive')),
+  date_format TEXT NOT NULL DEFAULT 'MM/DD/YYYY',
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  updated_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  CONSTRAINT uq_bank_import_mappings_name UNIQUE (user_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS bank_import_batches (
+  id TEXT PRIMARY KEY, -- e.g., UUID
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  entity_id TEXT NOT NULL REFERENCES entities(id) ON DELETE CASCADE,
+  cash_entity_account_id TEXT NOT NULL REFERENCES entity_accounts(id),
+  source TEXT NOT NULL, -- 'csv'
+  file_name TEXT,
+  mapping_id TEXT REFERENCES bank_import_mappings(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'staged' CHECK (status IN ('staged', 'posted', 'discarded')),
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  updated_at INTEGER NOT NULL DEFAULT (unixepoch())
+);
+CREATE INDEX IF NOT EXISTS idx_bank_import_batches_entity ON bank_import_batches(user_id, entity_id, created_at);
+
+CREATE TABLE IF NOT EXISTS bank_import_items (
+  id TEXT PRIMARY KEY, -- e.g., UUID
+  batch_id TEXT NOT NULL REFERENCES bank_import_batches(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  row_number INTEGER NOT NULL,
+  date INTEGER NOT NULL, -- Unix timestamp of the bank posting date
+  description TEXT NOT NULL,
+  amount INTEGER NOT NULL, -- Positive cents
+  direction TEXT NOT NULL CHECK (direction IN ('debit', 'credit')), -- Money out / money in
+  reference TEXT,
+  rule_id TEXT, -- Categorization rule that proposed the account, if any
+  category_entity_account_id TEXT REFERENCES entity_accounts(id),
+  note TEXT,
+  status TEXT NOT NULL DEFAULT 'uncategorized'
+    CHECK (status IN ('proposed', 'uncategorized', 'skipped', 'posted')),
+  transaction_id TEXT REFERENCES transactions(id) ON DELETE SET NULL,
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  updated_at INTEGER NOT NULL DEFAULT (unixepoch())
+);
+CREATE INDEX IF NOT EXISTS idx_bank_import_items_batch ON bank_import_items(batch_id, row_number);
@@ -0,0 +1,7 @@
+-- src/db/migrations/0012_ofx_imports.sql
+-- Keeps the bank's own id and memo for staged statement lines (OFX/QFX FITID and MEMO).
+-- bank_import_batches.source may now also be 'ofx'.
+-- Date: 2025-06-24
+
+ALTER TABLE bank_import_items ADD COLUMN external_id TEXT;
+ALTER TABLE bank_import_items ADD COLUMN memo TEXT;
@@ -0,0 +1,18 @@
+-- src/db/migrations/0013_bank_import_duplicates.sql
+-- External ids seen per cash account, so re-imported bank lines are recognised, and
+-- duplicate flags on staged import lines.
+-- Date: 2025-06-26
+
+CREATE TABLE IF NOT EXISTS bank_import_external_ids (
+  cash_entity_account_id TEXT NOT NULL REFERENCES entity_accounts(id) ON DELETE CASCADE,
+  external_id TEXT NOT NULL, -- FITID, or 'hash:' + SHA-256 of date, direction, amount and description
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  entity_id TEXT NOT NULL REFERENCES entities(id) ON DELETE CASCADE,
+  item_id TEXT NOT NULL REFERENCES bank_import_items(id) ON DELETE CASCADE, -- First line imported with this id
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  PRIMARY KEY (cash_entity_account_id, external_id)
+);
+
+ALTER TABLE bank_import_items ADD COLUMN duplicate_flag TEXT CHECK (duplicate_flag IN ('exact', 'possible'));
+ALTER TABLE bank_import_items ADD COLUMN duplicate_of_item_id TEXT REFERENCES bank_import_items(id) ON DELETE SET NULL;
+ALTER TABLE bank_import_items ADD COLUMN duplicate_of_transaction_id TEXT REFERENCES transactions(id) ON DELETE SET NULL;
@@ -0,0 +1,32 @@
+-- src/db/migrations/0014_bank_reconciliations.sql
+-- Bank reconciliation sessions for cash accounts and the transactions cleared (or left
+-- outstanding) in each.
+-- Date: 2025-06-28
+
+CREATE TABLE IF NOT EXISTS bank_reconciliations (
+  id TEXT PRIMARY KEY, -- e.g., UUID
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  entity_id TEXT NOT NULL REFERENCES entities(id) ON DELETE CASCADE,
+  cash_entity_account_id TEXT NOT NULL REFERENCES entity_accounts(id),
+  statement_end_date INTEGER NOT NULL, -- Unix timestamp
+  statement_ending_balance INTEGER NOT NULL, -- Cents, signed
+  beginning_balance INTEGER NOT NULL DEFAULT 0, -- Cents: prior reconciliation's ending balance
+  status TEXT NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'completed')),
+  completed_at INTEGER,
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  updated_at INTEGER NOT NULL DEFAULT (unixepoch())
+);
+CREATE INDEX IF NOT EXISTS idx_bank_reconciliations_account
+  ON bank_reconciliations(cash_entity_account_id, statement_end_date);
+-- One open session per cash account
+CREATE UNIQUE INDEX IF NOT EXISTS uq_bank_reconciliations_in_progress
+  ON bank_reconciliations(cash_entity_account_id) WHERE status = 'in_progress';
+
+CREATE TABLE IF NOT EXISTS bank_reconciliation_items (
+  reconciliation_id TEXT NOT NULL REFERENCES bank_reconciliations(id) ON DELETE CASCADE,
+  transaction_id TEXT NOT NULL REFERENCES transactions(id),
+  amount INTEGER NOT NULL, -- Cents, signed effect on the cash account (+ money in, - money out)
+  is_cleared INTEGER NOT NULL DEFAULT 1, -- 0 rows are the outstanding items recorded at completion
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  PRIMARY KEY (reconciliation_id, transaction_id)
+);
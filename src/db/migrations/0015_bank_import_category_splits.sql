@@ -0,0 +1,7 @@
+-- src/db/migrations/0015_bank_import_category_splits.sql
+-- Staged import lines categorized by a split rule keep every category line.
+-- Date: 2025-06-30
+
+-- JSON array of { entity_account_id, amount, memo } summing to the line amount;
+-- category_entity_account_id is NULL when this is set.
+ALTER TABLE bank_import_items ADD COLUMN category_splits TEXT;
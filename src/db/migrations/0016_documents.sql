@@ -0,0 +1,27 @@
+-- src/db/migrations/0016_documents.sql
+-- Uploaded documents (receipts, invoices, leases) stored in the DOCUMENTS R2 bucket, and
+-- their links to transactions, entities and loans.
+-- Date: 2025-07-01
+
+CREATE TABLE IF NOT EXISTS documents (
+  id TEXT PRIMARY KEY, -- e.g., UUID
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  storage_key TEXT NOT NULL UNIQUE, -- R2 object key: '<user_id>/<document id>'
+  file_name TEXT NOT NULL,
+  content_type TEXT NOT NULL,
+  size_bytes INTEGER NOT NULL,
+  description TEXT,
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  updated_at INTEGER NOT NULL DEFAULT (unixepoch())
+);
+CREATE INDEX IF NOT EXISTS idx_documents_user ON documents(user_id, created_at);
+
+CREATE TABLE IF NOT EXISTS document_links (
+  document_id TEXT NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  target_type TEXT NOT NULL CHECK (target_type IN ('transaction', 'entity', 'loan')),
+  target_id TEXT NOT NULL, -- transactions.id, entities.id or loans.id, by target_type
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  PRIMARY KEY (document_id, target_type, target_id)
+);
+CREATE INDEX IF NOT EXISTS idx_document_links_target ON document_links(target_type, target_id);
@@ -0,0 +1,32 @@
+-- src/db/migrations/0017_intercompany_transactions.sql
+-- Intercompany transactions: one business event between two entities of the same user,
+-- posted as a mirrored pair of journal entries against due from / due to accounts.
+-- Date: 2025-07-03
+
+CREATE TABLE IF NOT EXISTS intercompany_transactions (
+  id TEXT PRIMARY KEY, -- e.g., UUID
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('advance', 'settlement')),
+  -- The entity that provides the money or service. Its entry debits its due account and
+  -- credits its counter account; the other entity's entry does the opposite.
+  from_entity_id TEXT NOT NULL REFERENCES entities(id) ON DELETE CASCADE,
+  to_entity_id TEXT NOT NULL REFERENCES entities(id) ON DELETE CASCADE,
+  date INTEGER NOT NULL, -- Unix timestamp
+  amount INTEGER NOT NULL CHECK (amount > 0), -- Cents
+  description TEXT NOT NULL,
+  reference TEXT,
+  from_transaction_id TEXT NOT NULL UNIQUE REFERENCES transactions(id) ON DELETE RESTRICT,
+  to_transaction_id TEXT NOT NULL UNIQUE REFERENCES transactions(id) ON DELETE RESTRICT,
+  from_due_entity_account_id TEXT NOT NULL REFERENCES entity_accounts(id),
+  from_counter_entity_account_id TEXT NOT NULL REFERENCES entity_accounts(id),
+  to_due_entity_account_id TEXT NOT NULL REFERENCES entity_accounts(id),
+  to_counter_entity_account_id TEXT NOT NULL REFERENCES entity_accounts(id),
+  -- 1 when both counter accounts are income or expense (e.g. a management fee), so the
+  -- activity is eliminated in consolidation along with the due balances.
+  eliminates_activity INTEGER NOT NULL DEFAULT 0,
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  updated_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  CHECK (from_entity_id != to_entity_id)
+);
+CREATE INDEX IF NOT EXISTS idx_intercompany_transactions_from ON intercompany_transactions(from_entity_id, date);
+CREATE INDEX IF NOT EXISTS idx_intercompany_transactions_to ON intercompany_transactions(to_entity_id, date);
@@ -0,0 +1,25 @@
+-- src/db/migrations/0018_entity_ownership.sql
+-- Effective-dated ownership stakes in an entity, held either by another entity or by an
+-- outside owner (a person or a company not tracked in the app). Consolidation uses them
+-- to split subsidiary equity and net income into a non-controlling interest.
+-- Date: 2025-07-05
+
+CREATE TABLE IF NOT EXISTS entity_ownerships (
+  id TEXT PRIMARY KEY, -- e.g., UUID
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  entity_id TEXT NOT NULL REFERENCES entities(id) ON DELETE CASCADE, -- The entity that is owned
+  owner_entity_id TEXT REFERENCES entities(id) ON DELETE CASCADE,
+  owner_name TEXT, -- Outside owner, when owner_entity_id is NULL
+  -- The owner's stake from effective_date until the owner's next record; 0 ends the stake.
+  ownership_bps INTEGER NOT NULL CHECK (ownership_bps BETWEEN 0 AND 10000),
+  effective_date INTEGER NOT NULL, -- Unix timestamp
+  note TEXT,
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  updated_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  CHECK ((owner_entity_id IS NULL) != (owner_name IS NULL)),
+  CHECK (owner_entity_id IS NULL OR owner_entity_id != entity_id)
+);
+CREATE INDEX IF NOT EXISTS idx_entity_ownerships_entity ON entity_ownerships(entity_id, effective_date);
+CREATE INDEX IF NOT EXISTS idx_entity_ownerships_owner ON entity_ownerships(owner_entity_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_entity_ownerships_owner_date
+  ON entity_ownerships(entity_id, COALESCE(owner_entity_id, owner_name), effective_date);
@@ -0,0 +1,50 @@
+-- src/db/migrations/0019_partner_capital.sql
+-- Partners (members) of an entity with individual capital accounts, and the terms of the
+-- entity's distribution waterfall. Contributions post to 3010 Capital and distributions to
+-- 3020 Draws; partner_capital_entries is the per-partner subledger behind those accounts.
+-- Date: 2025-07-07
+
+CREATE TABLE IF NOT EXISTS partners (
+  id TEXT PRIMARY KEY, -- e.g., UUID
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  entity_id TEXT NOT NULL REFERENCES entities(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('investor', 'sponsor')),
+  -- Percentage interest used to allocate income and losses, in basis points.
+  ownership_bps INTEGER NOT NULL DEFAULT 0 CHECK (ownership_bps BETWEEN 0 AND 10000),
+  is_active INTEGER NOT NULL DEFAULT 1,
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  updated_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  UNIQUE (entity_id, name)
+);
+CREATE INDEX IF NOT EXISTS idx_partners_entity ON partners(entity_id);
+
+CREATE TABLE IF NOT EXISTS partner_capital_entries (
+  id TEXT PRIMARY KEY, -- e.g., UUID
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  entity_id TEXT NOT NULL REFERENCES entities(id) ON DELETE CASCADE,
+  partner_id TEXT NOT NULL REFERENCES partners(id) ON DELETE RESTRICT,
+  kind TEXT NOT NULL CHECK (kind IN ('contribution', 'distribution', 'income_allocation')),
+  date INTEGER NOT NULL, -- Unix timestamp
+  amount INTEGER NOT NULL, -- Cents; negative only for an allocated loss
+  -- Waterfall tier that paid a distribution.
+  tier TEXT CHECK (tier IS NULL OR tier IN ('return_of_capital', 'preferred_return', 'catch_up', 'promote')),
+  -- Journal entry for contributions and distributions; entries of a voided one are ignored.
+  transaction_id TEXT REFERENCES transactions(id) ON DELETE RESTRICT,
+  period_start INTEGER, -- Income allocations: the period whose net income was allocated
+  period_end INTEGER,
+  description TEXT,
+  created_at INTEGER NOT NULL DEFAULT (unixepoch())
+);
+CREATE INDEX IF NOT EXISTS idx_partner_capital_entries_partner ON partner_capital_entries(partner_id, date);
+CREATE INDEX IF NOT EXISTS idx_partner_capital_entries_entity ON partner_capital_entries(entity_id, kind, date);
+
+CREATE TABLE IF NOT EXISTS distribution_waterfalls (
+  entity_id TEXT PRIMARY KEY REFERENCES entities(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  preferred_return_bps INTEGER NOT NULL CHECK (preferred_return_bps >= 0), -- Annual, simple
+  catch_up_bps INTEGER NOT NULL DEFAULT 0 CHECK (catch_up_bps BETWEEN 0 AND 10000), -- 0 = no catch-up
+  promote_bps INTEGER NOT NULL CHECK (promote_bps BETWEEN 0 AND 10000),
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  updated_at INTEGER NOT NULL DEFAULT (unixepoch())
+);
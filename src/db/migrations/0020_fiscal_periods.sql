@@ -0,0 +1,34 @@
+-- src/db/migrations/0020_fiscal_periods.sql
+-- Fiscal years and month-by-month period close. A period is a calendar month of an entity;
+-- months without a row are open. Posting into a closed month is rejected, and posting into
+-- a soft-closed month takes an administrator's override, which is logged with its reason.
+-- Date: 2025-07-09
+
+-- 1 = January. Fiscal years are named for the calendar year they end in.
+ALTER TABLE entities ADD COLUMN fiscal_year_start_month INTEGER NOT NULL DEFAULT 1
+  CHECK (fiscal_year_start_month BETWEEN 1 AND 12);
+
+CREATE TABLE IF NOT EXISTS fiscal_periods (
+  id TEXT PRIMARY KEY, -- e.g., UUID
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  entity_id TEXT NOT NULL REFERENCES entities(id) ON DELETE CASCADE,
+  period_start INTEGER NOT NULL, -- Unix timestamp of the first instant of the month (UTC)
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'soft_closed', 'closed')),
+  closed_at INTEGER, -- Unix timestamp of the last soft or hard close; NULL while open
+  note TEXT,
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  updated_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  UNIQUE (entity_id, period_start)
+);
+
+-- One row for every posting let into a soft-closed period.
+CREATE TABLE IF NOT EXISTS period_lock_overrides (
+  id TEXT PRIMARY KEY, -- e.g., UUID
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  entity_id TEXT NOT NULL REFERENCES entities(id) ON DELETE CASCADE,
+  period_start INTEGER NOT NULL,
+  transaction_id TEXT NOT NULL REFERENCES transactions(id) ON DELETE RESTRICT,
+  reason TEXT NOT NULL,
+  created_at INTEGER NOT NULL DEFAULT (unixepoch())
+);
+CREATE INDEX IF NOT EXISTS idx_period_lock_overrides_period ON period_lock_overrides(entity_id, period_start);
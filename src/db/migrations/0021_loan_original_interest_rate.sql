@@ -0,0 +1,10 @@
+-- src/db/migrations/0021_loan_original_interest_rate.sql
+-- The rate a loan was originated at. loans.interest_rate follows the latest recorded rate
+-- change, which may not be effective yet, so the rate on a given date is the latest
+-- loan_rate_changes row effective by then, falling back to this one.
+-- Date: 2025-07-16
+
+ALTER TABLE loans ADD COLUMN original_interest_rate INTEGER NOT NULL DEFAULT 0; -- Basis points
+
+-- Exact for loans without rate changes; loans with one only kept their latest rate.
+UPDATE loans SET original_interest_rate = interest_rate;
@@ -69,12 +69,20 @@ export interface DbEntity {
   parent_id?: string | null; // Self-referential foreign key for parent entity
   is_active: number; // 0 or 1
   allows_sub_entities: number; // 0 or 1
+  fiscal_year_start_month?: number; // 1-12 (January = 1)
   created_at: number; // Unix epoch
   updated_at: number; // Unix epoch
 }
 
 export type AccountSystemType = 'asset' | 'liability' | 'equity' | 'income' | 'expense';
 
+/**
+ * Where an account's movements appear on the statement of cash flows.
+ * 'cash' marks cash and equivalents; 'non_cash' marks add-backs such as depreciation
+ * (and their balance-sheet counterparts, which are then left out of investing).
+ */
+export type CashFlowCategory = 'cash' | 'operating' | 'investing' | 'financing' | 'non_cash';
+
 export interface DbChartOfAccount {
   id: string; // UUID
   user_id: string;
@@ -87,6 +95,7 @@ export interface DbChartOfAccount {
   recovery_percentage?: number | null; // Integer: Basis points (e.g., 100.00% = 10000). Defaults to 10000 in DB.
   is_active: number; // 0 or 1
   tax_category?: string | null;
+  cash_flow_category?: CashFlowCategory | null; // Null inherits from the parent account
   parent_id?: string | null; // Self-referential foreign key for hierarchical CoA
   created_at: number; // Unix epoch
   updated_at: number; // Unix epoch
@@ -128,6 +137,9 @@ export interface DbTransaction {
   status: TransactionStatusType; // Defaults to 'posted' in DB
   is_reconciled: number; // 0 or 1
   document_url?: string | null;
+  reverses_transaction_id?: string | null; // Set on a reversing entry; points at the voided transaction
+  voided_at?: number | null; // Unix epoch, set when status becomes 'voided'
+  void_reason?: string | null;
   created_at: number; // Unix epoch
   updated_at: number; // Unix epoch
 }
@@ -143,40 +155,318 @@ export interface DbTransactionLine {
   // No updated_at by design in your SQL (immutable ledger lines)
 }
 
-// Commented out interfaces for future tables are fine as placeholders.
-/*
+export interface DbCamTenant {
+  id: string; // UUID
+  user_id: string;
+  entity_id: string;
+  name: string;
+  pro_rata_share: number; // Integer: Basis points of the recoverable pool (e.g., 25.00% = 2500)
+  is_active: number; // 0 or 1
+  created_at: number; // Unix epoch
+  updated_at: number; // Unix epoch
+}
+
+export interface DbCamTenantEstimate {
+  id: string; // UUID
+  user_id: string;
+  tenant_id: string; // Refers to DbCamTenant.id
+  year: number; // Calendar year reconciled, e.g., 2025
+  billed_amount: number; // Integer: cents of estimated recoveries billed
+  created_at: number; // Unix epoch
+  updated_at: number; // Unix epoch
+}
+
 export interface DbLoan {
   id: string; // UUID
   user_id: string;
   entity_id: string;
-  lender_name: string; // Or borrower_name if it's a note receivable
+  direction: 'receivable' | 'payable';
+  borrower_name?: string | null; // Note receivable: who owes the entity
+  lender_name?: string | null; // Note payable: who the entity owes
+  description?: string | null;
   loan_type: string;
   original_principal: number; // Integer: cents
   current_principal: number; // Integer: cents
-  interest_rate: number; // Integer: Basis points (e.g., 5.25% = 525)
+  interest_rate: number; // Integer: Basis points (e.g., 5.25% = 525); the latest recorded rate
+  original_interest_rate: number; // Integer: Basis points, the rate before any rate change
   interest_rate_type: 'fixed' | 'variable';
+  day_count_convention: 'actual_365' | 'actual_360' | '30_360';
   origination_date: number; // Unix epoch
   maturity_date: number; // Unix epoch
   payment_frequency: string; // e.g., 'monthly', 'quarterly'
+  payment_interval_months?: number | null; // Only for 'custom' frequency
+  payment_amount: number; // Integer: cents
+  status: string; // e.g., 'active', 'paid_off', 'defaulted'
+  collateral_description?: string | null;
+  collateral_value?: number | null; // Integer: cents
   next_payment_date?: number | null; // Unix epoch
-  status: string; // e.g., 'active', 'paid_off', 'default'
+  arrears_amount: number; // Integer: cents rolled into the next scheduled payment
   created_at: number;
   updated_at: number;
 }
 
-export interface DbLoanPayment {
+export interface DbLoanSchedule {
   id: string; // UUID
   loan_id: string;
+  user_id: string;
+  payment_number: number;
   payment_date: number; // Unix epoch
-  amount_paid: number; // Integer: cents
-  principal_paid: number; // Integer: cents
-  interest_paid: number; // Integer: cents
-  escrow_paid?: number | null; // Integer: cents
-  late_fee_paid?: number | null; // Integer: cents
-  ending_balance: number; // Integer: cents (after this payment)
+  total_payment: number; // Integer: cents
+  principal_portion: number; // Integer: cents
+  interest_portion: number; // Integer: cents
+  remaining_balance: number; // Integer: cents (after this payment)
+  status: string; // 'scheduled', 'paid', 'pending_payment', 'skipped', 'missed'
+  actual_payment_date?: number | null; // Unix epoch
+  actual_payment_amount?: number | null; // Integer: cents
+  transaction_id?: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface DbLoanRateChange {
+  id: string; // UUID
+  loan_id: string;
+  user_id: string;
+  effective_date: number; // Unix epoch
+  index_name?: string | null;
+  index_rate?: number | null; // Integer: Basis points
+  margin?: number | null; // Integer: Basis points
+  interest_rate: number; // Integer: Basis points (all-in rate)
+  note?: string | null;
+  created_at: number;
+}
+
+export interface DbLoanInterestAccrual {
+  id: string; // UUID
+  loan_id: string;
+  user_id: string;
+  entity_id: string;
+  period_end: number; // Unix epoch, last day of the period
+  accrual_start: number; // Unix epoch
+  days: number;
+  day_count_convention: 'actual_365' | 'actual_360' | '30_360';
+  principal_balance: number; // Integer: cents
+  amount: number; // Integer: cents
+  transaction_id: string;
+  reversal_transaction_id: string;
+  created_at: number;
+}
+
+export interface DbCategorizationRule {
+  id: string; // UUID
+  user_id: string;
+  entity_id?: string | null; // NULL for rules that apply to every entity
+  template_id?: string | null;
+  name: string;
+  description?: string | null;
+  is_active: number; // 0 or 1
+  priority: number;
+  conditions: string; // JSON array of RuleConditionNode (conditions and all/any/not groups)
+  action: string; // JSON RuleAction
+  created_at: number;
+  updated_at: number;
+}
+
+export interface DbBankImportMapping {
+  id: string; // UUID
+  user_id: string;
+  name: string;
+  date_column: string;
+  description_column: string;
+  amount_column?: string | null;
+  debit_column?: string | null;
+  credit_column?: string | null;
+  reference_column?: string | null;
+  sign_convention: 'deposits_positive' | 'withdrawals_positive';
+  date_format: string;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface DbBankImportBatch {
+  id: string; // UUID
+  user_id: string;
+  entity_id: string;
+  cash_entity_account_id: string;
+  source: string; // 'csv' | 'ofx'
+  file_name?: string | null;
+  mapping_id?: string | null;
+  status: 'staged' | 'posted' | 'discarded';
+  created_at: number;
+  updated_at: number;
+}
+
+export interface DbBankImportItem {
+  id: string; // UUID
+  batch_id: string;
+  user_id: string;
+  row_number: number;
+  date: number; // Unix epoch
+  description: string;
+  amount: number; // Integer: cents, positive
+  direction: 'debit' | 'credit'; // Money out / money in
   reference?: string | null;
+  external_id?: string | null; // e.g. OFX FITID
+  memo?: string | null;
+  rule_id?: string | null;
+  category_entity_account_id?: string | null;
+  category_splits?: string | null; // JSON BankImportCategorySplit[], from a split rule
+  note?: string | null;
+  status: 'proposed' | 'uncategorized' | 'skipped' | 'posted';
+  transaction_id?: string | null;
+  duplicate_flag?: 'exact' | 'possible' | null;
+  duplicate_of_item_id?: string | null;
+  duplicate_of_transaction_id?: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface DbBankImportExternalId {
+  cash_entity_account_id: string;
+  external_id: string; // FITID or 'hash:' + SHA-256 of the line
+  user_id: string;
+  entity_id: string;
+  item_id: string; // First import line seen with this id
+  created_at: number;
+}
+
+export interface DbBankReconciliation {
+  id: string; // UUID
+  user_id: string;
+  entity_id: string;
+  cash_entity_account_id: string;
+  statement_end_date: number; // Unix epoch
+  statement_ending_balance: number; // Integer: cents, signed
+  beginning_balance: number; // Integer: cents, prior reconciliation's ending balance
+  status: 'in_progress' | 'completed';
+  completed_at?: number | null;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface DbBankReconciliationItem {
+  reconciliation_id: string;
+  transaction_id: string;
+  amount: number; // Integer: cents, signed effect on the cash account
+  is_cleared: number; // 0 or 1; 0 rows are outstanding at completion
   created_at: number;
 }
 
-// ... other future interfaces like DbTransactionRule, DbDocument etc.
+export interface DbDocument {
+  id: string; // UUID
+  user_id: string;
+  storage_key: string; // R2 object key in the DOCUMENTS bucket
+  file_name: string;
+  content_type: string;
+  size_bytes: number;
+  description?: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface DbDocumentLink {
+  document_id: string;
+  user_id: string;
+  target_type: 'transaction' | 'entity' | 'loan';
+  target_id: string;
+  created_at: number;
+}
+
+export interface DbIntercompanyTransaction {
+  id: string; // UUID
+  user_id: string;
+  kind: 'advance' | 'settlement';
+  from_entity_id: string;
+  to_entity_id: string;
+  date: number; // Unix epoch
+  amount: number; // Cents
+  description: string;
+  reference?: string | null;
+  from_transaction_id: string;
+  to_transaction_id: string;
+  from_due_entity_account_id: string;
+  from_counter_entity_account_id: string;
+  to_due_entity_account_id: string;
+  to_counter_entity_account_id: string;
+  eliminates_activity: number; // 0 or 1
+  created_at: number; // Unix epoch
+  updated_at: number; // Unix epoch
+}
+
+export interface DbEntityOwnership {
+  id: string; // UUID
+  user_id: string;
+  entity_id: string;
+  owner_entity_id?: string | null;
+  owner_name?: string | null;
+  ownership_bps: number; // Integer: Basis points, 0-10000
+  effective_date: number; // Unix epoch
+  note?: string | null;
+  created_at: number; // Unix epoch
+  updated_at: number; // Unix epoch
+}
+
+export interface DbPartner {
+  id: string; // UUID
+  user_id: string;
+  entity_id: string;
+  name: string;
+  role: 'investor' | 'sponsor';
+  ownership_bps: number; // Integer: Basis points
+  is_active: number; // 0 or 1
+  created_at: number; // Unix epoch
+  updated_at: number; // Unix epoch
+}
+
+export interface DbPartnerCapitalEntry {
+  id: string; // UUID
+  user_id: string;
+  entity_id: string;
+  partner_id: string;
+  kind: 'contribution' | 'distribution' | 'income_allocation';
+  date: number; // Unix epoch
+  amount: number; // Integer: Cents
+  tier?: 'return_of_capital' | 'preferred_return' | 'catch_up' | 'promote' | null;
+  transaction_id?: string | null;
+  period_start?: number | null;
+  period_end?: number | null;
+  description?: string | null;
+  created_at: number; // Unix epoch
+}
+
+export interface DbDistributionWaterfall {
+  entity_id: string;
+  user_id: string;
+  preferred_return_bps: number; // Integer: Basis points
+  catch_up_bps: number; // Integer: Basis points
+  promote_bps: number; // Integer: Basis points
+  created_at: number; // Unix epoch
+  updated_at: number; // Unix epoch
+}
+
+export interface DbFiscalPeriod {
+  id: string; // UUID
+  user_id: string;
+  entity_id: string;
+  period_start: number; // Unix epoch, first instant of the month (UTC)
+  status: 'open' | 'soft_closed' | 'closed';
+  closed_at?: number | null; // Unix epoch
+  note?: string | null;
+  created_at: number; // Unix epoch
+  updated_at: number; // Unix epoch
+}
+
+export interface DbPeriodLockOverride {
+  id: string; // UUID
+  user_id: string;
+  entity_id: string;
+  period_start: number; // Unix epoch
+  transaction_id: string;
+  reason: string;
+  created_at: number; // Unix epoch
+}
+
+// Commented out interfaces for future tables are fine as placeholders.
+/*
+// ... other future interfaces
 */
@@ -0,0 +1,46 @@
+// src/functions/api/cam/reconciliation.ts
+import type { APIContext } from 'astro';
+import { createCamService } from '@lib/services/cam-service';
+import { handleError } from '@utils/errors';
+import { camReconciliationQuerySchema, validateQueryParams } from '../utils/zodSchemas';
+
+/**
+ * GET /api/cam/reconciliation?entity_id=...&year=...
+ *
+ * Year-end CAM reconciliation: recoverable expenses after entity and chart of accounts
+ * recovery settings, each active tenant's pro-rata share and the true-up against estimates.
+ */
+export async function GET({ url, locals }: APIContext) {
+  try {
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const query = validateQueryParams(url, camReconciliationQuerySchema);
+
+    const camService = createCamService(locals.runtime.env.DB);
+    const report = await camService.getReconciliation(query.entity_id, query.year, userId);
+
+    return new Response(
+      JSON.stringify(report),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
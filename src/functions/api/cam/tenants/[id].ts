@@ -0,0 +1,126 @@
+// src/functions/api/cam/tenants/[id].ts
+import type { APIContext } from 'astro';
+import { createCamService } from '@lib/services/cam-service';
+import { AppError, ErrorCode, handleError } from '@utils/errors';
+import { camTenantUpdateSchema, validateRequestBody } from '../../utils/zodSchemas';
+
+/**
+ * GET /api/cam/tenants/[id]
+ */
+export async function GET({ params, locals }: APIContext) {
+  try {
+    const tenantId = params.id;
+    if (!tenantId) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Tenant ID is required in path.', 400);
+    }
+
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const camService = createCamService(locals.runtime.env.DB);
+    const tenant = await camService.getTenantById(tenantId, userId);
+    if (!tenant) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'CAM tenant not found or access denied.', 404);
+    }
+
+    return new Response(JSON.stringify(tenant), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    return new Response(
+      JSON.stringify({ error: appError.message, code: appError.code }),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * PUT /api/cam/tenants/[id]
+ *
+ * Updates a tenant's name, pro-rata share or active flag.
+ */
+export async function PUT({ params, request, locals }: APIContext) {
+  try {
+    const tenantId = params.id;
+    if (!tenantId) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Tenant ID is required in path.', 400);
+    }
+
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const validatedData = await validateRequestBody(request, camTenantUpdateSchema);
+
+    const camService = createCamService(locals.runtime.env.DB);
+    const updated = await camService.updateTenant(tenantId, validatedData, userId);
+
+    return new Response(JSON.stringify(updated), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * DELETE /api/cam/tenants/[id]
+ *
+ * Deletes a tenant together with its billed estimates.
+ */
+export async function DELETE({ params, locals }: APIContext) {
+  try {
+    const tenantId = params.id;
+    if (!tenantId) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Tenant ID is required in path.', 400);
+    }
+
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const camService = createCamService(locals.runtime.env.DB);
+    const success = await camService.deleteTenant(tenantId, userId);
+    if (!success) {
+      throw new AppError(ErrorCode.SERVER_ERROR, 'Failed to delete CAM tenant.', 500);
+    }
+
+    return new Response(
+      JSON.stringify({ message: 'CAM tenant deleted successfully.' }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    return new Response(
+      JSON.stringify({ error: appError.message, code: appError.code }),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
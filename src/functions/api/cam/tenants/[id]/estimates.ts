@@ -0,0 +1,51 @@
+// src/functions/api/cam/tenants/[id]/estimates.ts
+import type { APIContext } from 'astro';
+import { createCamService } from '@lib/services/cam-service';
+import { AppError, ErrorCode, handleError } from '@utils/errors';
+import { camEstimateSchema, validateRequestBody } from '../../../utils/zodSchemas';
+
+/**
+ * PUT /api/cam/tenants/[id]/estimates
+ *
+ * Records the estimated CAM recoveries billed to a tenant for a year, replacing any
+ * previous figure for that year. `billed_amount` is accepted in currency units.
+ */
+export async function PUT({ params, request, locals }: APIContext) {
+  try {
+    const tenantId = params.id;
+    if (!tenantId) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Tenant ID is required in path.', 400);
+    }
+
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const validatedData = await validateRequestBody(request, camEstimateSchema);
+
+    const camService = createCamService(locals.runtime.env.DB);
+    const estimate = await camService.setEstimate(tenantId, validatedData.year, validatedData.billed_amount, userId);
+
+    return new Response(JSON.stringify(estimate), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -0,0 +1,90 @@
+// src/functions/api/cam/tenants/index.ts
+import type { APIContext } from 'astro';
+import { createCamService } from '@lib/services/cam-service';
+import { handleError } from '@utils/errors';
+import {
+  camTenantInputSchema,
+  camTenantListQuerySchema,
+  validateQueryParams,
+  validateRequestBody,
+} from '../../utils/zodSchemas';
+
+/**
+ * GET /api/cam/tenants?entity_id=...
+ *
+ * Lists the tenants sharing in an entity's recoverable expense pool.
+ */
+export async function GET({ url, locals }: APIContext) {
+  try {
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const query = validateQueryParams(url, camTenantListQuerySchema);
+
+    const camService = createCamService(locals.runtime.env.DB);
+    const tenants = await camService.listTenants(query.entity_id, userId);
+
+    return new Response(
+      JSON.stringify(tenants),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * POST /api/cam/tenants
+ *
+ * Adds a tenant with a pro-rata share in basis points. Active shares may not exceed 100%.
+ */
+export async function POST({ request, locals }: APIContext) {
+  try {
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const validatedData = await validateRequestBody(request, camTenantInputSchema);
+
+    const camService = createCamService(locals.runtime.env.DB);
+    const tenant = await camService.createTenant(validatedData, userId);
+
+    return new Response(
+      JSON.stringify(tenant),
+      { status: 201, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
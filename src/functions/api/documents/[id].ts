@@ -0,0 +1,96 @@
+// src/functions/api/documents/[id].ts
+import type { APIContext } from 'astro';
+import { createDocumentService } from '@lib/services/document-service';
+import { AppError, ErrorCode, handleError } from '@utils/errors';
+
+/**
+ * GET /api/documents/[id]
+ *
+ * Retrieves a document's metadata and links. Use /api/documents/[id]/url to download it.
+ */
+export async function GET({ params, locals }: APIContext) {
+  try {
+    const id = params.id;
+    if (!id) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Document ID is required in path.', 400);
+    }
+
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const documentService = createDocumentService(locals.runtime.env.DB, locals.runtime.env.DOCUMENTS, locals.runtime.env.AUTH_SECRET);
+    const document = await documentService.getDocumentById(id, userId);
+    if (!document) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'Document not found or access denied.', 404);
+    }
+
+    return new Response(
+      JSON.stringify(document),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * DELETE /api/documents/[id]
+ *
+ * Deletes a document, its links and the stored file.
+ */
+export async function DELETE({ params, locals }: APIContext) {
+  try {
+    const id = params.id;
+    if (!id) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Document ID is required in path.', 400);
+    }
+
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const documentService = createDocumentService(locals.runtime.env.DB, locals.runtime.env.DOCUMENTS, locals.runtime.env.AUTH_SECRET);
+    const success = await documentService.deleteDocument(id, userId);
+    if (!success) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'Document not found or access denied.', 404);
+    }
+
+    return new Response(
+      JSON.stringify({ message: 'Document deleted successfully.' }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+// src/functions/api/documents/[id]/download.ts
+import type { APIContext } from 'astro';
+import { createDocumentService } from '@lib/services/document-service';
+import { AppError, ErrorCode, handleError } from '@utils/errors';
+import { documentDownloadQuerySchema, validateQueryParams } from '../../utils/zodSchemas';
+
+/**
+ * GET /api/documents/[id]/download?expires=...&signature=...
+ *
+ * Streams a document for a URL issued by /api/documents/[id]/url. The signed-in user must
+ * be the one the URL was issued to, and the URL must not have expired.
+ */
+export async function GET({ params, url, locals }: APIContext) {
+  try {
+    const id = params.id;
+    if (!id) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Document ID is required in path.', 400);
+    }
+
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const query = validateQueryParams(url, documentDownloadQuerySchema);
+
+    const documentService = createDocumentService(locals.runtime.env.DB, locals.runtime.env.DOCUMENTS, locals.runtime.env.AUTH_SECRET);
+    const { document, object } = await documentService.getDownload(id, userId, query.expires, query.signature);
+
+    return new Response(object.body as unknown as ReadableStream, {
+      status: 200,
+      headers: {
+        'Content-Type': document.content_type,
+        'Content-Length': String(document.size_bytes),
+        'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(document.file_name)}`,
+        'Cache-Control': 'private, no-store',
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
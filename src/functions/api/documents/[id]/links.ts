@@ -0,0 +1,98 @@
+// src/functions/api/documents/[id]/links.ts
+import type { APIContext } from 'astro';
+import { createDocumentService } from '@lib/services/document-service';
+import { AppError, ErrorCode, handleError } from '@utils/errors';
+import { documentLinkSchema, validateQueryParams, validateRequestBody } from '../../utils/zodSchemas';
+
+/**
+ * POST /api/documents/[id]/links
+ *
+ * Links a document to one of the user's transactions, entities or loans.
+ */
+export async function POST({ params, request, locals }: APIContext) {
+  try {
+    const id = params.id;
+    if (!id) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Document ID is required in path.', 400);
+    }
+
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const validatedData = await validateRequestBody(request, documentLinkSchema);
+
+    const documentService = createDocumentService(locals.runtime.env.DB, locals.runtime.env.DOCUMENTS, locals.runtime.env.AUTH_SECRET);
+    const document = await documentService.linkDocument(id, validatedData, userId);
+
+    return new Response(
+      JSON.stringify(document),
+      { status: 201, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * DELETE /api/documents/[id]/links?target_type=...&target_id=...
+ *
+ * Removes a link between a document and a transaction, entity or loan.
+ */
+export async function DELETE({ params, url, locals }: APIContext) {
+  try {
+    const id = params.id;
+    if (!id) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Document ID is required in path.', 400);
+    }
+
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const target = validateQueryParams(url, documentLinkSchema);
+
+    const documentService = createDocumentService(locals.runtime.env.DB, locals.runtime.env.DOCUMENTS, locals.runtime.env.AUTH_SECRET);
+    const success = await documentService.unlinkDocument(id, target, userId);
+    if (!success) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'Document link not found.', 404);
+    }
+
+    return new Response(
+      JSON.stringify({ message: 'Document link deleted successfully.' }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+// src/functions/api/documents/[id]/url.ts
+import type { APIContext } from 'astro';
+import { createDocumentService } from '@lib/services/document-service';
+import { AppError, ErrorCode, handleError } from '@utils/errors';
+
+/**
+ * GET /api/documents/[id]/url
+ *
+ * Issues a download URL for the document that only the signed-in user can use and that
+ * expires after a few minutes.
+ */
+export async function GET({ params, locals }: APIContext) {
+  try {
+    const id = params.id;
+    if (!id) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Document ID is required in path.', 400);
+    }
+
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const documentService = createDocumentService(locals.runtime.env.DB, locals.runtime.env.DOCUMENTS, locals.runtime.env.AUTH_SECRET);
+    const downloadUrl = await documentService.createDownloadUrl(id, userId);
+
+    return new Response(
+      JSON.stringify(downloadUrl),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
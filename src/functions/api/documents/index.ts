@@ -0,0 +1,129 @@
+// src/functions/api/documents/index.ts
+import type { APIContext } from 'astro';
+import { createDocumentService } from '@lib/services/document-service';
+import { MAX_DOCUMENT_BYTES, MAX_UPLOAD_REQUEST_BYTES } from '@lib/documents/fileTypes';
+import { AppError, ErrorCode, handleError } from '@utils/errors';
+import {
+  documentListQuerySchema,
+  documentUploadFieldsSchema,
+  validateFormFields,
+  validateQueryParams,
+} from '../utils/zodSchemas';
+
+/**
+ * GET /api/documents?target_type=...&target_id=...
+ *
+ * Lists the user's documents, newest first. With a target, only the documents linked to
+ * that transaction, entity or loan are returned.
+ */
+export async function GET({ url, locals }: APIContext) {
+  try {
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const query = validateQueryParams(url, documentListQuerySchema);
+
+    const documentService = createDocumentService(locals.runtime.env.DB, locals.runtime.env.DOCUMENTS, locals.runtime.env.AUTH_SECRET);
+    const documents = await documentService.listDocuments(
+      userId,
+      query.target_type && query.target_id ? { target_type: query.target_type, target_id: query.target_id } : undefined
+    );
+
+    return new Response(
+      JSON.stringify(documents),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * POST /api/documents
+ *
+ * Uploads a receipt, invoice, lease or other document as multipart/form-data: the `file`
+ * field plus an optional `description` and any number of `transaction_id`, `entity_id`
+ * and `loan_id` fields to link it to. Files are limited by size and content type; a request
+ * whose Content-Length is already too large is refused before its body is read.
+ */
+export async function POST({ request, locals }: APIContext) {
+  try {
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // formData() buffers the whole body, so an oversized upload is refused by its declared length first
+    const contentLength = Number(request.headers.get('Content-Length') ?? 0);
+    if (contentLength > MAX_UPLOAD_REQUEST_BYTES) {
+      throw new AppError(
+        ErrorCode.VALIDATION_ERROR,
+        `Documents may be at most ${MAX_DOCUMENT_BYTES / (1024 * 1024)} MB.`,
+        413,
+        { content_length: contentLength }
+      );
+    }
+
+    let formData: FormData;
+    try {
+      formData = await request.formData();
+    } catch {
+      throw new AppError(ErrorCode.BAD_REQUEST, 'Expected a multipart/form-data upload.', 400);
+    }
+    const file = formData.get('file');
+    if (!file || typeof file === 'string') {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'A file is required.', 400, { file: ['A file is required.'] });
+    }
+    const fields = validateFormFields(formData, documentUploadFieldsSchema, ['transaction_id', 'entity_id', 'loan_id']);
+
+    const documentService = createDocumentService(locals.runtime.env.DB, locals.runtime.env.DOCUMENTS, locals.runtime.env.AUTH_SECRET);
+    const document = await documentService.uploadDocument({
+      file,
+      file_name: file.name || 'document',
+      content_type: file.type,
+      description: fields.description,
+      links: [
+        ...fields.transaction_id.map(target_id => ({ target_type: 'transaction' as const, target_id })),
+        ...fields.entity_id.map(target_id => ({ target_type: 'entity' as const, target_id })),
+        ...fields.loan_id.map(target_id => ({ target_type: 'loan' as const, target_id })),
+      ],
+    }, userId);
+
+    return new Response(
+      JSON.stringify(document),
+      { status: 201, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
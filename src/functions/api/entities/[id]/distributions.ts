@@ -0,0 +1,54 @@
+// src/functions/api/entities/[id]/distributions.ts
+import type { APIContext } from 'astro';
+import { createPartnerService } from '@lib/services/partner-service';
+import { AppError, ErrorCode, handleError } from '@utils/errors';
+import {
+  distributionInputSchema,
+  validateRequestBody,
+} from '../../utils/zodSchemas';
+
+/**
+ * POST /api/entities/[id]/distributions
+ *
+ * Runs a distribution through the waterfall and posts it: 3020 Draws is debited for each
+ * partner and tier, the cash account credited for the total.
+ */
+export async function POST({ params, request, locals }: APIContext) {
+  try {
+    const id = params.id;
+    if (!id) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Entity ID is required in path.', 400);
+    }
+
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const validatedData = await validateRequestBody(request, distributionInputSchema);
+
+    const partnerService = createPartnerService(locals.runtime.env.DB);
+    const distribution = await partnerService.postDistribution(id, validatedData, userId);
+
+    return new Response(
+      JSON.stringify(distribution),
+      { status: 201, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -0,0 +1,102 @@
+// src/functions/api/entities/[id]/fiscal-periods.ts
+import type { APIContext } from 'astro';
+import { createFiscalPeriodService } from '@lib/services/fiscal-period-service';
+import { AppError, ErrorCode, handleError } from '@utils/errors';
+import {
+  fiscalPeriodStatusSchema,
+  fiscalYearQuerySchema,
+  validateQueryParams,
+  validateRequestBody,
+} from '../../utils/zodSchemas';
+
+/**
+ * GET /api/entities/[id]/fiscal-periods?fiscal_year=...
+ *
+ * Returns the twelve monthly periods of a fiscal year (default: the current one) with their
+ * open/soft-closed/closed status and any overrides posted into them.
+ */
+export async function GET({ params, url, locals }: APIContext) {
+  try {
+    const id = params.id;
+    if (!id) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Entity ID is required in path.', 400);
+    }
+
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const query = validateQueryParams(url, fiscalYearQuerySchema);
+
+    const fiscalPeriodService = createFiscalPeriodService(locals.runtime.env.DB);
+    const fiscalYear = await fiscalPeriodService.getFiscalYear(id, query.fiscal_year, userId);
+
+    return new Response(
+      JSON.stringify(fiscalYear),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * PUT /api/entities/[id]/fiscal-periods
+ *
+ * Opens, soft-closes or closes the month containing `period_start`. Reopening a closed
+ * period takes an administrator.
+ */
+export async function PUT({ params, request, locals }: APIContext) {
+  try {
+    const id = params.id;
+    if (!id) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Entity ID is required in path.', 400);
+    }
+
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const validatedData = await validateRequestBody(request, fiscalPeriodStatusSchema);
+
+    const fiscalPeriodService = createFiscalPeriodService(locals.runtime.env.DB);
+    const period = await fiscalPeriodService.setPeriodStatus(id, validatedData, userId);
+
+    return new Response(
+      JSON.stringify(period),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
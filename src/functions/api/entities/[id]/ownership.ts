@@ -0,0 +1,103 @@
+// src/functions/api/entities/[id]/ownership.ts
+import type { APIContext } from 'astro';
+import { createOwnershipService } from '@lib/services/ownership-service';
+import { AppError, ErrorCode, handleError } from '@utils/errors';
+import {
+  entityOwnershipInputSchema,
+  entityOwnershipQuerySchema,
+  validateQueryParams,
+  validateRequestBody,
+} from '../../utils/zodSchemas';
+
+/**
+ * GET /api/entities/[id]/ownership?as_of_date=...
+ *
+ * Returns who owns the entity and what it owns as of the date (default: now), with the
+ * entity's full ownership history.
+ */
+export async function GET({ params, url, locals }: APIContext) {
+  try {
+    const id = params.id;
+    if (!id) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Entity ID is required in path.', 400);
+    }
+
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const query = validateQueryParams(url, entityOwnershipQuerySchema);
+    const asOfDate = query.as_of_date ?? Math.floor(Date.now() / 1000);
+
+    const ownershipService = createOwnershipService(locals.runtime.env.DB);
+    const summary = await ownershipService.getOwnershipSummary(id, asOfDate, userId);
+
+    return new Response(
+      JSON.stringify(summary),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * POST /api/entities/[id]/ownership
+ *
+ * Records an owner's stake in the entity, in basis points, from its effective date on.
+ * The owner is another entity (`owner_entity_id`) or an outside owner (`owner_name`).
+ */
+export async function POST({ params, request, locals }: APIContext) {
+  try {
+    const id = params.id;
+    if (!id) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Entity ID is required in path.', 400);
+    }
+
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const validatedData = await validateRequestBody(request, entityOwnershipInputSchema);
+
+    const ownershipService = createOwnershipService(locals.runtime.env.DB);
+    const record = await ownershipService.recordOwnership(id, validatedData, userId);
+
+    return new Response(
+      JSON.stringify(record),
+      { status: 201, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+// src/functions/api/entities/[id]/ownership/[ownershipId].ts
+import type { APIContext } from 'astro';
+import { createOwnershipService } from '@lib/services/ownership-service';
+import { AppError, ErrorCode, handleError } from '@utils/errors';
+
+/**
+ * DELETE /api/entities/[id]/ownership/[ownershipId]
+ *
+ * Deletes an ownership record, e.g. one entered with the wrong date. To end a stake, record
+ * 0 basis points instead so the history is kept.
+ */
+export async function DELETE({ params, locals }: APIContext) {
+  try {
+    const id = params.id;
+    if (!id) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Entity ID is required in path.', 400);
+    }
+
+    const ownershipId = params.ownershipId;
+    if (!ownershipId) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Ownership record ID is required in path.', 400);
+    }
+
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const ownershipService = createOwnershipService(locals.runtime.env.DB);
+    const success = await ownershipService.deleteOwnershipRecord(id, ownershipId, userId);
+    if (!success) {
+      throw new AppError(ErrorCode.SERVER_ERROR, 'Failed to delete ownership record.', 500);
+    }
+
+    return new Response(
+      JSON.stringify({ message: 'Ownership record deleted successfully.' }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
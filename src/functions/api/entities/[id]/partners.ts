@@ -0,0 +1,102 @@
+// src/functions/api/entities/[id]/partners.ts
+import type { APIContext } from 'astro';
+import { createPartnerService } from '@lib/services/partner-service';
+import { AppError, ErrorCode, handleError } from '@utils/errors';
+import {
+  partnerCapitalQuerySchema,
+  partnerInputSchema,
+  validateQueryParams,
+  validateRequestBody,
+} from '../../utils/zodSchemas';
+
+/**
+ * GET /api/entities/[id]/partners?as_of_date=...
+ *
+ * Returns each partner's capital account as of the date (default: now): contributions,
+ * distributions, allocated income and what the waterfall still owes them.
+ */
+export async function GET({ params, url, locals }: APIContext) {
+  try {
+    const id = params.id;
+    if (!id) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Entity ID is required in path.', 400);
+    }
+
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const query = validateQueryParams(url, partnerCapitalQuerySchema);
+    const asOfDate = query.as_of_date ?? Math.floor(Date.now() / 1000);
+
+    const partnerService = createPartnerService(locals.runtime.env.DB);
+    const report = await partnerService.getCapitalAccounts(id, asOfDate, userId);
+
+    return new Response(
+      JSON.stringify(report),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * POST /api/entities/[id]/partners
+ *
+ * Adds a partner or member to the entity.
+ */
+export async function POST({ params, request, locals }: APIContext) {
+  try {
+    const id = params.id;
+    if (!id) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Entity ID is required in path.', 400);
+    }
+
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const validatedData = await validateRequestBody(request, partnerInputSchema);
+
+    const partnerService = createPartnerService(locals.runtime.env.DB);
+    const partner = await partnerService.createPartner(id, validatedData, userId);
+
+    return new Response(
+      JSON.stringify(partner),
+      { status: 201, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
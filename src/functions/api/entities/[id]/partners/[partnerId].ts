@@ -0,0 +1,58 @@
+// src/functions/api/entities/[id]/partners/[partnerId].ts
+import type { APIContext } from 'astro';
+import { createPartnerService } from '@lib/services/partner-service';
+import { AppError, ErrorCode, handleError } from '@utils/errors';
+import {
+  partnerUpdateSchema,
+  validateRequestBody,
+} from '../../../utils/zodSchemas';
+
+/**
+ * PUT /api/entities/[id]/partners/[partnerId]
+ *
+ * Updates a partner's name, role, percentage interest or active flag.
+ */
+export async function PUT({ params, request, locals }: APIContext) {
+  try {
+    const id = params.id;
+    if (!id) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Entity ID is required in path.', 400);
+    }
+
+    const partnerId = params.partnerId;
+    if (!partnerId) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Partner ID is required in path.', 400);
+    }
+
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const validatedData = await validateRequestBody(request, partnerUpdateSchema);
+
+    const partnerService = createPartnerService(locals.runtime.env.DB);
+    const partner = await partnerService.updatePartner(id, partnerId, validatedData, userId);
+
+    return new Response(
+      JSON.stringify(partner),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+// src/functions/api/entities/[id]/partners/[partnerId]/contributions.ts
+import type { APIContext } from 'astro';
+import { createPartnerService } from '@lib/services/partner-service';
+import { AppError, ErrorCode, handleError } from '@utils/errors';
+import {
+  capitalContributionSchema,
+  validateRequestBody,
+} from '../../../../utils/zodSchemas';
+
+/**
+ * POST /api/entities/[id]/partners/[partnerId]/contributions
+ *
+ * Records a capital contribution and posts it: debit the cash account, credit 3010 Capital.
+ */
+export async function POST({ params, request, locals }: APIContext) {
+  try {
+    const id = params.id;
+    if (!id) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Entity ID is required in path.', 400);
+    }
+
+    const partnerId = params.partnerId;
+    if (!partnerId) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Partner ID is required in path.', 400);
+    }
+
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const validatedData = await validateRequestBody(request, capitalContributionSchema);
+
+    const partnerService = createPartnerService(locals.runtime.env.DB);
+    const entry = await partnerService.recordContribution(id, partnerId, validatedData, userId);
+
+    return new Response(
+      JSON.stringify(entry),
+      { status: 201, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+// src/functions/api/entities/[id]/waterfall.ts
+import type { APIContext } from 'astro';
+import { createPartnerService } from '@lib/services/partner-service';
+import { AppError, ErrorCode, handleError } from '@utils/errors';
+import {
+  validateRequestBody,
+  waterfallTermsSchema,
+} from '../../utils/zodSchemas';
+
+/**
+ * GET /api/entities/[id]/waterfall
+ *
+ * Returns the entity's distribution waterfall terms, or null when none are set.
+ */
+export async function GET({ params, locals }: APIContext) {
+  try {
+    const id = params.id;
+    if (!id) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Entity ID is required in path.', 400);
+    }
+
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const partnerService = createPartnerService(locals.runtime.env.DB);
+    const terms = await partnerService.getWaterfallTerms(id, userId);
+
+    return new Response(
+      JSON.stringify(terms),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * PUT /api/entities/[id]/waterfall
+ *
+ * Sets the preferred return rate and the catch-up and promote shares, in basis points.
+ */
+export async function PUT({ params, request, locals }: APIContext) {
+  try {
+    const id = params.id;
+    if (!id) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Entity ID is required in path.', 400);
+    }
+
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const validatedData = await validateRequestBody(request, waterfallTermsSchema);
+
+    const partnerService = createPartnerService(locals.runtime.env.DB);
+    const terms = await partnerService.setWaterfallTerms(id, validatedData, userId);
+
+    return new Response(
+      JSON.stringify(terms),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -0,0 +1,93 @@
+// src/functions/api/imports/[id].ts
+import type { APIContext } from 'astro';
+import { createBankImportService } from '@lib/services/bank-import-service';
+import { AppError, ErrorCode, handleError } from '@utils/errors';
+
+/**
+ * GET /api/imports/[id]
+ *
+ * Retrieves a staged import with each line's proposed transaction.
+ */
+export async function GET({ params, locals }: APIContext) {
+  try {
+    const id = params.id;
+    if (!id) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Import ID is required in path.', 400);
+    }
+
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const importService = createBankImportService(locals.runtime.env.DB);
+    const batch = await importService.getBatch(id, userId);
+    if (!batch) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'Import not found or access denied.', 404);
+    }
+
+    return new Response(
+      JSON.stringify(batch),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * DELETE /api/imports/[id]
+ *
+ * Discards a staged import that has no posted lines.
+ */
+export async function DELETE({ params, locals }: APIContext) {
+  try {
+    const id = params.id;
+    if (!id) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Import ID is required in path.', 400);
+    }
+
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const importService = createBankImportService(locals.runtime.env.DB);
+    const batch = await importService.discardBatch(id, userId);
+
+    return new Response(
+      JSON.stringify(batch),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+// src/functions/api/imports/[id]/items/[itemId].ts
+import type { APIContext } from 'astro';
+import { createBankImportService } from '@lib/services/bank-import-service';
+import { AppError, ErrorCode, handleError } from '@utils/errors';
+import { bankImportItemUpdateSchema, validateRequestBody } from '../../../utils/zodSchemas';
+
+/**
+ * PUT /api/imports/[id]/items/[itemId]
+ *
+ * Reviews a staged line: assign `category_entity_account_id`, set `status` to 'skipped', or
+ * send `not_duplicate: true` to release a possible duplicate for posting.
+ */
+export async function PUT({ params, request, locals }: APIContext) {
+  try {
+    const id = params.id;
+    if (!id) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Import ID is required in path.', 400);
+    }
+
+    const itemId = params.itemId;
+    if (!itemId) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Line ID is required in path.', 400);
+    }
+
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const validatedData = await validateRequestBody(request, bankImportItemUpdateSchema);
+
+    const importService = createBankImportService(locals.runtime.env.DB);
+    const item = await importService.updateItem(id, itemId, validatedData, userId);
+
+    return new Response(
+      JSON.stringify(item),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
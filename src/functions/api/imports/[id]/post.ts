@@ -0,0 +1,48 @@
+// src/functions/api/imports/[id]/post.ts
+import type { APIContext } from 'astro';
+import { createBankImportService } from '@lib/services/bank-import-service';
+import { AppError, ErrorCode, handleError } from '@utils/errors';
+
+/**
+ * POST /api/imports/[id]/post
+ *
+ * Posts every proposed line of a staged import as a transaction. Uncategorized lines stay
+ * staged for review.
+ */
+export async function POST({ params, locals }: APIContext) {
+  try {
+    const id = params.id;
+    if (!id) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Import ID is required in path.', 400);
+    }
+
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const importService = createBankImportService(locals.runtime.env.DB);
+    const batch = await importService.postBatch(id, userId);
+
+    return new Response(
+      JSON.stringify(batch),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
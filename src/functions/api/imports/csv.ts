@@ -0,0 +1,47 @@
+// src/functions/api/imports/csv.ts
+import type { APIContext } from 'astro';
+import { createBankImportService } from '@lib/services/bank-import-service';
+import { handleError } from '@utils/errors';
+import { csvImportSchema, validateRequestBody } from '../utils/zodSchemas';
+
+/**
+ * POST /api/imports/csv
+ *
+ * Parses a bank CSV statement (`content`) with a saved `mapping_id` or an inline `mapping`
+ * and stages each row as a proposed transaction against `cash_entity_account_id`,
+ * categorized by the entity's rules. Nothing is posted until the import is reviewed.
+ */
+export async function POST({ request, locals }: APIContext) {
+  try {
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const validatedData = await validateRequestBody(request, csvImportSchema);
+
+    const importService = createBankImportService(locals.runtime.env.DB);
+    const batch = await importService.importCsv(validatedData, userId);
+
+    return new Response(
+      JSON.stringify(batch),
+      { status: 201, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+// src/functions/api/imports/index.ts
+import type { APIContext } from 'astro';
+import { createBankImportService } from '@lib/services/bank-import-service';
+import { handleError } from '@utils/errors';
+import { bankImportListQuerySchema, validateQueryParams } from '../utils/zodSchemas';
+
+/**
+ * GET /api/imports?entity_id=...
+ *
+ * Lists an entity's bank statement imports, newest first.
+ */
+export async function GET({ url, locals }: APIContext) {
+  try {
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const query = validateQueryParams(url, bankImportListQuerySchema);
+
+    const importService = createBankImportService(locals.runtime.env.DB);
+    const batches = await importService.listBatches(query.entity_id, userId);
+
+    return new Response(
+      JSON.stringify(batches),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -0,0 +1,94 @@
+// src/functions/api/imports/mappings/[id].ts
+import type { APIContext } from 'astro';
+import { createBankImportService } from '@lib/services/bank-import-service';
+import { AppError, ErrorCode, handleError } from '@utils/errors';
+import { bankImportMappingUpdateSchema, validateRequestBody } from '../../utils/zodSchemas';
+
+/**
+ * PUT /api/imports/mappings/[id]
+ */
+export async function PUT({ params, request, locals }: APIContext) {
+  try {
+    const id = params.id;
+    if (!id) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Mapping ID is required in path.', 400);
+    }
+
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const validatedData = await validateRequestBody(request, bankImportMappingUpdateSchema);
+
+    const importService = createBankImportService(locals.runtime.env.DB);
+    const mapping = await importService.updateMapping(id, validatedData, userId);
+
+    return new Response(
+      JSON.stringify(mapping),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * DELETE /api/imports/mappings/[id]
+ *
+ * Deletes a saved mapping. Imports made with it keep their lines.
+ */
+export async function DELETE({ params, locals }: APIContext) {
+  try {
+    const id = params.id;
+    if (!id) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Mapping ID is required in path.', 400);
+    }
+
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const importService = createBankImportService(locals.runtime.env.DB);
+    const success = await importService.deleteMapping(id, userId);
+    if (!success) {
+      throw new AppError(ErrorCode.SERVER_ERROR, 'Failed to delete import mapping.', 500);
+    }
+
+    return new Response(
+      JSON.stringify({ message: 'Import mapping deleted successfully.' }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
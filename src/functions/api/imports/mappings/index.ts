@@ -0,0 +1,84 @@
+// src/functions/api/imports/mappings/index.ts
+import type { APIContext } from 'astro';
+import { createBankImportService } from '@lib/services/bank-import-service';
+import { handleError } from '@utils/errors';
+import { bankImportMappingSchema, validateRequestBody } from '../../utils/zodSchemas';
+
+/**
+ * GET /api/imports/mappings
+ *
+ * Lists the user's saved bank CSV column mappings.
+ */
+export async function GET({ locals }: APIContext) {
+  try {
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const importService = createBankImportService(locals.runtime.env.DB);
+    const mappings = await importService.listMappings(userId);
+
+    return new Response(
+      JSON.stringify(mappings),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * POST /api/imports/mappings
+ *
+ * Saves a bank CSV column mapping: date, description, and either a signed amount column
+ * with its sign convention or separate debit and credit columns.
+ */
+export async function POST({ request, locals }: APIContext) {
+  try {
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const validatedData = await validateRequestBody(request, bankImportMappingSchema);
+
+    const importService = createBankImportService(locals.runtime.env.DB);
+    const mapping = await importService.createMapping(validatedData, userId);
+
+    return new Response(
+      JSON.stringify(mapping),
+      { status: 201, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+// src/functions/api/imports/ofx.ts
+import type { APIContext } from 'astro';
+import { createBankImportService } from '@lib/services/bank-import-service';
+import { handleError } from '@utils/errors';
+import { ofxImportSchema, validateRequestBody } from '../utils/zodSchemas';
+
+/**
+ * POST /api/imports/ofx
+ *
+ * Parses an OFX 1.x/2.x or QFX statement file (`content`) and stages each `STMTTRN` as a
+ * proposed transaction against `cash_entity_account_id`, categorized by the entity's rules.
+ */
+export async function POST({ request, locals }: APIContext) {
+  try {
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const validatedData = await validateRequestBody(request, ofxImportSchema);
+
+    const importService = createBankImportService(locals.runtime.env.DB);
+    const batch = await importService.importOfx(validatedData, userId);
+
+    return new Response(
+      JSON.stringify(batch),
+      { status: 201, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
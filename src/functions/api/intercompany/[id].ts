@@ -0,0 +1,50 @@
+// src/functions/api/intercompany/[id].ts
+import type { APIContext } from 'astro';
+import { createIntercompanyService } from '@lib/services/intercompany-service';
+import { AppError, ErrorCode, handleError } from '@utils/errors';
+
+/**
+ * GET /api/intercompany/[id]
+ *
+ * Retrieves an intercompany transaction with both of its journal entries.
+ */
+export async function GET({ params, locals }: APIContext) {
+  try {
+    const id = params.id;
+    if (!id) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Intercompany transaction ID is required in path.', 400);
+    }
+
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const intercompanyService = createIntercompanyService(locals.runtime.env.DB);
+    const transaction = await intercompanyService.getIntercompanyTransactionById(id, userId);
+    if (!transaction) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'Intercompany transaction not found or access denied.', 404);
+    }
+
+    return new Response(
+      JSON.stringify(transaction),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+// src/functions/api/intercompany/[id]/void.ts
+import type { APIContext } from 'astro';
+import { createIntercompanyService } from '@lib/services/intercompany-service';
+import { AppError, ErrorCode, handleError } from '@utils/errors';
+import { intercompanyVoidSchema, validateRequestBody } from '../../utils/zodSchemas';
+
+/**
+ * POST /api/intercompany/[id]/void
+ *
+ * Voids both journal entries of an intercompany transaction, with reversing entries on the
+ * given date, so the two sides stay matched.
+ */
+export async function POST({ params, request, locals }: APIContext) {
+  try {
+    const id = params.id;
+    if (!id) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Intercompany transaction ID is required in path.', 400);
+    }
+
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const validatedData = await validateRequestBody(request, intercompanyVoidSchema);
+
+    const intercompanyService = createIntercompanyService(locals.runtime.env.DB);
+    const result = await intercompanyService.voidIntercompanyTransaction(id, validatedData, userId);
+
+    return new Response(
+      JSON.stringify(result),
+      { status: 201, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
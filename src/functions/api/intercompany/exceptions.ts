@@ -0,0 +1,47 @@
+// src/functions/api/intercompany/exceptions.ts
+import type { APIContext } from 'astro';
+import { createIntercompanyService } from '@lib/services/intercompany-service';
+import { handleError } from '@utils/errors';
+import { intercompanyExceptionsQuerySchema, validateQueryParams } from '../utils/zodSchemas';
+
+/**
+ * GET /api/intercompany/exceptions?as_of_date=...&entity_id=...
+ *
+ * Intercompany transactions whose two sides do not net to zero as of a date, e.g. because
+ * one side's entry was voided on its own. `entity_id` limits the check to pairs within
+ * that entity and the entities below it.
+ */
+export async function GET({ url, locals }: APIContext) {
+  try {
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const query = validateQueryParams(url, intercompanyExceptionsQuerySchema);
+
+    const intercompanyService = createIntercompanyService(locals.runtime.env.DB);
+    const exceptions = await intercompanyService.getIntercompanyExceptions(query.as_of_date, userId, query.entity_id);
+
+    return new Response(
+      JSON.stringify(exceptions),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -0,0 +1,93 @@
+// src/functions/api/intercompany/index.ts
+import type { APIContext } from 'astro';
+import { createIntercompanyService } from '@lib/services/intercompany-service';
+import { handleError } from '@utils/errors';
+import {
+  intercompanyListQuerySchema,
+  intercompanyTransactionInputSchema,
+  validateQueryParams,
+  validateRequestBody,
+} from '../utils/zodSchemas';
+
+/**
+ * GET /api/intercompany?entity_id=...
+ *
+ * Lists intercompany transactions, newest first. `entity_id` limits the list to those
+ * where the entity is on either side.
+ */
+export async function GET({ url, locals }: APIContext) {
+  try {
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const query = validateQueryParams(url, intercompanyListQuerySchema);
+
+    const intercompanyService = createIntercompanyService(locals.runtime.env.DB);
+    const transactions = await intercompanyService.listIntercompanyTransactions(userId, query.entity_id);
+
+    return new Response(
+      JSON.stringify(transactions),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * POST /api/intercompany
+ *
+ * Records an intercompany transaction as mirrored, linked journal entries in both entities.
+ * Due accounts default to 1420 Due from / 2450 Due to Related Entities (swapped for a
+ * settlement). Responds with the record and both entries.
+ */
+export async function POST({ request, locals }: APIContext) {
+  try {
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const validatedData = await validateRequestBody(request, intercompanyTransactionInputSchema);
+
+    const intercompanyService = createIntercompanyService(locals.runtime.env.DB);
+    const created = await intercompanyService.createIntercompanyTransaction(validatedData, userId);
+
+    return new Response(
+      JSON.stringify(created),
+      { status: 201, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -0,0 +1,129 @@
+// src/functions/api/loans/[id].ts
+import type { APIContext } from 'astro';
+import { createLoanService } from '@lib/services/loan-service';
+import { AppError, ErrorCode, handleError } from '@utils/errors';
+import { loanUpdateSchema, validateRequestBody } from '../utils/zodSchemas';
+
+/**
+ * GET /api/loans/[id]
+ *
+ * Retrieves a loan together with its amortization schedule.
+ */
+export async function GET({ params, locals }: APIContext) {
+  try {
+    const loanId = params.id;
+    if (!loanId) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Loan ID is required in path.', 400);
+    }
+
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const loanService = createLoanService(locals.runtime.env.DB);
+    const loan = await loanService.getLoanWithSchedule(loanId, userId);
+    if (!loan) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'Loan not found or access denied.', 404);
+    }
+
+    return new Response(JSON.stringify(loan), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    return new Response(
+      JSON.stringify({ error: appError.message, code: appError.code }),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * PUT /api/loans/[id]
+ *
+ * Updates a loan. Changing financial terms regenerates the schedule and is rejected once
+ * payments have been recorded.
+ */
+export async function PUT({ params, request, locals }: APIContext) {
+  try {
+    const loanId = params.id;
+    if (!loanId) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Loan ID is required in path.', 400);
+    }
+
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const validatedData = await validateRequestBody(request, loanUpdateSchema);
+
+    const loanService = createLoanService(locals.runtime.env.DB);
+    const updated = await loanService.updateLoan(loanId, validatedData, userId);
+
+    return new Response(JSON.stringify(updated), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * DELETE /api/loans/[id]
+ *
+ * Deletes a loan and its schedule. Loans with recorded payments cannot be deleted.
+ */
+export async function DELETE({ params, locals }: APIContext) {
+  try {
+    const loanId = params.id;
+    if (!loanId) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Loan ID is required in path.', 400);
+    }
+
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const loanService = createLoanService(locals.runtime.env.DB);
+    const success = await loanService.deleteLoan(loanId, userId);
+    if (!success) {
+      throw new AppError(ErrorCode.SERVER_ERROR, 'Failed to delete loan.', 500);
+    }
+
+    return new Response(
+      JSON.stringify({ message: 'Loan deleted successfully.' }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    return new Response(
+      JSON.stringify({ error: appError.message, code: appError.code }),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+// src/functions/api/loans/[id]/payments.ts
+import type { APIContext } from 'astro';
+import { createLoanService } from '@lib/services/loan-service';
+import { AppError, ErrorCode, handleError } from '@utils/errors';
+import { loanPaymentSchema, validateRequestBody } from '../../utils/zodSchemas';
+
+/**
+ * POST /api/loans/[id]/payments
+ *
+ * Records a payment against the loan's next scheduled payment and posts the
+ * principal/interest journal entry. `actual_payment_amount` is accepted in currency units.
+ * Short payments roll into the next installment; extra principal re-amortizes the schedule.
+ */
+export async function POST({ params, request, locals }: APIContext) {
+  try {
+    const loanId = params.id;
+    if (!loanId) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Loan ID is required in path.', 400);
+    }
+
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const validatedData = await validateRequestBody(request, loanPaymentSchema);
+
+    const loanService = createLoanService(locals.runtime.env.DB);
+    const result = await loanService.recordPayment(loanId, validatedData, userId);
+
+    return new Response(JSON.stringify(result), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -0,0 +1,87 @@
+// src/functions/api/loans/[id]/rates.ts
+import type { APIContext } from 'astro';
+import { createLoanService } from '@lib/services/loan-service';
+import { AppError, ErrorCode, handleError } from '@utils/errors';
+import { loanRateChangeSchema, validateRequestBody } from '../../utils/zodSchemas';
+
+/**
+ * GET /api/loans/[id]/rates
+ *
+ * Lists the loan's effective-dated rate changes, oldest first.
+ */
+export async function GET({ params, locals }: APIContext) {
+  try {
+    const loanId = params.id;
+    if (!loanId) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Loan ID is required in path.', 400);
+    }
+
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const loanService = createLoanService(locals.runtime.env.DB);
+    const history = await loanService.getRateHistory(loanId, userId);
+
+    return new Response(JSON.stringify(history), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    return new Response(
+      JSON.stringify({ error: appError.message, code: appError.code }),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * POST /api/loans/[id]/rates
+ *
+ * Records a rate change on a variable-rate loan and returns the loan with its re-amortized
+ * schedule. Rates are decimal annual rates; give `interest_rate` or `index_rate` + `margin`.
+ */
+export async function POST({ params, request, locals }: APIContext) {
+  try {
+    const loanId = params.id;
+    if (!loanId) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Loan ID is required in path.', 400);
+    }
+
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const validatedData = await validateRequestBody(request, loanRateChangeSchema);
+
+    const loanService = createLoanService(locals.runtime.env.DB);
+    const loan = await loanService.addRateChange(loanId, validatedData, userId);
+
+    return new Response(JSON.stringify(loan), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -0,0 +1,93 @@
+// src/functions/api/loans/accruals.ts
+import type { APIContext } from 'astro';
+import { createLoanAccrualService, previousMonthEnd } from '@lib/services/loan-accrual-service';
+import { handleError } from '@utils/errors';
+import {
+  loanAccrualListQuerySchema,
+  loanAccrualRunSchema,
+  validateQueryParams,
+  validateRequestBody,
+} from '../utils/zodSchemas';
+
+/**
+ * GET /api/loans/accruals?entity_id=...&period_end=...
+ *
+ * Lists an entity's month-end interest accruals, optionally for a single period.
+ */
+export async function GET({ url, locals }: APIContext) {
+  try {
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const query = validateQueryParams(url, loanAccrualListQuerySchema);
+
+    const accrualService = createLoanAccrualService(locals.runtime.env.DB);
+    const accruals = await accrualService.listAccruals(query.entity_id, userId, query.period_end);
+
+    return new Response(
+      JSON.stringify(accruals),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * POST /api/loans/accruals
+ *
+ * Accrues unpaid interest on the entity's active loans through `period_end` (the last day of
+ * a month, defaulting to the previous month end) and posts the reversals dated the next day.
+ * The same run happens on a schedule; loans already accrued for the period are skipped.
+ */
+export async function POST({ request, locals }: APIContext) {
+  try {
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const validatedData = await validateRequestBody(request, loanAccrualRunSchema);
+    const periodEnd = validatedData.period_end ?? previousMonthEnd(Math.floor(Date.now() / 1000));
+
+    const accrualService = createLoanAccrualService(locals.runtime.env.DB);
+    const result = await accrualService.accrueInterest(validatedData.entity_id, periodEnd, userId);
+
+    return new Response(
+      JSON.stringify(result),
+      { status: 201, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
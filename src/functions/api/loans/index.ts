@@ -0,0 +1,92 @@
+// src/functions/api/loans/index.ts
+import type { APIContext } from 'astro';
+import { createLoanService } from '@lib/services/loan-service';
+import { handleError } from '@utils/errors';
+import {
+  loanInputSchema,
+  loanListQuerySchema,
+  validateQueryParams,
+  validateRequestBody,
+} from '../utils/zodSchemas';
+
+/**
+ * GET /api/loans?entity_id=...&status=...
+ *
+ * Lists an entity's notes receivable and payable, soonest maturity first.
+ */
+export async function GET({ url, locals }: APIContext) {
+  try {
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const query = validateQueryParams(url, loanListQuerySchema);
+
+    const loanService = createLoanService(locals.runtime.env.DB);
+    const loans = await loanService.listLoans(query.entity_id, userId, query.status);
+
+    return new Response(
+      JSON.stringify(loans),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * POST /api/loans
+ *
+ * Creates a loan and generates its amortization schedule. Amounts are accepted in currency
+ * units and stored as cents; `interest_rate` is a decimal annual rate (0.0525 = 5.25%).
+ * Omit `payment_amount` for a fully amortizing level payment.
+ */
+export async function POST({ request, locals }: APIContext) {
+  try {
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const validatedData = await validateRequestBody(request, loanInputSchema);
+
+    const loanService = createLoanService(locals.runtime.env.DB);
+    const loan = await loanService.createLoan(validatedData, userId);
+
+    return new Response(
+      JSON.stringify(loan),
+      { status: 201, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
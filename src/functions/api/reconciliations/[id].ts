@@ -0,0 +1,97 @@
+// src/functions/api/reconciliations/[id].ts
+import type { APIContext } from 'astro';
+import { createReconciliationService } from '@lib/services/reconciliation-service';
+import { AppError, ErrorCode, handleError } from '@utils/errors';
+
+/**
+ * GET /api/reconciliations/[id]
+ *
+ * Retrieves a session with its transactions and the current difference between the
+ * cleared balance and the statement ending balance.
+ */
+export async function GET({ params, locals }: APIContext) {
+  try {
+    const id = params.id;
+    if (!id) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Reconciliation ID is required in path.', 400);
+    }
+
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const reconciliationService = createReconciliationService(locals.runtime.env.DB);
+    const reconciliation = await reconciliationService.getReconciliationDetail(id, userId);
+    if (!reconciliation) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'Reconciliation not found or access denied.', 404);
+    }
+
+    return new Response(
+      JSON.stringify(reconciliation),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * DELETE /api/reconciliations/[id]
+ *
+ * Abandons a reconciliation in progress.
+ */
+export async function DELETE({ params, locals }: APIContext) {
+  try {
+    const id = params.id;
+    if (!id) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Reconciliation ID is required in path.', 400);
+    }
+
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const reconciliationService = createReconciliationService(locals.runtime.env.DB);
+    const success = await reconciliationService.deleteReconciliation(id, userId);
+    if (!success) {
+      throw new AppError(ErrorCode.SERVER_ERROR, 'Failed to delete reconciliation.', 500);
+    }
+
+    return new Response(
+      JSON.stringify({ message: 'Reconciliation deleted successfully.' }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+// src/functions/api/reconciliations/[id]/cleared.ts
+import type { APIContext } from 'astro';
+import { createReconciliationService } from '@lib/services/reconciliation-service';
+import { AppError, ErrorCode, handleError } from '@utils/errors';
+import { reconciliationClearSchema, validateRequestBody } from '../../utils/zodSchemas';
+
+/**
+ * PUT /api/reconciliations/[id]/cleared
+ *
+ * Marks `transaction_ids` cleared (or uncleared with `cleared: false`) and returns the
+ * session with its updated difference.
+ */
+export async function PUT({ params, request, locals }: APIContext) {
+  try {
+    const id = params.id;
+    if (!id) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Reconciliation ID is required in path.', 400);
+    }
+
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const validatedData = await validateRequestBody(request, reconciliationClearSchema);
+
+    const reconciliationService = createReconciliationService(locals.runtime.env.DB);
+    const reconciliation = await reconciliationService.setCleared(id, validatedData, userId);
+
+    return new Response(
+      JSON.stringify(reconciliation),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+// src/functions/api/reconciliations/[id]/complete.ts
+import type { APIContext } from 'astro';
+import { createReconciliationService } from '@lib/services/reconciliation-service';
+import { AppError, ErrorCode, handleError } from '@utils/errors';
+
+/**
+ * POST /api/reconciliations/[id]/complete
+ *
+ * Completes a session whose difference is zero, marking cleared transactions reconciled
+ * and returning the reconciliation report.
+ */
+export async function POST({ params, locals }: APIContext) {
+  try {
+    const id = params.id;
+    if (!id) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Reconciliation ID is required in path.', 400);
+    }
+
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const reconciliationService = createReconciliationService(locals.runtime.env.DB);
+    const report = await reconciliationService.completeReconciliation(id, userId);
+
+    return new Response(
+      JSON.stringify(report),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+// src/functions/api/reconciliations/[id]/report.ts
+import type { APIContext } from 'astro';
+import { createReconciliationService } from '@lib/services/reconciliation-service';
+import { AppError, ErrorCode, handleError } from '@utils/errors';
+
+/**
+ * GET /api/reconciliations/[id]/report
+ *
+ * The report of a completed reconciliation: cleared items, outstanding checks and
+ * deposits in transit.
+ */
+export async function GET({ params, locals }: APIContext) {
+  try {
+    const id = params.id;
+    if (!id) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Reconciliation ID is required in path.', 400);
+    }
+
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const reconciliationService = createReconciliationService(locals.runtime.env.DB);
+    const report = await reconciliationService.getReconciliationReport(id, userId);
+    if (!report) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'Reconciliation not found or access denied.', 404);
+    }
+
+    return new Response(
+      JSON.stringify(report),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -0,0 +1,91 @@
+// src/functions/api/reconciliations/index.ts
+import type { APIContext } from 'astro';
+import { createReconciliationService } from '@lib/services/reconciliation-service';
+import { handleError } from '@utils/errors';
+import {
+  reconciliationInputSchema,
+  reconciliationListQuerySchema,
+  validateQueryParams,
+  validateRequestBody,
+} from '../utils/zodSchemas';
+
+/**
+ * GET /api/reconciliations?entity_id=...&cash_entity_account_id=...
+ *
+ * Lists an entity's bank reconciliations, latest statement first.
+ */
+export async function GET({ url, locals }: APIContext) {
+  try {
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const query = validateQueryParams(url, reconciliationListQuerySchema);
+
+    const reconciliationService = createReconciliationService(locals.runtime.env.DB);
+    const reconciliations = await reconciliationService.listReconciliations(query.entity_id, query.cash_entity_account_id, userId);
+
+    return new Response(
+      JSON.stringify(reconciliations),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * POST /api/reconciliations
+ *
+ * Starts a reconciliation of a cash account against a statement's end date and ending
+ * balance. Returns the session with the transactions available to clear.
+ */
+export async function POST({ request, locals }: APIContext) {
+  try {
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const validatedData = await validateRequestBody(request, reconciliationInputSchema);
+
+    const reconciliationService = createReconciliationService(locals.runtime.env.DB);
+    const reconciliation = await reconciliationService.startReconciliation(validatedData, userId);
+
+    return new Response(
+      JSON.stringify(reconciliation),
+      { status: 201, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
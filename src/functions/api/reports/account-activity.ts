@@ -0,0 +1,46 @@
+// src/functions/api/reports/account-activity.ts
+import type { APIContext } from 'astro';
+import { createReportService } from '@lib/services/report-service';
+import { handleError } from '@utils/errors';
+import { accountActivityQuerySchema, validateQueryParams } from '../utils/zodSchemas';
+
+/**
+ * GET /api/reports/account-activity?entity_account_id=...&start_date=...&end_date=...
+ *
+ * Running-balance activity for a single entity account. Without `start_date`, all history
+ * up to `end_date` is included and the opening balance is zero.
+ */
+export async function GET({ url, locals }: APIContext) {
+  try {
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const query = validateQueryParams(url, accountActivityQuerySchema);
+
+    const reportService = createReportService(locals.runtime.env.DB);
+    const report = await reportService.getAccountActivity(query.entity_account_id, { start_date: query.start_date, end_date: query.end_date }, userId);
+
+    return new Response(
+      JSON.stringify(report),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
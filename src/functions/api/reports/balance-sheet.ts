@@ -0,0 +1,46 @@
+// src/functions/api/reports/balance-sheet.ts
+import type { APIContext } from 'astro';
+import { createReportService } from '@lib/services/report-service';
+import { handleError } from '@utils/errors';
+import { balanceSheetQuerySchema, validateQueryParams } from '../utils/zodSchemas';
+
+/**
+ * GET /api/reports/balance-sheet?entity_id=...&as_of_date=...&compare=prior_year
+ *
+ * Balance sheet for an entity as of a date, with net income carried into equity.
+ * `compare` adds a column as of one month earlier or the same date last year.
+ */
+export async function GET({ url, locals }: APIContext) {
+  try {
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const query = validateQueryParams(url, balanceSheetQuerySchema);
+
+    const reportService = createReportService(locals.runtime.env.DB);
+    const report = await reportService.getBalanceSheet(query.entity_id, query.as_of_date, query.compare, userId);
+
+    return new Response(
+      JSON.stringify(report),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+// src/functions/api/reports/cash-flow.ts
+import type { APIContext } from 'astro';
+import { createReportService } from '@lib/services/report-service';
+import { handleError } from '@utils/errors';
+import { cashFlowQuerySchema, validateQueryParams } from '../utils/zodSchemas';
+
+/**
+ * GET /api/reports/cash-flow?entity_id=...&start_date=...&end_date=...
+ *
+ * Statement of cash flows (indirect method) for an entity over an inclusive date range.
+ * Operating, investing and financing lines follow each account's cash flow category.
+ */
+export async function GET({ url, locals }: APIContext) {
+  try {
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const query = validateQueryParams(url, cashFlowQuerySchema);
+
+    const reportService = createReportService(locals.runtime.env.DB);
+    const report = await reportService.getCashFlowStatement(query.entity_id, query.start_date, query.end_date, userId);
+
+    return new Response(
+      JSON.stringify(report),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
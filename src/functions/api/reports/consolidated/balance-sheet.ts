@@ -0,0 +1,46 @@
+// src/functions/api/reports/consolidated/balance-sheet.ts
+import type { APIContext } from 'astro';
+import { createReportService } from '@lib/services/report-service';
+import { handleError } from '@utils/errors';
+import { consolidatedBalanceSheetQuerySchema, validateQueryParams } from '../../utils/zodSchemas';
+
+/**
+ * GET /api/reports/consolidated/balance-sheet?entity_id=...&as_of_date=...&compare=prior_year
+ *
+ * Balance sheet combining a parent entity and all of its descendants as of a date. Every
+ * line and section carries each entity's share in `by_entity`.
+ */
+export async function GET({ url, locals }: APIContext) {
+  try {
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const query = validateQueryParams(url, consolidatedBalanceSheetQuerySchema);
+
+    const reportService = createReportService(locals.runtime.env.DB);
+    const report = await reportService.getConsolidatedBalanceSheet(query.entity_id, query.as_of_date, query.compare, userId);
+
+    return new Response(
+      JSON.stringify(report),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
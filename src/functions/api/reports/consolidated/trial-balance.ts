@@ -0,0 +1,47 @@
+// src/functions/api/reports/consolidated/trial-balance.ts
+import type { APIContext } from 'astro';
+import { createReportService } from '@lib/services/report-service';
+import { handleError } from '@utils/errors';
+import { consolidatedTrialBalanceQuerySchema, validateQueryParams } from '../../utils/zodSchemas';
+
+/**
+ * GET /api/reports/consolidated/trial-balance?entity_id=...&as_of_date=...&include_zero=true
+ *
+ * Trial balance for a parent entity and all of its descendants as of a date (inclusive),
+ * one row per chart of accounts code with each entity's balance in `by_entity`.
+ * Accounts no entity carries a balance on are omitted unless `include_zero` is set.
+ */
+export async function GET({ url, locals }: APIContext) {
+  try {
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const query = validateQueryParams(url, consolidatedTrialBalanceQuerySchema);
+
+    const reportService = createReportService(locals.runtime.env.DB);
+    const report = await reportService.getConsolidatedTrialBalance(query.entity_id, query.as_of_date, userId, query.include_zero ?? false);
+
+    return new Response(
+      JSON.stringify(report),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+// src/functions/api/reports/income-statement.ts
+import type { APIContext } from 'astro';
+import { createReportService } from '@lib/services/report-service';
+import { handleError } from '@utils/errors';
+import { incomeStatementQuerySchema, validateQueryParams } from '../utils/zodSchemas';
+
+/**
+ * GET /api/reports/income-statement?entity_id=...&start_date=...&end_date=...&compare=prior_year
+ *
+ * Income statement for an entity over an inclusive date range, grouped into GAAP sections
+ * and rolled up through the chart of accounts hierarchy. `compare` adds a prior-period or
+ * prior-year column (e.g. this month vs last month, YTD vs prior YTD).
+ */
+export async function GET({ url, locals }: APIContext) {
+  try {
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const query = validateQueryParams(url, incomeStatementQuerySchema);
+
+    const reportService = createReportService(locals.runtime.env.DB);
+    const report = await reportService.getIncomeStatement(query.entity_id, query.start_date, query.end_date, query.compare, userId);
+
+    return new Response(
+      JSON.stringify(report),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -0,0 +1,124 @@
+// src/functions/api/rules/[id].ts
+import type { APIContext } from 'astro';
+import { createRuleService } from '@lib/services/rule-service';
+import { AppError, ErrorCode, handleError } from '@utils/errors';
+import { ruleUpdateSchema, validateRequestBody } from '../utils/zodSchemas';
+
+/**
+ * GET /api/rules/[id]
+ */
+export async function GET({ params, locals }: APIContext) {
+  try {
+    const ruleId = params.id;
+    if (!ruleId) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Rule ID is required in path.', 400);
+    }
+
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const ruleService = createRuleService(locals.runtime.env.DB);
+    const rule = await ruleService.getRuleById(ruleId, userId);
+    if (!rule) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'Rule not found or access denied.', 404);
+    }
+
+    return new Response(JSON.stringify(rule), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    return new Response(
+      JSON.stringify({ error: appError.message, code: appError.code }),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * PUT /api/rules/[id]
+ *
+ * Updates a rule's conditions, action, priority or scope. `entityId: null` makes it global.
+ */
+export async function PUT({ params, request, locals }: APIContext) {
+  try {
+    const ruleId = params.id;
+    if (!ruleId) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Rule ID is required in path.', 400);
+    }
+
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const validatedData = await validateRequestBody(request, ruleUpdateSchema);
+
+    const ruleService = createRuleService(locals.runtime.env.DB);
+    const updated = await ruleService.updateRule(ruleId, validatedData, userId);
+
+    return new Response(JSON.stringify(updated), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * DELETE /api/rules/[id]
+ */
+export async function DELETE({ params, locals }: APIContext) {
+  try {
+    const ruleId = params.id;
+    if (!ruleId) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Rule ID is required in path.', 400);
+    }
+
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const ruleService = createRuleService(locals.runtime.env.DB);
+    const success = await ruleService.deleteRule(ruleId, userId);
+    if (!success) {
+      throw new AppError(ErrorCode.SERVER_ERROR, 'Failed to delete rule.', 500);
+    }
+
+    return new Response(
+      JSON.stringify({ message: 'Rule deleted successfully.' }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    return new Response(
+      JSON.stringify({ error: appError.message, code: appError.code }),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -0,0 +1,93 @@
+// src/functions/api/rules/index.ts
+import type { APIContext } from 'astro';
+import { createRuleService } from '@lib/services/rule-service';
+import { handleError } from '@utils/errors';
+import {
+  ruleInputSchema,
+  ruleListQuerySchema,
+  validateQueryParams,
+  validateRequestBody,
+} from '../utils/zodSchemas';
+
+/**
+ * GET /api/rules?entity_id=...
+ *
+ * Lists the user's categorization rules, highest priority first. With `entity_id`, only
+ * that entity's rules and the user's global rules are returned.
+ */
+export async function GET({ url, locals }: APIContext) {
+  try {
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const query = validateQueryParams(url, ruleListQuerySchema);
+
+    const ruleService = createRuleService(locals.runtime.env.DB);
+    const rules = await ruleService.listRules(userId, query.entity_id);
+
+    return new Response(
+      JSON.stringify(rules),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * POST /api/rules
+ *
+ * Creates a categorization rule. `action.accountId` is an entity account id, or
+ * `action.splits` lists several lines (fixed cents, percentage basis points or the
+ * remainder); omit `entityId` for a rule that applies to all of the user's entities.
+ */
+export async function POST({ request, locals }: APIContext) {
+  try {
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const validatedData = await validateRequestBody(request, ruleInputSchema);
+
+    const ruleService = createRuleService(locals.runtime.env.DB);
+    const rule = await ruleService.createRule(validatedData, userId);
+
+    return new Response(
+      JSON.stringify(rule),
+      { status: 201, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+// src/functions/api/rules/seed.ts
+import type { APIContext } from 'astro';
+import { createRuleService } from '@lib/services/rule-service';
+import { handleError } from '@utils/errors';
+import { ruleSeedSchema, validateRequestBody } from '../utils/zodSchemas';
+
+/**
+ * POST /api/rules/seed
+ *
+ * Seeds the default categorization rules for an entity, resolving their placeholder
+ * accounts to the entity's accounts. Defaults already seeded are left alone.
+ */
+export async function POST({ request, locals }: APIContext) {
+  try {
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const validatedData = await validateRequestBody(request, ruleSeedSchema);
+
+    const ruleService = createRuleService(locals.runtime.env.DB);
+    const result = await ruleService.seedDefaultRules(validatedData.entity_id, userId);
+
+    return new Response(
+      JSON.stringify(result),
+      { status: 201, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+// src/functions/api/rules/simulate.ts
+import type { APIContext } from 'astro';
+import { createRuleService } from '@lib/services/rule-service';
+import { handleError } from '@utils/errors';
+import { ruleSimulationSchema, validateRequestBody } from '../utils/zodSchemas';
+
+/**
+ * POST /api/rules/simulate
+ *
+ * Dry-runs a candidate rule set over a window of an entity's imported lines or posted
+ * transactions and reports which items would change category or winning rule, and which
+ * would stay unmatched. Nothing is saved.
+ */
+export async function POST({ request, locals }: APIContext) {
+  try {
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const validatedData = await validateRequestBody(request, ruleSimulationSchema);
+
+    const ruleService = createRuleService(locals.runtime.env.DB);
+    const result = await ruleService.simulateRules(validatedData, userId);
+
+    return new Response(
+      JSON.stringify(result),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+// src/functions/api/rules/suggestions.ts
+import type { APIContext } from 'astro';
+import { createRuleService } from '@lib/services/rule-service';
+import { handleError } from '@utils/errors';
+import { ruleSuggestionQuerySchema, validateQueryParams } from '../utils/zodSchemas';
+
+/**
+ * GET /api/rules/suggestions?entity_id=...&start_date=...&end_date=...
+ *
+ * Suggests rules learned from the entity's import lines categorized by hand, highest
+ * confidence first. Each suggestion's `rule` can be posted to /api/rules as is.
+ */
+export async function GET({ url, locals }: APIContext) {
+  try {
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const query = validateQueryParams(url, ruleSuggestionQuerySchema);
+
+    const ruleService = createRuleService(locals.runtime.env.DB);
+    const suggestions = await ruleService.suggestRules(query.entity_id, userId, {
+      start_date: query.start_date,
+      end_date: query.end_date,
+    });
+
+    return new Response(
+      JSON.stringify(suggestions),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -0,0 +1,128 @@
+// src/functions/api/transactions/[id].ts
+import type { APIContext } from 'astro';
+import { createTransactionService } from '@lib/services/transaction-service';
+import { AppError, ErrorCode, handleError } from '@utils/errors';
+import { transactionUpdateSchema, validateRequestBody } from '../utils/zodSchemas';
+
+/**
+ * GET /api/transactions/[id]
+ *
+ * Retrieves a transaction together with its lines.
+ */
+export async function GET({ params, locals }: APIContext) {
+  try {
+    const transactionId = params.id;
+    if (!transactionId) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Transaction ID is required in path.', 400);
+    }
+
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const transactionService = createTransactionService(locals.runtime.env.DB);
+    const transaction = await transactionService.getTransactionById(transactionId, userId);
+    if (!transaction) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'Transaction not found or access denied.', 404);
+    }
+
+    return new Response(JSON.stringify(transaction), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    return new Response(
+      JSON.stringify({ error: appError.message, code: appError.code }),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * PUT /api/transactions/[id]
+ *
+ * Updates header fields. When `lines` is supplied the existing lines are replaced atomically.
+ */
+export async function PUT({ params, request, locals }: APIContext) {
+  try {
+    const transactionId = params.id;
+    if (!transactionId) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Transaction ID is required in path.', 400);
+    }
+
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const validatedData = await validateRequestBody(request, transactionUpdateSchema);
+
+    const transactionService = createTransactionService(locals.runtime.env.DB);
+    const updated = await transactionService.updateTransaction(transactionId, validatedData, userId);
+
+    return new Response(JSON.stringify(updated), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * DELETE /api/transactions/[id]
+ *
+ * Deletes a pending transaction and its lines. Posted transactions must be voided instead.
+ */
+export async function DELETE({ params, locals }: APIContext) {
+  try {
+    const transactionId = params.id;
+    if (!transactionId) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Transaction ID is required in path.', 400);
+    }
+
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const transactionService = createTransactionService(locals.runtime.env.DB);
+    const success = await transactionService.deleteTransaction(transactionId, userId);
+    if (!success) {
+      throw new AppError(ErrorCode.SERVER_ERROR, 'Failed to delete transaction.', 500);
+    }
+
+    return new Response(
+      JSON.stringify({ message: 'Transaction deleted successfully.' }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    return new Response(
+      JSON.stringify({ error: appError.message, code: appError.code }),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+// src/functions/api/transactions/[id]/post.ts
+import type { APIContext } from 'astro';
+import { createTransactionService } from '@lib/services/transaction-service';
+import { AppError, ErrorCode, handleError } from '@utils/errors';
+import { transactionPostSchema, validateRequestBody } from '../../utils/zodSchemas';
+
+/**
+ * POST /api/transactions/[id]/post
+ *
+ * Moves a pending transaction to 'posted'. Once posted, its lines can no longer be edited.
+ * The body is optional; an administrator sends `period_override_reason` to post into a
+ * soft-closed period.
+ */
+export async function POST({ params, request, locals }: APIContext) {
+  try {
+    const transactionId = params.id;
+    if (!transactionId) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Transaction ID is required in path.', 400);
+    }
+
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const validatedData = request.headers.get('Content-Type')?.includes('application/json')
+      ? await validateRequestBody(request, transactionPostSchema)
+      : {};
+
+    const transactionService = createTransactionService(locals.runtime.env.DB);
+    const posted = await transactionService.postTransaction(transactionId, userId, validatedData);
+
+    return new Response(JSON.stringify(posted), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+// src/functions/api/transactions/[id]/void.ts
+import type { APIContext } from 'astro';
+import { createTransactionService } from '@lib/services/transaction-service';
+import { AppError, ErrorCode, handleError } from '@utils/errors';
+import { transactionVoidSchema, validateRequestBody } from '../../utils/zodSchemas';
+
+/**
+ * POST /api/transactions/[id]/void
+ *
+ * Voids a posted transaction and records a linked reversing transaction on the given date.
+ * Responds with both the voided original and the new reversal.
+ */
+export async function POST({ params, request, locals }: APIContext) {
+  try {
+    const transactionId = params.id;
+    if (!transactionId) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Transaction ID is required in path.', 400);
+    }
+
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const validatedData = await validateRequestBody(request, transactionVoidSchema);
+
+    const transactionService = createTransactionService(locals.runtime.env.DB);
+    const result = await transactionService.voidTransaction(transactionId, validatedData, userId);
+
+    return new Response(JSON.stringify(result), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -0,0 +1,93 @@
+// src/functions/api/transactions/index.ts
+import type { APIContext } from 'astro';
+import { createTransactionService } from '@lib/services/transaction-service';
+import type { TransactionInput } from '../../../types/transaction';
+import { handleError } from '@utils/errors';
+import {
+  transactionInputSchema,
+  transactionListQuerySchema,
+  validateQueryParams,
+  validateRequestBody,
+} from '../utils/zodSchemas';
+
+/**
+ * GET /api/transactions?entity_id=...&start_date=...&end_date=...&status=...&page=...&page_size=...
+ *
+ * Lists transaction headers for one of the current user's entities, newest first.
+ * Dates are Unix timestamps (seconds) and the range is inclusive.
+ */
+export async function GET({ url, locals }: APIContext) {
+  try {
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const filters = validateQueryParams(url, transactionListQuerySchema);
+
+    const transactionService = createTransactionService(locals.runtime.env.DB);
+    const result = await transactionService.listTransactions(filters, userId);
+
+    return new Response(
+      JSON.stringify(result),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * POST /api/transactions
+ *
+ * Records a journal entry. The header and all of its lines are written atomically.
+ * Line amounts are accepted in currency units and stored as integer cents.
+ */
+export async function POST({ request, locals }: APIContext) {
+  try {
+    const userId = locals.user?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const validatedData = await validateRequestBody(request, transactionInputSchema);
+
+    const transactionService = createTransactionService(locals.runtime.env.DB);
+    const newTransaction = await transactionService.createTransaction(validatedData as TransactionInput, userId);
+
+    return new Response(
+      JSON.stringify(newTransaction),
+      { status: 201, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const appError = handleError(error);
+    const payload: Record<string, unknown> = {
+      error: appError.message,
+      code: appError.code,
+    };
+    if ((appError as any).details) {
+      payload.details = (appError as any).details;
+    }
+    return new Response(
+      JSON.stringify(payload),
+      { status: appError.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
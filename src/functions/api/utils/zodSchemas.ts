@@ -1,6 +1,7 @@
 // src/functions/api/utils/zodSchemas.ts
 import { z } from 'zod';
 import type { AccountSystemType } from '@db/schema';
+import { RULE_CONDITION_OPERATORS, type RuleConditionNode } from '@rules/engine';
 import { AppError, ErrorCode } from '@utils/errors';
 
 // --- General Reusable Schemas ---
@@ -98,6 +99,8 @@ export const entityInputSchema = z
       .uuid({ message: 'Invalid Parent ID format.' })
       .optional()
       .nullable(),
+    // 1 = January
+    fiscal_year_start_month: z.number().int().min(1).max(12).optional(),
     // Uncomment if stored in DB:
     // is_active: optionalBoolean(),
     // allows_sub_entities: optionalBoolean(),
@@ -129,6 +132,12 @@ export const chartOfAccountInputSchema = z
     recovery_percentage: percentageAsBasisPointsSchema,
     is_active: optionalBoolean().default(true),
     tax_category: optionalString(100),
+    cash_flow_category: z
+      .enum(['cash', 'operating', 'investing', 'financing', 'non_cash'], {
+        errorMap: () => ({ message: 'Invalid cash flow category.' }),
+      })
+      .optional()
+      .nullable(),
     parent_id: z
       .string()
       .trim()
@@ -164,6 +173,7 @@ export const transactionLineInputSchema = z.object({
   memo: optionalString(500),
 });
 
+// is_reconciled is not accepted: only completing a bank reconciliation sets it.
 export const transactionInputSchema = z
   .object({
     entity_id: requiredIdSchema,
@@ -177,7 +187,6 @@ export const transactionInputSchema = z
     description: requiredString('Transaction description', 1, 1000),
     reference: optionalString(255),
     status: z.enum(['pending', 'posted', 'voided']).optional().default('posted'),
-    is_reconciled: optionalBoolean().default(false),
     document_url: z
       .string()
       .trim()
@@ -196,6 +205,586 @@ export const transactionInputSchema = z
         }
         return debitTotal === creditTotal;
       }, { message: 'Transaction debits and credits must balance.' }),
+    // Lets an administrator post into a soft-closed period
+    period_override_reason: optionalString(500),
+  })
+  .strict();
+
+// Status changes go through the post/void endpoints, and reconciliation through
+// /api/reconciliations, never through a plain update.
+export const transactionUpdateSchema = transactionInputSchema
+  .omit({ entity_id: true, status: true, period_override_reason: true })
+  .partial();
+
+export const transactionVoidSchema = z
+  .object({
+    date: z.number().int().positive({ message: 'Reversal date (Unix timestamp) is required.' }),
+    reason: optionalString(500),
+    period_override_reason: optionalString(500),
+  })
+  .strict();
+
+export const transactionPostSchema = z
+  .object({
+    period_override_reason: optionalString(500),
+  })
+  .strict();
+
+// Query string values arrive as strings, so numeric filters are coerced.
+export const transactionListQuerySchema = z
+  .object({
+    entity_id: requiredIdSchema,
+    start_date: z.coerce.number().int().nonnegative().optional(),
+    end_date: z.coerce.number().int().nonnegative().optional(),
+    status: z.enum(['pending', 'posted', 'voided']).optional(),
+    page: z.coerce.number().int().min(1).optional(),
+    page_size: z.coerce.number().int().min(1).max(200).optional(),
+  })
+  .refine(
+    (q) => q.start_date === undefined || q.end_date === undefined || q.start_date <= q.end_date,
+    { message: 'start_date must be on or before end_date.', path: ['start_date'] }
+  );
+
+// Report query strings. Dates are inclusive Unix timestamps (seconds).
+const queryDate = z.coerce.number().int().nonnegative();
+const queryFlag = z
+  .enum(['true', 'false', '1', '0'])
+  .transform((value) => value === 'true' || value === '1')
+  .optional();
+
+export const trialBalanceQuerySchema = z.object({
+  entity_id: requiredIdSchema,
+  as_of_date: queryDate,
+  include_zero: queryFlag,
+});
+
+export const generalLedgerQuerySchema = z
+  .object({
+    entity_id: requiredIdSchema,
+    start_date: queryDate,
+    end_date: queryDate,
+  })
+  .refine((q) => q.start_date <= q.end_date, {
+    message: 'start_date must be on or before end_date.',
+    path: ['start_date'],
+  });
+
+export const accountActivityQuerySchema = z
+  .object({
+    entity_account_id: requiredIdSchema,
+    start_date: queryDate.optional(),
+    end_date: queryDate,
+  })
+  .refine((q) => q.start_date === undefined || q.start_date <= q.end_date, {
+    message: 'start_date must be on or before end_date.',
+    path: ['start_date'],
+  });
+
+export const cashFlowQuerySchema = generalLedgerQuerySchema;
+
+const comparisonModeSchema = z.enum(['none', 'prior_period', 'prior_year']).default('none');
+
+export const incomeStatementQuerySchema = z
+  .object({
+    entity_id: requiredIdSchema,
+    start_date: queryDate,
+    end_date: queryDate,
+    compare: comparisonModeSchema,
+  })
+  .refine((q) => q.start_date <= q.end_date, {
+    message: 'start_date must be on or before end_date.',
+    path: ['start_date'],
+  });
+
+export const balanceSheetQuerySchema = z.object({
+  entity_id: requiredIdSchema,
+  as_of_date: queryDate,
+  compare: comparisonModeSchema,
+});
+
+// Consolidated reports take the parent entity as `entity_id` and cover every entity below it.
+export const consolidatedTrialBalanceQuerySchema = trialBalanceQuerySchema;
+export const consolidatedIncomeStatementQuerySchema = incomeStatementQuerySchema;
+export const consolidatedBalanceSheetQuerySchema = balanceSheetQuerySchema;
+
+// --- CAM Reconciliation Schemas ---
+
+const camYearSchema = z.coerce.number().int().min(1900).max(9999);
+
+export const camTenantInputSchema = z
+  .object({
+    entity_id: requiredIdSchema,
+    name: requiredString('Tenant name', 1, 255),
+    pro_rata_share: z
+      .number({ required_error: 'Pro-rata share is required.', invalid_type_error: 'Pro-rata share must be a number (basis points).' })
+      .int({ message: 'Pro-rata share must be an integer (basis points, e.g., 100% = 10000).' })
+      .min(0)
+      .max(10000),
+    is_active: optionalBoolean(),
+  })
+  .strict();
+
+export const camTenantListQuerySchema = z.object({
+  entity_id: requiredIdSchema,
+});
+
+export const camTenantUpdateSchema = camTenantInputSchema.omit({ entity_id: true }).partial();
+
+export const camEstimateSchema = z
+  .object({
+    year: camYearSchema,
+    billed_amount: requiredCurrencyInCents,
+  })
+  .strict();
+
+export const camReconciliationQuerySchema = z.object({
+  entity_id: requiredIdSchema,
+  year: camYearSchema,
+});
+
+// --- Loan Schemas ---
+
+const loanStatusSchema = z.enum(['active', 'pending_approval', 'paid_off', 'defaulted', 'cancelled', 'draft']);
+
+export const loanInputSchema = z
+  .object({
+    entity_id: requiredIdSchema,
+    direction: z.enum(['receivable', 'payable'], {
+      errorMap: () => ({ message: "Direction must be 'receivable' or 'payable'." }),
+    }),
+    borrower_name: optionalString(255),
+    lender_name: optionalString(255),
+    description: optionalString(1000),
+    loan_type: z.enum(['mortgage', 'seller_financing', 'related_party', 'other_receivable', 'other_payable']),
+    original_principal: requiredCurrencyInCents,
+    // Decimal annual rate, e.g., 0.0525 for 5.25%
+    interest_rate: z.number({ required_error: 'Interest rate is required.' }).min(0).max(1),
+    interest_rate_type: z.enum(['fixed', 'variable']).optional().default('fixed'),
+    day_count_convention: z.enum(['actual_365', 'actual_360', '30_360']).optional(),
+    origination_date: z.number().int().positive({ message: 'Origination date (Unix timestamp) is required.' }),
+    maturity_date: z.number().int().positive({ message: 'Maturity date (Unix timestamp) is required.' }),
+    payment_frequency: z.enum(['monthly', 'quarterly', 'annually', 'lump_sum', 'custom']),
+    payment_interval_months: z.number().int().min(1).max(120).optional().nullable(),
+    payment_amount: currencyStringToCents.optional().nullable(),
+    status: loanStatusSchema.optional(),
+    collateral_description: optionalString(1000),
+    collateral_value: currencyStringToCents.optional().nullable(),
+    next_payment_date: z.number().int().positive().optional().nullable(),
+  })
+  .strict();
+
+export const loanUpdateSchema = loanInputSchema
+  .omit({ entity_id: true })
+  .partial();
+
+export const loanPaymentSchema = z
+  .object({
+    loan_schedule_id: requiredIdSchema,
+    actual_payment_date: z.number().int().positive({ message: 'Payment date (Unix timestamp) is required.' }),
+    actual_payment_amount: requiredCurrencyInCents,
+    transaction_id: requiredIdSchema.optional(),
+    cash_entity_account_id: requiredIdSchema,
+    principal_entity_account_id: requiredIdSchema.optional(),
+    interest_entity_account_id: requiredIdSchema.optional(),
+    reference: optionalString(255),
+  })
+  .strict();
+
+export const loanRateChangeSchema = z
+  .object({
+    effective_date: z.number().int().positive({ message: 'Effective date (Unix timestamp) is required.' }),
+    index_name: optionalString(100),
+    // Decimal annual rates, e.g., 0.043 index + 0.0275 margin
+    index_rate: z.number().min(-1).max(1).optional().nullable(),
+    margin: z.number().min(-1).max(1).optional().nullable(),
+    interest_rate: z.number().min(0).max(1).optional().nullable(),
+    recalculate_payment: optionalBoolean(),
+    note: optionalString(500),
+  })
+  .strict()
+  .refine(
+    (change) => change.interest_rate != null || (change.index_rate != null && change.margin != null),
+    { message: 'Provide interest_rate or both index_rate and margin.', path: ['interest_rate'] }
+  );
+
+export const loanListQuerySchema = z.object({
+  entity_id: requiredIdSchema,
+  status: loanStatusSchema.optional(),
+});
+
+export const loanAccrualRunSchema = z
+  .object({
+    entity_id: requiredIdSchema,
+    // Last day of the month to accrue through; defaults to the end of the previous month
+    period_end: z.number().int().positive().optional(),
+  })
+  .strict();
+
+export const loanAccrualListQuerySchema = z.object({
+  entity_id: requiredIdSchema,
+  period_end: queryDate.optional(),
+});
+
+// --- Categorization Rule Schemas ---
+
+const ruleConditionValueSchema = z.union([z.string(), z.number(), z.boolean()]);
+
+export const ruleConditionSchema = z
+  .object({
+    field: requiredString('Condition field', 1, 100),
+    operator: z.enum(RULE_CONDITION_OPERATORS),
+    // Arrays carry the [min, max] of between/dayOfMonthBetween and the options of `in`
+    value: z.union([ruleConditionValueSchema, z.array(ruleConditionValueSchema).max(100)]).optional().nullable(),
+    caseSensitive: optionalBoolean(),
+  })
+  .strict();
+
+// Conditions nest inside all/any/not groups; operator-specific checks happen in
+// RuleService via validateRuleConditions.
+export const ruleConditionNodeSchema: z.ZodType<RuleConditionNode> = z.lazy(() =>
+  z.union([
+    ruleConditionSchema,
+    z.object({ all: z.array(ruleConditionNodeSchema).min(1).max(50) }).strict(),
+    z.object({ any: z.array(ruleConditionNodeSchema).min(1).max(50) }).strict(),
+    z.object({ not: ruleConditionNodeSchema }).strict(),
+  ])
+) as z.ZodType<RuleConditionNode>;
+
+export const ruleActionSplitSchema = z
+  .object({
+    accountId: requiredIdSchema, // entity_accounts id
+    type: z.enum(['fixed', 'percentage', 'remainder']),
+    value: z.number().int().positive().optional(), // Cents for 'fixed', basis points for 'percentage'
+    description: z.string().trim().max(255).optional(),
+  })
+  .strict();
+
+// Split totals are checked by RuleService so that stored rules are validated the same way.
+export const ruleActionSchema = z
+  .object({
+    accountId: requiredIdSchema.optional(), // entity_accounts id
+    splits: z.array(ruleActionSplitSchema).optional(),
+    isDebit: z.boolean({ required_error: 'isDebit is required.' }),
+    description: z.string().trim().max(255).optional(),
+    metadata: z.record(z.unknown()).optional(),
+  })
+  .strict()
+  .refine((action) => !!action.accountId !== !!action.splits, {
+    message: 'Provide either accountId or splits.',
+    path: ['accountId'],
+  });
+
+export const ruleInputSchema = z
+  .object({
+    name: requiredString('Rule name', 1, 255),
+    description: z.string().trim().max(1000).optional(),
+    entityId: requiredIdSchema.optional(), // Omit for a rule that applies to all entities
+    isActive: optionalBoolean(),
+    priority: z.number().int().min(0).max(10000).optional(),
+    conditions: z.array(ruleConditionNodeSchema).max(50),
+    action: ruleActionSchema,
+  })
+  .strict();
+
+export const ruleUpdateSchema = ruleInputSchema
+  .extend({ entityId: requiredIdSchema.nullable() })
+  .partial();
+
+export const ruleListQuerySchema = z.object({
+  entity_id: requiredIdSchema.optional(),
+});
+
+export const ruleSeedSchema = z
+  .object({
+    entity_id: requiredIdSchema,
+  })
+  .strict();
+
+export const ruleSuggestionQuerySchema = z
+  .object({
+    entity_id: requiredIdSchema,
+    start_date: queryDate.optional(),
+    end_date: queryDate.optional(),
+  })
+  .refine((q) => q.start_date === undefined || q.end_date === undefined || q.start_date <= q.end_date, {
+    message: 'start_date must be on or before end_date.',
+    path: ['start_date'],
+  });
+
+export const ruleSimulationSchema = z
+  .object({
+    entity_id: requiredIdSchema,
+    source: z.enum(['imports', 'transactions']),
+    cash_entity_account_id: requiredIdSchema.optional(),
+    start_date: z.number().int().nonnegative({ message: 'Start date (Unix timestamp) is required.' }),
+    end_date: z.number().int().nonnegative({ message: 'End date (Unix timestamp) is required.' }),
+    // A rule with the id of an existing rule replaces it; other rules are added.
+    rules: z.array(ruleInputSchema.extend({ id: requiredIdSchema.optional() })).max(100),
+    replace_all: optionalBoolean(),
+  })
+  .strict()
+  .refine((input) => input.start_date <= input.end_date, {
+    message: 'start_date must be on or before end_date.',
+    path: ['start_date'],
+  })
+  .refine((input) => input.source !== 'transactions' || !!input.cash_entity_account_id, {
+    message: 'cash_entity_account_id is required to replay transactions.',
+    path: ['cash_entity_account_id'],
+  });
+
+// --- Bank Import Schemas ---
+
+const bankImportMappingObject = z
+  .object({
+    name: requiredString('Mapping name', 1, 100),
+    date_column: requiredString('Date column', 1, 100),
+    description_column: requiredString('Description column', 1, 100),
+    amount_column: optionalString(100),
+    debit_column: optionalString(100),
+    credit_column: optionalString(100),
+    reference_column: optionalString(100),
+    sign_convention: z.enum(['deposits_positive', 'withdrawals_positive']).default('deposits_positive'),
+    date_format: z.enum(['YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY']).default('MM/DD/YYYY'),
+  })
+  .strict();
+
+export const bankImportMappingSchema = bankImportMappingObject.refine(
+  (m) => !!m.amount_column !== (!!m.debit_column && !!m.credit_column),
+  { message: 'Provide either amount_column or both debit_column and credit_column.', path: ['amount_column'] }
+);
+
+export const bankImportMappingUpdateSchema = bankImportMappingObject
+  .extend({
+    sign_convention: z.enum(['deposits_positive', 'withdrawals_positive']),
+    date_format: z.enum(['YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY']),
+  })
+  .partial();
+
+const nearDuplicateDaysSchema = z.number().int().min(0).max(30).optional();
+
+export const csvImportSchema = z
+  .object({
+    entity_id: requiredIdSchema,
+    cash_entity_account_id: requiredIdSchema,
+    content: z.string({ required_error: 'CSV content is required.' }).min(1).max(5_000_000),
+    file_name: optionalString(255),
+    mapping_id: requiredIdSchema.optional(),
+    mapping: bankImportMappingSchema.optional(),
+    save_mapping: optionalBoolean(),
+    near_duplicate_days: nearDuplicateDaysSchema,
+  })
+  .strict()
+  .refine((input) => !!input.mapping_id !== !!input.mapping, {
+    message: 'Provide either mapping_id or an inline mapping.',
+    path: ['mapping_id'],
+  });
+
+export const ofxImportSchema = z
+  .object({
+    entity_id: requiredIdSchema,
+    cash_entity_account_id: requiredIdSchema,
+    content: z.string({ required_error: 'OFX content is required.' }).min(1).max(5_000_000),
+    file_name: optionalString(255),
+    near_duplicate_days: nearDuplicateDaysSchema,
+  })
+  .strict();
+
+export const bankImportListQuerySchema = z.object({
+  entity_id: requiredIdSchema,
+});
+
+export const bankImportItemUpdateSchema = z
+  .object({
+    category_entity_account_id: requiredIdSchema.optional(),
+    status: z.enum(['skipped', 'proposed']).optional(),
+    not_duplicate: z.literal(true).optional(),
+  })
+  .strict()
+  .refine(
+    (update) => update.category_entity_account_id !== undefined || update.status !== undefined || update.not_duplicate !== undefined,
+    { message: 'Provide category_entity_account_id, status or not_duplicate.' }
+  );
+
+// --- Bank Reconciliation Schemas ---
+
+export const reconciliationInputSchema = z
+  .object({
+    entity_id: requiredIdSchema,
+    cash_entity_account_id: requiredIdSchema,
+    statement_end_date: z.number().int().positive({ message: 'Statement end date (Unix timestamp) is required.' }),
+    statement_ending_balance: requiredCurrencyInCents,
+  })
+  .strict();
+
+export const reconciliationListQuerySchema = z.object({
+  entity_id: requiredIdSchema,
+  cash_entity_account_id: requiredIdSchema.optional(),
+});
+
+export const reconciliationClearSchema = z
+  .object({
+    transaction_ids: z.array(requiredIdSchema).min(1, { message: 'At least one transaction is required.' }).max(500),
+    cleared: z.boolean().default(true),
+  })
+  .strict();
+
+// --- Document Schemas ---
+
+const documentTargetTypeSchema = z.enum(['transaction', 'entity', 'loan']);
+
+export const documentLinkSchema = z
+  .object({
+    target_type: documentTargetTypeSchema,
+    target_id: requiredIdSchema,
+  })
+  .strict();
+
+export const documentListQuerySchema = z
+  .object({
+    target_type: documentTargetTypeSchema.optional(),
+    target_id: requiredIdSchema.optional(),
+  })
+  .refine((q) => !q.target_type === !q.target_id, {
+    message: 'target_type and target_id must be given together.',
+    path: ['target_id'],
+  });
+
+// Form fields sent with the file in a multipart upload; each id field may repeat.
+export const documentUploadFieldsSchema = z.object({
+  description: optionalString(1000),
+  transaction_id: z.array(requiredIdSchema).max(20).default([]),
+  entity_id: z.array(requiredIdSchema).max(20).default([]),
+  loan_id: z.array(requiredIdSchema).max(20).default([]),
+});
+
+export const documentDownloadQuerySchema = z.object({
+  expires: z.coerce.number().int().positive(),
+  signature: z.string().regex(/^[0-9a-f]{64}$/, { message: 'Invalid signature.' }),
+});
+
+// --- Intercompany Schemas ---
+
+export const intercompanyTransactionInputSchema = z
+  .object({
+    kind: z.enum(['advance', 'settlement']).default('advance'),
+    from_entity_id: requiredIdSchema,
+    to_entity_id: requiredIdSchema,
+    date: z.number().int().positive({ message: 'Transaction date (Unix timestamp) is required.' }),
+    amount: requiredCurrencyInCents.refine((val) => val > 0, { message: 'Amount must be positive.' }),
+    description: requiredString('Description', 1, 1000),
+    reference: optionalString(255),
+    from_counter_entity_account_id: requiredIdSchema,
+    to_counter_entity_account_id: requiredIdSchema,
+    from_due_entity_account_id: requiredIdSchema.optional(),
+    to_due_entity_account_id: requiredIdSchema.optional(),
+  })
+  .strict()
+  .refine((input) => input.from_entity_id !== input.to_entity_id, {
+    message: 'An intercompany transaction needs two different entities.',
+    path: ['to_entity_id'],
+  });
+
+export const intercompanyListQuerySchema = z.object({
+  entity_id: requiredIdSchema.optional(),
+});
+
+export const intercompanyVoidSchema = transactionVoidSchema;
+
+// Without entity_id, every pair the user has is checked.
+export const intercompanyExceptionsQuerySchema = z.object({
+  entity_id: requiredIdSchema.optional(),
+  as_of_date: queryDate,
+});
+
+// --- Ownership Schemas ---
+
+export const entityOwnershipInputSchema = z
+  .object({
+    owner_entity_id: requiredIdSchema.optional().nullable(),
+    owner_name: optionalString(255),
+    ownership_bps: z.number().int().min(0).max(10000, { message: 'Ownership cannot exceed 10000 basis points (100%).' }),
+    effective_date: z.number().int().positive({ message: 'Effective date (Unix timestamp) is required.' }),
+    note: optionalString(1000),
+  })
+  .strict()
+  .refine((input) => !input.owner_entity_id !== !input.owner_name, {
+    message: 'Provide either owner_entity_id or owner_name.',
+    path: ['owner_entity_id'],
+  });
+
+// Defaults to today when as_of_date is omitted.
+export const entityOwnershipQuerySchema = z.object({
+  as_of_date: queryDate.optional(),
+});
+
+// --- Partner Schemas ---
+
+const basisPointsSchema = z.number().int().min(0).max(10000, { message: 'Cannot exceed 10000 basis points (100%).' });
+
+export const partnerInputSchema = z
+  .object({
+    name: requiredString('Partner name', 1, 255),
+    role: z.enum(['investor', 'sponsor'], {
+      errorMap: () => ({ message: "Role must be 'investor' or 'sponsor'." }),
+    }),
+    ownership_bps: basisPointsSchema,
+    is_active: optionalBoolean(),
+  })
+  .strict();
+
+export const partnerUpdateSchema = partnerInputSchema.partial();
+
+export const capitalContributionSchema = z
+  .object({
+    date: z.number().int().positive({ message: 'Date (Unix timestamp) is required.' }),
+    amount: requiredCurrencyInCents.refine((amount) => amount > 0, { message: 'Amount must be greater than zero.' }),
+    cash_entity_account_id: requiredIdSchema,
+    description: optionalString(500),
+  })
+  .strict();
+
+export const incomeAllocationSchema = z
+  .object({
+    start_date: z.number().int().positive({ message: 'Start date (Unix timestamp) is required.' }),
+    end_date: z.number().int().positive({ message: 'End date (Unix timestamp) is required.' }),
+  })
+  .strict()
+  .refine((period) => period.start_date <= period.end_date, {
+    message: 'The end date must be on or after the start date.',
+    path: ['end_date'],
+  });
+
+export const waterfallTermsSchema = z
+  .object({
+    preferred_return_bps: basisPointsSchema,
+    catch_up_bps: basisPointsSchema.default(0),
+    promote_bps: basisPointsSchema,
+  })
+  .strict();
+
+export const distributionInputSchema = capitalContributionSchema;
+
+export const distributionPreviewSchema = capitalContributionSchema.omit({ cash_entity_account_id: true, description: true });
+
+// Defaults to today when as_of_date is omitted.
+export const partnerCapitalQuerySchema = z.object({
+  as_of_date: queryDate.optional(),
+});
+
+// --- Fiscal Period Schemas ---
+
+export const fiscalYearQuerySchema = z.object({
+  // Named for the calendar year it ends in; defaults to the current fiscal year
+  fiscal_year: z.coerce.number().int().min(1900).max(9999).optional(),
+});
+
+export const fiscalPeriodStatusSchema = z
+  .object({
+    period_start: z.number().int().nonnegative({ message: 'Period (Unix timestamp of any date in the month) is required.' }),
+    status: z.enum(['open', 'soft_closed', 'closed'], {
+      errorMap: () => ({ message: "Status must be 'open', 'soft_closed' or 'closed'." }),
+    }),
+    note: optionalString(1000),
   })
   .strict();
 
@@ -225,4 +814,50 @@ export async function validateRequestBody<T extends z.ZodTypeAny>(
       400
     );
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Helper to validate URL query parameters. Throws AppError on failure.
+ */
+export function validateQueryParams<T extends z.ZodTypeAny>(
+  url: URL,
+  schema: T
+): z.infer<T> {
+  const result = schema.safeParse(Object.fromEntries(url.searchParams.entries()));
+  if (!result.success) {
+    throw new AppError(
+      ErrorCode.VALIDATION_ERROR,
+      'Invalid query parameters. Please check the provided filters.',
+      400,
+      result.error.flatten().fieldErrors
+    );
+  }
+  return result.data;
+}
+
+/**
+ * Helper to validate multipart form fields (everything but files). `repeatedFields` are
+ * passed to the schema as arrays of every value sent. Throws AppError on failure.
+ */
+export function validateFormFields<T extends z.ZodTypeAny>(
+  formData: FormData,
+  schema: T,
+  repeatedFields: string[] = []
+): z.infer<T> {
+  const fields: Record<string, unknown> = {};
+  for (const key of new Set(formData.keys())) {
+    const values = formData.getAll(key).filter((value): value is string => typeof value === 'string');
+    if (values.length === 0) continue;
+    fields[key] = repeatedFields.includes(key) ? values : values[0];
+  }
+  const result = schema.safeParse(fields);
+  if (!result.success) {
+    throw new AppError(
+      ErrorCode.VALIDATION_ERROR,
+      'Invalid form fields. Please check the provided data.',
+      400,
+      result.error.flatten().fieldErrors
+    );
+  }
+  return result.data;
+}
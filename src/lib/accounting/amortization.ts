@@ -0,0 +1,161 @@
+// src/lib/accounting/amortization.ts
+
+import Decimal from 'decimal.js';
+import type { DayCountConvention, LoanPaymentFrequency } from '../../types/loan';
+import { newDecimal } from '@utils/financial';
+import { shiftUnixMonths } from '@utils/date';
+import { simpleInterestCents } from './dayCount';
+
+const BASIS_POINTS = 10000;
+
+const FREQUENCY_MONTHS: Partial<Record<LoanPaymentFrequency, number>> = {
+  monthly: 1,
+  quarterly: 3,
+  annually: 12,
+};
+
+/**
+ * The loan terms needed to build an amortization schedule. Amounts are in cents and
+ * the annual rate is in basis points.
+ */
+export interface AmortizationTerms {
+  principal: number;
+  annualRateBasisPoints: number;
+  originationDate: number;
+  maturityDate: number;
+  frequency: LoanPaymentFrequency;
+  intervalMonths?: number | null; // Required for 'custom'
+  firstPaymentDate?: number | null; // Defaults to one interval after origination
+  paymentAmount?: number | null; // Omit for a level payment that fully amortizes the loan
+  dayCountConvention?: DayCountConvention; // Lump-sum interest only; defaults to actual/365
+}
+
+export interface AmortizationRow {
+  payment_number: number;
+  payment_date: number;
+  total_payment: number;
+  principal_portion: number;
+  interest_portion: number;
+  remaining_balance: number;
+}
+
+function roundCents(value: Decimal): number {
+  return value.toDecimalPlaces(0, Decimal.ROUND_HALF_EVEN).toNumber();
+}
+
+/**
+ * Months between scheduled payments, or null for a single lump-sum payment at maturity.
+ */
+export function paymentIntervalMonths(frequency: LoanPaymentFrequency, customIntervalMonths?: number | null): number | null {
+  if (frequency === 'lump_sum') return null;
+  if (frequency === 'custom') {
+    if (!customIntervalMonths || customIntervalMonths < 1) {
+      throw new Error('A custom payment frequency requires a positive payment interval in months.');
+    }
+    return customIntervalMonths;
+  }
+  return FREQUENCY_MONTHS[frequency]!;
+}
+
+/**
+ * The interest rate for one payment period of `intervalMonths`.
+ */
+export function periodicRate(annualRateBasisPoints: number, intervalMonths: number): Decimal {
+  return newDecimal(annualRateBasisPoints).dividedBy(BASIS_POINTS).times(intervalMonths).dividedBy(12);
+}
+
+/**
+ * Scheduled payment dates from the first payment through maturity. Dates step by whole
+ * months from the first payment; the final payment always falls on the maturity date.
+ */
+export function scheduledPaymentDates(firstPaymentDate: number, maturityDate: number, intervalMonths: number): number[] {
+  const dates: number[] = [];
+  for (let k = 0; ; k++) {
+    const date = shiftUnixMonths(firstPaymentDate, k * intervalMonths);
+    if (date >= maturityDate) break;
+    dates.push(date);
+  }
+  dates.push(maturityDate);
+  return dates;
+}
+
+/**
+ * The level payment (in cents) that retires `balance` over `periods` payments.
+ */
+export function levelPaymentCents(balance: number, rate: Decimal, periods: number): number {
+  if (periods <= 0) return balance;
+  if (rate.isZero()) return roundCents(newDecimal(balance).dividedBy(periods));
+  const discount = newDecimal(1).minus(rate.plus(1).pow(-periods));
+  return roundCents(newDecimal(balance).times(rate).dividedBy(discount));
+}
+
+/**
+ * Amortizes `balance` over the given payment dates. Each period accrues `rate` on the
+ * opening balance; the payment covers interest first. The last row retires whatever
+ * principal remains (a balloon when `paymentAmount` is too small to amortize fully), and
+ * the schedule stops early once the balance reaches zero. Pass `retireBalance = false` for a
+ * stretch of the schedule that continues at another rate.
+ */
+export function amortizeBalance(
+  balance: number,
+  rate: Decimal,
+  paymentDates: number[],
+  paymentAmount: number | null,
+  firstPaymentNumber = 1,
+  retireBalance = true
+): AmortizationRow[] {
+  const payment = paymentAmount ?? levelPaymentCents(balance, rate, paymentDates.length);
+  const rows: AmortizationRow[] = [];
+  let remaining = balance;
+
+  for (let i = 0; i < paymentDates.length && remaining > 0; i++) {
+    const interest = roundCents(newDecimal(remaining).times(rate));
+    const isFinal = retireBalance && i === paymentDates.length - 1;
+    const principal = isFinal ? remaining : Math.min(payment - interest, remaining);
+    remaining -= principal;
+    rows.push({
+      payment_number: firstPaymentNumber + i,
+      payment_date: paymentDates[i],
+      total_payment: principal + interest,
+      principal_portion: principal,
+      interest_portion: interest,
+      remaining_balance: remaining,
+    });
+  }
+  return rows;
+}
+
+/**
+ * Builds the full schedule for a new loan. Lump-sum loans get a single payment at maturity
+ * of principal plus simple interest under the loan's day-count convention.
+ */
+export function buildAmortizationSchedule(terms: AmortizationTerms): AmortizationRow[] {
+  const intervalMonths = paymentIntervalMonths(terms.frequency, terms.intervalMonths);
+
+  if (intervalMonths === null) {
+    const interest = simpleInterestCents(
+      terms.principal,
+      terms.annualRateBasisPoints,
+      terms.originationDate,
+      terms.maturityDate,
+      terms.dayCountConvention ?? 'actual_365'
+    );
+    return [{
+      payment_number: 1,
+      payment_date: terms.maturityDate,
+      total_payment: terms.principal + interest,
+      principal_portion: terms.principal,
+      interest_portion: interest,
+      remaining_balance: 0,
+    }];
+  }
+
+  const firstPaymentDate = terms.firstPaymentDate ?? shiftUnixMonths(terms.originationDate, intervalMonths);
+  const dates = scheduledPaymentDates(firstPaymentDate, terms.maturityDate, intervalMonths);
+  return amortizeBalance(
+    terms.principal,
+    periodicRate(terms.annualRateBasisPoints, intervalMonths),
+    dates,
+    terms.paymentAmount ?? null
+  );
+}
@@ -4,7 +4,7 @@
 // Assuming AccountType and ExpenseSubtype are defined in your main application types
 // and are compatible with how they are used here.
 import type { AccountSystemType as AccountType } from '@db/schema';
-import type { ExpenseSubtype } from '../../types/account';
+import type { CashFlowCategory, ExpenseSubtype } from '../../types/account';
 
 export interface ChartOfAccountsItem {
   code: string;
@@ -35,6 +35,10 @@ export interface ChartOfAccountsItem {
    * Crucial for the Account class logic.
    */
   normalBalance: 'debit' | 'credit'; // Made non-optional as it's critical
+  /**
+   * Statement of cash flows classification. Child accounts inherit it when unset.
+   */
+  cashFlowCategory?: CashFlowCategory | null;
   /**
    * Brief explanation of what the account is used for.
    */
@@ -47,57 +51,62 @@ export interface ChartOfAccountsItem {
 export const defaultChartOfAccounts: ChartOfAccountsItem[] = [
   // == ASSETS (1000-1999) ==
   // Current Assets (1000-1499)
-  { code: '1000', name: 'Current Assets', type: 'asset', normalBalance: 'debit', description: 'Top-level current assets category.' },
-  { code: '1010', name: 'Cash and Cash Equivalents', type: 'asset', parentCode: '1000', normalBalance: 'debit', description: 'Operating bank accounts, petty cash.' },
+  { code: '1000', name: 'Current Assets', type: 'asset', subtype: 'current_asset', normalBalance: 'debit', description: 'Top-level current assets category.' },
+  { code: '1010', name: 'Cash and Cash Equivalents', type: 'asset', parentCode: '1000', cashFlowCategory: 'cash', normalBalance: 'debit', description: 'Operating bank accounts, petty cash.' },
   { code: '1020', name: 'Checking Account', type: 'asset', parentCode: '1010', normalBalance: 'debit' },
   { code: '1030', name: 'Savings Account', type: 'asset', parentCode: '1010', normalBalance: 'debit' },
   { code: '1040', name: 'Petty Cash', type: 'asset', parentCode: '1010', normalBalance: 'debit' },
   
-  { code: '1100', name: 'Accounts Receivable', type: 'asset', parentCode: '1000', isControlAccount: true, normalBalance: 'debit', description: 'Amounts due from tenants for rent.' },
+  { code: '1100', name: 'Accounts Receivable', type: 'asset', parentCode: '1000', isControlAccount: true, cashFlowCategory: 'operating', normalBalance: 'debit', description: 'Amounts due from tenants for rent.' },
   { code: '1110', name: 'Tenant Receivables', type: 'asset', parentCode: '1100', normalBalance: 'debit' },
   
-  { code: '1200', name: 'Prepaid Expenses', type: 'asset', parentCode: '1000', normalBalance: 'debit', description: 'Expenses paid in advance, like insurance.' },
+  { code: '1200', name: 'Prepaid Expenses', type: 'asset', parentCode: '1000', cashFlowCategory: 'operating', normalBalance: 'debit', description: 'Expenses paid in advance, like insurance.' },
   { code: '1210', name: 'Prepaid Insurance', type: 'asset', parentCode: '1200', normalBalance: 'debit' },
   
-  { code: '1300', name: 'Security Deposits Held (Asset)', type: 'asset', parentCode: '1000', normalBalance: 'debit', description: 'Cash held in a separate bank account for tenant security deposits. A corresponding liability exists.' },
+  { code: '1300', name: 'Security Deposits Held (Asset)', type: 'asset', parentCode: '1000', cashFlowCategory: 'cash', normalBalance: 'debit', description: 'Cash held in a separate bank account for tenant security deposits. A corresponding liability exists.' },
+
+  { code: '1400', name: 'Notes Receivable', type: 'asset', parentCode: '1000', cashFlowCategory: 'investing', normalBalance: 'debit', description: 'Principal owed to the entity on seller-financing and other notes.' },
+  { code: '1410', name: 'Interest Receivable', type: 'asset', parentCode: '1000', cashFlowCategory: 'operating', normalBalance: 'debit', description: 'Interest earned on notes receivable but not yet collected.' },
+  { code: '1420', name: 'Due from Related Entities', type: 'asset', parentCode: '1000', cashFlowCategory: 'investing', normalBalance: 'debit', description: 'Intercompany advances and expenses paid on behalf of other entities owned by the user.' },
 
   // Fixed Assets (1500-1999) - For properties owned by the entity itself
-  { code: '1500', name: 'Fixed Assets', type: 'asset', normalBalance: 'debit', description: 'Long-term assets like land and buildings.' },
+  { code: '1500', name: 'Fixed Assets', type: 'asset', subtype: 'fixed_asset', cashFlowCategory: 'investing', normalBalance: 'debit', description: 'Long-term assets like land and buildings.' },
   { code: '1510', name: 'Land', type: 'asset', parentCode: '1500', normalBalance: 'debit' },
   { code: '1520', name: 'Buildings', type: 'asset', parentCode: '1500', normalBalance: 'debit' },
-  { code: '1525', name: 'Accumulated Depreciation - Buildings', type: 'asset', parentCode: '1520', normalBalance: 'credit', description: 'Contra-asset account for building depreciation.' },
+  { code: '1525', name: 'Accumulated Depreciation - Buildings', type: 'asset', parentCode: '1520', cashFlowCategory: 'non_cash', normalBalance: 'credit', description: 'Contra-asset account for building depreciation.' },
   { code: '1530', name: 'Furniture and Fixtures', type: 'asset', parentCode: '1500', normalBalance: 'debit' },
-  { code: '1535', name: 'Accumulated Depreciation - Furniture', type: 'asset', parentCode: '1530', normalBalance: 'credit', description: 'Contra-asset account.' },
+  { code: '1535', name: 'Accumulated Depreciation - Furniture', type: 'asset', parentCode: '1530', cashFlowCategory: 'non_cash', normalBalance: 'credit', description: 'Contra-asset account.' },
 
 
   // == LIABILITIES (2000-2999) ==
-  { code: '2000', name: 'Current Liabilities', type: 'liability', normalBalance: 'credit', description: 'Short-term obligations.'},
+  { code: '2000', name: 'Current Liabilities', type: 'liability', subtype: 'current_liability', cashFlowCategory: 'operating', normalBalance: 'credit', description: 'Short-term obligations.'},
   { code: '2010', name: 'Accounts Payable', type: 'liability', parentCode: '2000', isControlAccount: true, normalBalance: 'credit', description: 'Amounts owed to suppliers and vendors.' },
   { code: '2100', name: 'Tenant Security Deposits (Liability)', type: 'liability', parentCode: '2000', normalBalance: 'credit', description: 'Obligation to return security deposits to tenants.' },
   { code: '2200', name: 'Unearned Rent Revenue', type: 'liability', parentCode: '2000', normalBalance: 'credit', description: 'Rent received from tenants in advance.' },
   { code: '2300', name: 'Property Taxes Payable', type: 'liability', parentCode: '2000', normalBalance: 'credit' },
   { code: '2400', name: 'Accrued Expenses', type: 'liability', parentCode: '2000', normalBalance: 'credit' },
+  { code: '2450', name: 'Due to Related Entities', type: 'liability', parentCode: '2000', cashFlowCategory: 'financing', normalBalance: 'credit', description: 'Intercompany amounts owed to other entities owned by the user.' },
 
 
-  { code: '2500', name: 'Long-Term Liabilities', type: 'liability', normalBalance: 'credit', description: 'Obligations due in more than one year.'},
+  { code: '2500', name: 'Long-Term Liabilities', type: 'liability', subtype: 'long_term_liability', cashFlowCategory: 'financing', normalBalance: 'credit', description: 'Obligations due in more than one year.'},
   { code: '2510', name: 'Mortgage Payable', type: 'liability', parentCode: '2500', normalBalance: 'credit' },
   { code: '2520', name: 'Notes Payable - Long Term', type: 'liability', parentCode: '2500', normalBalance: 'credit' },
 
 
   // == EQUITY (3000-3999) ==
   { code: '3000', name: 'Equity', type: 'equity', normalBalance: 'credit', description: "Owner's stake in the company."},
-  { code: '3010', name: "Owner's Capital / Common Stock", type: 'equity', parentCode: '3000', normalBalance: 'credit' },
-  { code: '3020', name: "Owner's Draws / Dividends", type: 'equity', parentCode: '3000', normalBalance: 'debit', description: 'Withdrawals by the owner or dividends paid (contra-equity).' },
+  { code: '3010', name: "Owner's Capital / Common Stock", type: 'equity', parentCode: '3000', cashFlowCategory: 'financing', normalBalance: 'credit' },
+  { code: '3020', name: "Owner's Draws / Dividends", type: 'equity', parentCode: '3000', cashFlowCategory: 'financing', normalBalance: 'debit', description: 'Withdrawals by the owner or dividends paid (contra-equity).' },
   { code: '3030', name: 'Retained Earnings', type: 'equity', parentCode: '3000', normalBalance: 'credit' },
 
 
   // == INCOME / REVENUE (4000-4999) ==
-  { code: '4000', name: 'Operating Revenue', type: 'income', normalBalance: 'credit', description: 'Income from primary business activities.'},
+  { code: '4000', name: 'Operating Revenue', type: 'income', subtype: 'operating_revenue', normalBalance: 'credit', description: 'Income from primary business activities.'},
   { code: '4010', name: 'Rental Income', type: 'income', parentCode: '4000', normalBalance: 'credit' },
   { code: '4020', name: 'Late Fee Income', type: 'income', parentCode: '4000', normalBalance: 'credit' },
   { code: '4030', name: 'Other Property Income', type: 'income', parentCode: '4000', normalBalance: 'credit', description: 'e.g., laundry, parking fees.' },
   
-  { code: '4500', name: 'Non-Operating Income', type: 'income', normalBalance: 'credit', description: 'Income from secondary activities.'},
+  { code: '4500', name: 'Non-Operating Income', type: 'income', subtype: 'non_operating_income', normalBalance: 'credit', description: 'Income from secondary activities.'},
   { code: '4510', name: 'Interest Income', type: 'income', parentCode: '4500', normalBalance: 'credit' },
 
 
@@ -121,12 +130,12 @@ export const defaultChartOfAccounts: ChartOfAccountsItem[] = [
   { code: '5140', name: 'Licenses and Permits', type: 'expense', parentCode: '5100', normalBalance: 'debit'},
 
   // Financial Expenses
-  { code: '5800', name: 'Financial Expenses', type: 'expense', normalBalance: 'debit'},
+  { code: '5800', name: 'Financial Expenses', type: 'expense', subtype: 'non_operating_expense', normalBalance: 'debit'},
   { code: '5810', name: 'Mortgage Interest Expense', type: 'expense', parentCode: '5800', normalBalance: 'debit' },
   { code: '5820', name: 'Loan Fees & Other Interest', type: 'expense', parentCode: '5800', normalBalance: 'debit' },
 
   // Depreciation & Amortization
-  { code: '5900', name: 'Depreciation & Amortization', type: 'expense', normalBalance: 'debit'},
+  { code: '5900', name: 'Depreciation & Amortization', type: 'expense', subtype: 'non_operating_expense', cashFlowCategory: 'non_cash', normalBalance: 'debit'},
   { code: '5910', name: 'Depreciation Expense - Buildings', type: 'expense', parentCode: '5900', normalBalance: 'debit' },
   { code: '5920', name: 'Depreciation Expense - Furniture & Fixtures', type: 'expense', parentCode: '5900', normalBalance: 'debit' },
   { code: '5930', name: 'Amortization Expense - Loan Costs', type: 'expense', parentCode: '5900', normalBalance: 'debit' },
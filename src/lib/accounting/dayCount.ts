@@ -0,0 +1,51 @@
+// src/lib/accounting/dayCount.ts
+
+import Decimal from 'decimal.js';
+import type { DayCountConvention } from '../../types/loan';
+import { newDecimal } from '@utils/financial';
+
+const SECONDS_PER_DAY = 86400;
+const BASIS_POINTS = 10000;
+
+const YEAR_BASIS: Record<DayCountConvention, number> = {
+  actual_365: 365,
+  actual_360: 360,
+  '30_360': 360,
+};
+
+/**
+ * Days between two Unix timestamps (seconds) under a day-count convention. Actual conventions
+ * count calendar days; 30/360 uses the US (bond basis) rule where the 31st counts as the 30th.
+ */
+export function dayCount(startDate: number, endDate: number, convention: DayCountConvention): number {
+  if (convention !== '30_360') {
+    return Math.round((endDate - startDate) / SECONDS_PER_DAY);
+  }
+  const start = new Date(startDate * 1000);
+  const end = new Date(endDate * 1000);
+  const d1 = Math.min(start.getUTCDate(), 30);
+  const d2 = end.getUTCDate() === 31 && d1 === 30 ? 30 : end.getUTCDate();
+  return 360 * (end.getUTCFullYear() - start.getUTCFullYear())
+    + 30 * (end.getUTCMonth() - start.getUTCMonth())
+    + (d2 - d1);
+}
+
+/**
+ * Simple interest in cents on `principal` at an annual rate in basis points between two
+ * dates, rounded half-even.
+ */
+export function simpleInterestCents(
+  principal: number,
+  annualRateBasisPoints: number,
+  startDate: number,
+  endDate: number,
+  convention: DayCountConvention
+): number {
+  return newDecimal(principal)
+    .times(annualRateBasisPoints)
+    .dividedBy(BASIS_POINTS)
+    .times(dayCount(startDate, endDate, convention))
+    .dividedBy(YEAR_BASIS[convention])
+    .toDecimalPlaces(0, Decimal.ROUND_HALF_EVEN)
+    .toNumber();
+}
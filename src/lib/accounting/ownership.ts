@@ -0,0 +1,93 @@
+// src/lib/accounting/ownership.ts
+
+import type { EntityOwnership } from '../../types/ownership';
+import type { ConsolidationEntity } from '../../types/report';
+
+export const FULL_OWNERSHIP_BPS = 10000;
+
+type OwnerFields = { owner_entity_id?: string | null; owner_name?: string | null };
+type OwnershipRecord = Pick<EntityOwnership, 'entity_id' | 'ownership_bps' | 'effective_date'> & OwnerFields;
+
+/**
+ * Identifies an owner across records: an entity by id, an outside owner by name.
+ */
+export function ownerKey(record: OwnerFields): string {
+  return record.owner_entity_id ? `entity:${record.owner_entity_id}` : `name:${record.owner_name ?? ''}`;
+}
+
+/**
+ * The stakes in force on `asOfDate`: each owner's latest record in each entity effective on
+ * or before that date, leaving out stakes that have been ended with a 0 record.
+ */
+export function stakesAsOf<T extends OwnershipRecord>(records: T[], asOfDate: number): T[] {
+  const latest = new Map<string, T>();
+  for (const record of records) {
+    if (record.effective_date > asOfDate) continue;
+    const key = `${record.entity_id}|${ownerKey(record)}`;
+    const current = latest.get(key);
+    if (!current || record.effective_date > current.effective_date) latest.set(key, record);
+  }
+  return [...latest.values()].filter(record => record.ownership_bps > 0);
+}
+
+/**
+ * The first date on which the stakes recorded in an entity add up to more than 100%, or null
+ * when they never do. Totals only change on effective dates, so those are the dates checked.
+ */
+export function findOverallocation(records: OwnershipRecord[]): { entity_id: string; date: number; total_bps: number } | null {
+  const dates = [...new Set(records.map(record => record.effective_date))].sort((a, b) => a - b);
+  for (const date of dates) {
+    const totals = new Map<string, number>();
+    for (const stake of stakesAsOf(records, date)) {
+      totals.set(stake.entity_id, (totals.get(stake.entity_id) ?? 0) + stake.ownership_bps);
+    }
+    for (const [entityId, total] of totals) {
+      if (total > FULL_OWNERSHIP_BPS) return { entity_id: entityId, date, total_bps: total };
+    }
+  }
+  return null;
+}
+
+/**
+ * The share of each consolidated entity that the group owns on `asOfDate`, as a fraction.
+ * The root counts as wholly owned. Another entity with stakes on file is owned through the
+ * entities of the group holding them, multiplied through each tier, so owners outside the
+ * group make up the non-controlling interest. An entity without stakes on file is treated
+ * as wholly owned by its parent.
+ */
+export function groupOwnershipShares(entities: ConsolidationEntity[], records: OwnershipRecord[], asOfDate: number): Map<string, number> {
+  const inGroup = new Map(entities.map(entity => [entity.entity_id, entity]));
+  const stakesByEntity = new Map<string, OwnershipRecord[]>();
+  for (const stake of stakesAsOf(records, asOfDate)) {
+    stakesByEntity.set(stake.entity_id, [...(stakesByEntity.get(stake.entity_id) ?? []), stake]);
+  }
+
+  const shares = new Map<string, number>();
+  const resolving = new Set<string>();
+  const shareOf = (entityId: string): number => {
+    const known = shares.get(entityId);
+    if (known !== undefined) return known;
+    // A circular holding (A owns B owns A) adds nothing on the second visit
+    if (resolving.has(entityId)) return 0;
+    resolving.add(entityId);
+
+    const entity = inGroup.get(entityId)!;
+    const stakes = stakesByEntity.get(entityId);
+    let share: number;
+    if (entity.depth === 0) {
+      share = 1;
+    } else if (!stakes) {
+      share = entity.parent_id && inGroup.has(entity.parent_id) ? shareOf(entity.parent_id) : 1;
+    } else {
+      share = stakes
+        .filter(stake => stake.owner_entity_id && inGroup.has(stake.owner_entity_id))
+        .reduce((sum, stake) => sum + (stake.ownership_bps / FULL_OWNERSHIP_BPS) * shareOf(stake.owner_entity_id!), 0);
+    }
+
+    resolving.delete(entityId);
+    shares.set(entityId, share);
+    return share;
+  };
+  entities.forEach(entity => shareOf(entity.entity_id));
+  return shares;
+}
@@ -0,0 +1,47 @@
+// src/lib/accounting/periods.ts
+
+import { fiscalYearStartFor } from '@utils/date';
+
+export interface PeriodRange {
+  fiscal_year: number;
+  period_number: number;
+  period_start: number;
+  period_end: number;
+}
+
+/**
+ * Unix timestamp (seconds) of the first instant of the calendar month containing `timestamp` (UTC).
+ */
+export function monthStartFor(timestamp: number): number {
+  const d = new Date(timestamp * 1000);
+  return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), 1) / 1000;
+}
+
+/**
+ * The fiscal year containing `timestamp`, named for the calendar year it ends in: with a
+ * July start, July 2024 through June 2025 is fiscal 2025.
+ */
+export function fiscalYearFor(timestamp: number, startMonth = 1): number {
+  const start = new Date(fiscalYearStartFor(timestamp, startMonth) * 1000);
+  return startMonth === 1 ? start.getUTCFullYear() : start.getUTCFullYear() + 1;
+}
+
+/**
+ * The twelve monthly periods of a fiscal year, in order.
+ */
+export function fiscalYearPeriods(fiscalYear: number, startMonth = 1): PeriodRange[] {
+  const firstYear = startMonth === 1 ? fiscalYear : fiscalYear - 1;
+  return Array.from({ length: 12 }, (_, index) => ({
+    fiscal_year: fiscalYear,
+    period_number: index + 1,
+    period_start: Date.UTC(firstYear, startMonth - 1 + index, 1) / 1000,
+    period_end: Date.UTC(firstYear, startMonth + index, 1) / 1000 - 1,
+  }));
+}
+
+/**
+ * A period's name for messages, e.g. "March 2025".
+ */
+export function periodLabel(periodStart: number): string {
+  return new Date(periodStart * 1000).toLocaleDateString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+}
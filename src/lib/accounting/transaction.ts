@@ -189,8 +189,8 @@ export class Transaction {
     }
     
     this.status = 'void';
-    // Note: In a full accounting system, voiding often creates reversing entries.
-    // For this model, changing status is a simplified representation.
+    // Note: This only flips the in-memory status. Stored transactions are voided through
+    // TransactionService.voidTransaction, which records a linked reversing entry.
     return true;
   }
 }
@@ -0,0 +1,176 @@
+// src/lib/accounting/waterfall.ts
+
+import type { Partner, PartnerCapitalEntry, WaterfallAllocation, WaterfallTerms, WaterfallTier } from '../../types/partner';
+import { simpleInterestCents } from './dayCount';
+
+const BASIS_POINTS = 10000;
+
+export const WATERFALL_TIERS: WaterfallTier[] = ['return_of_capital', 'preferred_return', 'catch_up', 'promote'];
+
+type CapitalEntry = Pick<PartnerCapitalEntry, 'partner_id' | 'kind' | 'date' | 'amount' | 'tier'>;
+type WaterfallPartner = Pick<Partner, 'id' | 'role' | 'ownership_bps'>;
+
+/**
+ * Where a partner stands in the waterfall as of a date: capital contributed and returned,
+ * the preferred return accrued on the unreturned capital and paid, and the profit tiers paid.
+ */
+export interface CapitalPosition {
+  partner_id: string;
+  contributed: number;
+  unreturned_capital: number;
+  accrued_preferred_return: number;
+  unpaid_preferred_return: number;
+  paid: Record<WaterfallTier, number>;
+}
+
+/**
+ * Splits `amount` cents in proportion to `weights` with the largest-remainder method, so the
+ * shares add up to the amount exactly (earlier weights win ties). All-zero weights get nothing.
+ */
+export function allocateProRata(amount: number, weights: number[]): number[] {
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  if (total <= 0) return weights.map(() => 0);
+  const shares = weights.map((weight, index) => {
+    const exact = (amount * weight) / total;
+    return { index, floor: Math.floor(exact), fraction: exact - Math.floor(exact) };
+  });
+  let leftover = amount - shares.reduce((sum, share) => sum + share.floor, 0);
+  const amounts = shares.map(share => share.floor);
+  [...shares]
+    .sort((a, b) => b.fraction - a.fraction || a.index - b.index)
+    .forEach(share => {
+      if (leftover > 0) {
+        amounts[share.index]++;
+        leftover--;
+      }
+    });
+  return amounts;
+}
+
+/**
+ * Each partner's position as of `asOfDate` from their capital entries. The preferred return
+ * is simple interest (actual/365) on the capital outstanding between contributions and
+ * returns of capital; only waterfall distributions reduce what is owed.
+ */
+export function capitalPositions(
+  partners: Array<Pick<Partner, 'id'>>,
+  entries: CapitalEntry[],
+  asOfDate: number,
+  preferredReturnBps: number
+): Map<string, CapitalPosition> {
+  const positions = new Map<string, CapitalPosition>();
+  for (const partner of partners) {
+    const own = entries
+      .filter(entry => entry.partner_id === partner.id && entry.date <= asOfDate)
+      .sort((a, b) => a.date - b.date);
+    const paid = Object.fromEntries(WATERFALL_TIERS.map(tier => [tier, 0])) as Record<WaterfallTier, number>;
+    let contributed = 0;
+    let outstanding = 0;
+    let accrued = 0;
+    let accruedThrough: number | null = null;
+    const accrueTo = (date: number) => {
+      if (accruedThrough !== null && outstanding > 0 && date > accruedThrough) {
+        accrued += simpleInterestCents(outstanding, preferredReturnBps, accruedThrough, date, 'actual_365');
+      }
+      accruedThrough = date;
+    };
+
+    for (const entry of own) {
+      if (entry.kind === 'contribution') {
+        accrueTo(entry.date);
+        contributed += entry.amount;
+        outstanding += entry.amount;
+      } else if (entry.kind === 'distribution' && entry.tier) {
+        if (entry.tier === 'return_of_capital') {
+          accrueTo(entry.date);
+          outstanding -= entry.amount;
+        }
+        paid[entry.tier] += entry.amount;
+      }
+    }
+    accrueTo(asOfDate);
+
+    positions.set(partner.id, {
+      partner_id: partner.id,
+      contributed,
+      unreturned_capital: Math.max(outstanding, 0),
+      accrued_preferred_return: accrued,
+      unpaid_preferred_return: Math.max(accrued - paid.preferred_return, 0),
+      paid,
+    });
+  }
+  return positions;
+}
+
+/**
+ * Runs `amount` through the waterfall on `date`, given every earlier capital entry:
+ * 1. return of capital, in proportion to each partner's unreturned capital;
+ * 2. preferred return, in proportion to each partner's unpaid preferred return;
+ * 3. catch-up, `catch_up_bps` to the sponsors until they hold `promote_bps` of all profits
+ *    distributed (preferred return, catch-up and promote), the rest to the partners;
+ * 4. promote, `promote_bps` to the sponsors and the rest to the partners.
+ * The partners' part of tiers 3 and 4 is split by capital contributed, the sponsors' part by
+ * their ownership percentages (equally when none is set). Without sponsors the partners take
+ * everything after the preferred return.
+ */
+export function runWaterfall(
+  amount: number,
+  date: number,
+  terms: WaterfallTerms,
+  partners: WaterfallPartner[],
+  entries: CapitalEntry[]
+): { tiers: Array<{ tier: WaterfallTier; amount: number }>; allocations: WaterfallAllocation[] } {
+  const positions = capitalPositions(partners, entries, date, terms.preferred_return_bps);
+  const position = (partner: WaterfallPartner) => positions.get(partner.id)!;
+  const allocations: WaterfallAllocation[] = [];
+  const tierTotals = new Map<WaterfallTier, number>(WATERFALL_TIERS.map(tier => [tier, 0]));
+  let remaining = amount;
+
+  const pay = (tier: WaterfallTier, amounts: number[]) => {
+    amounts.forEach((share, index) => {
+      if (share > 0) allocations.push({ partner_id: partners[index].id, tier, amount: share });
+    });
+    const total = amounts.reduce((sum, share) => sum + share, 0);
+    tierTotals.set(tier, tierTotals.get(tier)! + total);
+    remaining -= total;
+  };
+  const payInProportion = (tier: WaterfallTier, owed: number[]) => {
+    const total = owed.reduce((sum, value) => sum + value, 0);
+    pay(tier, allocateProRata(Math.min(remaining, total), owed));
+  };
+
+  payInProportion('return_of_capital', partners.map(partner => position(partner).unreturned_capital));
+  payInProportion('preferred_return', partners.map(partner => position(partner).unpaid_preferred_return));
+
+  const sponsorsHaveShares = partners.some(partner => partner.role === 'sponsor' && partner.ownership_bps > 0);
+  const sponsorWeights = partners.map(partner =>
+    (partner.role !== 'sponsor' ? 0 : sponsorsHaveShares ? partner.ownership_bps : 1));
+  const hasSponsors = sponsorWeights.some(weight => weight > 0);
+  const partnerWeights = partners.map(partner => position(partner).contributed);
+  const split = (tier: WaterfallTier, tierAmount: number, sponsorShareBps: number) => {
+    const sponsorPart = hasSponsors ? Math.round((tierAmount * sponsorShareBps) / BASIS_POINTS) : 0;
+    const sponsorAmounts = allocateProRata(sponsorPart, sponsorWeights);
+    const partnerAmounts = allocateProRata(tierAmount - sponsorPart, partnerWeights);
+    pay(tier, partners.map((_, index) => sponsorAmounts[index] + partnerAmounts[index]));
+  };
+
+  if (hasSponsors && terms.catch_up_bps > terms.promote_bps && remaining > 0) {
+    const profitTiers: WaterfallTier[] = ['preferred_return', 'catch_up', 'promote'];
+    const profits = partners.reduce((sum, partner) =>
+      sum + profitTiers.reduce((tierSum, tier) => tierSum + position(partner).paid[tier], 0), 0)
+      + tierTotals.get('preferred_return')!;
+    const sponsorProfits = partners.reduce((sum, partner, index) =>
+      sum + (sponsorWeights[index] > 0 ? position(partner).paid.catch_up + position(partner).paid.promote : 0), 0);
+    // Sponsors get catch_up of each catch-up dollar; solve sponsorProfits + c*X = p*(profits + X) for X.
+    const catchUpNeeded = Math.round(
+      (terms.promote_bps * profits - BASIS_POINTS * sponsorProfits) / (terms.catch_up_bps - terms.promote_bps)
+    );
+    if (catchUpNeeded > 0) split('catch_up', Math.min(remaining, catchUpNeeded), terms.catch_up_bps);
+  }
+  if (remaining > 0) split('promote', remaining, terms.promote_bps);
+
+  return {
+    tiers: WATERFALL_TIERS.map(tier => ({ tier, amount: tierTotals.get(tier)! })),
+    allocations,
+  };
+}
@@ -0,0 +1,44 @@
+// src/lib/documents/downloadUrls.ts
+
+export const DOWNLOAD_URL_TTL_SECONDS = 300; // 5 minutes
+
+async function hmacHex(secret: string, message: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(message));
+  return [...new Uint8Array(signature)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Signs a download of one document by one user until `expiresAt`. The user id is part of
+ * the signed message, so a leaked link is useless to anyone else's session.
+ */
+export function signDocumentDownload(secret: string, documentId: string, userId: string, expiresAt: number): Promise<string> {
+  return hmacHex(secret, `${documentId}:${userId}:${expiresAt}`);
+}
+
+/**
+ * Checks a download signature and expiry, comparing in constant time.
+ */
+export async function verifyDocumentDownload(
+  secret: string,
+  documentId: string,
+  userId: string,
+  expiresAt: number,
+  signature: string,
+  now: number = Math.floor(Date.now() / 1000)
+): Promise<boolean> {
+  if (!Number.isInteger(expiresAt) || expiresAt < now) return false;
+  const expected = await signDocumentDownload(secret, documentId, userId, expiresAt);
+  if (expected.length !== signature.length) return false;
+  let difference = 0;
+  for (let i = 0; i < expected.length; i++) {
+    difference |= expected.charCodeAt(i) ^ signature.charCodeAt(i);
+  }
+  return difference === 0;
+}
@@ -0,0 +1,48 @@
+// src/lib/documents/fileTypes.ts
+
+export const MAX_DOCUMENT_BYTES = 20 * 1024 * 1024; // 20 MB
+// A whole upload request: the file plus room for the other form fields and multipart boundaries
+export const MAX_UPLOAD_REQUEST_BYTES = MAX_DOCUMENT_BYTES + 64 * 1024;
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  signature.every((byte, index) => bytes[offset + index] === byte);
+const ascii = (text: string) => [...text].map(char => char.charCodeAt(0));
+const isZip = (bytes: Uint8Array) => startsWith(bytes, [0x50, 0x4b, 0x03, 0x04]);
+// Text files are accepted as long as they carry no binary content.
+const isText = (bytes: Uint8Array) => !bytes.subarray(0, 1024).includes(0);
+
+/**
+ * Content types accepted for upload, each with a check of the file's leading bytes so a
+ * renamed executable cannot be stored as a "PDF".
+ */
+export const DOCUMENT_CONTENT_TYPES: Record<string, (bytes: Uint8Array) => boolean> = {
+  'application/pdf': bytes => startsWith(bytes, ascii('%PDF-')),
+  'image/jpeg': bytes => startsWith(bytes, [0xff, 0xd8, 0xff]),
+  'image/png': bytes => startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+  'image/webp': bytes => startsWith(bytes, ascii('RIFF')) && startsWith(bytes, ascii('WEBP'), 8),
+  'image/heic': bytes => startsWith(bytes, ascii('ftyp'), 4),
+  'image/tiff': bytes => startsWith(bytes, [0x49, 0x49, 0x2a, 0x00]) || startsWith(bytes, [0x4d, 0x4d, 0x00, 0x2a]),
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': isZip, // .docx
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': isZip, // .xlsx
+  'text/csv': isText,
+  'text/plain': isText,
+};
+
+/**
+ * Lowercased media type without parameters: 'text/csv; charset=utf-8' → 'text/csv'.
+ */
+export function normalizeContentType(contentType: string): string {
+  return contentType.split(';')[0].trim().toLowerCase();
+}
+
+export function isAllowedContentType(contentType: string): boolean {
+  return normalizeContentType(contentType) in DOCUMENT_CONTENT_TYPES;
+}
+
+/**
+ * Whether the file's leading bytes match its declared (allowed) content type.
+ */
+export function matchesContentType(contentType: string, bytes: Uint8Array): boolean {
+  const check = DOCUMENT_CONTENT_TYPES[normalizeContentType(contentType)];
+  return !!check && check(bytes);
+}
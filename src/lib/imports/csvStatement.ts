@@ -0,0 +1,132 @@
+// src/lib/imports/csvStatement.ts
+
+import Papa from 'papaparse';
+import Decimal from 'decimal.js';
+import type {
+  BankImportMappingInput,
+  CsvDateFormat,
+  StatementDirection,
+  StatementLine,
+  StatementParseResult,
+} from '../../types/import';
+import { newDecimal } from '@utils/financial';
+
+const DATE_PATTERNS: Record<CsvDateFormat, { pattern: RegExp; order: ['y' | 'm' | 'd', 'y' | 'm' | 'd', 'y' | 'm' | 'd'] }> = {
+  'YYYY-MM-DD': { pattern: /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/, order: ['y', 'm', 'd'] },
+  'MM/DD/YYYY': { pattern: /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4}|\d{2})\b/, order: ['m', 'd', 'y'] },
+  'DD/MM/YYYY': { pattern: /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4}|\d{2})\b/, order: ['d', 'm', 'y'] },
+};
+
+/**
+ * Parses a statement date to a Unix timestamp at 00:00 UTC, or null when it does not
+ * match `format` or is not a real calendar date. Two-digit years are taken as 20xx.
+ */
+export function parseStatementDate(raw: string, format: CsvDateFormat): number | null {
+  const { pattern, order } = DATE_PATTERNS[format];
+  const match = raw.trim().match(pattern);
+  if (!match) return null;
+  const parts: Record<'y' | 'm' | 'd', number> = { y: 0, m: 0, d: 0 };
+  order.forEach((part, index) => { parts[part] = Number(match[index + 1]); });
+  if (parts.y < 100) parts.y += 2000;
+  const date = new Date(Date.UTC(parts.y, parts.m - 1, parts.d));
+  if (date.getUTCFullYear() !== parts.y || date.getUTCMonth() !== parts.m - 1 || date.getUTCDate() !== parts.d) {
+    return null;
+  }
+  return date.getTime() / 1000;
+}
+
+/**
+ * Parses a statement amount such as "1,234.56", "-$45.00" or "(45.00)" to signed cents.
+ * Returns null for blank cells and NaN for anything that is not a number.
+ */
+export function parseStatementAmount(raw: string | undefined): number | null {
+  let text = (raw ?? '').trim();
+  if (text === '') return null;
+  let negative = false;
+  if (text.startsWith('(') && text.endsWith(')')) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  text = text.replace(/[$£€,\s]/g, '');
+  if (text.startsWith('-')) {
+    negative = !negative;
+    text = text.slice(1);
+  } else if (text.startsWith('+')) {
+    text = text.slice(1);
+  }
+  if (!/^\d+(\.\d+)?$|^\.\d+$/.test(text)) return NaN;
+  const cents = newDecimal(text).times(100).toDecimalPlaces(0, Decimal.ROUND_HALF_EVEN).toNumber();
+  return negative ? -cents : cents;
+}
+
+/**
+ * Reads the signed amount and direction of a row, from a single amount column under the
+ * mapping's sign convention or from separate debit (money out) and credit (money in) columns.
+ */
+function readAmount(row: Record<string, string>, mapping: BankImportMappingInput): { amount: number; direction: StatementDirection } | string {
+  if (mapping.amount_column) {
+    const cents = parseStatementAmount(row[mapping.amount_column]);
+    if (cents === null || Number.isNaN(cents)) return `Invalid amount "${row[mapping.amount_column] ?? ''}".`;
+    if (cents === 0) return 'Amount is zero.';
+    const moneyIn = mapping.sign_convention === 'deposits_positive' ? cents > 0 : cents < 0;
+    return { amount: Math.abs(cents), direction: moneyIn ? 'credit' : 'debit' };
+  }
+
+  const debit = parseStatementAmount(row[mapping.debit_column ?? '']);
+  const credit = parseStatementAmount(row[mapping.credit_column ?? '']);
+  if (Number.isNaN(debit) || Number.isNaN(credit)) return 'Invalid debit or credit amount.';
+  const hasDebit = debit !== null && debit !== 0;
+  const hasCredit = credit !== null && credit !== 0;
+  if (hasDebit === hasCredit) return hasDebit ? 'Row has both a debit and a credit amount.' : 'Amount is zero.';
+  return hasDebit
+    ? { amount: Math.abs(debit!), direction: 'debit' }
+    : { amount: Math.abs(credit!), direction: 'credit' };
+}
+
+/**
+ * Parses a bank CSV export with a header row using a column mapping. Rows that cannot be
+ * read are reported in `errors` rather than failing the whole file.
+ */
+export function parseCsvStatement(content: string, mapping: BankImportMappingInput): StatementParseResult {
+  const parsed = Papa.parse<Record<string, string>>(content, {
+    header: true,
+    skipEmptyLines: 'greedy',
+    transformHeader: header => header.trim(),
+  });
+  const result: StatementParseResult = { lines: [], errors: [] };
+
+  const headers = parsed.meta.fields ?? [];
+  const required = [mapping.date_column, mapping.description_column,
+    ...(mapping.amount_column ? [mapping.amount_column] : [mapping.debit_column ?? '', mapping.credit_column ?? ''])];
+  const missing = required.filter(column => !headers.includes(column));
+  if (missing.length > 0) {
+    result.errors.push({ row_number: 0, message: `Missing column(s): ${missing.join(', ')}.` });
+    return result;
+  }
+
+  parsed.data.forEach((row, index) => {
+    const rowNumber = index + 1;
+    const date = parseStatementDate(row[mapping.date_column] ?? '', mapping.date_format);
+    if (date === null) {
+      result.errors.push({ row_number: rowNumber, message: `Invalid date "${row[mapping.date_column] ?? ''}" for format ${mapping.date_format}.` });
+      return;
+    }
+    const amount = readAmount(row, mapping);
+    if (typeof amount === 'string') {
+      result.errors.push({ row_number: rowNumber, message: amount });
+      return;
+    }
+    const reference = mapping.reference_column ? (row[mapping.reference_column] ?? '').trim() : '';
+    result.lines.push({
+      row_number: rowNumber,
+      date,
+      description: (row[mapping.description_column] ?? '').trim(),
+      amount: amount.amount,
+      direction: amount.direction,
+      reference: reference || null,
+      external_id: null,
+      memo: null,
+    });
+  });
+  return result;
+}
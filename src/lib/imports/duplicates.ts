@@ -0,0 +1,103 @@
+// src/lib/imports/duplicates.ts
+
+import type { StatementDirection, StatementLine } from '../../types/import';
+
+export const DEFAULT_NEAR_DUPLICATE_DAYS = 3;
+export const NEAR_DUPLICATE_SIMILARITY = 0.5;
+
+const SECONDS_PER_DAY = 86400;
+
+/**
+ * A line already on the books for the same cash account: a staged or posted import line,
+ * or a transaction entered by hand.
+ */
+export interface DuplicateCandidate {
+  kind: 'item' | 'transaction';
+  id: string;
+  date: number;
+  amount: number; // Positive cents
+  direction: StatementDirection;
+  description: string;
+}
+
+export function normalizeDescription(description: string): string {
+  return description.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Gives every line a stable external id: the bank's own id (e.g. FITID) when it has one,
+ * otherwise a hash of date, direction, amount and normalized description. Identical lines
+ * within one file are numbered so that two same-day $5.00 charges both survive.
+ */
+export async function assignExternalIds(lines: StatementLine[]): Promise<StatementLine[]> {
+  const seen = new Map<string, number>();
+  const result: StatementLine[] = [];
+  for (const line of lines) {
+    if (line.external_id) {
+      result.push(line);
+      continue;
+    }
+    const base = [line.date, line.direction, line.amount, normalizeDescription(line.description)].join('|');
+    const occurrence = (seen.get(base) ?? 0) + 1;
+    seen.set(base, occurrence);
+    const hash = await sha256Hex(occurrence === 1 ? base : `${base}|${occurrence}`);
+    result.push({ ...line, external_id: `hash:${hash}` });
+  }
+  return result;
+}
+
+function bigrams(text: string): string[] {
+  const compact = text.replace(/ /g, '');
+  const grams: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) grams.push(compact.slice(i, i + 2));
+  return grams;
+}
+
+/**
+ * Dice coefficient over character bigrams of the normalized descriptions, from 0 (nothing
+ * in common) to 1 (identical).
+ */
+export function descriptionSimilarity(a: string, b: string): number {
+  const left = bigrams(normalizeDescription(a));
+  const right = bigrams(normalizeDescription(b));
+  if (left.length === 0 || right.length === 0) {
+    return normalizeDescription(a) === normalizeDescription(b) ? 1 : 0;
+  }
+  const counts = new Map<string, number>();
+  left.forEach(gram => counts.set(gram, (counts.get(gram) ?? 0) + 1));
+  let shared = 0;
+  for (const gram of right) {
+    const count = counts.get(gram) ?? 0;
+    if (count > 0) {
+      shared++;
+      counts.set(gram, count - 1);
+    }
+  }
+  return (2 * shared) / (left.length + right.length);
+}
+
+/**
+ * The most similar candidate with the same amount and direction dated within `windowDays`
+ * of the line, or null when none is similar enough.
+ */
+export function findNearDuplicate(
+  line: StatementLine,
+  candidates: DuplicateCandidate[],
+  windowDays: number
+): DuplicateCandidate | null {
+  let best: { candidate: DuplicateCandidate; score: number } | null = null;
+  for (const candidate of candidates) {
+    if (candidate.amount !== line.amount || candidate.direction !== line.direction) continue;
+    if (Math.abs(candidate.date - line.date) > windowDays * SECONDS_PER_DAY) continue;
+    const score = descriptionSimilarity(line.description, candidate.description);
+    if (score >= NEAR_DUPLICATE_SIMILARITY && (!best || score > best.score)) {
+      best = { candidate, score };
+    }
+  }
+  return best?.candidate ?? null;
+}
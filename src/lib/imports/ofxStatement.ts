@@ -0,0 +1,101 @@
+// src/lib/imports/ofxStatement.ts
+
+import type { StatementParseResult } from '../../types/import';
+import { parseStatementAmount } from './csvStatement';
+
+// Plain string handling only, so this runs unchanged in the Worker runtime.
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, name: string) => {
+    if (name.startsWith('#x') || name.startsWith('#X')) return String.fromCharCode(parseInt(name.slice(2), 16));
+    if (name.startsWith('#')) return String.fromCharCode(parseInt(name.slice(1), 10));
+    return ENTITIES[name.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Reads a leaf element's value. OFX 1.x (SGML) leaves have no closing tag and end at the
+ * next tag or line break; OFX 2.x (XML) leaves are closed, which the same match covers.
+ */
+function readElement(block: string, tag: string): string | null {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  if (!match) return null;
+  const value = decodeEntities(match[1]).trim();
+  return value === '' ? null : value;
+}
+
+/**
+ * Parses an OFX date-time (YYYYMMDD[HHMMSS[.XXX]][[gmt offset:tz]]) to a Unix timestamp at
+ * 00:00 UTC of the posted calendar date, matching how CSV statement dates are stored.
+ */
+export function parseOfxDate(raw: string): number | null {
+  const match = raw.trim().match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) return null;
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.getTime() / 1000;
+}
+
+/**
+ * Splits out the body of each `STMTTRN` aggregate. Aggregates are closed in both OFX
+ * versions, but a missing close tag is tolerated by ending at the transaction list.
+ */
+function transactionBlocks(content: string): string[] {
+  return content.split(/<STMTTRN>/i).slice(1).map(segment => {
+    const end = segment.search(/<\/STMTTRN>|<\/BANKTRANLIST>/i);
+    return end === -1 ? segment : segment.slice(0, end);
+  });
+}
+
+/**
+ * Parses the `STMTTRN` records of an OFX 1.x (SGML) or 2.x (XML) bank or credit card
+ * statement, including Quicken's QFX variant. `TRNAMT` is signed from the account
+ * holder's side, so positive amounts are money in. FITID becomes the line's external id.
+ */
+export function parseOfxStatement(content: string): StatementParseResult {
+  const result: StatementParseResult = { lines: [], errors: [] };
+  if (!/<OFX>/i.test(content)) {
+    result.errors.push({ row_number: 0, message: 'File is not an OFX or QFX statement.' });
+    return result;
+  }
+
+  transactionBlocks(content).forEach((block, index) => {
+    const rowNumber = index + 1;
+    const rawDate = readElement(block, 'DTPOSTED');
+    const date = rawDate ? parseOfxDate(rawDate) : null;
+    if (date === null) {
+      result.errors.push({ row_number: rowNumber, message: `Invalid DTPOSTED "${rawDate ?? ''}".` });
+      return;
+    }
+    // OFX amounts never carry thousands separators, so a comma is a decimal point.
+    const rawAmount = readElement(block, 'TRNAMT');
+    const cents = parseStatementAmount(rawAmount?.replace(',', '.'));
+    if (cents === null || Number.isNaN(cents)) {
+      result.errors.push({ row_number: rowNumber, message: `Invalid TRNAMT "${rawAmount ?? ''}".` });
+      return;
+    }
+    if (cents === 0) {
+      result.errors.push({ row_number: rowNumber, message: 'Amount is zero.' });
+      return;
+    }
+
+    const name = readElement(block, 'NAME');
+    const memo = readElement(block, 'MEMO');
+    result.lines.push({
+      row_number: rowNumber,
+      date,
+      description: name ?? memo ?? readElement(block, 'TRNTYPE') ?? '',
+      amount: Math.abs(cents),
+      direction: cents > 0 ? 'credit' : 'debit',
+      reference: readElement(block, 'CHECKNUM') ?? readElement(block, 'REFNUM'),
+      external_id: readElement(block, 'FITID'),
+      memo: name ? memo : null,
+    });
+  });
+  return result;
+}
@@ -0,0 +1,123 @@
+// src/lib/reporting/camReconciliation.ts
+
+import Decimal from 'decimal.js';
+import type { CamExpenseLine, CamReconciliation, CamTenantTrueUp } from '../../types/cam';
+import { newDecimal } from '@utils/financial';
+
+const FULL_RECOVERY_BASIS_POINTS = 10000;
+
+/**
+ * An expense account's activity for the year together with its recovery settings
+ * from both `chart_of_accounts` and the entity-level `entity_accounts` overrides.
+ */
+export interface CamExpenseSource {
+  entity_account_id: string;
+  account_code: string;
+  account_name: string;
+  coa_is_recoverable: boolean;
+  coa_recovery_percentage: number | null;
+  recovery_type: string | null; // Entity override: 'recoverable' | 'non-recoverable'
+  recovery_percentage: number | null; // Entity override, basis points
+  debit_total: number;
+  credit_total: number;
+}
+
+export interface CamTenantShare {
+  id: string;
+  name: string;
+  pro_rata_share: number;
+}
+
+/**
+ * Whether an account belongs in the recoverable pool. An entity-level `recovery_type`
+ * wins over the chart of accounts flag.
+ */
+export function isRecoverableForEntity(source: CamExpenseSource): boolean {
+  if (source.recovery_type === 'recoverable') return true;
+  if (source.recovery_type === 'non-recoverable') return false;
+  return source.coa_is_recoverable;
+}
+
+/**
+ * The recovery basis points that apply to an account: the entity override when set,
+ * otherwise the chart of accounts default, otherwise 100%.
+ */
+export function effectiveRecoveryPercentage(source: CamExpenseSource): { basisPoints: number; source: CamExpenseLine['recovery_source'] } {
+  if (source.recovery_percentage !== null && source.recovery_percentage !== undefined) {
+    return { basisPoints: source.recovery_percentage, source: 'entity_account' };
+  }
+  return { basisPoints: source.coa_recovery_percentage ?? FULL_RECOVERY_BASIS_POINTS, source: 'chart_of_accounts' };
+}
+
+function applyBasisPoints(cents: number, basisPoints: number): number {
+  return newDecimal(cents)
+    .times(basisPoints)
+    .dividedBy(FULL_RECOVERY_BASIS_POINTS)
+    .toDecimalPlaces(0, Decimal.ROUND_HALF_EVEN)
+    .toNumber();
+}
+
+/**
+ * Computes the year-end CAM reconciliation: the recoverable pool after recovery
+ * percentages, each tenant's pro-rata share of it, and the true-up against estimates billed.
+ */
+export function buildCamReconciliation(
+  entityId: string,
+  year: number,
+  startDate: number,
+  endDate: number,
+  sources: CamExpenseSource[],
+  tenants: CamTenantShare[],
+  billedByTenant: Map<string, number>
+): CamReconciliation {
+  const expenses: CamExpenseLine[] = sources
+    .filter(isRecoverableForEntity)
+    .map(source => {
+      const expenseAmount = source.debit_total - source.credit_total;
+      const recovery = effectiveRecoveryPercentage(source);
+      return {
+        entity_account_id: source.entity_account_id,
+        account_code: source.account_code,
+        account_name: source.account_name,
+        expense_amount: expenseAmount,
+        recovery_percentage: recovery.basisPoints,
+        recovery_source: recovery.source,
+        recoverable_amount: applyBasisPoints(expenseAmount, recovery.basisPoints),
+      };
+    })
+    .filter(line => line.expense_amount !== 0)
+    .sort((a, b) => a.account_code.localeCompare(b.account_code));
+
+  const totalRecoverableExpenses = expenses.reduce((sum, line) => sum + line.expense_amount, 0);
+  const pool = expenses.reduce((sum, line) => sum + line.recoverable_amount, 0);
+
+  const tenantTrueUps: CamTenantTrueUp[] = tenants.map(tenant => {
+    const shareAmount = applyBasisPoints(pool, tenant.pro_rata_share);
+    const billed = billedByTenant.get(tenant.id) ?? 0;
+    return {
+      tenant_id: tenant.id,
+      tenant_name: tenant.name,
+      pro_rata_share: tenant.pro_rata_share,
+      share_amount: shareAmount,
+      estimated_billed: billed,
+      true_up: shareAmount - billed,
+    };
+  });
+
+  const totalShare = tenantTrueUps.reduce((sum, tenant) => sum + tenant.share_amount, 0);
+  const totalBilled = tenantTrueUps.reduce((sum, tenant) => sum + tenant.estimated_billed, 0);
+  return {
+    entity_id: entityId,
+    year,
+    start_date: startDate,
+    end_date: endDate,
+    expenses,
+    total_recoverable_expenses: totalRecoverableExpenses,
+    recoverable_pool: pool,
+    tenants: tenantTrueUps,
+    total_share: totalShare,
+    total_billed: totalBilled,
+    total_true_up: totalShare - totalBilled,
+    unallocated_amount: pool - totalShare,
+  };
+}
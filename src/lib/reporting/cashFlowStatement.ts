@@ -0,0 +1,126 @@
+// src/lib/reporting/cashFlowStatement.ts
+
+import type { CashFlowCategory, DbChartOfAccount } from '@db/schema';
+import type { AccountBalance, CashFlowLine, CashFlowStatement } from '../../types/report';
+import { netIncomeFromBalances } from './financialStatements';
+
+/**
+ * The chart of accounts fields needed to classify activity on the cash flow statement.
+ */
+export type CashFlowAccount = Pick<DbChartOfAccount, 'id' | 'code' | 'name' | 'type' | 'parent_id' | 'cash_flow_category'>;
+
+/**
+ * Resolves an account's cash flow category from the account or its nearest ancestor of the
+ * same type. Balance-sheet accounts without one count as operating; income and expense
+ * accounts without one return null because they are already part of net income.
+ */
+export function resolveCashFlowCategory(account: CashFlowAccount, accountsById: Map<string, CashFlowAccount>): CashFlowCategory | null {
+  const visited = new Set<string>();
+  let current: CashFlowAccount | undefined = account;
+  while (current && current.type === account.type && !visited.has(current.id)) {
+    visited.add(current.id);
+    if (current.cash_flow_category) return current.cash_flow_category;
+    current = current.parent_id ? accountsById.get(current.parent_id) : undefined;
+  }
+  return account.type === 'income' || account.type === 'expense' ? null : 'operating';
+}
+
+function toLine(balance: AccountBalance, amount: number): CashFlowLine {
+  return {
+    account_id: balance.account_id,
+    account_code: balance.account_code,
+    account_name: balance.account_name,
+    amount,
+  };
+}
+
+function sumLines(lines: CashFlowLine[]): number {
+  return lines.reduce((sum, line) => sum + line.amount, 0);
+}
+
+/**
+ * Builds an indirect-method statement of cash flows.
+ * `activity` holds each account's debits and credits within the period; `openingBalances`
+ * holds balances through the day before it. For every non-cash balance-sheet account the cash
+ * effect is its net credit activity (a decrease in an asset or an increase in a liability or
+ * equity is a source of cash).
+ */
+export function buildCashFlowStatement(
+  entityId: string,
+  chart: CashFlowAccount[],
+  startDate: number,
+  endDate: number,
+  activity: AccountBalance[],
+  openingBalances: AccountBalance[]
+): CashFlowStatement {
+  const accountsById = new Map(chart.map(account => [account.id, account]));
+  const categoryOf = (balance: AccountBalance): CashFlowCategory | null => {
+    const account = accountsById.get(balance.account_id);
+    if (account) return resolveCashFlowCategory(account, accountsById);
+    return balance.account_type === 'income' || balance.account_type === 'expense' ? null : 'operating';
+  };
+
+  const adjustments: CashFlowLine[] = [];
+  const workingCapital: CashFlowLine[] = [];
+  const investing: CashFlowLine[] = [];
+  const financing: CashFlowLine[] = [];
+  let cashChange = 0;
+
+  for (const balance of activity) {
+    const netCredit = balance.credit_total - balance.debit_total;
+    if (netCredit === 0) continue;
+    const category = categoryOf(balance);
+    const isIncomeStatementAccount = balance.account_type === 'income' || balance.account_type === 'expense';
+
+    if (isIncomeStatementAccount) {
+      // Already inside net income; only non-cash items are reversed out.
+      if (category === 'non_cash') adjustments.push(toLine(balance, -netCredit));
+      continue;
+    }
+    switch (category) {
+      case 'cash':
+        cashChange -= netCredit;
+        break;
+      case 'investing':
+        investing.push(toLine(balance, netCredit));
+        break;
+      case 'financing':
+        financing.push(toLine(balance, netCredit));
+        break;
+      case 'non_cash':
+        // Counterpart of an add-back (e.g. accumulated depreciation); not a cash movement.
+        break;
+      default:
+        workingCapital.push(toLine(balance, netCredit));
+    }
+  }
+
+  const beginningCash = openingBalances
+    .filter(balance => balance.account_type !== 'income' && balance.account_type !== 'expense' && categoryOf(balance) === 'cash')
+    .reduce((sum, balance) => sum + (balance.debit_total - balance.credit_total), 0);
+
+  const netIncome = netIncomeFromBalances(activity);
+  const operatingTotal = netIncome + sumLines(adjustments) + sumLines(workingCapital);
+  const investingTotal = sumLines(investing);
+  const financingTotal = sumLines(financing);
+  const netChange = operatingTotal + investingTotal + financingTotal;
+
+  const byCode = (a: CashFlowLine, b: CashFlowLine) => a.account_code.localeCompare(b.account_code);
+  return {
+    entity_id: entityId,
+    start_date: startDate,
+    end_date: endDate,
+    net_income: netIncome,
+    operating: {
+      adjustments: adjustments.sort(byCode),
+      working_capital_changes: workingCapital.sort(byCode),
+      total: operatingTotal,
+    },
+    investing: { lines: investing.sort(byCode), total: investingTotal },
+    financing: { lines: financing.sort(byCode), total: financingTotal },
+    net_change_in_cash: netChange,
+    beginning_cash: beginningCash,
+    ending_cash: beginningCash + cashChange,
+    unreconciled_difference: cashChange - netChange,
+  };
+}
@@ -0,0 +1,435 @@
+// src/lib/reporting/consolidation.ts
+
+import type { Entity } from '../../types/entity';
+import type { IntercompanyException } from '../../types/intercompany';
+import type {
+  AccountBalance,
+  ConsolidatedBalanceSheet,
+  ConsolidatedIncomeStatement,
+  ConsolidatedStatementLine,
+  ConsolidatedStatementSection,
+  ConsolidatedTrialBalanceReport,
+  ConsolidatedTrialBalanceRow,
+  ConsolidationEntity,
+  NonControllingInterest,
+  ReportPeriod,
+  StatementLine,
+  StatementSection,
+  StatementSectionKey,
+} from '../../types/report';
+import { signedBalanceCents } from '@utils/financial';
+import { FULL_OWNERSHIP_BPS } from '@lib/accounting/ownership';
+import { buildBalanceSheet, buildIncomeStatement, type StatementAccount } from './financialStatements';
+
+/**
+ * One entity's balances as of a single date, for a consolidated trial balance.
+ */
+export interface EntityBalances {
+  entity_id: string;
+  balances: AccountBalance[];
+}
+
+/**
+ * One entity's balances for each statement column. `currentYearNetIncome` is only needed
+ * for balance sheets.
+ */
+export interface EntityPeriodBalances {
+  entity_id: string;
+  balancesByPeriod: AccountBalance[][];
+  currentYearNetIncome?: number[];
+}
+
+/**
+ * Intercompany eliminations for a consolidation: the reversed intercompany lines for each
+ * statement column (see `buildEliminationBalances`) and the pairs left out because their
+ * sides do not net to zero.
+ */
+export interface IntercompanyEliminations {
+  balancesByPeriod: AccountBalance[][];
+  exceptions: IntercompanyException[];
+}
+
+/**
+ * The group's share of each consolidated entity for each statement column, as a fraction
+ * (see `groupOwnershipShares`). An entity missing from a column's map is wholly owned.
+ */
+export type GroupOwnershipByPeriod = Array<Map<string, number>>;
+
+/**
+ * Lists the root and its descendants parent before children, siblings by name, with each
+ * entity's depth below the root. Descendants that cannot be reached from the root are dropped.
+ */
+export function orderConsolidationEntities(root: Entity, descendants: Entity[]): ConsolidationEntity[] {
+  const childrenOf = new Map<string, Entity[]>();
+  for (const entity of descendants) {
+    if (!entity.parent_id) continue;
+    childrenOf.set(entity.parent_id, [...(childrenOf.get(entity.parent_id) ?? []), entity]);
+  }
+
+  const ordered: ConsolidationEntity[] = [];
+  const visited = new Set<string>();
+  const visit = (entity: Entity, depth: number) => {
+    if (visited.has(entity.id)) return; // guard against cycles in parent_id
+    visited.add(entity.id);
+    ordered.push({ entity_id: entity.id, name: entity.name, parent_id: depth === 0 ? null : entity.parent_id ?? null, depth });
+    (childrenOf.get(entity.id) ?? [])
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .forEach(child => visit(child, depth + 1));
+  };
+  visit(root, 0);
+  return ordered;
+}
+
+/**
+ * Presents balances under the shared chart of accounts name, so that an account one entity
+ * renamed with `custom_name` consolidates under a single label.
+ */
+function withChartNames(balances: AccountBalance[], chartById: Map<string, StatementAccount>): AccountBalance[] {
+  return balances.map(balance => ({ ...balance, account_name: chartById.get(balance.account_id)?.name ?? balance.account_name }));
+}
+
+/**
+ * Sums every entity's trial balance by chart of accounts code and applies the eliminations.
+ * A row is kept when any entity carries a balance on the account, even if the entities'
+ * balances cancel out or are eliminated.
+ */
+export function buildConsolidatedTrialBalance(
+  parentEntityId: string,
+  asOfDate: number,
+  entities: ConsolidationEntity[],
+  chart: StatementAccount[],
+  entityBalances: EntityBalances[],
+  intercompany: IntercompanyEliminations,
+  includeZeroBalances = false
+): ConsolidatedTrialBalanceReport {
+  const chartById = new Map(chart.map(account => [account.id, account]));
+  const rowsByAccount = new Map<string, ConsolidatedTrialBalanceRow>();
+  const netDebitsByAccount = new Map<string, Map<string, number>>();
+  const eliminatedNetDebits = new Map<string, number>();
+
+  const addToRow = (balance: AccountBalance) => {
+    const row = rowsByAccount.get(balance.account_id) ?? {
+      account_id: balance.account_id,
+      account_code: balance.account_code,
+      account_name: balance.account_name,
+      account_type: balance.account_type,
+      account_subtype: balance.account_subtype,
+      parent_account_id: balance.parent_account_id,
+      normal_balance: balance.normal_balance,
+      debit_total: 0,
+      credit_total: 0,
+      balance: 0,
+      debit_balance: 0,
+      credit_balance: 0,
+      by_entity: {},
+      eliminations: { debit_balance: 0, credit_balance: 0 },
+    };
+    row.debit_total += balance.debit_total;
+    row.credit_total += balance.credit_total;
+    rowsByAccount.set(balance.account_id, row);
+  };
+  for (const { entity_id, balances } of entityBalances) {
+    for (const balance of withChartNames(balances, chartById)) {
+      addToRow(balance);
+      const netDebits = netDebitsByAccount.get(balance.account_id) ?? new Map<string, number>();
+      netDebits.set(entity_id, (netDebits.get(entity_id) ?? 0) + balance.debit_total - balance.credit_total);
+      netDebitsByAccount.set(balance.account_id, netDebits);
+    }
+  }
+  for (const balance of intercompany.balancesByPeriod[0] ?? []) {
+    addToRow(balance);
+    eliminatedNetDebits.set(balance.account_id, (eliminatedNetDebits.get(balance.account_id) ?? 0) + balance.debit_total - balance.credit_total);
+  }
+
+  const columns = (netDebit: number) => ({
+    debit_balance: netDebit > 0 ? netDebit : 0,
+    credit_balance: netDebit < 0 ? -netDebit : 0,
+  });
+  const rows = [...rowsByAccount.values()]
+    .filter(row => includeZeroBalances || [...(netDebitsByAccount.get(row.account_id)?.values() ?? [])].some(net => net !== 0))
+    .map(row => {
+      const netDebits = netDebitsByAccount.get(row.account_id) ?? new Map<string, number>();
+      return {
+        ...row,
+        balance: signedBalanceCents(row.debit_total, row.credit_total, row.normal_balance),
+        ...columns(row.debit_total - row.credit_total),
+        by_entity: Object.fromEntries(entities.map(({ entity_id }) => [entity_id, columns(netDebits.get(entity_id) ?? 0)])),
+        eliminations: columns(eliminatedNetDebits.get(row.account_id) ?? 0),
+      };
+    })
+    .sort((a, b) => a.account_code.localeCompare(b.account_code));
+
+  const totalDebits = rows.reduce((sum, row) => sum + row.debit_balance, 0);
+  const totalCredits = rows.reduce((sum, row) => sum + row.credit_balance, 0);
+  return {
+    entity_id: parentEntityId,
+    as_of_date: asOfDate,
+    entities,
+    rows,
+    total_debits: totalDebits,
+    total_credits: totalCredits,
+    is_balanced: totalDebits === totalCredits,
+    intercompany_exceptions: intercompany.exceptions,
+  };
+}
+
+// Computed lines (net income, unclosed earnings) have no account, so they are matched by name.
+function lineKey(line: StatementLine): string {
+  return line.account_id ?? `computed:${line.account_name}`;
+}
+
+function collectLineTotals(lines: StatementLine[], into: Map<string, number[]>): Map<string, number[]> {
+  for (const line of lines) {
+    into.set(lineKey(line), line.totals);
+    collectLineTotals(line.children, into);
+  }
+  return into;
+}
+
+/**
+ * Indexes a statement's section and line totals so that a consolidated line can look up
+ * the matching amounts; missing lines read as zeros.
+ */
+function indexStatementTotals(sections: StatementSection[], periodCount: number) {
+  const sectionTotals = new Map(sections.map(section => [section.key, section.totals]));
+  const lineTotals = new Map(sections.map(section => [section.key, collectLineTotals(section.lines, new Map())]));
+  const zeros = () => new Array<number>(periodCount).fill(0);
+  return {
+    section: (key: StatementSectionKey) => sectionTotals.get(key) ?? zeros(),
+    line: (key: StatementSectionKey, line: StatementLine) => lineTotals.get(key)?.get(lineKey(line)) ?? zeros(),
+  };
+}
+
+/**
+ * Annotates consolidated sections with each entity's share, read from that entity's own
+ * statement, and with the eliminations, read from a statement of the elimination entries.
+ */
+function attachBreakdown(
+  sections: StatementSection[],
+  entitySections: Array<{ entity_id: string; sections: StatementSection[] }>,
+  eliminationSections: StatementSection[],
+  periodCount: number
+): ConsolidatedStatementSection[] {
+  const entities = entitySections.map(({ entity_id, sections: own }) => ({ entity_id, totals: indexStatementTotals(own, periodCount) }));
+  const eliminations = indexStatementTotals(eliminationSections, periodCount);
+
+  return sections.map(section => {
+    const annotate = (line: StatementLine): ConsolidatedStatementLine => ({
+      ...line,
+      by_entity: Object.fromEntries(entities.map(({ entity_id, totals }) => [entity_id, totals.line(section.key, line)])),
+      eliminations: eliminations.line(section.key, line),
+      non_controlling_interest: new Array<number>(periodCount).fill(0),
+      children: line.children.map(annotate),
+    });
+    return {
+      ...section,
+      lines: section.lines.map(annotate),
+      by_entity: Object.fromEntries(entities.map(({ entity_id, totals }) => [entity_id, totals.section(section.key)])),
+      eliminations: eliminations.section(section.key),
+      non_controlling_interest: new Array<number>(periodCount).fill(0),
+    };
+  });
+}
+
+function combinedBalances(
+  entityBalances: EntityPeriodBalances[],
+  eliminationsByPeriod: AccountBalance[][],
+  periodCount: number,
+  chart: StatementAccount[]
+): AccountBalance[][] {
+  const chartById = new Map(chart.map(account => [account.id, account]));
+  return new Array(periodCount).fill(null).map((_, i) => withChartNames([
+    ...entityBalances.flatMap(({ balancesByPeriod }) => balancesByPeriod[i]),
+    ...(eliminationsByPeriod[i] ?? []),
+  ], chartById));
+}
+
+function eliminationBalances(intercompany: IntercompanyEliminations, periodCount: number): AccountBalance[][] {
+  return new Array(periodCount).fill(null).map((_, i) => intercompany.balancesByPeriod[i] ?? []);
+}
+
+/**
+ * The share held outside the group of each consolidated entity that is not wholly owned,
+ * for each column.
+ */
+function outsideShares(entities: ConsolidationEntity[], ownershipByPeriod: GroupOwnershipByPeriod, periodCount: number) {
+  return entities
+    .map(({ entity_id }) => ({
+      entity_id,
+      shares: new Array(periodCount).fill(0).map((_, i) => 1 - (ownershipByPeriod[i]?.get(entity_id) ?? 1)),
+    }))
+    .filter(({ shares }) => shares.some(share => Math.round(share * FULL_OWNERSHIP_BPS) !== 0));
+}
+
+/**
+ * Moves the outside owners' part of each subsidiary's equity from the equity lines to a
+ * single Non-controlling Interest line, leaving the section total unchanged. Each line gives
+ * up its entities' shares times their outside share, rounded per line; the new line takes
+ * exactly what the top-level lines gave up.
+ */
+function reclassifyNonControllingInterest(
+  equity: ConsolidatedStatementSection,
+  entities: ConsolidationEntity[],
+  ownershipByPeriod: GroupOwnershipByPeriod,
+  periodCount: number
+): { equity: ConsolidatedStatementSection; interests: NonControllingInterest[] } {
+  const outside = outsideShares(entities, ownershipByPeriod, periodCount);
+  const zeros = () => new Array<number>(periodCount).fill(0);
+  if (outside.length === 0) return { equity, interests: [] };
+
+  const amountsByEntity = new Map(outside.map(({ entity_id }) => [entity_id, zeros()]));
+  const reclassify = (line: ConsolidatedStatementLine, topLevel: boolean): ConsolidatedStatementLine => {
+    const moved = zeros();
+    for (const { entity_id, shares } of outside) {
+      const entityTotals = line.by_entity[entity_id] ?? zeros();
+      shares.forEach((share, i) => {
+        const part = Math.round(entityTotals[i] * share);
+        moved[i] += part;
+        if (topLevel) amountsByEntity.get(entity_id)![i] += part;
+      });
+    }
+    const children = line.children.map(child => reclassify(child, false));
+    const movedByChildren = zeros().map((_, i) => children.reduce((sum, child) => sum - child.non_controlling_interest[i], 0));
+    return {
+      ...line,
+      amounts: line.amounts.map((amount, i) => amount - (moved[i] - movedByChildren[i])),
+      totals: line.totals.map((amount, i) => amount - moved[i]),
+      non_controlling_interest: moved.map(amount => -amount),
+      children,
+    };
+  };
+
+  const lines = equity.lines.map(line => reclassify(line, true));
+  const total = zeros().map((_, i) => outside.reduce((sum, { entity_id }) => sum + amountsByEntity.get(entity_id)![i], 0));
+  lines.push({
+    account_id: null,
+    account_code: null,
+    account_name: 'Non-controlling Interest',
+    depth: 0,
+    amounts: total,
+    totals: [...total],
+    children: [],
+    by_entity: Object.fromEntries(entities.map(({ entity_id }) => [entity_id, zeros()])),
+    eliminations: zeros(),
+    non_controlling_interest: [...total],
+  });
+
+  return {
+    equity: { ...equity, lines },
+    interests: outside.map(({ entity_id, shares }) => ({
+      entity_id,
+      share_bps: shares.map(share => Math.round(share * FULL_OWNERSHIP_BPS)),
+      amounts: amountsByEntity.get(entity_id)!,
+    })),
+  };
+}
+
+/**
+ * Builds an income statement over the combined activity of every entity, less intercompany
+ * eliminations, with each line and subtotal broken down by entity.
+ */
+export function buildConsolidatedIncomeStatement(
+  parentEntityId: string,
+  entities: ConsolidationEntity[],
+  chart: StatementAccount[],
+  periods: ReportPeriod[],
+  entityBalances: EntityPeriodBalances[],
+  intercompany: IntercompanyEliminations,
+  ownershipByPeriod: GroupOwnershipByPeriod
+): ConsolidatedIncomeStatement {
+  const own = entityBalances.map(({ entity_id, balancesByPeriod }) =>
+    ({ entity_id, statement: buildIncomeStatement(entity_id, chart, periods, balancesByPeriod) }));
+  const eliminationsByPeriod = eliminationBalances(intercompany, periods.length);
+  const eliminations = buildIncomeStatement(parentEntityId, chart, periods, eliminationsByPeriod);
+  const statement = buildIncomeStatement(
+    parentEntityId, chart, periods, combinedBalances(entityBalances, eliminationsByPeriod, periods.length, chart)
+  );
+  const netIncomeOf = new Map(own.map(({ entity_id, statement: entityStatement }) => [entity_id, entityStatement.net_income]));
+  const interests = outsideShares(entities, ownershipByPeriod, periods.length).map(({ entity_id, shares }) => ({
+    entity_id,
+    share_bps: shares.map(share => Math.round(share * FULL_OWNERSHIP_BPS)),
+    amounts: shares.map((share, i) => Math.round((netIncomeOf.get(entity_id)?.[i] ?? 0) * share)),
+  }));
+  const nonControllingNetIncome = periods.map((_, i) => interests.reduce((sum, interest) => sum + interest.amounts[i], 0));
+
+  return {
+    ...statement,
+    entities,
+    sections: attachBreakdown(
+      statement.sections,
+      own.map(({ entity_id, statement: entityStatement }) => ({ entity_id, sections: entityStatement.sections })),
+      eliminations.sections,
+      periods.length
+    ),
+    by_entity: Object.fromEntries(own.map(({ entity_id, statement: entityStatement }) => [entity_id, {
+      operating_income: entityStatement.operating_income,
+      net_income: entityStatement.net_income,
+    }])),
+    eliminations: { operating_income: eliminations.operating_income, net_income: eliminations.net_income },
+    non_controlling_interests: interests,
+    net_income_attributable: {
+      parent: statement.net_income.map((amount, i) => amount - nonControllingNetIncome[i]),
+      non_controlling_interest: nonControllingNetIncome,
+    },
+    intercompany_exceptions: intercompany.exceptions,
+  };
+}
+
+/**
+ * Builds a balance sheet over the combined balances of every entity, less intercompany
+ * eliminations, with each line and total broken down by entity. Consolidated current-year
+ * net income is the entities' sum: eliminated income and expense always offset each other.
+ */
+export function buildConsolidatedBalanceSheet(
+  parentEntityId: string,
+  entities: ConsolidationEntity[],
+  chart: StatementAccount[],
+  periods: ReportPeriod[],
+  entityBalances: EntityPeriodBalances[],
+  intercompany: IntercompanyEliminations,
+  ownershipByPeriod: GroupOwnershipByPeriod
+): ConsolidatedBalanceSheet {
+  const zeros = () => new Array<number>(periods.length).fill(0);
+  const netIncomeOf = (entry: EntityPeriodBalances) => entry.currentYearNetIncome ?? zeros();
+  const own = entityBalances.map(entry =>
+    ({ entity_id: entry.entity_id, sheet: buildBalanceSheet(entry.entity_id, chart, periods, entry.balancesByPeriod, netIncomeOf(entry)) }));
+  const eliminationsByPeriod = eliminationBalances(intercompany, periods.length);
+  const eliminations = buildBalanceSheet(parentEntityId, chart, periods, eliminationsByPeriod, zeros());
+  const currentYearNetIncome = periods.map((_, i) => entityBalances.reduce((sum, entry) => sum + netIncomeOf(entry)[i], 0));
+  const sheet = buildBalanceSheet(
+    parentEntityId, chart, periods, combinedBalances(entityBalances, eliminationsByPeriod, periods.length, chart), currentYearNetIncome
+  );
+
+  const sections = attachBreakdown(
+    sheet.sections,
+    own.map(({ entity_id, sheet: entitySheet }) => ({ entity_id, sections: entitySheet.sections })),
+    eliminations.sections,
+    periods.length
+  );
+  const equityIndex = sections.findIndex(section => section.key === 'equity');
+  const { equity, interests } = reclassifyNonControllingInterest(sections[equityIndex], entities, ownershipByPeriod, periods.length);
+  sections[equityIndex] = equity;
+  const nonControllingEquity = periods.map((_, i) => interests.reduce((sum, interest) => sum + interest.amounts[i], 0));
+
+  return {
+    ...sheet,
+    entities,
+    sections,
+    by_entity: Object.fromEntries(own.map(({ entity_id, sheet: entitySheet }) => [entity_id, {
+      total_assets: entitySheet.total_assets,
+      total_liabilities: entitySheet.total_liabilities,
+      total_equity: entitySheet.total_equity,
+    }])),
+    eliminations: {
+      total_assets: eliminations.total_assets,
+      total_liabilities: eliminations.total_liabilities,
+      total_equity: eliminations.total_equity,
+    },
+    non_controlling_interests: interests,
+    equity_attributable: {
+      parent: sheet.total_equity.map((amount, i) => amount - nonControllingEquity[i]),
+      non_controlling_interest: nonControllingEquity,
+    },
+    intercompany_exceptions: intercompany.exceptions,
+  };
+}
@@ -0,0 +1,299 @@
+// src/lib/reporting/financialStatements.ts
+
+import type { DbChartOfAccount, AccountSystemType } from '@db/schema';
+import type {
+  AccountBalance,
+  BalanceSheet,
+  ComparisonMode,
+  IncomeStatement,
+  ReportPeriod,
+  StatementLine,
+  StatementSection,
+  StatementSectionKey,
+} from '../../types/report';
+import { shiftUnixMonths } from '@utils/date';
+
+/**
+ * The chart of accounts fields needed to roll balances up the hierarchy.
+ */
+export type StatementAccount = Pick<DbChartOfAccount, 'id' | 'code' | 'name' | 'type' | 'subtype' | 'parent_id'>;
+
+export const SECTION_TITLES: Record<StatementSectionKey, string> = {
+  current_assets: 'Current Assets',
+  non_current_assets: 'Non-Current Assets',
+  current_liabilities: 'Current Liabilities',
+  long_term_liabilities: 'Long-Term Liabilities',
+  equity: 'Equity',
+  revenue: 'Revenue',
+  operating_expenses: 'Operating Expenses',
+  other_income: 'Other Income',
+  other_expenses: 'Other Expenses',
+};
+
+/**
+ * Subtypes that place an account (and, by inheritance, its descendants) in a section.
+ * A subtype only applies to accounts of the matching type.
+ */
+const SUBTYPE_SECTIONS: Record<AccountSystemType, Record<string, StatementSectionKey>> = {
+  asset: {
+    current_asset: 'current_assets',
+    fixed_asset: 'non_current_assets',
+    non_current_asset: 'non_current_assets',
+    long_term_asset: 'non_current_assets',
+  },
+  liability: {
+    current_liability: 'current_liabilities',
+    long_term_liability: 'long_term_liabilities',
+    non_current_liability: 'long_term_liabilities',
+  },
+  equity: {},
+  income: {
+    operating_revenue: 'revenue',
+    non_operating_income: 'other_income',
+    other_income: 'other_income',
+  },
+  expense: {
+    operating_expense: 'operating_expenses',
+    non_operating_expense: 'other_expenses',
+    other_expense: 'other_expenses',
+  },
+};
+
+const DEFAULT_TYPE_SECTIONS: Record<AccountSystemType, StatementSectionKey> = {
+  asset: 'current_assets',
+  liability: 'current_liabilities',
+  equity: 'equity',
+  income: 'revenue',
+  expense: 'operating_expenses',
+};
+
+export const INCOME_STATEMENT_SECTIONS: StatementSectionKey[] = ['revenue', 'operating_expenses', 'other_income', 'other_expenses'];
+export const BALANCE_SHEET_SECTIONS: StatementSectionKey[] = [
+  'current_assets',
+  'non_current_assets',
+  'current_liabilities',
+  'long_term_liabilities',
+  'equity',
+];
+
+/**
+ * Resolves the section for an account: the nearest recognised subtype on the account or an
+ * ancestor of the same type, otherwise the default section for its type.
+ */
+export function resolveStatementSection(account: StatementAccount, accountsById: Map<string, StatementAccount>): StatementSectionKey {
+  const subtypeSections = SUBTYPE_SECTIONS[account.type];
+  const visited = new Set<string>();
+  let current: StatementAccount | undefined = account;
+  while (current && current.type === account.type && !visited.has(current.id)) {
+    visited.add(current.id);
+    const section = current.subtype ? subtypeSections[current.subtype] : undefined;
+    if (section) return section;
+    current = current.parent_id ? accountsById.get(current.parent_id) : undefined;
+  }
+  return DEFAULT_TYPE_SECTIONS[account.type];
+}
+
+/**
+ * Net income from a set of balances: income less expenses, each signed by its normal balance.
+ */
+export function netIncomeFromBalances(balances: AccountBalance[]): number {
+  return balances.reduce((sum, balance) => {
+    if (balance.account_type === 'income') return sum + balance.balance;
+    if (balance.account_type === 'expense') return sum - balance.balance;
+    return sum;
+  }, 0);
+}
+
+function isMonthAligned(period: ReportPeriod): boolean {
+  if (period.start_date === null) return false;
+  const start = new Date(period.start_date * 1000);
+  const end = new Date((period.end_date + 1) * 1000);
+  return start.getUTCDate() === 1 && start.getUTCHours() === 0 && start.getUTCMinutes() === 0 && start.getUTCSeconds() === 0
+    && end.getUTCDate() === 1 && end.getUTCHours() === 0 && end.getUTCMinutes() === 0 && end.getUTCSeconds() === 0;
+}
+
+/**
+ * Derives the comparative column for a primary period, or null when `mode` is 'none'.
+ */
+export function comparisonPeriod(primary: ReportPeriod, mode: ComparisonMode): ReportPeriod | null {
+  if (mode === 'none') return null;
+
+  if (mode === 'prior_year') {
+    return {
+      label: 'Prior Year',
+      start_date: primary.start_date === null ? null : shiftUnixMonths(primary.start_date, -12),
+      end_date: shiftUnixMonths(primary.end_date, -12),
+    };
+  }
+
+  if (primary.start_date === null) {
+    return { label: 'Prior Period', start_date: null, end_date: shiftUnixMonths(primary.end_date, -1) };
+  }
+  if (isMonthAligned(primary)) {
+    const start = new Date(primary.start_date * 1000);
+    const end = new Date(primary.end_date * 1000);
+    const months = (end.getUTCFullYear() - start.getUTCFullYear()) * 12 + (end.getUTCMonth() - start.getUTCMonth()) + 1;
+    return {
+      label: 'Prior Period',
+      start_date: shiftUnixMonths(primary.start_date, -months),
+      end_date: primary.start_date - 1,
+    };
+  }
+  const length = primary.end_date - primary.start_date + 1;
+  return { label: 'Prior Period', start_date: primary.start_date - length, end_date: primary.start_date - 1 };
+}
+
+/**
+ * Rolls balances up the chart of accounts hierarchy and groups them into sections.
+ * `balancesByPeriod[i]` holds the balances for column i. A child whose parent falls in a
+ * different section starts its own tree in its section. Lines with no amounts anywhere in
+ * their subtree are omitted.
+ */
+export function buildStatementSections(
+  chart: StatementAccount[],
+  balancesByPeriod: AccountBalance[][],
+  sectionKeys: StatementSectionKey[]
+): StatementSection[] {
+  const periodCount = balancesByPeriod.length;
+  const accountsById = new Map(chart.map(account => [account.id, account]));
+  const ownAmounts = new Map<string, number[]>();
+  const displayNames = new Map<string, string>();
+
+  balancesByPeriod.forEach((balances, periodIndex) => {
+    for (const balance of balances) {
+      const amounts = ownAmounts.get(balance.account_id) ?? new Array<number>(periodCount).fill(0);
+      amounts[periodIndex] += balance.balance;
+      ownAmounts.set(balance.account_id, amounts);
+      displayNames.set(balance.account_id, balance.account_name);
+    }
+  });
+
+  const sectionOf = new Map(chart.map(account => [account.id, resolveStatementSection(account, accountsById)]));
+  const childrenOf = new Map<string, StatementAccount[]>();
+  const rootsBySection = new Map<StatementSectionKey, StatementAccount[]>();
+  for (const account of chart) {
+    const parent = account.parent_id ? accountsById.get(account.parent_id) : undefined;
+    if (parent && sectionOf.get(parent.id) === sectionOf.get(account.id)) {
+      const siblings = childrenOf.get(parent.id) ?? [];
+      siblings.push(account);
+      childrenOf.set(parent.id, siblings);
+    } else {
+      const section = sectionOf.get(account.id)!;
+      const roots = rootsBySection.get(section) ?? [];
+      roots.push(account);
+      rootsBySection.set(section, roots);
+    }
+  }
+
+  const byCode = (a: StatementAccount, b: StatementAccount) => a.code.localeCompare(b.code);
+  const buildLine = (account: StatementAccount, depth: number, ancestry: Set<string>): StatementLine | null => {
+    if (ancestry.has(account.id)) return null; // guard against cycles in parent_id
+    const nextAncestry = new Set(ancestry).add(account.id);
+    const children = (childrenOf.get(account.id) ?? [])
+      .sort(byCode)
+      .map(child => buildLine(child, depth + 1, nextAncestry))
+      .filter((line): line is StatementLine => line !== null);
+    const amounts = ownAmounts.get(account.id) ?? new Array<number>(periodCount).fill(0);
+    if (children.length === 0 && amounts.every(amount => amount === 0)) return null;
+    const totals = amounts.map((amount, i) => children.reduce((sum, child) => sum + child.totals[i], amount));
+    return {
+      account_id: account.id,
+      account_code: account.code,
+      account_name: displayNames.get(account.id) ?? account.name,
+      depth,
+      amounts,
+      totals,
+      children,
+    };
+  };
+
+  return sectionKeys.map(key => {
+    const lines = (rootsBySection.get(key) ?? [])
+      .sort(byCode)
+      .map(account => buildLine(account, 0, new Set()))
+      .filter((line): line is StatementLine => line !== null);
+    return {
+      key,
+      title: SECTION_TITLES[key],
+      lines,
+      totals: new Array<number>(periodCount).fill(0).map((_, i) => lines.reduce((sum, line) => sum + line.totals[i], 0)),
+    };
+  });
+}
+
+function sectionTotals(sections: StatementSection[], key: StatementSectionKey, periodCount: number): number[] {
+  return sections.find(section => section.key === key)?.totals ?? new Array<number>(periodCount).fill(0);
+}
+
+function computedLine(name: string, amounts: number[]): StatementLine {
+  return { account_id: null, account_code: null, account_name: name, depth: 0, amounts, totals: [...amounts], children: [] };
+}
+
+/**
+ * Builds an income statement. Operating income is revenue less operating expenses;
+ * net income adds other income and deducts other expenses.
+ */
+export function buildIncomeStatement(
+  entityId: string,
+  chart: StatementAccount[],
+  periods: ReportPeriod[],
+  balancesByPeriod: AccountBalance[][]
+): IncomeStatement {
+  const sections = buildStatementSections(chart, balancesByPeriod, INCOME_STATEMENT_SECTIONS);
+  const count = periods.length;
+  const revenue = sectionTotals(sections, 'revenue', count);
+  const operatingExpenses = sectionTotals(sections, 'operating_expenses', count);
+  const otherIncome = sectionTotals(sections, 'other_income', count);
+  const otherExpenses = sectionTotals(sections, 'other_expenses', count);
+
+  const operatingIncome = revenue.map((amount, i) => amount - operatingExpenses[i]);
+  return {
+    entity_id: entityId,
+    periods,
+    sections,
+    operating_income: operatingIncome,
+    net_income: operatingIncome.map((amount, i) => amount + otherIncome[i] - otherExpenses[i]),
+  };
+}
+
+/**
+ * Builds a balance sheet. Income and expense accounts are not closed in the ledger, so their
+ * effect is presented in equity as current-year net income plus any unclosed prior-year
+ * earnings, which keeps assets equal to liabilities plus equity.
+ */
+export function buildBalanceSheet(
+  entityId: string,
+  chart: StatementAccount[],
+  periods: ReportPeriod[],
+  balancesByPeriod: AccountBalance[][],
+  currentYearNetIncome: number[]
+): BalanceSheet {
+  const sections = buildStatementSections(chart, balancesByPeriod, BALANCE_SHEET_SECTIONS);
+  const count = periods.length;
+
+  const cumulativeNetIncome = balancesByPeriod.map(netIncomeFromBalances);
+  const priorEarnings = cumulativeNetIncome.map((amount, i) => amount - currentYearNetIncome[i]);
+  const equity = sections.find(section => section.key === 'equity')!;
+  if (priorEarnings.some(amount => amount !== 0)) {
+    equity.lines.push(computedLine('Retained Earnings (Unclosed Prior Years)', priorEarnings));
+  }
+  equity.lines.push(computedLine('Net Income (Current Year)', [...currentYearNetIncome]));
+  equity.totals = equity.totals.map((amount, i) => amount + cumulativeNetIncome[i]);
+
+  const totalAssets = sectionTotals(sections, 'current_assets', count)
+    .map((amount, i) => amount + sectionTotals(sections, 'non_current_assets', count)[i]);
+  const totalLiabilities = sectionTotals(sections, 'current_liabilities', count)
+    .map((amount, i) => amount + sectionTotals(sections, 'long_term_liabilities', count)[i]);
+  const totalLiabilitiesAndEquity = totalLiabilities.map((amount, i) => amount + equity.totals[i]);
+
+  return {
+    entity_id: entityId,
+    periods,
+    sections,
+    total_assets: totalAssets,
+    total_liabilities: totalLiabilities,
+    total_equity: equity.totals,
+    total_liabilities_and_equity: totalLiabilitiesAndEquity,
+    is_balanced: totalAssets.map((amount, i) => amount === totalLiabilitiesAndEquity[i]),
+  };
+}
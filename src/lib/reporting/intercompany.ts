@@ -0,0 +1,106 @@
+// src/lib/reporting/intercompany.ts
+
+import type { AccountSystemType } from '@db/schema';
+import type { AccountBalance, ReportDateRange } from '../../types/report';
+import type { IntercompanyException } from '../../types/intercompany';
+import { normalBalanceForType, signedBalanceCents } from '@utils/financial';
+
+/**
+ * A journal line from either side of an intercompany transaction, including the lines of
+ * reversing entries that void a side.
+ */
+export interface IntercompanyLine {
+  intercompany_transaction_id: string;
+  from_entity_id: string;
+  to_entity_id: string;
+  intercompany_date: number;
+  intercompany_amount: number;
+  intercompany_description: string;
+  eliminates_activity: number; // 0 or 1
+  side: 'from' | 'to';
+  is_due: number; // 1 for the due from / due to line, 0 for the counter line
+  entity_id: string;
+  entity_account_id: string;
+  account_id: string;
+  account_code: string;
+  account_name: string;
+  account_type: AccountSystemType;
+  account_subtype: string | null;
+  parent_account_id: string | null;
+  amount: number;
+  is_debit: number; // 0 or 1
+  date: number;
+}
+
+/**
+ * Lists the intercompany transactions whose sides do not mirror each other in `lines`.
+ * The from side's due line is a debit and the to side's a credit, so the pair matches
+ * when the net debit on one equals the net credit on the other.
+ */
+export function findIntercompanyExceptions(lines: IntercompanyLine[]): IntercompanyException[] {
+  const byTransaction = new Map<string, IntercompanyException>();
+  for (const line of lines) {
+    const pair = byTransaction.get(line.intercompany_transaction_id) ?? {
+      intercompany_transaction_id: line.intercompany_transaction_id,
+      from_entity_id: line.from_entity_id,
+      to_entity_id: line.to_entity_id,
+      date: line.intercompany_date,
+      description: line.intercompany_description,
+      amount: line.intercompany_amount,
+      from_balance: 0,
+      to_balance: 0,
+      difference: 0,
+    };
+    if (line.is_due === 1) {
+      const signed = line.is_debit === 1 ? line.amount : -line.amount;
+      if (line.side === 'from') pair.from_balance += signed;
+      else pair.to_balance -= signed;
+    }
+    pair.difference = pair.from_balance - pair.to_balance;
+    byTransaction.set(line.intercompany_transaction_id, pair);
+  }
+  return [...byTransaction.values()]
+    .filter(pair => pair.difference !== 0)
+    .sort((a, b) => a.date - b.date || a.intercompany_transaction_id.localeCompare(b.intercompany_transaction_id));
+}
+
+/**
+ * The elimination entries for a consolidation, as balances to add to the entities' own:
+ * every eliminated line reversed, summed per entity account over `range`. Due lines are
+ * always eliminated; counter lines only for transactions flagged `eliminates_activity`.
+ * Transactions listed by `findIntercompanyExceptions` are skipped, because eliminating
+ * half of a broken pair would unbalance the consolidated statements.
+ *
+ * `lines` must cover all history up to `range.end_date`, so that pairs are matched on
+ * their full history rather than on the slice that falls in the range.
+ */
+export function buildEliminationBalances(lines: IntercompanyLine[], range: ReportDateRange): AccountBalance[] {
+  const exceptions = new Set(findIntercompanyExceptions(lines).map(pair => pair.intercompany_transaction_id));
+  const byAccount = new Map<string, AccountBalance>();
+  for (const line of lines) {
+    if (exceptions.has(line.intercompany_transaction_id)) continue;
+    if (line.is_due !== 1 && line.eliminates_activity !== 1) continue;
+    if (line.date > range.end_date || (range.start_date !== undefined && line.date < range.start_date)) continue;
+
+    const normalBalance = normalBalanceForType(line.account_type);
+    const balance = byAccount.get(line.entity_account_id) ?? {
+      entity_account_id: line.entity_account_id,
+      account_id: line.account_id,
+      account_code: line.account_code,
+      account_name: line.account_name,
+      account_type: line.account_type,
+      account_subtype: line.account_subtype ?? null,
+      parent_account_id: line.parent_account_id ?? null,
+      normal_balance: normalBalance,
+      debit_total: 0,
+      credit_total: 0,
+      balance: 0,
+    };
+    // Reversed: a debit in the ledger is eliminated by a credit.
+    if (line.is_debit === 1) balance.credit_total += line.amount;
+    else balance.debit_total += line.amount;
+    balance.balance = signedBalanceCents(balance.debit_total, balance.credit_total, normalBalance);
+    byAccount.set(line.entity_account_id, balance);
+  }
+  return [...byAccount.values()].sort((a, b) => a.account_code.localeCompare(b.account_code));
+}
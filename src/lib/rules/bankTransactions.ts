@@ -132,7 +132,7 @@ export const bankTransactionRules: Rule[] = [
       {
         field: 'amount',
         operator: 'greaterThan',
-        value: 500
+        value: 50000 // Cents, like CategorizableItem.amount ($500)
       }
     ],
     action: {
@@ -1,19 +1,62 @@
 // src/lib/rules/engine.ts
 import type { Transaction, TransactionLine } from '@accounting/transaction'; // Using path alias for robustness
+import { allocateSplits } from './splits';
+
+export const RULE_CONDITION_OPERATORS = [
+  'equals', 'contains', 'notContains', 'startsWith', 'endsWith', 'regex', 'greaterThan', 'lessThan',
+  'between', 'in', 'dayOfMonthBetween', 'isTrue', 'isFalse', 'isDefined', 'isNotDefined',
+] as const;
 
 export interface RuleCondition {
   field: string; // Path to the field in the transaction object (e.g., "description", "amount", "metadata.category")
-  operator: 'equals' | 'contains' | 'startsWith' | 'endsWith' | 'regex' | 'greaterThan' | 'lessThan' | 'isTrue' | 'isFalse' | 'isDefined' | 'isNotDefined';
-  value?: any; // Value to compare against (not needed for isTrue, isFalse, isDefined, isNotDefined)
+  operator: typeof RULE_CONDITION_OPERATORS[number];
+  // Value to compare against (not needed for isTrue, isFalse, isDefined, isNotDefined).
+  // `between` and `dayOfMonthBetween` take an inclusive [min, max] pair; `in` takes an array.
+  value?: any;
   caseSensitive?: boolean; // For string operations
 }
 
+/**
+ * Groups conditions: `all` matches when every child matches, `any` when at least one does,
+ * and `not` inverts a single child. Groups nest.
+ */
+export type RuleConditionGroup =
+  | { all: RuleConditionNode[] }
+  | { any: RuleConditionNode[] }
+  | { not: RuleConditionNode };
+
+export type RuleConditionNode = RuleCondition | RuleConditionGroup;
+
+export const MAX_CONDITION_DEPTH = 5;
+
+/**
+ * One line of a split action. `value` is cents for 'fixed' and basis points for
+ * 'percentage' (of what is left after fixed lines); 'remainder' takes the rest.
+ */
+export interface RuleActionSplit {
+  accountId: string;
+  type: 'fixed' | 'percentage' | 'remainder';
+  value?: number;
+  description?: string; // Defaults to the action's description
+}
+
 export interface RuleAction {
-  accountId: string; // The account ID to use for the categorized line
-  isDebit: boolean;  // Whether the categorized line is a debit
+  accountId?: string; // The account ID to use for the categorized line (set this or `splits`)
+  splits?: RuleActionSplit[]; // Several categorized lines instead, e.g. principal/interest/escrow
+  isDebit: boolean;  // Whether the categorized line(s) are debits
   description?: string; // Optional description for the categorized line
   metadata?: Record<string, any>; // Optional metadata for the categorized line
-  // Future: could include split percentages, multiple lines, etc.
+}
+
+export type RuleApplicationLine = Omit<TransactionLine, 'id' | 'transaction_id' | 'created_at' | 'updated_at'>;
+
+/**
+ * The categorized side of an entry for an item: one line, or one per split, always
+ * summing to the item amount.
+ */
+export interface RuleApplicationResult {
+  ruleId: string;
+  lines: RuleApplicationLine[];
 }
 
 export interface Rule {
@@ -23,7 +66,7 @@ export interface Rule {
   entityId?: string; // If undefined, the rule is global (applies to all entities)
   isActive: boolean;
   priority: number; // Higher numbers typically mean higher priority
-  conditions: RuleCondition[]; // Conditions are ANDed
+  conditions: RuleConditionNode[]; // Top-level nodes are ANDed; use an `any` group for OR
   action: RuleAction;
 }
 
@@ -35,7 +78,7 @@ export interface CategorizableItem {
   id: string; // Original ID of the item, if any
   date: Date;
   description: string;
-  amount: number; // The single amount of the item (e.g., bank withdrawal is positive, deposit is positive)
+  amount: number; // The single amount of the item in cents (e.g., bank withdrawal is positive, deposit is positive)
   type: 'debit' | 'credit'; // Indicates if the bank item was a debit (money out) or credit (money in) to the bank account
   entityId: string;
   metadata?: Record<string, any>;
@@ -108,6 +151,21 @@ export class RuleEngine {
         return value === true;
       case 'isFalse':
         return value === false;
+      case 'dayOfMonthBetween':
+        return this.evaluateDayOfMonth(value, expectedValue);
+      case 'notContains':
+        // A missing field contains nothing
+        if (value === undefined || value === null) return true;
+        return !this.evaluateCondition({ ...condition, operator: 'contains' }, value);
+      case 'in':
+        return Array.isArray(expectedValue)
+          && expectedValue.some(option => this.evaluateCondition({ ...condition, operator: 'equals', value: option }, value));
+      case 'between': {
+        if (!Array.isArray(expectedValue) || expectedValue.length !== 2) return false;
+        const numValue = typeof value === 'string' ? parseFloat(value) : value;
+        if (typeof numValue !== 'number' || isNaN(numValue)) return false;
+        return numValue >= expectedValue[0] && numValue <= expectedValue[1];
+      }
     }
 
     // For operators requiring an expectedValue, if the actual value is undefined/null,
@@ -187,25 +245,8 @@ export class RuleEngine {
     // this.rules is already sorted by priority in constructor/addRule
 
     for (const rule of applicableRules) {
-      let allConditionsMet = true;
-      if (rule.conditions.length === 0) { // Rule with no conditions always matches
-        allConditionsMet = true;
-      } else {
-        for (const condition of rule.conditions) {
-          const { field } = condition;
-          // Access value from the item. Handles dot notation for nested properties.
-          const valueToTest = field.includes('.')
-            ? this.getNestedValue(item, field)
-            : (item as any)[field];
-
-          if (!this.evaluateCondition(condition, valueToTest)) {
-            allConditionsMet = false;
-            break; // No need to check other conditions for this rule
-          }
-        }
-      }
-
-      if (allConditionsMet) {
+      // Rule with no conditions always matches
+      if (rule.conditions.every(node => this.evaluateNode(node, item))) {
         return rule; // Return the first matching rule (due to priority sort)
       }
     }
@@ -213,23 +254,72 @@ export class RuleEngine {
   }
 
   /**
-   * Applies a matching rule to a categorizable item and returns the details
+   * Evaluates a condition or condition group against an item.
+   */
+  private evaluateNode(node: RuleConditionNode, item: CategorizableItem): boolean {
+    if ('all' in node) return node.all.every(child => this.evaluateNode(child, item));
+    if ('any' in node) return node.any.some(child => this.evaluateNode(child, item));
+    if ('not' in node) return !this.evaluateNode(node.not, item);
+
+    // Access value from the item. Handles dot notation for nested properties.
+    const valueToTest = node.field.includes('.')
+      ? this.getNestedValue(item, node.field)
+      : (item as any)[node.field];
+    return this.evaluateCondition(node, valueToTest);
+  }
+
+  /**
+   * Matches a date's UTC day of month against an inclusive [start, end] range. A range
+   * with start after end wraps around the month end, e.g. [28, 3].
+   */
+  private evaluateDayOfMonth(value: any, range: any): boolean {
+    const date = value instanceof Date ? value : typeof value === 'number' ? new Date(value * 1000) : null;
+    if (!date || isNaN(date.getTime()) || !Array.isArray(range) || range.length !== 2) return false;
+    const day = date.getUTCDate();
+    const [start, end] = range;
+    return start <= end ? day >= start && day <= end : day >= start || day <= end;
+  }
+
+  /**
+   * Applies a matching rule to a categorizable item and returns the line(s)
    * for one side of the accounting transaction.
    * This method DOES NOT create the full double-entry transaction.
    * It suggests the categorization for the "other" side of an entry
    * (e.g., if item is a bank withdrawal, this provides the expense line).
    *
+   * Split actions return one line per split with a non-zero amount. If the splits cannot
+   * add up to the item amount (e.g. fixed lines larger than the item), null is returned
+   * so the item is left for manual review rather than posted unbalanced.
+   *
    * @param item The item to be categorized.
-   * @returns An object representing the transaction line to be created, or null if no rule applies.
+   * @returns The transaction line(s) to be created, or null if no rule applies.
    */
-  getRuleApplicationResult(item: CategorizableItem): (Omit<TransactionLine, 'id' | 'transaction_id' | 'created_at' | 'updated_at'> & { ruleId: string }) | null {
+  getRuleApplicationResult(item: CategorizableItem): RuleApplicationResult | null {
     const rule = this.findMatchingRule(item);
 
     if (!rule) {
       return null;
     }
 
-    const { accountId, isDebit, description: ruleActionDescription, metadata } = rule.action;
+    const { accountId, splits, isDebit, description: ruleActionDescription, metadata } = rule.action;
+
+    if (splits) {
+      const amounts = allocateSplits(item.amount, splits);
+      if (!amounts) {
+        console.warn(`RuleEngine: Splits of rule [${rule.id}] cannot allocate ${item.amount} cents.`);
+        return null;
+      }
+      return {
+        ruleId: rule.id,
+        lines: splits.flatMap((split, index) => amounts[index] === 0 ? [] : [{
+          accountId: split.accountId,
+          amount: amounts[index],
+          isDebit,
+          description: split.description || ruleActionDescription || item.description,
+          metadata,
+        }]),
+      };
+    }
     
     // The amount for the categorized line is the amount of the bank item.
     // The `isDebit` from the rule action determines if this categorized line is a debit or credit.
@@ -240,12 +330,14 @@ export class RuleEngine {
     // The corresponding credit to the bank account needs to be handled by the calling service.
 
     return {
-      accountId: accountId,
-      amount: item.amount, // Use the amount from the categorizable item
-      isDebit: isDebit,
-      description: ruleActionDescription || item.description, // Use rule's desc, fallback to item's
-      metadata: metadata,
-      ruleId: rule.id // Include the ID of the rule that matched
+      ruleId: rule.id, // Include the ID of the rule that matched
+      lines: [{
+        accountId: accountId!,
+        amount: item.amount, // Use the amount from the categorizable item
+        isDebit: isDebit,
+        description: ruleActionDescription || item.description, // Use rule's desc, fallback to item's
+        metadata: metadata,
+      }],
     };
   }
 
@@ -262,4 +354,93 @@ export class RuleEngine {
       return (current && typeof current === 'object' && key in current) ? current[key] : undefined;
     }, obj);
   }
-}
\ No newline at end of file
+}
+
+function isConditionGroup(node: RuleConditionNode): node is RuleConditionGroup {
+  return typeof node === 'object' && node !== null && ('all' in node || 'any' in node || 'not' in node);
+}
+
+/**
+ * Checks a rule's condition tree before it is saved, returning one message per problem
+ * (empty when valid). Catches empty or ambiguous groups, trees nested deeper than
+ * MAX_CONDITION_DEPTH, unknown operators and values that do not suit their operator.
+ */
+export function validateRuleConditions(nodes: RuleConditionNode[]): string[] {
+  const errors: string[] = [];
+  const visit = (node: RuleConditionNode, path: string, depth: number) => {
+    if (typeof node !== 'object' || node === null) {
+      errors.push(`${path}: must be a condition or a group.`);
+      return;
+    }
+    if (isConditionGroup(node)) {
+      const keys = Object.keys(node);
+      if (keys.length !== 1) {
+        errors.push(`${path}: a group must have exactly one of all, any or not.`);
+        return;
+      }
+      if (depth >= MAX_CONDITION_DEPTH) {
+        errors.push(`${path}: groups cannot be nested more than ${MAX_CONDITION_DEPTH} levels deep.`);
+        return;
+      }
+      if ('not' in node) {
+        visit(node.not, `${path}.not`, depth + 1);
+        return;
+      }
+      const [key, children] = 'all' in node ? ['all', node.all] : ['any', node.any];
+      if (!Array.isArray(children) || children.length === 0) {
+        errors.push(`${path}.${key}: must contain at least one condition.`);
+        return;
+      }
+      children.forEach((child, index) => visit(child, `${path}.${key}[${index}]`, depth + 1));
+      return;
+    }
+
+    const { field, operator, value } = node as RuleCondition;
+    if (typeof field !== 'string' || field.trim() === '') {
+      errors.push(`${path}: field is required.`);
+    }
+    if (!RULE_CONDITION_OPERATORS.includes(operator)) {
+      errors.push(`${path}: unknown operator "${operator}".`);
+      return;
+    }
+    const isRange = (min: number, max: number) =>
+      Array.isArray(value) && value.length === 2 && value.every(bound => typeof bound === 'number' && bound >= min && bound <= max);
+    switch (operator) {
+      case 'between':
+        if (!isRange(-Infinity, Infinity) || value[0] > value[1]) {
+          errors.push(`${path}: between needs a [min, max] pair of numbers with min <= max.`);
+        }
+        break;
+      case 'dayOfMonthBetween':
+        if (!isRange(1, 31) || !value.every(Number.isInteger)) {
+          errors.push(`${path}: dayOfMonthBetween needs a [start, end] pair of days from 1 to 31.`);
+        }
+        break;
+      case 'in':
+        if (!Array.isArray(value) || value.length === 0) {
+          errors.push(`${path}: in needs a non-empty array of values.`);
+        }
+        break;
+      case 'regex':
+        try {
+          new RegExp(value);
+        } catch {
+          errors.push(`${path}: invalid regex pattern.`);
+        }
+        break;
+      case 'greaterThan':
+      case 'lessThan':
+        if (typeof value !== 'number') errors.push(`${path}: ${operator} needs a number.`);
+        break;
+      case 'contains':
+      case 'notContains':
+      case 'startsWith':
+      case 'endsWith':
+        if (typeof value !== 'string' || value === '') errors.push(`${path}: ${operator} needs a non-empty string.`);
+        break;
+    }
+  };
+  if (!Array.isArray(nodes)) return ['conditions: must be an array.'];
+  nodes.forEach((node, index) => visit(node, `conditions[${index}]`, 0));
+  return errors;
+}
@@ -0,0 +1,153 @@
+// src/lib/rules/learning.ts
+import type { CategorizableItem, Rule } from './engine';
+import { RuleEngine } from './engine';
+import { createCustomRule, type CustomRuleConditionInput } from './ruleDefinitions';
+import type { RuleSuggestion } from '../../types/rule';
+
+export const MIN_SUGGESTION_SUPPORT = 3; // Items a token must explain before it is suggested
+export const MIN_SUGGESTION_CONSISTENCY = 0.8; // Share of those items mapped to one account
+export const MAX_RULE_SUGGESTIONS = 20;
+// Above the seeded defaults, so a learned vendor rule wins over the generic rule it corrects.
+export const LEARNED_RULE_PRIORITY = 110;
+
+// Words banks put in front of every payee; they say nothing about the category.
+const STOP_WORDS = new Set([
+  'ach', 'pos', 'debit', 'credit', 'card', 'checkcard', 'purchase', 'payment', 'pmt', 'online',
+  'transfer', 'xfer', 'withdrawal', 'deposit', 'web', 'ppd', 'ccd', 'recurring', 'the', 'and',
+  'from', 'for', 'inc', 'llc', 'co', 'corp', 'www', 'com',
+]);
+
+/**
+ * An imported line the user categorized by hand.
+ */
+export interface ManualCategorization {
+  item: CategorizableItem;
+  entityAccountId: string;
+}
+
+/**
+ * Lowercased words of a description with punctuation trimmed. Words with digits (dates,
+ * card numbers, check numbers), very short words and bank boilerplate are dropped because
+ * they change from month to month or appear on every line.
+ */
+export function significantTokens(description: string): Array<{ token: string; position: number }> {
+  return description
+    .toLowerCase()
+    .split(/\s+/)
+    .map((word, position) => ({ token: word.replace(/^[^a-z0-9]+|[^a-z0-9]+$/g, ''), position }))
+    .filter(({ token }) => token.length >= 3 && !/\d/.test(token) && !STOP_WORDS.has(token));
+}
+
+/**
+ * Single tokens and pairs of adjacent tokens, the latter catching two-word payees such as
+ * "home depot" whose halves are too common on their own.
+ */
+function candidateKeys(description: string): string[] {
+  const tokens = significantTokens(description);
+  const keys = new Set(tokens.map(({ token }) => token));
+  tokens.forEach((current, index) => {
+    const next = tokens[index + 1];
+    if (next && next.position === current.position + 1) keys.add(`${current.token} ${next.token}`);
+  });
+  return [...keys];
+}
+
+function conditionsFor(phrase: string, direction: CategorizableItem['type']): CustomRuleConditionInput[] {
+  return [
+    { field: 'description', operator: 'contains', value: phrase, caseSensitive: false },
+    { field: 'type', operator: 'equals', value: direction },
+  ];
+}
+
+/**
+ * Finds description tokens that the user consistently maps to one account and proposes a
+ * rule for each. Every candidate is checked by running its rule over the manual items, so
+ * support and consistency describe what the rule would actually do. Results are
+ * deterministic: the same items always yield the same suggestions in the same order.
+ *
+ * Suggestions whose items `currentEngine` already sends to the same account are dropped, as
+ * are suggestions that only explain items a stronger suggestion for the account explains.
+ */
+export function suggestRules(
+  categorizations: ManualCategorization[],
+  entityId: string,
+  currentEngine: RuleEngine | null = null
+): RuleSuggestion[] {
+  const counts = new Map<string, number>();
+  for (const { item } of categorizations) {
+    for (const key of candidateKeys(item.description)) {
+      const countKey = `${item.type}|${key}`;
+      counts.set(countKey, (counts.get(countKey) ?? 0) + 1);
+    }
+  }
+
+  const candidates: Array<RuleSuggestion & { itemIds: Set<string> }> = [];
+  for (const [countKey, count] of [...counts.entries()].sort(([a], [b]) => a.localeCompare(b))) {
+    if (count < MIN_SUGGESTION_SUPPORT) continue;
+    const [direction, phrase] = countKey.split('|') as [CategorizableItem['type'], string];
+    const isDebit = direction === 'debit'; // Money out is categorized as a debit, money in as a credit
+    const rule: Rule = createCustomRule(
+      `Learned: ${phrase}`,
+      `Suggested from lines categorized by hand that contain "${phrase}".`,
+      conditionsFor(phrase, direction),
+      'pending', // Replaced below once the account is known
+      isDebit,
+      entityId,
+      LEARNED_RULE_PRIORITY
+    );
+    const engine = new RuleEngine([rule]);
+    const matched = categorizations.filter(({ item }) => engine.findMatchingRule(item));
+    const byAccount = new Map<string, ManualCategorization[]>();
+    matched.forEach(entry => byAccount.set(entry.entityAccountId, [...(byAccount.get(entry.entityAccountId) ?? []), entry]));
+    const [accountId, supporting] = [...byAccount.entries()]
+      .sort(([a, left], [b, right]) => right.length - left.length || a.localeCompare(b))[0] ?? [];
+    if (!accountId || !supporting || supporting.length < MIN_SUGGESTION_SUPPORT) continue;
+    const consistency = supporting.length / matched.length;
+    if (consistency < MIN_SUGGESTION_CONSISTENCY) continue;
+    if (currentEngine && supporting.every(({ item }) => {
+      const result = currentEngine.getRuleApplicationResult(item);
+      return result?.lines.length === 1 && result.lines[0].accountId === accountId;
+    })) {
+      continue;
+    }
+
+    const support = supporting.length;
+    candidates.push({
+      key: phrase,
+      direction,
+      entity_account_id: accountId,
+      support,
+      conflicting: matched.length - support,
+      consistency: Math.round(consistency * 100) / 100,
+      // Consistency, discounted for thin evidence: 3 of 3 scores 0.75, 9 of 9 scores 0.9.
+      confidence: Math.round(consistency * (support / (support + 1)) * 100) / 100,
+      sample_item_ids: supporting.slice(0, 5).map(({ item }) => item.id),
+      rule: {
+        name: rule.name,
+        description: rule.description,
+        entityId,
+        priority: rule.priority,
+        conditions: rule.conditions,
+        action: { ...rule.action, accountId },
+      },
+      itemIds: new Set(supporting.map(({ item }) => item.id)),
+    });
+  }
+
+  candidates.sort((a, b) =>
+    b.confidence - a.confidence
+    || b.support - a.support
+    || b.key.split(' ').length - a.key.split(' ').length
+    || a.key.localeCompare(b.key)
+  );
+  const accepted: typeof candidates = [];
+  for (const candidate of candidates) {
+    const covered = accepted.some(other =>
+      other.entity_account_id === candidate.entity_account_id
+      && [...candidate.itemIds].every(id => other.itemIds.has(id))
+    );
+    if (!covered) accepted.push(candidate);
+    if (accepted.length === MAX_RULE_SUGGESTIONS) break;
+  }
+  return accepted.map(({ itemIds, ...suggestion }) => suggestion);
+}
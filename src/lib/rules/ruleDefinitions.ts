@@ -3,8 +3,9 @@ import type { Rule, RuleCondition, RuleAction } from './engine'; // Import RuleC
 
 /**
  * Default rule definitions for common transaction types.
- * IMPORTANT: The 'accountId' values here are placeholders (e.g., 'bank-fees')
- * and MUST be updated to match actual account IDs/codes from your Chart of Accounts.
+ * IMPORTANT: The 'accountId' values here are placeholders (e.g., 'bank-fees').
+ * `RuleService.seedDefaultRules` resolves them to an entity's accounts through
+ * `resolvePlaceholderAccountCode`.
  */
 export const defaultRules: Rule[] = [
   // Bank Service Fee
@@ -112,18 +113,21 @@ export const defaultRules: Rule[] = [
     priority: 89, // Priority for general categorization
     conditions: [
       {
-        field: 'description',
-        operator: 'contains',
-        value: 'MORTGAGE PAYMENT', // Common keyword
-        caseSensitive: false
-      },
-      {
-        field: 'description', // More specific variants
-        operator: 'contains',
-        value: 'LOAN PAYMENT',
-        caseSensitive: false
+        any: [
+          {
+            field: 'description',
+            operator: 'contains',
+            value: 'MORTGAGE PAYMENT', // Common keyword
+            caseSensitive: false
+          },
+          {
+            field: 'description', // More specific variants
+            operator: 'contains',
+            value: 'LOAN PAYMENT',
+            caseSensitive: false
+          },
+        ]
       },
-       // Add more specific conditions if needed, e.g., payee name
     ],
     action: {
       // This often goes to a clearing account or directly to Mortgage Expense if principal reduction is handled separately
@@ -160,6 +164,27 @@ export const defaultRules: Rule[] = [
   }
 ];
 
+/**
+ * Chart of accounts codes for the placeholder account ids used by `defaultRules` and
+ * `bankTransactionRules`. Header codes map to the detail account the rule is meant for;
+ * any other placeholder is already an account code.
+ */
+export const placeholderAccountCodes: Record<string, string> = {
+  'bank-fees': '5110', // Bank Service Charges
+  'interest-income': '4510', // Interest Income
+  'rental-income': '4010', // Rental Income
+  '5100': '5110', // General & Administrative → Bank Service Charges
+  '4500': '4510', // Non-Operating Income → Interest Income
+  '5800': '5810', // Financial Expenses → Mortgage Interest Expense
+};
+
+/**
+ * Resolves a default rule's placeholder account id to a chart of accounts code.
+ */
+export function resolvePlaceholderAccountCode(placeholder: string): string {
+  return placeholderAccountCodes[placeholder] ?? placeholder;
+}
+
 /**
  * Load default rules.
  * @returns A shallow copy of the default rules array.
@@ -0,0 +1,108 @@
+// src/lib/rules/simulation.ts
+import type { CategorizableItem, Rule } from './engine';
+import { RuleEngine } from './engine';
+import type {
+  RuleSimulationChange,
+  RuleSimulationItem,
+  RuleSimulationOutcome,
+  RuleSimulationSummary,
+} from '../../types/rule';
+
+/**
+ * A past item to replay, with where it came from so the report can point back at it.
+ */
+export interface SimulationSubject {
+  kind: RuleSimulationItem['kind'];
+  item: CategorizableItem;
+}
+
+/**
+ * Overlays candidate rules on the current set: a candidate with the id of a current rule
+ * replaces it (an edit, re-prioritization or deactivation), any other candidate is added.
+ */
+export function mergeCandidateRules(current: Rule[], candidates: Rule[], replaceAll = false): Rule[] {
+  if (replaceAll) return candidates;
+  const candidateById = new Map(candidates.map(rule => [rule.id, rule]));
+  const currentIds = new Set(current.map(rule => rule.id));
+  return [
+    ...current.map(rule => candidateById.get(rule.id) ?? rule),
+    ...candidates.filter(rule => !currentIds.has(rule.id)),
+  ];
+}
+
+function outcomeOf(engine: RuleEngine, rulesById: Map<string, Rule>, item: CategorizableItem): RuleSimulationOutcome | null {
+  const result = engine.getRuleApplicationResult(item);
+  if (!result) return null;
+  return {
+    rule_id: result.ruleId,
+    rule_name: rulesById.get(result.ruleId)?.name ?? null,
+    lines: result.lines.map(line => ({ entity_account_id: line.accountId, amount: line.amount, is_debit: line.isDebit })),
+  };
+}
+
+function sameLines(a: RuleSimulationOutcome, b: RuleSimulationOutcome): boolean {
+  return a.lines.length === b.lines.length && a.lines.every((line, index) =>
+    line.entity_account_id === b.lines[index].entity_account_id
+    && line.amount === b.lines[index].amount
+    && line.is_debit === b.lines[index].is_debit
+  );
+}
+
+function classify(before: RuleSimulationOutcome | null, after: RuleSimulationOutcome | null): RuleSimulationChange {
+  if (!before && !after) return 'unchanged';
+  if (!before) return 'newly_matched';
+  if (!after) return 'no_longer_matched';
+  if (!sameLines(before, after)) return 'category_changed';
+  return before.rule_id === after.rule_id ? 'unchanged' : 'rule_changed';
+}
+
+/**
+ * Runs every subject through the current and the candidate rule sets and reports the
+ * difference. Only items whose outcome changes are listed in `changes`; `unmatched` lists
+ * the items no candidate rule categorizes, whether or not that is new.
+ */
+export function simulateRules(
+  subjects: SimulationSubject[],
+  currentRules: Rule[],
+  candidateRules: Rule[]
+): { summary: RuleSimulationSummary; changes: RuleSimulationItem[]; unmatched: RuleSimulationItem[] } {
+  const currentEngine = new RuleEngine(currentRules);
+  const candidateEngine = new RuleEngine(candidateRules);
+  const currentById = new Map(currentRules.map(rule => [rule.id, rule]));
+  const candidateById = new Map(candidateRules.map(rule => [rule.id, rule]));
+
+  const summary: RuleSimulationSummary = {
+    items: subjects.length,
+    unchanged: 0,
+    category_changed: 0,
+    rule_changed: 0,
+    newly_matched: 0,
+    no_longer_matched: 0,
+    unmatched: 0,
+  };
+  const changes: RuleSimulationItem[] = [];
+  const unmatched: RuleSimulationItem[] = [];
+  for (const { kind, item } of subjects) {
+    const before = outcomeOf(currentEngine, currentById, item);
+    const after = outcomeOf(candidateEngine, candidateById, item);
+    const change = classify(before, after);
+    const row: RuleSimulationItem = {
+      kind,
+      item_id: item.id,
+      date: Math.floor(item.date.getTime() / 1000),
+      description: item.description,
+      amount: item.amount,
+      direction: item.type,
+      change,
+      before,
+      after,
+    };
+    summary[change]++;
+    if (change !== 'unchanged') changes.push(row);
+    if (!after) {
+      summary.unmatched++;
+      unmatched.push(row);
+    }
+  }
+  return { summary, changes, unmatched };
+}
@@ -0,0 +1,120 @@
+// src/lib/rules/splits.ts
+import type { RuleAction, RuleActionSplit } from './engine';
+
+export const MAX_ACTION_SPLITS = 20;
+
+/**
+ * Allocates an item amount (cents) across split lines, in split order:
+ * - `fixed` lines take `value` cents;
+ * - `percentage` lines share what is left after fixed lines by `value` basis points,
+ *   rounded with the largest-remainder method so no cent is lost or invented;
+ * - the `remainder` line, if any, takes whatever is still left.
+ * Returns null when the splits cannot add up to the amount (fixed lines exceed it, or
+ * there is no remainder line and the percentages do not total 100%).
+ */
+export function allocateSplits(amount: number, splits: RuleActionSplit[]): number[] | null {
+  const amounts = new Array<number>(splits.length).fill(0);
+  let fixedTotal = 0;
+  splits.forEach((split, index) => {
+    if (split.type === 'fixed') {
+      amounts[index] = split.value ?? 0;
+      fixedTotal += amounts[index];
+    }
+  });
+  const afterFixed = amount - fixedTotal;
+  if (afterFixed < 0) return null;
+
+  const percentageIndexes = splits.flatMap((split, index) => (split.type === 'percentage' ? [index] : []));
+  const totalBasisPoints = percentageIndexes.reduce((sum, index) => sum + (splits[index].value ?? 0), 0);
+  const remainderIndex = splits.findIndex(split => split.type === 'remainder');
+  if (totalBasisPoints > 10000 || (remainderIndex === -1 && totalBasisPoints !== 10000 && percentageIndexes.length > 0)) {
+    return null;
+  }
+
+  // Largest remainder: floor every share, then hand the cents left over to the shares with
+  // the biggest fractional parts (earlier splits win ties).
+  const percentageTotal = Math.round((afterFixed * totalBasisPoints) / 10000);
+  const shares = percentageIndexes.map(index => {
+    const exact = (afterFixed * (splits[index].value ?? 0)) / 10000;
+    return { index, floor: Math.floor(exact), fraction: exact - Math.floor(exact) };
+  });
+  let leftover = percentageTotal - shares.reduce((sum, share) => sum + share.floor, 0);
+  shares.forEach(share => { amounts[share.index] = share.floor; });
+  [...shares]
+    .sort((a, b) => b.fraction - a.fraction || a.index - b.index)
+    .forEach(share => {
+      if (leftover > 0) {
+        amounts[share.index]++;
+        leftover--;
+      }
+    });
+
+  const allocated = amounts.reduce((sum, value) => sum + value, 0);
+  if (remainderIndex !== -1) {
+    amounts[remainderIndex] = amount - allocated;
+  } else if (allocated !== amount) {
+    return null;
+  }
+  return amounts;
+}
+
+/**
+ * The account ids an action posts to: its single account or every split's account.
+ */
+export function getActionAccountIds(action: RuleAction): string[] {
+  return action.splits ? action.splits.map(split => split.accountId) : action.accountId ? [action.accountId] : [];
+}
+
+/**
+ * Returns a copy of the action with every account id passed through `map`, or null when
+ * `map` returns undefined for any of them.
+ */
+export function mapActionAccounts(action: RuleAction, map: (accountId: string) => string | undefined): RuleAction | null {
+  if (action.splits) {
+    const splits = action.splits.map(split => ({ ...split, accountId: map(split.accountId) }));
+    return splits.every(split => split.accountId !== undefined) ? { ...action, splits: splits as RuleActionSplit[] } : null;
+  }
+  const accountId = action.accountId ? map(action.accountId) : undefined;
+  return accountId ? { ...action, accountId } : null;
+}
+
+/**
+ * Checks a rule action before it is saved, returning one message per problem (empty when
+ * valid). A split action needs a remainder line or percentages totalling 100% so that its
+ * lines always add up to the item amount.
+ */
+export function validateRuleAction(action: RuleAction): string[] {
+  const errors: string[] = [];
+  if (!!action.accountId === !!action.splits) {
+    return ['action: provide either accountId or splits.'];
+  }
+  if (!action.splits) return errors;
+
+  const { splits } = action;
+  if (splits.length < 2 || splits.length > MAX_ACTION_SPLITS) {
+    errors.push(`action.splits: must have between 2 and ${MAX_ACTION_SPLITS} lines.`);
+  }
+  splits.forEach((split, index) => {
+    const path = `action.splits[${index}]`;
+    if (!split.accountId) errors.push(`${path}: accountId is required.`);
+    if (split.type === 'fixed' && !(Number.isInteger(split.value) && split.value! > 0)) {
+      errors.push(`${path}: a fixed split needs a positive amount in cents.`);
+    }
+    if (split.type === 'percentage' && !(Number.isInteger(split.value) && split.value! > 0 && split.value! <= 10000)) {
+      errors.push(`${path}: a percentage split needs basis points from 1 to 10000.`);
+    }
+    if (split.type === 'remainder' && split.value !== undefined && split.value !== null) {
+      errors.push(`${path}: a remainder split takes no value.`);
+    }
+  });
+  const remainders = splits.filter(split => split.type === 'remainder').length;
+  const basisPoints = splits.filter(split => split.type === 'percentage').reduce((sum, split) => sum + (split.value ?? 0), 0);
+  if (remainders > 1) {
+    errors.push('action.splits: only one remainder split is allowed.');
+  } else if (remainders === 0 && basisPoints !== 10000) {
+    errors.push('action.splits: without a remainder split, percentages must total 100% (10000 basis points).');
+  } else if (basisPoints > 10000) {
+    errors.push('action.splits: percentages cannot total more than 100% (10000 basis points).');
+  }
+  return errors;
+}
@@ -2,7 +2,7 @@
 import type { D1Database, D1PreparedStatement } from '@cloudflare/workers-types';
 import { Database, createDbClient } from '@db/db';
 import type { DbExecuteResult } from '@db/db'; // Fix 1: Use type-only import
-import type { DbChartOfAccount, AccountSystemType as DbAccountSystemType } from '@db/schema';
+import type { DbChartOfAccount, AccountSystemType as DbAccountSystemType, CashFlowCategory } from '@db/schema';
 // Assuming your application-level types might be slightly different or include more business logic.
 // For now, we'll primarily use DbChartOfAccount for direct D1 interaction.
 // import type { Account as AppAccount, AccountInput as AppAccountInput, AccountType, ExpenseSubtype } from '@/types/account';
@@ -20,6 +20,7 @@ export interface ChartOfAccountInput {
   is_recoverable?: boolean;
   recovery_percentage?: number | null;
   tax_category?: string | null;
+  cash_flow_category?: CashFlowCategory | null;
   is_active?: boolean;
   parent_id?: string | null; // Use parent_id (UUID of parent)
 }
@@ -39,6 +40,7 @@ function mapToDbChartOfAccount(data: any): DbChartOfAccount {
     recovery_percentage: data.recovery_percentage === undefined ? null : data.recovery_percentage,
     is_active: data.is_active === false ? 0 : 1, // Default to true if undefined
     tax_category: data.tax_category || null,
+    cash_flow_category: data.cash_flow_category || null,
     parent_id: data.parent_id || null,
     created_at: data.created_at,
     updated_at: data.updated_at,
@@ -62,7 +64,7 @@ export class AccountService {
   async getAllAccounts(userId: string): Promise<DbChartOfAccount[]> {
     const sql = `
       SELECT id, user_id, code, name, type, subtype, description, is_recoverable,
-             recovery_percentage, tax_category, is_active, parent_id, created_at, updated_at
+             recovery_percentage, tax_category, cash_flow_category, is_active, parent_id, created_at, updated_at
       FROM ${this.TABLE_NAME}
       WHERE user_id = ?
       ORDER BY code
@@ -84,7 +86,7 @@ export class AccountService {
   async getAccountsByType(userId: string, type: DbAccountSystemType): Promise<DbChartOfAccount[]> {
     const sql = `
       SELECT id, user_id, code, name, type, subtype, description, is_recoverable,
-             recovery_percentage, tax_category, is_active, parent_id, created_at, updated_at
+             recovery_percentage, tax_category, cash_flow_category, is_active, parent_id, created_at, updated_at
       FROM ${this.TABLE_NAME}
       WHERE user_id = ? AND type = ?
       ORDER BY code
@@ -106,7 +108,7 @@ export class AccountService {
   async getAccountById(id: string, userId: string): Promise<DbChartOfAccount | null> {
     const sql = `
       SELECT id, user_id, code, name, type, subtype, description, is_recoverable,
-             recovery_percentage, tax_category, is_active, parent_id, created_at, updated_at
+             recovery_percentage, tax_category, cash_flow_category, is_active, parent_id, created_at, updated_at
       FROM ${this.TABLE_NAME}
       WHERE id = ? AND user_id = ?
     `;
@@ -127,7 +129,7 @@ export class AccountService {
   async getAccountByCode(code: string, userId: string): Promise<DbChartOfAccount | null> {
     const sql = `
       SELECT id, user_id, code, name, type, subtype, description, is_recoverable,
-             recovery_percentage, tax_category, is_active, parent_id, created_at, updated_at
+             recovery_percentage, tax_category, cash_flow_category, is_active, parent_id, created_at, updated_at
       FROM ${this.TABLE_NAME}
       WHERE code = ? AND user_id = ?
     `;
@@ -166,8 +168,8 @@ export class AccountService {
     const sql = `
       INSERT INTO ${this.TABLE_NAME} (
         id, user_id, code, name, type, subtype, description,
-        is_recoverable, recovery_percentage, tax_category, is_active, parent_id, created_at, updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        is_recoverable, recovery_percentage, tax_category, cash_flow_category, is_active, parent_id, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `;
     const params = [
       accountId, userId, accountData.code, accountData.name, accountData.type,
@@ -175,6 +177,7 @@ export class AccountService {
       accountData.is_recoverable ? 1 : 0,
       accountData.recovery_percentage === undefined ? null : accountData.recovery_percentage,
       accountData.tax_category || null,
+      accountData.cash_flow_category || null,
       accountData.is_active === false ? 0 : 1, // Default to active (1)
       accountData.parent_id || null,
       now, now
@@ -258,6 +261,7 @@ export class AccountService {
     addUpdateField('is_recoverable', 'is_recoverable', (v) => v ? 1 : 0);
     addUpdateField('recovery_percentage', 'recovery_percentage');
     addUpdateField('tax_category', 'tax_category');
+    addUpdateField('cash_flow_category', 'cash_flow_category');
     addUpdateField('is_active', 'is_active', (v) => v ? 1 : 0);
     addUpdateField('parent_id', 'parent_id');
 
@@ -368,8 +372,8 @@ export class AccountService {
         const sql = `
           INSERT INTO ${this.TABLE_NAME} (
             id, user_id, code, name, type, subtype, description, is_recoverable,
-            recovery_percentage, tax_category, is_active, parent_id, created_at, updated_at
-          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+            recovery_percentage, tax_category, cash_flow_category, is_active, parent_id, created_at, updated_at
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
         `;
         operations.push(
           this.db.d1Instance.prepare(sql).bind(
@@ -378,6 +382,7 @@ export class AccountService {
             accToInsert.isRecoverable ? 1 : 0,
             undefined, // recovery_percentage not in defaultChartOfAccountsItem typically
             null, // tax_category
+            accToInsert.cashFlowCategory || null,
             1, // is_active
             parentDbId, // Use resolved parent_id
             now, now
@@ -0,0 +1,771 @@
+// src/lib/services/bank-import-service.ts
+import type { D1Database, D1PreparedStatement } from '@cloudflare/workers-types';
+import { Database, createDbClient } from '@db/db';
+import type { DbExecuteResult } from '@db/db';
+import type { DbBankImportBatch, DbBankImportItem, DbBankImportMapping } from '@db/schema';
+import type {
+  BankImportBatch,
+  BankImportBatchWithItems,
+  BankImportCategorySplit,
+  BankImportDuplicateFlag,
+  BankImportItem,
+  BankImportItemUpdate,
+  BankImportMapping,
+  BankImportMappingInput,
+  BankImportSource,
+  CsvDateFormat,
+  CsvImportInput,
+  OfxImportInput,
+  StatementLine,
+  StatementParseResult,
+} from '../../types/import';
+import type { TransactionInput } from '../../types/transaction';
+import type { CategorizableItem, RuleEngine } from '@rules/engine';
+import { AppError, ErrorCode } from '@utils/errors';
+import { parseCsvStatement } from '@lib/imports/csvStatement';
+import { parseOfxStatement } from '@lib/imports/ofxStatement';
+import {
+  assignExternalIds,
+  DEFAULT_NEAR_DUPLICATE_DAYS,
+  findNearDuplicate,
+  type DuplicateCandidate,
+} from '@lib/imports/duplicates';
+import { createEntityService, EntityService } from './entity-service';
+import { createEntityAccountService, EntityAccountService } from './entity-account-service';
+import { createRuleService, RuleService } from './rule-service';
+import { createTransactionService, TransactionService } from './transaction-service';
+
+function mapDbMapping(dbMapping: DbBankImportMapping): BankImportMapping {
+  return {
+    id: dbMapping.id,
+    user_id: dbMapping.user_id,
+    name: dbMapping.name,
+    date_column: dbMapping.date_column,
+    description_column: dbMapping.description_column,
+    amount_column: dbMapping.amount_column ?? null,
+    debit_column: dbMapping.debit_column ?? null,
+    credit_column: dbMapping.credit_column ?? null,
+    reference_column: dbMapping.reference_column ?? null,
+    sign_convention: dbMapping.sign_convention,
+    date_format: dbMapping.date_format as CsvDateFormat,
+    created_at: dbMapping.created_at,
+    updated_at: dbMapping.updated_at,
+  };
+}
+
+function mapDbBatch(dbBatch: DbBankImportBatch): BankImportBatch {
+  return {
+    id: dbBatch.id,
+    user_id: dbBatch.user_id,
+    entity_id: dbBatch.entity_id,
+    cash_entity_account_id: dbBatch.cash_entity_account_id,
+    source: dbBatch.source as BankImportSource,
+    file_name: dbBatch.file_name ?? null,
+    mapping_id: dbBatch.mapping_id ?? null,
+    status: dbBatch.status,
+    created_at: dbBatch.created_at,
+    updated_at: dbBatch.updated_at,
+  };
+}
+
+function parseCategorySplits(dbItem: DbBankImportItem): BankImportCategorySplit[] | null {
+  return dbItem.category_splits ? JSON.parse(dbItem.category_splits) : null;
+}
+
+/**
+ * The balanced entry a staged line will post: cash on the bank's side of the line and the
+ * category account (or each split line) opposite it. Null while the line has no category
+ * or was skipped.
+ */
+export function buildProposedTransaction(batch: BankImportBatch, item: DbBankImportItem): TransactionInput | null {
+  const splits = parseCategorySplits(item);
+  if ((!item.category_entity_account_id && !splits) || item.status === 'skipped') return null;
+  const cashIsDebit = item.direction === 'credit'; // Money in debits cash
+  const categoryLines = splits
+    ? splits.map(split => ({ entity_account_id: split.entity_account_id, amount: split.amount, memo: split.memo ?? item.memo }))
+    : [{ entity_account_id: item.category_entity_account_id!, amount: item.amount, memo: item.memo }];
+  return {
+    entity_id: batch.entity_id,
+    date: item.date,
+    description: item.description,
+    reference: item.reference ?? null,
+    status: 'posted',
+    lines: [
+      { entity_account_id: batch.cash_entity_account_id, amount: item.amount, is_debit: cashIsDebit },
+      ...categoryLines.map(({ memo, ...line }) => ({ ...line, is_debit: !cashIsDebit, ...(memo ? { memo } : {}) })),
+    ],
+  };
+}
+
+function mapDbItem(batch: BankImportBatch, dbItem: DbBankImportItem): BankImportItem {
+  return {
+    id: dbItem.id,
+    batch_id: dbItem.batch_id,
+    row_number: dbItem.row_number,
+    date: dbItem.date,
+    description: dbItem.description,
+    amount: dbItem.amount,
+    direction: dbItem.direction,
+    reference: dbItem.reference ?? null,
+    external_id: dbItem.external_id ?? null,
+    memo: dbItem.memo ?? null,
+    rule_id: dbItem.rule_id ?? null,
+    category_entity_account_id: dbItem.category_entity_account_id ?? null,
+    category_splits: parseCategorySplits(dbItem),
+    note: dbItem.note ?? null,
+    status: dbItem.status,
+    transaction_id: dbItem.transaction_id ?? null,
+    duplicate_flag: dbItem.duplicate_flag ?? null,
+    duplicate_of_item_id: dbItem.duplicate_of_item_id ?? null,
+    duplicate_of_transaction_id: dbItem.duplicate_of_transaction_id ?? null,
+    proposed_transaction: dbItem.status === 'posted' ? null : buildProposedTransaction(batch, dbItem),
+    created_at: dbItem.created_at,
+    updated_at: dbItem.updated_at,
+  };
+}
+
+/**
+ * Runs a statement line through the entity's rules. A rule whose action sits on the same
+ * side as cash would unbalance the entry, so the line stays uncategorized with a note. A
+ * split rule stores its lines in `category_splits` instead of a single category account.
+ */
+function categorizeLine(
+  engine: RuleEngine,
+  line: StatementLine,
+  itemId: string,
+  entityId: string
+): Pick<DbBankImportItem, 'rule_id' | 'category_entity_account_id' | 'category_splits' | 'note' | 'status'> {
+  const item: CategorizableItem = {
+    id: itemId,
+    date: new Date(line.date * 1000),
+    description: line.description,
+    amount: line.amount,
+    type: line.direction,
+    entityId,
+    metadata: { reference: line.reference, externalId: line.external_id, memo: line.memo },
+  };
+  const result = engine.getRuleApplicationResult(item);
+  if (!result) {
+    return { rule_id: null, category_entity_account_id: null, category_splits: null, note: null, status: 'uncategorized' };
+  }
+  const cashIsDebit = line.direction === 'credit';
+  const isDebit = result.lines[0].isDebit; // Every line of a rule sits on the same side
+  if (isDebit === cashIsDebit) {
+    return {
+      rule_id: result.ruleId,
+      category_entity_account_id: null,
+      category_splits: null,
+      note: `Rule ${result.ruleId} posts a ${isDebit ? 'debit' : 'credit'}, which does not offset this ${line.direction === 'credit' ? 'deposit' : 'withdrawal'}.`,
+      status: 'uncategorized',
+    };
+  }
+  if (result.lines.length === 1) {
+    return { rule_id: result.ruleId, category_entity_account_id: result.lines[0].accountId, category_splits: null, note: null, status: 'proposed' };
+  }
+  const splits: BankImportCategorySplit[] = result.lines.map(ruleLine => ({
+    entity_account_id: ruleLine.accountId,
+    amount: ruleLine.amount,
+    memo: ruleLine.description && ruleLine.description !== line.description ? ruleLine.description : null,
+  }));
+  return { rule_id: result.ruleId, category_entity_account_id: null, category_splits: JSON.stringify(splits), note: null, status: 'proposed' };
+}
+
+/**
+ * Imports bank statements into staged batches of proposed transactions. Nothing reaches the
+ * ledger until a batch is reviewed and posted.
+ */
+export class BankImportService {
+  private db: Database;
+  private entityService: EntityService;
+  private entityAccountService: EntityAccountService;
+  private ruleService: RuleService;
+  private transactionService: TransactionService;
+  private MAPPINGS_TABLE_NAME = 'bank_import_mappings';
+  private BATCHES_TABLE_NAME = 'bank_import_batches';
+  private ITEMS_TABLE_NAME = 'bank_import_items';
+  private EXTERNAL_IDS_TABLE_NAME = 'bank_import_external_ids';
+
+  constructor(d1: D1Database) {
+    this.db = createDbClient(d1);
+    this.entityService = createEntityService(d1);
+    this.entityAccountService = createEntityAccountService(d1);
+    this.ruleService = createRuleService(d1);
+    this.transactionService = createTransactionService(d1);
+  }
+
+  async listMappings(userId: string): Promise<BankImportMapping[]> {
+    try {
+      const rows = await this.db.query<DbBankImportMapping>(
+        `SELECT * FROM ${this.MAPPINGS_TABLE_NAME} WHERE user_id = ? ORDER BY name`,
+        [userId]
+      );
+      return rows.map(mapDbMapping);
+    } catch (error: unknown) {
+      console.error('BankImportService.listMappings error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Failed to retrieve import mappings.', 500, error);
+    }
+  }
+
+  async getMappingById(id: string, userId: string): Promise<BankImportMapping | null> {
+    try {
+      const row = await this.db.queryOne<DbBankImportMapping>(
+        `SELECT * FROM ${this.MAPPINGS_TABLE_NAME} WHERE id = ? AND user_id = ?`,
+        [id, userId]
+      );
+      return row ? mapDbMapping(row) : null;
+    } catch (error: unknown) {
+      console.error('BankImportService.getMappingById error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Failed to retrieve import mapping.', 500, error);
+    }
+  }
+
+  /**
+   * Saves a column mapping for reuse. Names are unique per user.
+   */
+  async createMapping(input: BankImportMappingInput, userId: string): Promise<BankImportMapping> {
+    this.assertMappingColumns(input);
+    await this.assertMappingNameAvailable(input.name, userId);
+
+    const mappingId = crypto.randomUUID();
+    const now = Math.floor(Date.now() / 1000);
+    const sql = `
+      INSERT INTO ${this.MAPPINGS_TABLE_NAME} (
+        id, user_id, name, date_column, description_column, amount_column, debit_column, credit_column,
+        reference_column, sign_convention, date_format, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `;
+    try {
+      const result: DbExecuteResult = await this.db.execute(sql, [
+        mappingId, userId, input.name, input.date_column, input.description_column,
+        input.amount_column ?? null, input.debit_column ?? null, input.credit_column ?? null,
+        input.reference_column ?? null, input.sign_convention, input.date_format, now, now,
+      ]);
+      if (!result.success) {
+        throw new AppError(ErrorCode.DATABASE_ERROR, result.error || 'Failed to create import mapping.', 500);
+      }
+      const created = await this.getMappingById(mappingId, userId);
+      if (!created) {
+        throw new AppError(ErrorCode.DATABASE_ERROR, 'Import mapping was created but could not be retrieved.', 500);
+      }
+      return created;
+    } catch (error: unknown) {
+      if (error instanceof AppError) throw error;
+      console.error('BankImportService.createMapping error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'An unexpected error occurred while creating the import mapping.', 500, error);
+    }
+  }
+
+  async updateMapping(id: string, input: Partial<BankImportMappingInput>, userId: string): Promise<BankImportMapping> {
+    const existing = await this.getMappingById(id, userId);
+    if (!existing) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'Import mapping not found or access denied.', 404);
+    }
+    this.assertMappingColumns({ ...existing, ...input });
+    if (input.name !== undefined && input.name !== existing.name) {
+      await this.assertMappingNameAvailable(input.name, userId);
+    }
+
+    const updates: string[] = [];
+    const values: any[] = [];
+    const addField = (key: keyof BankImportMappingInput, dbCol: string) => {
+      const newVal = input[key];
+      if (newVal !== undefined) {
+        updates.push(`${dbCol} = ?`);
+        values.push(newVal ?? null);
+      }
+    };
+    addField('name', 'name');
+    addField('date_column', 'date_column');
+    addField('description_column', 'description_column');
+    addField('amount_column', 'amount_column');
+    addField('debit_column', 'debit_column');
+    addField('credit_column', 'credit_column');
+    addField('reference_column', 'reference_column');
+    addField('sign_convention', 'sign_convention');
+    addField('date_format', 'date_format');
+    if (updates.length === 0) {
+      return existing;
+    }
+    updates.push('updated_at = ?');
+    values.push(Math.floor(Date.now() / 1000));
+
+    const sql = `UPDATE ${this.MAPPINGS_TABLE_NAME} SET ${updates.join(', ')} WHERE id = ? AND user_id = ?`;
+    try {
+      const result: DbExecuteResult = await this.db.execute(sql, [...values, id, userId]);
+      if (!result.success) {
+        throw new AppError(ErrorCode.DATABASE_ERROR, result.error || 'Failed to update import mapping.', 500);
+      }
+      const updated = await this.getMappingById(id, userId);
+      if (!updated) {
+        throw new AppError(ErrorCode.DATABASE_ERROR, 'Import mapping was updated but could not be retrieved.', 500);
+      }
+      return updated;
+    } catch (error: unknown) {
+      if (error instanceof AppError) throw error;
+      console.error('BankImportService.updateMapping error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'An unexpected error occurred while updating the import mapping.', 500, error);
+    }
+  }
+
+  async deleteMapping(id: string, userId: string): Promise<boolean> {
+    const existing = await this.getMappingById(id, userId);
+    if (!existing) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'Import mapping not found or access denied.', 404);
+    }
+    try {
+      const result = await this.db.execute(`DELETE FROM ${this.MAPPINGS_TABLE_NAME} WHERE id = ? AND user_id = ?`, [id, userId]);
+      return result.success && ((result.meta?.changes ?? 0) > 0);
+    } catch (error: unknown) {
+      console.error('BankImportService.deleteMapping error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'An unexpected error occurred while deleting the import mapping.', 500, error);
+    }
+  }
+
+  /**
+   * Parses a CSV statement with a saved or inline mapping and stages its lines. Rows that
+   * cannot be parsed are returned as `parse_errors` alongside the staged batch.
+   */
+  async importCsv(input: CsvImportInput, userId: string): Promise<BankImportBatchWithItems> {
+    let mapping: BankImportMappingInput;
+    let mappingId: string | null = null;
+    if (input.mapping_id) {
+      const saved = await this.getMappingById(input.mapping_id, userId);
+      if (!saved) {
+        throw new AppError(ErrorCode.NOT_FOUND, 'Import mapping not found or access denied.', 404);
+      }
+      mapping = saved;
+      mappingId = saved.id;
+    } else if (input.mapping) {
+      this.assertMappingColumns(input.mapping);
+      mapping = input.mapping;
+    } else {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Either mapping_id or mapping is required.', 400);
+    }
+
+    const parsed = parseCsvStatement(input.content, mapping);
+    if (parsed.lines.length === 0) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'No transactions could be read from the file.', 400, { errors: parsed.errors });
+    }
+    if (input.mapping && input.save_mapping) {
+      mappingId = (await this.createMapping(input.mapping, userId)).id;
+    }
+
+    return this.stageLines(
+      { entityId: input.entity_id, cashEntityAccountId: input.cash_entity_account_id, source: 'csv', fileName: input.file_name ?? null, mappingId },
+      parsed,
+      userId,
+      { nearDuplicateDays: input.near_duplicate_days }
+    );
+  }
+
+  /**
+   * Parses an OFX/QFX statement and stages its transactions. Unreadable `STMTTRN` records
+   * are returned as `parse_errors` alongside the staged batch.
+   */
+  async importOfx(input: OfxImportInput, userId: string): Promise<BankImportBatchWithItems> {
+    const parsed = parseOfxStatement(input.content);
+    if (parsed.lines.length === 0) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'No transactions could be read from the file.', 400, { errors: parsed.errors });
+    }
+    return this.stageLines(
+      { entityId: input.entity_id, cashEntityAccountId: input.cash_entity_account_id, source: 'ofx', fileName: input.file_name ?? null, mappingId: null },
+      parsed,
+      userId,
+      { nearDuplicateDays: input.near_duplicate_days }
+    );
+  }
+
+  /**
+   * Stages parsed statement lines as a batch against the entity's cash account, proposing
+   * a category for each line from the entity's categorization rules.
+   *
+   * Each line's external id is recorded against the cash account. A line whose id was
+   * already imported is staged as a skipped exact duplicate; a line matching an earlier
+   * import line or hand-entered transaction (same amount and direction within
+   * `nearDuplicateDays`, similar description) is flagged as a possible duplicate.
+   */
+  async stageLines(
+    target: { entityId: string; cashEntityAccountId: string; source: BankImportSource; fileName: string | null; mappingId: string | null },
+    parsed: StatementParseResult,
+    userId: string,
+    options: { nearDuplicateDays?: number } = {}
+  ): Promise<BankImportBatchWithItems> {
+    await this.assertEntityAccess(target.entityId, userId);
+    await this.assertEntityAccount(target.entityId, target.cashEntityAccountId, 'Cash account', userId);
+    const engine = await this.ruleService.createRuleEngine(target.entityId, userId);
+
+    const lines = await assignExternalIds(parsed.lines);
+    const windowDays = options.nearDuplicateDays ?? DEFAULT_NEAR_DUPLICATE_DAYS;
+    const importedIds = await this.findImportedExternalIds(target.cashEntityAccountId, lines.map(line => line.external_id!), userId);
+    const candidates = await this.findDuplicateCandidates(target, lines, windowDays, userId);
+
+    const batchId = crypto.randomUUID();
+    const now = Math.floor(Date.now() / 1000);
+    const operations: D1PreparedStatement[] = [
+      this.db.d1Instance.prepare(`
+        INSERT INTO ${this.BATCHES_TABLE_NAME} (
+          id, user_id, entity_id, cash_entity_account_id, source, file_name, mapping_id, status, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, 'staged', ?, ?)
+      `).bind(batchId, userId, target.entityId, target.cashEntityAccountId, target.source, target.fileName, target.mappingId, now, now),
+    ];
+    const itemSql = `
+      INSERT INTO ${this.ITEMS_TABLE_NAME} (
+        id, batch_id, user_id, row_number, date, description, amount, direction, reference, external_id, memo,
+        rule_id, category_entity_account_id, category_splits, note, status, duplicate_flag, duplicate_of_item_id, duplicate_of_transaction_id,
+        created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `;
+    const externalIdSql = `
+      INSERT INTO ${this.EXTERNAL_IDS_TABLE_NAME} (cash_entity_account_id, external_id, user_id, entity_id, item_id, created_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `;
+    for (const line of lines) {
+      const itemId = crypto.randomUUID();
+      const externalId = line.external_id!;
+      const originalItemId = importedIds.get(externalId);
+      let category: ReturnType<typeof categorizeLine>;
+      let duplicate: { flag: BankImportDuplicateFlag | null; itemId: string | null; transactionId: string | null };
+      if (originalItemId) {
+        category = { rule_id: null, category_entity_account_id: null, category_splits: null, note: null, status: 'skipped' };
+        duplicate = { flag: 'exact', itemId: originalItemId, transactionId: null };
+      } else {
+        category = categorizeLine(engine, line, itemId, target.entityId);
+        const match = findNearDuplicate(line, candidates, windowDays);
+        duplicate = {
+          flag: match ? 'possible' : null,
+          itemId: match?.kind === 'item' ? match.id : null,
+          transactionId: match?.kind === 'transaction' ? match.id : null,
+        };
+        importedIds.set(externalId, itemId);
+      }
+      operations.push(this.db.d1Instance.prepare(itemSql).bind(
+        itemId, batchId, userId, line.row_number, line.date, line.description, line.amount, line.direction,
+        line.reference, externalId, line.memo, category.rule_id, category.category_entity_account_id, category.category_splits, category.note, category.status,
+        duplicate.flag, duplicate.itemId, duplicate.transactionId, now, now
+      ));
+      if (!originalItemId) {
+        operations.push(this.db.d1Instance.prepare(externalIdSql).bind(
+          target.cashEntityAccountId, externalId, userId, target.entityId, itemId, now
+        ));
+      }
+    }
+
+    try {
+      await this.db.batch(operations);
+    } catch (error: unknown) {
+      console.error('BankImportService.stageLines error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'An unexpected error occurred while staging the import.', 500, error);
+    }
+    const staged = await this.getBatch(batchId, userId);
+    if (!staged) {
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Import was staged but could not be retrieved.', 500);
+    }
+    return { ...staged, parse_errors: parsed.errors };
+  }
+
+  /**
+   * Lists an entity's import batches, newest first, without their lines.
+   */
+  async listBatches(entityId: string, userId: string): Promise<BankImportBatch[]> {
+    await this.assertEntityAccess(entityId, userId);
+    try {
+      const rows = await this.db.query<DbBankImportBatch>(
+        `SELECT * FROM ${this.BATCHES_TABLE_NAME} WHERE user_id = ? AND entity_id = ? ORDER BY created_at DESC`,
+        [userId, entityId]
+      );
+      return rows.map(mapDbBatch);
+    } catch (error: unknown) {
+      console.error('BankImportService.listBatches error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Failed to retrieve imports.', 500, error);
+    }
+  }
+
+  /**
+   * Retrieves a batch with its lines in file order and their proposed transactions.
+   */
+  async getBatch(batchId: string, userId: string): Promise<BankImportBatchWithItems | null> {
+    try {
+      const row = await this.db.queryOne<DbBankImportBatch>(
+        `SELECT * FROM ${this.BATCHES_TABLE_NAME} WHERE id = ? AND user_id = ?`,
+        [batchId, userId]
+      );
+      if (!row) return null;
+      const batch = mapDbBatch(row);
+      const items = await this.db.query<DbBankImportItem>(
+        `SELECT * FROM ${this.ITEMS_TABLE_NAME} WHERE batch_id = ? AND user_id = ? ORDER BY row_number`,
+        [batchId, userId]
+      );
+      return { ...batch, items: items.map(item => mapDbItem(batch, item)) };
+    } catch (error: unknown) {
+      console.error('BankImportService.getBatch error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Failed to retrieve import.', 500, error);
+    }
+  }
+
+  /**
+   * Applies a review decision to a staged line: assigning a category account proposes it
+   * for posting, and `status: 'skipped'` leaves it out of the post.
+   */
+  async updateItem(batchId: string, itemId: string, update: BankImportItemUpdate, userId: string): Promise<BankImportItem> {
+    const batch = await this.getStagedBatch(batchId, userId);
+    const item = batch.items.find(candidate => candidate.id === itemId);
+    if (!item) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'Import line not found.', 404);
+    }
+    if (item.status === 'posted') {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'This line has already been posted.', 400);
+    }
+    if (item.duplicate_flag === 'exact' && update.status !== 'skipped') {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'This line was already imported and cannot be posted again.', 400);
+    }
+
+    const updates: string[] = [];
+    const values: any[] = [];
+    let categoryId = item.category_entity_account_id;
+    let hasSplits = !!item.category_splits;
+    if (update.category_entity_account_id !== undefined) {
+      if (update.category_entity_account_id === batch.cash_entity_account_id) {
+        throw new AppError(ErrorCode.VALIDATION_ERROR, 'The category account cannot be the import\'s cash account.', 400);
+      }
+      await this.assertEntityAccount(batch.entity_id, update.category_entity_account_id, 'Category account', userId);
+      categoryId = update.category_entity_account_id;
+      // A manual choice replaces whatever the rules proposed.
+      updates.push('category_entity_account_id = ?', 'category_splits = ?', 'rule_id = ?', 'note = ?');
+      values.push(categoryId, null, null, null);
+      hasSplits = false;
+    }
+    if (update.not_duplicate) {
+      updates.push('duplicate_flag = ?', 'duplicate_of_item_id = ?', 'duplicate_of_transaction_id = ?');
+      values.push(null, null, null);
+    }
+    const categorized = !!categoryId || hasSplits;
+    const status = update.status === 'skipped' ? 'skipped' : categorized ? 'proposed' : item.status;
+    if (update.status === 'proposed' && !categorized) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Assign a category account before proposing this line.', 400);
+    }
+    updates.push('status = ?', 'updated_at = ?');
+    values.push(status, Math.floor(Date.now() / 1000));
+
+    try {
+      await this.db.execute(
+        `UPDATE ${this.ITEMS_TABLE_NAME} SET ${updates.join(', ')} WHERE id = ? AND batch_id = ? AND user_id = ?`,
+        [...values, itemId, batchId, userId]
+      );
+    } catch (error: unknown) {
+      console.error('BankImportService.updateItem error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'An unexpected error occurred while updating the import line.', 500, error);
+    }
+    const updated = (await this.getBatch(batchId, userId))?.items.find(candidate => candidate.id === itemId);
+    if (!updated) {
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Import line was updated but could not be retrieved.', 500);
+    }
+    return updated;
+  }
+
+  /**
+   * Posts every proposed line of a batch as a transaction in one batch write. Uncategorized
+   * lines and unreviewed possible duplicates stay staged; the batch is marked posted once
+   * no line is left to review.
+   */
+  async postBatch(batchId: string, userId: string): Promise<BankImportBatchWithItems> {
+    const batch = await this.getStagedBatch(batchId, userId);
+    const awaitingReview = (item: BankImportItem) =>
+      item.status === 'uncategorized' || (item.status === 'proposed' && item.duplicate_flag === 'possible');
+    const toPost = batch.items.filter(item => item.status === 'proposed' && !awaitingReview(item) && item.proposed_transaction);
+    if (toPost.length === 0) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'There are no proposed lines to post.', 400);
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const operations: D1PreparedStatement[] = [];
+    for (const item of toPost) {
+      const transactionId = crypto.randomUUID();
+      operations.push(
+        ...await this.transactionService.prepareCreateStatements(transactionId, item.proposed_transaction!, userId),
+        this.db.d1Instance
+          .prepare(`UPDATE ${this.ITEMS_TABLE_NAME} SET status = 'posted', transaction_id = ?, updated_at = ? WHERE id = ? AND status = 'proposed'`)
+          .bind(transactionId, now, item.id),
+        // A retried or double-submitted post finds the line already posted and books nothing twice
+        this.db.prepareChangeCheck()
+      );
+    }
+    const remaining = batch.items.filter(awaitingReview).length;
+    if (remaining === 0) {
+      operations.push(
+        this.db.d1Instance
+          .prepare(`UPDATE ${this.BATCHES_TABLE_NAME} SET status = 'posted', updated_at = ? WHERE id = ? AND status = 'staged'`)
+          .bind(now, batchId),
+        this.db.prepareChangeCheck()
+      );
+    }
+
+    try {
+      await this.db.batch(operations);
+    } catch (error: unknown) {
+      const current = await this.getBatch(batchId, userId);
+      const postedMeanwhile = current?.status !== 'staged'
+        || current.items.some(item => item.status !== 'proposed' && toPost.some(line => line.id === item.id));
+      if (postedMeanwhile) {
+        throw new AppError(ErrorCode.VALIDATION_ERROR, 'This import changed while it was being posted. Reload it and try again.', 409);
+      }
+      console.error('BankImportService.postBatch error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'An unexpected error occurred while posting the import.', 500, error);
+    }
+    const posted = await this.getBatch(batchId, userId);
+    if (!posted) {
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Import was posted but could not be retrieved.', 500);
+    }
+    return posted;
+  }
+
+  /**
+   * Discards a staged batch and releases its lines' external ids so the statement can be
+   * imported again. Batches with posted lines must have those transactions voided instead.
+   */
+  async discardBatch(batchId: string, userId: string): Promise<BankImportBatch> {
+    const batch = await this.getStagedBatch(batchId, userId);
+    if (batch.items.some(item => item.status === 'posted')) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Imports with posted lines cannot be discarded.', 400);
+    }
+    try {
+      await this.db.batch([
+        this.db.d1Instance
+          .prepare(`UPDATE ${this.BATCHES_TABLE_NAME} SET status = 'discarded', updated_at = ? WHERE id = ? AND user_id = ?`)
+          .bind(Math.floor(Date.now() / 1000), batchId, userId),
+        this.db.d1Instance
+          .prepare(`DELETE FROM ${this.EXTERNAL_IDS_TABLE_NAME} WHERE item_id IN (SELECT id FROM ${this.ITEMS_TABLE_NAME} WHERE batch_id = ?)`)
+          .bind(batchId),
+      ]);
+    } catch (error: unknown) {
+      console.error('BankImportService.discardBatch error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'An unexpected error occurred while discarding the import.', 500, error);
+    }
+    const { items: _items, parse_errors: _parseErrors, ...header } = batch;
+    return { ...header, status: 'discarded' };
+  }
+
+  /**
+   * Maps external ids already recorded for the cash account to the line first imported
+   * with them. Looked up in chunks to stay under D1's bound parameter limit.
+   */
+  private async findImportedExternalIds(cashEntityAccountId: string, externalIds: string[], userId: string): Promise<Map<string, string>> {
+    const imported = new Map<string, string>();
+    const chunkSize = 90;
+    try {
+      for (let start = 0; start < externalIds.length; start += chunkSize) {
+        const chunk = externalIds.slice(start, start + chunkSize);
+        const rows = await this.db.query<{ external_id: string; item_id: string }>(
+          `SELECT external_id, item_id FROM ${this.EXTERNAL_IDS_TABLE_NAME}
+           WHERE user_id = ? AND cash_entity_account_id = ? AND external_id IN (${chunk.map(() => '?').join(', ')})`,
+          [userId, cashEntityAccountId, ...chunk]
+        );
+        rows.forEach(row => imported.set(row.external_id, row.item_id));
+      }
+      return imported;
+    } catch (error: unknown) {
+      console.error('BankImportService.findImportedExternalIds error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Failed to check for previously imported lines.', 500, error);
+    }
+  }
+
+  /**
+   * Lines already on the books for the cash account around the statement's dates: lines of
+   * earlier imports that were not discarded, and transactions entered by hand (those not
+   * created by an import), excluding voided entries and their reversals.
+   */
+  private async findDuplicateCandidates(
+    target: { entityId: string; cashEntityAccountId: string },
+    lines: StatementLine[],
+    windowDays: number,
+    userId: string
+  ): Promise<DuplicateCandidate[]> {
+    if (lines.length === 0) return [];
+    const dates = lines.map(line => line.date);
+    const from = Math.min(...dates) - windowDays * 86400;
+    const to = Math.max(...dates) + windowDays * 86400;
+    try {
+      const items = await this.db.query<Pick<DbBankImportItem, 'id' | 'date' | 'amount' | 'direction' | 'description'>>(`
+        SELECT bi.id, bi.date, bi.amount, bi.direction, bi.description
+        FROM ${this.ITEMS_TABLE_NAME} bi
+        JOIN ${this.BATCHES_TABLE_NAME} b ON b.id = bi.batch_id
+        WHERE b.user_id = ? AND b.cash_entity_account_id = ? AND b.status != 'discarded'
+          AND (bi.duplicate_flag IS NULL OR bi.duplicate_flag != 'exact')
+          AND bi.date BETWEEN ? AND ?
+      `, [userId, target.cashEntityAccountId, from, to]);
+      const transactions = await this.db.query<{ id: string; date: number; description: string; amount: number; is_debit: number }>(`
+        SELECT t.id, t.date, t.description, tl.amount, tl.is_debit
+        FROM transactions t
+        JOIN transaction_lines tl ON tl.transaction_id = t.id
+        WHERE t.user_id = ? AND t.entity_id = ? AND tl.entity_account_id = ?
+          AND t.date BETWEEN ? AND ?
+          AND t.status != 'voided' AND t.reverses_transaction_id IS NULL
+          AND NOT EXISTS (SELECT 1 FROM ${this.ITEMS_TABLE_NAME} bi WHERE bi.transaction_id = t.id)
+      `, [userId, target.entityId, target.cashEntityAccountId, from, to]);
+      return [
+        ...items.map(item => ({ kind: 'item' as const, ...item })),
+        ...transactions.map(txn => ({
+          kind: 'transaction' as const,
+          id: txn.id,
+          date: txn.date,
+          amount: txn.amount,
+          direction: txn.is_debit ? 'credit' as const : 'debit' as const, // A cash debit is money in
+          description: txn.description,
+        })),
+      ];
+    } catch (error: unknown) {
+      console.error('BankImportService.findDuplicateCandidates error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Failed to check for duplicate lines.', 500, error);
+    }
+  }
+
+  private async getStagedBatch(batchId: string, userId: string): Promise<BankImportBatchWithItems> {
+    const batch = await this.getBatch(batchId, userId);
+    if (!batch) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'Import not found or access denied.', 404);
+    }
+    if (batch.status !== 'staged') {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, `This import has already been ${batch.status}.`, 400);
+    }
+    return batch;
+  }
+
+  private assertMappingColumns(mapping: Pick<BankImportMappingInput, 'amount_column' | 'debit_column' | 'credit_column'>): void {
+    const hasAmount = !!mapping.amount_column;
+    const hasSplit = !!mapping.debit_column && !!mapping.credit_column;
+    if (hasAmount === hasSplit) {
+      throw new AppError(
+        ErrorCode.VALIDATION_ERROR,
+        'A mapping needs either an amount column or both debit and credit columns.',
+        400
+      );
+    }
+  }
+
+  private async assertMappingNameAvailable(name: string, userId: string): Promise<void> {
+    const existing = await this.db.queryOne<{ id: string }>(
+      `SELECT id FROM ${this.MAPPINGS_TABLE_NAME} WHERE user_id = ? AND name = ?`,
+      [userId, name]
+    );
+    if (existing) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, `An import mapping named "${name}" already exists.`, 409);
+    }
+  }
+
+  private async assertEntityAccount(entityId: string, entityAccountId: string, label: string, userId: string): Promise<void> {
+    const entityAccount = await this.entityAccountService.getEntityAccountById(entityAccountId, userId);
+    if (!entityAccount || entityAccount.entity_id !== entityId || !entityAccount.is_active) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, `${label} must be an active account of this entity.`, 400);
+    }
+  }
+
+  private async assertEntityAccess(entityId: string, userId: string): Promise<void> {
+    const entity = await this.entityService.getEntityById(entityId, userId);
+    if (!entity) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'Entity not found or access denied.', 404);
+    }
+  }
+}
+
+export function createBankImportService(d1: D1Database): BankImportService {
+  return new BankImportService(d1);
+}
@@ -0,0 +1,307 @@
+// src/lib/services/cam-service.ts
+import type { D1Database } from '@cloudflare/workers-types';
+import { Database, createDbClient } from '@db/db';
+import type { DbExecuteResult } from '@db/db';
+import type { DbCamTenant, DbCamTenantEstimate } from '@db/schema';
+import type { CamReconciliation, CamTenant, CamTenantEstimate, CamTenantInput } from '../../types/cam';
+import { AppError, ErrorCode } from '@utils/errors';
+import { buildCamReconciliation } from '@lib/reporting/camReconciliation';
+import type { CamExpenseSource } from '@lib/reporting/camReconciliation';
+import { createEntityService, EntityService } from './entity-service';
+import { REPORTABLE_STATUS_SQL } from './report-service';
+
+const FULL_SHARE_BASIS_POINTS = 10000;
+
+function mapDbCamTenantToCamTenant(dbTenant: DbCamTenant): CamTenant {
+  return {
+    id: dbTenant.id,
+    user_id: dbTenant.user_id,
+    entity_id: dbTenant.entity_id,
+    name: dbTenant.name,
+    pro_rata_share: dbTenant.pro_rata_share,
+    is_active: dbTenant.is_active === 1,
+    created_at: dbTenant.created_at,
+    updated_at: dbTenant.updated_at,
+  };
+}
+
+function mapDbEstimate(dbEstimate: DbCamTenantEstimate): CamTenantEstimate {
+  return {
+    id: dbEstimate.id,
+    tenant_id: dbEstimate.tenant_id,
+    year: dbEstimate.year,
+    billed_amount: dbEstimate.billed_amount,
+    created_at: dbEstimate.created_at,
+    updated_at: dbEstimate.updated_at,
+  };
+}
+
+export class CamService {
+  private db: Database;
+  private entityService: EntityService;
+  private TABLE_NAME = 'cam_tenants';
+  private ESTIMATES_TABLE_NAME = 'cam_tenant_estimates';
+
+  constructor(d1: D1Database) {
+    this.db = createDbClient(d1);
+    this.entityService = createEntityService(d1);
+  }
+
+  /**
+   * Lists the CAM tenants of an entity, ordered by name.
+   */
+  async listTenants(entityId: string, userId: string): Promise<CamTenant[]> {
+    await this.assertEntityAccess(entityId, userId);
+    const sql = `
+      SELECT * FROM ${this.TABLE_NAME}
+      WHERE user_id = ? AND entity_id = ?
+      ORDER BY name
+    `;
+    try {
+      const rows = await this.db.query<DbCamTenant>(sql, [userId, entityId]);
+      return rows.map(mapDbCamTenantToCamTenant);
+    } catch (error: unknown) {
+      console.error('CamService.listTenants error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Failed to retrieve CAM tenants.', 500, error);
+    }
+  }
+
+  async getTenantById(id: string, userId: string): Promise<CamTenant | null> {
+    const sql = `SELECT * FROM ${this.TABLE_NAME} WHERE id = ? AND user_id = ?`;
+    try {
+      const row = await this.db.queryOne<DbCamTenant>(sql, [id, userId]);
+      return row ? mapDbCamTenantToCamTenant(row) : null;
+    } catch (error: unknown) {
+      console.error('CamService.getTenantById error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Failed to retrieve CAM tenant.', 500, error);
+    }
+  }
+
+  /**
+   * Adds a tenant to an entity's CAM pool. Active tenant shares may not exceed 100%.
+   */
+  async createTenant(input: CamTenantInput, userId: string): Promise<CamTenant> {
+    await this.assertEntityAccess(input.entity_id, userId);
+    const isActive = input.is_active !== false;
+    if (isActive) {
+      await this.assertShareCapacity(input.entity_id, input.pro_rata_share, userId);
+    }
+
+    const tenantId = crypto.randomUUID();
+    const now = Math.floor(Date.now() / 1000);
+    const sql = `
+      INSERT INTO ${this.TABLE_NAME} (
+        id, user_id, entity_id, name, pro_rata_share, is_active, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `;
+    try {
+      const result: DbExecuteResult = await this.db.execute(sql, [
+        tenantId, userId, input.entity_id, input.name, input.pro_rata_share, isActive ? 1 : 0, now, now,
+      ]);
+      if (!result.success) {
+        throw new AppError(ErrorCode.DATABASE_ERROR, result.error || 'Failed to create CAM tenant.', 500);
+      }
+      const created = await this.getTenantById(tenantId, userId);
+      if (!created) {
+        throw new AppError(ErrorCode.DATABASE_ERROR, 'CAM tenant was created but could not be retrieved.', 500);
+      }
+      return created;
+    } catch (error: unknown) {
+      if (error instanceof AppError) throw error;
+      console.error('CamService.createTenant error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'An unexpected error occurred while creating the CAM tenant.', 500, error);
+    }
+  }
+
+  /**
+   * Updates a tenant's name, share or active flag.
+   */
+  async updateTenant(id: string, input: Partial<Omit<CamTenantInput, 'entity_id'>>, userId: string): Promise<CamTenant> {
+    const existing = await this.getTenantById(id, userId);
+    if (!existing) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'CAM tenant not found or access denied.', 404);
+    }
+    const willBeActive = input.is_active ?? existing.is_active;
+    const share = input.pro_rata_share ?? existing.pro_rata_share;
+    if (willBeActive) {
+      await this.assertShareCapacity(existing.entity_id, share, userId, id);
+    }
+
+    const updates: string[] = [];
+    const values: any[] = [];
+    if (input.name !== undefined) {
+      updates.push('name = ?');
+      values.push(input.name);
+    }
+    if (input.pro_rata_share !== undefined) {
+      updates.push('pro_rata_share = ?');
+      values.push(input.pro_rata_share);
+    }
+    if (input.is_active !== undefined) {
+      updates.push('is_active = ?');
+      values.push(input.is_active ? 1 : 0);
+    }
+    if (updates.length === 0) {
+      return existing;
+    }
+    updates.push('updated_at = ?');
+    values.push(Math.floor(Date.now() / 1000));
+
+    const sql = `UPDATE ${this.TABLE_NAME} SET ${updates.join(', ')} WHERE id = ? AND user_id = ?`;
+    try {
+      const result: DbExecuteResult = await this.db.execute(sql, [...values, id, userId]);
+      if (!result.success) {
+        throw new AppError(ErrorCode.DATABASE_ERROR, result.error || 'Failed to update CAM tenant.', 500);
+      }
+      const updated = await this.getTenantById(id, userId);
+      if (!updated) {
+        throw new AppError(ErrorCode.DATABASE_ERROR, 'CAM tenant was updated but could not be retrieved.', 500);
+      }
+      return updated;
+    } catch (error: unknown) {
+      if (error instanceof AppError) throw error;
+      console.error('CamService.updateTenant error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'An unexpected error occurred while updating the CAM tenant.', 500, error);
+    }
+  }
+
+  /**
+   * Deletes a tenant. Its billed estimates are removed by the ON DELETE CASCADE constraint.
+   */
+  async deleteTenant(id: string, userId: string): Promise<boolean> {
+    const existing = await this.getTenantById(id, userId);
+    if (!existing) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'CAM tenant not found or access denied.', 404);
+    }
+    try {
+      const result = await this.db.execute(`DELETE FROM ${this.TABLE_NAME} WHERE id = ? AND user_id = ?`, [id, userId]);
+      return result.success && ((result.meta?.changes ?? 0) > 0);
+    } catch (error: unknown) {
+      console.error('CamService.deleteTenant error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'An unexpected error occurred while deleting the CAM tenant.', 500, error);
+    }
+  }
+
+  /**
+   * Records (or replaces) the estimated recoveries billed to a tenant for a year.
+   */
+  async setEstimate(tenantId: string, year: number, billedAmount: number, userId: string): Promise<CamTenantEstimate> {
+    const tenant = await this.getTenantById(tenantId, userId);
+    if (!tenant) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'CAM tenant not found or access denied.', 404);
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const sql = `
+      INSERT INTO ${this.ESTIMATES_TABLE_NAME} (id, user_id, tenant_id, year, billed_amount, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (tenant_id, year) DO UPDATE SET billed_amount = excluded.billed_amount, updated_at = excluded.updated_at
+    `;
+    try {
+      const result = await this.db.execute(sql, [crypto.randomUUID(), userId, tenantId, year, billedAmount, now, now]);
+      if (!result.success) {
+        throw new AppError(ErrorCode.DATABASE_ERROR, result.error || 'Failed to save CAM estimate.', 500);
+      }
+      const saved = await this.db.queryOne<DbCamTenantEstimate>(
+        `SELECT * FROM ${this.ESTIMATES_TABLE_NAME} WHERE tenant_id = ? AND year = ? AND user_id = ?`,
+        [tenantId, year, userId]
+      );
+      if (!saved) {
+        throw new AppError(ErrorCode.DATABASE_ERROR, 'CAM estimate was saved but could not be retrieved.', 500);
+      }
+      return mapDbEstimate(saved);
+    } catch (error: unknown) {
+      if (error instanceof AppError) throw error;
+      console.error('CamService.setEstimate error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'An unexpected error occurred while saving the CAM estimate.', 500, error);
+    }
+  }
+
+  /**
+   * Builds the year-end CAM reconciliation for an entity over the calendar year.
+   * Only active tenants are allocated a share of the pool.
+   */
+  async getReconciliation(entityId: string, year: number, userId: string): Promise<CamReconciliation> {
+    await this.assertEntityAccess(entityId, userId);
+
+    const startDate = Date.UTC(year, 0, 1) / 1000;
+    const endDate = Date.UTC(year + 1, 0, 1) / 1000 - 1;
+
+    const expenseSql = `
+      SELECT
+        ea.id AS entity_account_id, coa.code AS account_code,
+        COALESCE(ea.custom_name, coa.name) AS account_name,
+        coa.is_recoverable AS coa_is_recoverable, coa.recovery_percentage AS coa_recovery_percentage,
+        ea.recovery_type, ea.recovery_percentage,
+        COALESCE(totals.debit_total, 0) AS debit_total, COALESCE(totals.credit_total, 0) AS credit_total
+      FROM entity_accounts ea
+      JOIN chart_of_accounts coa ON coa.id = ea.account_id
+      LEFT JOIN (
+        SELECT
+          tl.entity_account_id,
+          SUM(CASE WHEN tl.is_debit = 1 THEN tl.amount ELSE 0 END) AS debit_total,
+          SUM(CASE WHEN tl.is_debit = 0 THEN tl.amount ELSE 0 END) AS credit_total
+        FROM transaction_lines tl
+        JOIN transactions t ON t.id = tl.transaction_id
+        WHERE t.user_id = ? AND t.entity_id = ? AND t.status IN ${REPORTABLE_STATUS_SQL}
+          AND t.date >= ? AND t.date <= ?
+        GROUP BY tl.entity_account_id
+      ) totals ON totals.entity_account_id = ea.id
+      WHERE ea.user_id = ? AND ea.entity_id = ? AND coa.type = 'expense'
+        AND (coa.is_recoverable = 1 OR ea.recovery_type = 'recoverable')
+    `;
+    const tenantSql = `
+      SELECT t.id, t.name, t.pro_rata_share, e.billed_amount
+      FROM ${this.TABLE_NAME} t
+      LEFT JOIN ${this.ESTIMATES_TABLE_NAME} e ON e.tenant_id = t.id AND e.year = ?
+      WHERE t.user_id = ? AND t.entity_id = ? AND t.is_active = 1
+      ORDER BY t.name
+    `;
+
+    try {
+      const rawSources = await this.db.query<Omit<CamExpenseSource, 'coa_is_recoverable'> & { coa_is_recoverable: number }>(
+        expenseSql,
+        [userId, entityId, startDate, endDate, userId, entityId]
+      );
+      const tenants = await this.db.query<{ id: string; name: string; pro_rata_share: number; billed_amount: number | null }>(
+        tenantSql,
+        [year, userId, entityId]
+      );
+
+      const sources: CamExpenseSource[] = rawSources.map(raw => ({ ...raw, coa_is_recoverable: raw.coa_is_recoverable === 1 }));
+      const billedByTenant = new Map(tenants.map(tenant => [tenant.id, tenant.billed_amount ?? 0]));
+      return buildCamReconciliation(entityId, year, startDate, endDate, sources, tenants, billedByTenant);
+    } catch (error: unknown) {
+      console.error('CamService.getReconciliation error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Failed to build the CAM reconciliation.', 500, error);
+    }
+  }
+
+  private async assertShareCapacity(entityId: string, share: number, userId: string, excludeTenantId?: string): Promise<void> {
+    const row = await this.db.queryOne<{ total: number | null }>(
+      `SELECT SUM(pro_rata_share) AS total FROM ${this.TABLE_NAME}
+       WHERE user_id = ? AND entity_id = ? AND is_active = 1 AND id != ?`,
+      [userId, entityId, excludeTenantId ?? '']
+    );
+    const allocated = row?.total ?? 0;
+    if (allocated + share > FULL_SHARE_BASIS_POINTS) {
+      throw new AppError(
+        ErrorCode.VALIDATION_ERROR,
+        'Active tenant pro-rata shares cannot exceed 100% of the recoverable pool.',
+        400,
+        { allocated_basis_points: allocated, requested_basis_points: share }
+      );
+    }
+  }
+
+  private async assertEntityAccess(entityId: string, userId: string): Promise<void> {
+    const entity = await this.entityService.getEntityById(entityId, userId);
+    if (!entity) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'Entity not found or access denied.', 404);
+    }
+  }
+}
+
+export function createCamService(d1: D1Database): CamService {
+  return new CamService(d1);
+}
@@ -0,0 +1,324 @@
+// src/lib/services/document-service.ts
+import type { D1Database, D1PreparedStatement, R2Bucket, R2ObjectBody } from '@cloudflare/workers-types';
+import { Database, createDbClient } from '@db/db';
+import type { DbExecuteResult } from '@db/db';
+import type { DbDocument, DbDocumentLink } from '@db/schema';
+import type {
+  Document,
+  DocumentDownloadUrl,
+  DocumentLink,
+  DocumentTargetType,
+  DocumentUploadInput,
+} from '../../types/document';
+import { AppError, ErrorCode } from '@utils/errors';
+import {
+  MAX_DOCUMENT_BYTES,
+  isAllowedContentType,
+  matchesContentType,
+  normalizeContentType,
+} from '@lib/documents/fileTypes';
+import {
+  DOWNLOAD_URL_TTL_SECONDS,
+  signDocumentDownload,
+  verifyDocumentDownload,
+} from '@lib/documents/downloadUrls';
+
+// Table holding each kind of record a document can be linked to.
+const TARGET_TABLES: Record<DocumentTargetType, string> = {
+  transaction: 'transactions',
+  entity: 'entities',
+  loan: 'loans',
+};
+
+type DocumentTarget = Omit<DocumentLink, 'created_at'>;
+
+function mapDbDocument(dbDocument: DbDocument, links: DbDocumentLink[]): Document {
+  return {
+    id: dbDocument.id,
+    user_id: dbDocument.user_id,
+    file_name: dbDocument.file_name,
+    content_type: dbDocument.content_type,
+    size_bytes: dbDocument.size_bytes,
+    description: dbDocument.description ?? null,
+    links: links
+      .filter(link => link.document_id === dbDocument.id)
+      .map(link => ({ target_type: link.target_type, target_id: link.target_id, created_at: link.created_at })),
+    created_at: dbDocument.created_at,
+    updated_at: dbDocument.updated_at,
+  };
+}
+
+/**
+ * Stores uploaded documents in the DOCUMENTS R2 bucket under the owner's user id, keeps
+ * their metadata and links in D1, and serves them only through signed, short-lived URLs.
+ */
+export class DocumentService {
+  private db: Database;
+  private bucket: R2Bucket;
+  private signingSecret: string | undefined;
+  private TABLE_NAME = 'documents';
+  private LINKS_TABLE_NAME = 'document_links';
+
+  constructor(d1: D1Database, bucket: R2Bucket, signingSecret?: string) {
+    this.db = createDbClient(d1);
+    this.bucket = bucket;
+    this.signingSecret = signingSecret;
+  }
+
+  /**
+   * Lists a user's documents, newest first; with a target, only those linked to it.
+   */
+  async listDocuments(userId: string, target?: DocumentTarget): Promise<Document[]> {
+    try {
+      const rows = target
+        ? await this.db.query<DbDocument>(`
+            SELECT d.* FROM ${this.TABLE_NAME} d
+            JOIN ${this.LINKS_TABLE_NAME} l ON l.document_id = d.id
+            WHERE d.user_id = ? AND l.target_type = ? AND l.target_id = ?
+            ORDER BY d.created_at DESC
+          `, [userId, target.target_type, target.target_id])
+        : await this.db.query<DbDocument>(
+            `SELECT * FROM ${this.TABLE_NAME} WHERE user_id = ? ORDER BY created_at DESC`,
+            [userId]
+          );
+      const links = await this.getLinks(rows.map(row => row.id), userId);
+      return rows.map(row => mapDbDocument(row, links));
+    } catch (error: unknown) {
+      console.error('DocumentService.listDocuments error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Failed to retrieve documents.', 500, error);
+    }
+  }
+
+  async getDocumentById(id: string, userId: string): Promise<Document | null> {
+    try {
+      const row = await this.db.queryOne<DbDocument>(
+        `SELECT * FROM ${this.TABLE_NAME} WHERE id = ? AND user_id = ?`,
+        [id, userId]
+      );
+      return row ? mapDbDocument(row, await this.getLinks([row.id], userId)) : null;
+    } catch (error: unknown) {
+      console.error('DocumentService.getDocumentById error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Failed to retrieve document.', 500, error);
+    }
+  }
+
+  /**
+   * Validates and stores an upload. The size is checked before the file's bytes are loaded
+   * (the API route has already refused requests declaring a larger body), and the
+   * declared content type must be allowed and match the file's leading bytes. If the
+   * metadata cannot be saved, the stored object is removed again.
+   */
+  async uploadDocument(input: DocumentUploadInput, userId: string): Promise<Document> {
+    if (input.file.size === 0) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'The uploaded file is empty.', 400);
+    }
+    if (input.file.size > MAX_DOCUMENT_BYTES) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, `Documents may be at most ${MAX_DOCUMENT_BYTES / (1024 * 1024)} MB.`, 413, { size_bytes: input.file.size });
+    }
+    const contentType = normalizeContentType(input.content_type);
+    if (!isAllowedContentType(contentType)) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, `Files of type ${contentType || 'unknown'} cannot be uploaded.`, 415);
+    }
+    const content = await input.file.arrayBuffer();
+    if (!matchesContentType(contentType, new Uint8Array(content, 0, Math.min(content.byteLength, 1024)))) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, `The file content does not match its type (${contentType}).`, 415);
+    }
+    const links = input.links ?? [];
+    for (const link of links) {
+      await this.assertTarget(link, userId);
+    }
+
+    const documentId = crypto.randomUUID();
+    const storageKey = `${userId}/${documentId}`;
+    const now = Math.floor(Date.now() / 1000);
+    try {
+      await this.bucket.put(storageKey, content, {
+        httpMetadata: { contentType },
+        customMetadata: { userId, documentId },
+      });
+    } catch (error: unknown) {
+      console.error('DocumentService.uploadDocument error:', error);
+      throw new AppError(ErrorCode.SERVER_ERROR, 'The document could not be stored.', 500, error);
+    }
+
+    try {
+      const operations: D1PreparedStatement[] = [
+        this.db.d1Instance.prepare(`
+          INSERT INTO ${this.TABLE_NAME} (
+            id, user_id, storage_key, file_name, content_type, size_bytes, description, created_at, updated_at
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `).bind(documentId, userId, storageKey, input.file_name, contentType, content.byteLength, input.description ?? null, now, now),
+        ...links.map(link => this.insertLinkStatement(documentId, link, userId, now)),
+      ];
+      await this.db.batch(operations);
+    } catch (error: unknown) {
+      await this.bucket.delete(storageKey).catch(() => undefined);
+      console.error('DocumentService.uploadDocument error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'An unexpected error occurred while saving the document.', 500, error);
+    }
+    const created = await this.getDocumentById(documentId, userId);
+    if (!created) {
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Document was created but could not be retrieved.', 500);
+    }
+    return created;
+  }
+
+  /**
+   * Links a document to a transaction, entity or loan of the same user. Linking twice is
+   * a no-op.
+   */
+  async linkDocument(id: string, target: DocumentTarget, userId: string): Promise<Document> {
+    await this.getOwnedDocument(id, userId);
+    await this.assertTarget(target, userId);
+    try {
+      await this.db.batch([this.insertLinkStatement(id, target, userId, Math.floor(Date.now() / 1000))]);
+    } catch (error: unknown) {
+      console.error('DocumentService.linkDocument error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'An unexpected error occurred while linking the document.', 500, error);
+    }
+    return this.getOwnedDocument(id, userId);
+  }
+
+  async unlinkDocument(id: string, target: DocumentTarget, userId: string): Promise<boolean> {
+    await this.getOwnedDocument(id, userId);
+    try {
+      const result: DbExecuteResult = await this.db.execute(
+        `DELETE FROM ${this.LINKS_TABLE_NAME} WHERE document_id = ? AND user_id = ? AND target_type = ? AND target_id = ?`,
+        [id, userId, target.target_type, target.target_id]
+      );
+      return result.success && ((result.meta?.changes ?? 0) > 0);
+    } catch (error: unknown) {
+      console.error('DocumentService.unlinkDocument error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'An unexpected error occurred while unlinking the document.', 500, error);
+    }
+  }
+
+  /**
+   * Deletes a document's metadata and links, then its stored file.
+   */
+  async deleteDocument(id: string, userId: string): Promise<boolean> {
+    const dbDocument = await this.getDbDocument(id, userId);
+    if (!dbDocument) return false;
+    try {
+      await this.db.batch([
+        this.db.d1Instance.prepare(`DELETE FROM ${this.LINKS_TABLE_NAME} WHERE document_id = ? AND user_id = ?`).bind(id, userId),
+        this.db.d1Instance.prepare(`DELETE FROM ${this.TABLE_NAME} WHERE id = ? AND user_id = ?`).bind(id, userId),
+      ]);
+    } catch (error: unknown) {
+      console.error('DocumentService.deleteDocument error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'An unexpected error occurred while deleting the document.', 500, error);
+    }
+    try {
+      await this.bucket.delete(dbDocument.storage_key);
+    } catch (error: unknown) {
+      // The metadata is gone, so the orphaned object can no longer be reached.
+      console.error('DocumentService.deleteDocument storage error:', error);
+    }
+    return true;
+  }
+
+  /**
+   * A download URL for the document that only the same user can use, valid for
+   * DOWNLOAD_URL_TTL_SECONDS.
+   */
+  async createDownloadUrl(id: string, userId: string): Promise<DocumentDownloadUrl> {
+    await this.getOwnedDocument(id, userId);
+    const expiresAt = Math.floor(Date.now() / 1000) + DOWNLOAD_URL_TTL_SECONDS;
+    const signature = await signDocumentDownload(this.requireSigningSecret(), id, userId, expiresAt);
+    const query = new URLSearchParams({ expires: String(expiresAt), signature });
+    return { url: `/api/documents/${id}/download?${query.toString()}`, expires_at: expiresAt };
+  }
+
+  /**
+   * Resolves a signed download for the signed-in user. Expired links, links signed for
+   * another user and tampered links are all refused the same way.
+   */
+  async getDownload(id: string, userId: string, expiresAt: number, signature: string): Promise<{ document: Document; object: R2ObjectBody }> {
+    const valid = await verifyDocumentDownload(this.requireSigningSecret(), id, userId, expiresAt, signature);
+    if (!valid) {
+      throw new AppError(ErrorCode.AUTHORIZATION_ERROR, 'This download link is invalid or has expired.', 403);
+    }
+    const dbDocument = await this.getDbDocument(id, userId);
+    if (!dbDocument) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'Document not found or access denied.', 404);
+    }
+    let object: R2ObjectBody | null;
+    try {
+      object = await this.bucket.get(dbDocument.storage_key);
+    } catch (error: unknown) {
+      console.error('DocumentService.getDownload error:', error);
+      throw new AppError(ErrorCode.SERVER_ERROR, 'The document could not be read.', 500, error);
+    }
+    if (!object) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'The stored file for this document is missing.', 404);
+    }
+    return { document: mapDbDocument(dbDocument, []), object };
+  }
+
+  private async getDbDocument(id: string, userId: string): Promise<DbDocument | null> {
+    try {
+      return await this.db.queryOne<DbDocument>(
+        `SELECT * FROM ${this.TABLE_NAME} WHERE id = ? AND user_id = ?`,
+        [id, userId]
+      );
+    } catch (error: unknown) {
+      console.error('DocumentService.getDbDocument error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Failed to retrieve document.', 500, error);
+    }
+  }
+
+  private async getOwnedDocument(id: string, userId: string): Promise<Document> {
+    const document = await this.getDocumentById(id, userId);
+    if (!document) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'Document not found or access denied.', 404);
+    }
+    return document;
+  }
+
+  private async getLinks(documentIds: string[], userId: string): Promise<DbDocumentLink[]> {
+    if (documentIds.length === 0) return [];
+    return this.db.query<DbDocumentLink>(
+      `SELECT * FROM ${this.LINKS_TABLE_NAME}
+       WHERE user_id = ? AND document_id IN (${documentIds.map(() => '?').join(', ')})
+       ORDER BY created_at`,
+      [userId, ...documentIds]
+    );
+  }
+
+  private insertLinkStatement(documentId: string, target: DocumentTarget, userId: string, now: number): D1PreparedStatement {
+    return this.db.d1Instance.prepare(`
+      INSERT OR IGNORE INTO ${this.LINKS_TABLE_NAME} (document_id, user_id, target_type, target_id, created_at)
+      VALUES (?, ?, ?, ?, ?)
+    `).bind(documentId, userId, target.target_type, target.target_id, now);
+  }
+
+  /**
+   * The transaction, entity or loan must exist and belong to the user.
+   */
+  private async assertTarget(target: DocumentTarget, userId: string): Promise<void> {
+    let row: { id: string } | null;
+    try {
+      row = await this.db.queryOne<{ id: string }>(
+        `SELECT id FROM ${TARGET_TABLES[target.target_type]} WHERE id = ? AND user_id = ?`,
+        [target.target_id, userId]
+      );
+    } catch (error: unknown) {
+      console.error('DocumentService.assertTarget error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Failed to verify the linked record.', 500, error);
+    }
+    if (!row) {
+      throw new AppError(ErrorCode.NOT_FOUND, `The ${target.target_type} to link was not found or access denied.`, 404, target);
+    }
+  }
+
+  private requireSigningSecret(): string {
+    if (!this.signingSecret) {
+      throw new AppError(ErrorCode.SERVER_ERROR, 'Document downloads are not configured.', 500);
+    }
+    return this.signingSecret;
+  }
+}
+
+export function createDocumentService(d1: D1Database, bucket: R2Bucket, signingSecret?: string): DocumentService {
+  return new DocumentService(d1, bucket, signingSecret);
+}
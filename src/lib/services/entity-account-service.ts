@@ -161,6 +161,25 @@ export class EntityAccountService {
     }
   }
 
+  /**
+   * Resolves the ID of an entity's active link to the chart of accounts entry with `code`.
+   */
+  async findActiveEntityAccountIdByCode(entityId: string, code: string, userId: string): Promise<string | null> {
+    const sql = `
+      SELECT ea.id FROM ${this.TABLE_NAME} ea
+      JOIN ${this.COA_TABLE_NAME} coa ON coa.id = ea.account_id
+      WHERE ea.user_id = ? AND ea.entity_id = ? AND ea.is_active = 1 AND coa.code = ?
+      LIMIT 1
+    `;
+    try {
+      const row = await this.db.queryOne<{ id: string }>(sql, [userId, entityId, code]);
+      return row?.id ?? null;
+    } catch (err: unknown) {
+      console.error('EntityAccountService.findActiveEntityAccountIdByCode error:', err);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Failed to resolve entity account by code.', 500, err);
+    }
+  }
+
   /**
    * Creates a new entity-account link, mapping boolean flags.
    */
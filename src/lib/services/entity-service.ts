@@ -23,6 +23,7 @@ function mapDbEntityToEntity(dbEntity: DbEntity): Entity {
     parent_id: dbEntity.parent_id,
     is_active: dbEntity.is_active === 1,
     allows_sub_entities: dbEntity.allows_sub_entities === 1,
+    fiscal_year_start_month: dbEntity.fiscal_year_start_month ?? 1,
     created_at: dbEntity.created_at,
     updated_at: dbEntity.updated_at,
   } as Entity;
@@ -45,7 +46,8 @@ export class EntityService {
   async getAllEntities(userId: string): Promise<Entity[]> {
     const sql = `
       SELECT id, user_id, name, legal_name, ein, address, legal_address,
-             business_type, parent_id, is_active, allows_sub_entities, created_at, updated_at
+             business_type, parent_id, is_active, allows_sub_entities, fiscal_year_start_month,
+             created_at, updated_at
       FROM entities
       WHERE user_id = ?
       ORDER BY name
@@ -65,7 +67,8 @@ export class EntityService {
   async getEntityById(id: string, userId: string): Promise<Entity | null> {
     const sql = `
       SELECT id, user_id, name, legal_name, ein, address, legal_address,
-             business_type, parent_id, is_active, allows_sub_entities, created_at, updated_at
+             business_type, parent_id, is_active, allows_sub_entities, fiscal_year_start_month,
+             created_at, updated_at
       FROM entities
       WHERE id = ? AND user_id = ?
     `;
@@ -84,7 +87,8 @@ export class EntityService {
   async getChildEntities(parentId: string, userId: string): Promise<Entity[]> {
     const sql = `
       SELECT id, user_id, name, legal_name, ein, address, legal_address,
-             business_type, parent_id, is_active, allows_sub_entities, created_at, updated_at
+             business_type, parent_id, is_active, allows_sub_entities, fiscal_year_start_month,
+             created_at, updated_at
       FROM entities
       WHERE parent_id = ? AND user_id = ?
       ORDER BY name
@@ -98,6 +102,33 @@ export class EntityService {
     }
   }
 
+  /**
+   * Retrieves every entity below a parent for a user: children, their children and so on.
+   * The UNION keeps a parent_id cycle from recursing forever; the parent itself is excluded.
+   */
+  async getDescendantEntities(parentId: string, userId: string): Promise<Entity[]> {
+    const sql = `
+      WITH RECURSIVE descendants(id) AS (
+        SELECT id FROM entities WHERE parent_id = ? AND user_id = ?
+        UNION
+        SELECT e.id FROM entities e JOIN descendants d ON e.parent_id = d.id WHERE e.user_id = ?
+      )
+      SELECT id, user_id, name, legal_name, ein, address, legal_address,
+             business_type, parent_id, is_active, allows_sub_entities, fiscal_year_start_month,
+             created_at, updated_at
+      FROM entities
+      WHERE id IN (SELECT id FROM descendants) AND id != ? AND user_id = ?
+      ORDER BY name
+    `;
+    try {
+      const dbEntities = await this.db.query<DbEntity>(sql, [parentId, userId, userId, parentId, userId]);
+      return mapDbEntitiesToEntities(dbEntities);
+    } catch (error: unknown) {
+      console.error('EntityService.getDescendantEntities error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Failed to retrieve descendant entities.', 500, error);
+    }
+  }
+
   /**
    * Creates a new entity.
    */
@@ -120,8 +151,9 @@ export class EntityService {
     const sql = `
       INSERT INTO entities (
         id, user_id, name, legal_name, ein, address, legal_address,
-        business_type, parent_id, is_active, allows_sub_entities, created_at, updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        business_type, parent_id, is_active, allows_sub_entities, fiscal_year_start_month,
+        created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `;
     const params = [
       entityId,
@@ -135,6 +167,7 @@ export class EntityService {
       entityData.parent_id || null,
       entityData.is_active ? 1 : 0,
       entityData.allows_sub_entities ? 1 : 0,
+      entityData.fiscal_year_start_month ?? 1,
       now,
       now
     ];
@@ -222,6 +255,7 @@ export class EntityService {
     addField('parent_id', 'parent_id');
     addField('is_active', 'is_active', v => (v ? 1 : 0));
     addField('allows_sub_entities', 'allows_sub_entities', v => (v ? 1 : 0));
+    addField('fiscal_year_start_month', 'fiscal_year_start_month');
 
     updates.push('updated_at = ?');
     values.push(now);
@@ -0,0 +1,219 @@
+// src/lib/services/fiscal-period-service.ts
+import type { D1Database, D1PreparedStatement } from '@cloudflare/workers-types';
+import { Database, createDbClient } from '@db/db';
+import type { DbFiscalPeriod, DbPeriodLockOverride } from '@db/schema';
+import type { FiscalPeriod, FiscalPeriodStatusInput, FiscalYear, PeriodLockOverride } from '../../types/period';
+import type { Entity } from '../../types/entity';
+import { AppError, ErrorCode } from '@utils/errors';
+import { fiscalYearFor, fiscalYearPeriods, monthStartFor, periodLabel, type PeriodRange } from '@lib/accounting/periods';
+import { createEntityService, EntityService } from './entity-service';
+
+function mapDbPeriodLockOverride(dbRow: DbPeriodLockOverride): PeriodLockOverride {
+  return {
+    id: dbRow.id,
+    entity_id: dbRow.entity_id,
+    period_start: dbRow.period_start,
+    transaction_id: dbRow.transaction_id,
+    reason: dbRow.reason,
+    created_at: dbRow.created_at,
+  };
+}
+
+function toFiscalPeriod(entityId: string, range: PeriodRange, stored: DbFiscalPeriod | undefined): FiscalPeriod {
+  return {
+    entity_id: entityId,
+    ...range,
+    label: periodLabel(range.period_start),
+    status: stored?.status ?? 'open',
+    closed_at: stored?.closed_at ?? null,
+    note: stored?.note ?? null,
+  };
+}
+
+export class FiscalPeriodService {
+  private db: Database;
+  private entityService: EntityService;
+  private TABLE_NAME = 'fiscal_periods';
+  private OVERRIDES_TABLE_NAME = 'period_lock_overrides';
+
+  constructor(d1: D1Database) {
+    this.db = createDbClient(d1);
+    this.entityService = createEntityService(d1);
+  }
+
+  /**
+   * An entity's fiscal year (default: the one containing today) with the status of each
+   * month and the overrides posted into them.
+   */
+  async getFiscalYear(entityId: string, fiscalYear: number | undefined, userId: string): Promise<FiscalYear> {
+    const entity = await this.getEntityOrThrow(entityId, userId);
+    const startMonth = entity.fiscal_year_start_month;
+    const year = fiscalYear ?? fiscalYearFor(Math.floor(Date.now() / 1000), startMonth);
+    const ranges = fiscalYearPeriods(year, startMonth);
+    const startDate = ranges[0].period_start;
+    const endDate = ranges[ranges.length - 1].period_end;
+
+    try {
+      const stored = await this.db.query<DbFiscalPeriod>(
+        `SELECT * FROM ${this.TABLE_NAME} WHERE entity_id = ? AND user_id = ? AND period_start BETWEEN ? AND ?`,
+        [entityId, userId, startDate, endDate]
+      );
+      const overrides = await this.db.query<DbPeriodLockOverride>(
+        `SELECT * FROM ${this.OVERRIDES_TABLE_NAME}
+         WHERE entity_id = ? AND user_id = ? AND period_start BETWEEN ? AND ?
+         ORDER BY created_at`,
+        [entityId, userId, startDate, endDate]
+      );
+      const byStart = new Map(stored.map(row => [row.period_start, row]));
+      return {
+        entity_id: entityId,
+        fiscal_year: year,
+        start_month: startMonth,
+        start_date: startDate,
+        end_date: endDate,
+        periods: ranges.map(range => toFiscalPeriod(entityId, range, byStart.get(range.period_start))),
+        overrides: overrides.map(mapDbPeriodLockOverride),
+      };
+    } catch (error: unknown) {
+      console.error('FiscalPeriodService.getFiscalYear error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Failed to retrieve fiscal periods.', 500, error);
+    }
+  }
+
+  /**
+   * Opens, soft-closes or closes the month containing `input.period_start`. A month with
+   * pending transactions cannot be closed, and once soft-closed or closed only an administrator
+   * can change its status.
+   */
+  async setPeriodStatus(entityId: string, input: FiscalPeriodStatusInput, userId: string): Promise<FiscalPeriod> {
+    const entity = await this.getEntityOrThrow(entityId, userId);
+    const periodStart = monthStartFor(input.period_start);
+    const range = fiscalYearPeriods(fiscalYearFor(periodStart, entity.fiscal_year_start_month), entity.fiscal_year_start_month)
+      .find(period => period.period_start === periodStart)!;
+    const existing = await this.getStoredPeriod(entityId, periodStart, userId);
+
+    // Otherwise an owner could reopen a locked month, post freely and lock it again
+    const locked = existing && existing.status !== 'open' ? existing.status : null;
+    if (locked && input.status !== locked && !(await this.isAdmin(userId))) {
+      throw new AppError(
+        ErrorCode.AUTHORIZATION_ERROR,
+        `${periodLabel(periodStart)} is ${locked === 'closed' ? 'closed' : 'soft-closed'}. Only an administrator can change its status.`,
+        403
+      );
+    }
+    if (input.status !== 'open') {
+      const pending = await this.db.queryOne<{ count: number }>(
+        `SELECT COUNT(*) AS count FROM transactions
+         WHERE entity_id = ? AND user_id = ? AND status = 'pending' AND date BETWEEN ? AND ?`,
+        [entityId, userId, range.period_start, range.period_end]
+      );
+      if ((pending?.count ?? 0) > 0) {
+        throw new AppError(
+          ErrorCode.VALIDATION_ERROR,
+          `${periodLabel(periodStart)} has ${pending!.count} pending transaction(s). Post or delete them before closing the period.`,
+          400
+        );
+      }
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    // Saving a period again with the same status keeps its original close time
+    let closedAt: number | null = null;
+    if (input.status !== 'open') {
+      closedAt = existing?.status === input.status ? existing.closed_at ?? now : now;
+    }
+    try {
+      const result = await this.db.execute(
+        `INSERT INTO ${this.TABLE_NAME} (id, user_id, entity_id, period_start, status, closed_at, note, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT(entity_id, period_start) DO UPDATE SET
+           status = excluded.status, closed_at = excluded.closed_at, note = excluded.note, updated_at = excluded.updated_at`,
+        [crypto.randomUUID(), userId, entityId, periodStart, input.status, closedAt, input.note ?? null, now, now]
+      );
+      if (!result.success) {
+        throw new AppError(ErrorCode.DATABASE_ERROR, result.error || 'Failed to update the period.', 500);
+      }
+      const stored = await this.getStoredPeriod(entityId, periodStart, userId);
+      return toFiscalPeriod(entityId, range, stored ?? undefined);
+    } catch (error: unknown) {
+      if (error instanceof AppError) throw error;
+      console.error('FiscalPeriodService.setPeriodStatus error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'An unexpected error occurred while updating the period.', 500, error);
+    }
+  }
+
+  /**
+   * Checks that a transaction dated `date` may be posted to the entity's books and returns the
+   * statements that log an override, to run in the same batch after the transaction insert.
+   * Closed periods reject every posting. A soft-closed period takes an administrator's
+   * `overrideReason`; open periods need nothing and ignore it.
+   */
+  async preparePostingCheck(
+    entityId: string,
+    date: number,
+    transactionId: string,
+    overrideReason: string | null | undefined,
+    userId: string
+  ): Promise<D1PreparedStatement[]> {
+    const periodStart = monthStartFor(date);
+    const period = await this.getStoredPeriod(entityId, periodStart, userId);
+    if (!period || period.status === 'open') return [];
+
+    const details = { period_start: periodStart, status: period.status };
+    if (period.status === 'closed') {
+      throw new AppError(
+        ErrorCode.VALIDATION_ERROR,
+        `${periodLabel(periodStart)} is closed. Reopen the period before posting into it.`,
+        400,
+        details
+      );
+    }
+    if (!overrideReason) {
+      throw new AppError(
+        ErrorCode.VALIDATION_ERROR,
+        `${periodLabel(periodStart)} is soft-closed. An administrator can post into it by giving an override reason.`,
+        400,
+        details
+      );
+    }
+    if (!(await this.isAdmin(userId))) {
+      throw new AppError(ErrorCode.AUTHORIZATION_ERROR, 'Only an administrator can post into a soft-closed period.', 403, details);
+    }
+
+    return [
+      this.db.d1Instance.prepare(`
+        INSERT INTO ${this.OVERRIDES_TABLE_NAME} (id, user_id, entity_id, period_start, transaction_id, reason, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `).bind(crypto.randomUUID(), userId, entityId, periodStart, transactionId, overrideReason, Math.floor(Date.now() / 1000)),
+    ];
+  }
+
+  private async getStoredPeriod(entityId: string, periodStart: number, userId: string): Promise<DbFiscalPeriod | null> {
+    try {
+      return await this.db.queryOne<DbFiscalPeriod>(
+        `SELECT * FROM ${this.TABLE_NAME} WHERE entity_id = ? AND user_id = ? AND period_start = ?`,
+        [entityId, userId, periodStart]
+      );
+    } catch (error: unknown) {
+      console.error('FiscalPeriodService.getStoredPeriod error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Failed to retrieve the fiscal period.', 500, error);
+    }
+  }
+
+  private async isAdmin(userId: string): Promise<boolean> {
+    const user = await this.db.queryOne<{ role: string | null }>('SELECT role FROM users WHERE id = ?', [userId]);
+    return user?.role === 'admin';
+  }
+
+  private async getEntityOrThrow(entityId: string, userId: string): Promise<Entity> {
+    const entity = await this.entityService.getEntityById(entityId, userId);
+    if (!entity) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'Entity not found or access denied.', 404);
+    }
+    return entity;
+  }
+}
+
+export function createFiscalPeriodService(d1: D1Database): FiscalPeriodService {
+  return new FiscalPeriodService(d1);
+}
@@ -0,0 +1,311 @@
+// src/lib/services/intercompany-service.ts
+import type { D1Database, D1PreparedStatement } from '@cloudflare/workers-types';
+import { Database, createDbClient } from '@db/db';
+import type { AccountSystemType, DbIntercompanyTransaction } from '@db/schema';
+import type {
+  IntercompanyException,
+  IntercompanyKind,
+  IntercompanyTransaction,
+  IntercompanyTransactionDetail,
+  IntercompanyTransactionInput,
+  VoidIntercompanyTransactionInput,
+} from '../../types/intercompany';
+import type { Entity } from '../../types/entity';
+import { AppError, ErrorCode } from '@utils/errors';
+import { findIntercompanyExceptions } from '@lib/reporting/intercompany';
+import { createEntityService, EntityService } from './entity-service';
+import { createEntityAccountService, EntityAccountService } from './entity-account-service';
+import { createTransactionService, TransactionService } from './transaction-service';
+import { createReportService, ReportService } from './report-service';
+
+// Default chart of accounts codes for each side's due account, by kind.
+const DUE_ACCOUNT_CODES: Record<IntercompanyKind, { from: string; to: string }> = {
+  advance: { from: '1420', to: '2450' }, // Due from Related Entities, Due to Related Entities
+  settlement: { from: '2450', to: '1420' },
+};
+
+const PROFIT_AND_LOSS_TYPES: AccountSystemType[] = ['income', 'expense'];
+
+function mapDbIntercompanyTransaction(dbRow: DbIntercompanyTransaction): IntercompanyTransaction {
+  return {
+    id: dbRow.id,
+    user_id: dbRow.user_id,
+    kind: dbRow.kind,
+    from_entity_id: dbRow.from_entity_id,
+    to_entity_id: dbRow.to_entity_id,
+    date: dbRow.date,
+    amount: dbRow.amount,
+    description: dbRow.description,
+    reference: dbRow.reference ?? null,
+    from_transaction_id: dbRow.from_transaction_id,
+    to_transaction_id: dbRow.to_transaction_id,
+    from_due_entity_account_id: dbRow.from_due_entity_account_id,
+    from_counter_entity_account_id: dbRow.from_counter_entity_account_id,
+    to_due_entity_account_id: dbRow.to_due_entity_account_id,
+    to_counter_entity_account_id: dbRow.to_counter_entity_account_id,
+    eliminates_activity: dbRow.eliminates_activity === 1,
+    created_at: dbRow.created_at,
+    updated_at: dbRow.updated_at,
+  };
+}
+
+export class IntercompanyService {
+  private db: Database;
+  private entityService: EntityService;
+  private entityAccountService: EntityAccountService;
+  private transactionService: TransactionService;
+  private reportService: ReportService;
+  private TABLE_NAME = 'intercompany_transactions';
+
+  constructor(d1: D1Database) {
+    this.db = createDbClient(d1);
+    this.entityService = createEntityService(d1);
+    this.entityAccountService = createEntityAccountService(d1);
+    this.transactionService = createTransactionService(d1);
+    this.reportService = createReportService(d1);
+  }
+
+  /**
+   * Lists intercompany transactions, newest first. With `entityId`, only those where the
+   * entity is on either side.
+   */
+  async listIntercompanyTransactions(userId: string, entityId?: string): Promise<IntercompanyTransaction[]> {
+    const conditions = ['user_id = ?'];
+    const params: any[] = [userId];
+    if (entityId) {
+      await this.assertEntityAccess(entityId, userId);
+      conditions.push('(from_entity_id = ? OR to_entity_id = ?)');
+      params.push(entityId, entityId);
+    }
+    const sql = `
+      SELECT * FROM ${this.TABLE_NAME}
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY date DESC, created_at DESC
+    `;
+    try {
+      const rows = await this.db.query<DbIntercompanyTransaction>(sql, params);
+      return rows.map(mapDbIntercompanyTransaction);
+    } catch (error: unknown) {
+      if (error instanceof AppError) throw error;
+      console.error('IntercompanyService.listIntercompanyTransactions error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Failed to retrieve intercompany transactions.', 500, error);
+    }
+  }
+
+  /**
+   * Retrieves an intercompany transaction with both of its journal entries.
+   */
+  async getIntercompanyTransactionById(id: string, userId: string): Promise<IntercompanyTransactionDetail | null> {
+    let row: DbIntercompanyTransaction | null;
+    try {
+      row = await this.db.queryOne<DbIntercompanyTransaction>(
+        `SELECT * FROM ${this.TABLE_NAME} WHERE id = ? AND user_id = ?`,
+        [id, userId]
+      );
+    } catch (error: unknown) {
+      console.error('IntercompanyService.getIntercompanyTransactionById error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Failed to retrieve intercompany transaction.', 500, error);
+    }
+    if (!row) return null;
+
+    const record = mapDbIntercompanyTransaction(row);
+    const fromTransaction = await this.transactionService.getTransactionById(record.from_transaction_id, userId);
+    const toTransaction = await this.transactionService.getTransactionById(record.to_transaction_id, userId);
+    if (!fromTransaction || !toTransaction) {
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'An intercompany journal entry is missing.', 500);
+    }
+    return { ...record, from_transaction: fromTransaction, to_transaction: toTransaction };
+  }
+
+  /**
+   * Records an intercompany transaction: a posted journal entry in each entity and the record
+   * linking them, written in one batch. The from entity debits its due account and credits
+   * its counter account; the to entity debits its counter account and credits its due
+   * account. When both counter accounts are income or expense accounts the activity itself
+   * is intercompany (a management fee, say) and is eliminated in consolidation too.
+   */
+  async createIntercompanyTransaction(input: IntercompanyTransactionInput, userId: string): Promise<IntercompanyTransactionDetail> {
+    if (input.from_entity_id === input.to_entity_id) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'An intercompany transaction needs two different entities.', 400);
+    }
+    if (!Number.isInteger(input.amount) || input.amount <= 0) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Amount must be a positive integer (cents).', 400);
+    }
+    const fromEntity = await this.assertEntityAccess(input.from_entity_id, userId);
+    const toEntity = await this.assertEntityAccess(input.to_entity_id, userId);
+
+    const kind = input.kind ?? 'advance';
+    const codes = DUE_ACCOUNT_CODES[kind];
+    const fromDueId = input.from_due_entity_account_id
+      ?? await this.findEntityAccountIdByCode(fromEntity, codes.from, 'from_due_entity_account_id', userId);
+    const toDueId = input.to_due_entity_account_id
+      ?? await this.findEntityAccountIdByCode(toEntity, codes.to, 'to_due_entity_account_id', userId);
+    if (fromDueId === input.from_counter_entity_account_id || toDueId === input.to_counter_entity_account_id) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'The counter account must differ from the due account on each side.', 400);
+    }
+    const eliminatesActivity = await this.areProfitAndLossAccounts(
+      [input.from_counter_entity_account_id, input.to_counter_entity_account_id],
+      userId
+    );
+
+    const id = crypto.randomUUID();
+    const fromTransactionId = crypto.randomUUID();
+    const toTransactionId = crypto.randomUUID();
+    const operations: D1PreparedStatement[] = [
+      ...await this.transactionService.prepareCreateStatements(fromTransactionId, {
+        entity_id: fromEntity.id,
+        date: input.date,
+        description: input.description,
+        reference: input.reference ?? null,
+        status: 'posted',
+        lines: [
+          { entity_account_id: fromDueId, amount: input.amount, is_debit: true, memo: toEntity.name },
+          { entity_account_id: input.from_counter_entity_account_id, amount: input.amount, is_debit: false },
+        ],
+      }, userId),
+      ...await this.transactionService.prepareCreateStatements(toTransactionId, {
+        entity_id: toEntity.id,
+        date: input.date,
+        description: input.description,
+        reference: input.reference ?? null,
+        status: 'posted',
+        lines: [
+          { entity_account_id: input.to_counter_entity_account_id, amount: input.amount, is_debit: true },
+          { entity_account_id: toDueId, amount: input.amount, is_debit: false, memo: fromEntity.name },
+        ],
+      }, userId),
+    ];
+
+    const now = Math.floor(Date.now() / 1000);
+    operations.push(
+      this.db.d1Instance.prepare(`
+        INSERT INTO ${this.TABLE_NAME} (
+          id, user_id, kind, from_entity_id, to_entity_id, date, amount, description, reference,
+          from_transaction_id, to_transaction_id, from_due_entity_account_id, from_counter_entity_account_id,
+          to_due_entity_account_id, to_counter_entity_account_id, eliminates_activity, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).bind(
+        id, userId, kind, fromEntity.id, toEntity.id, input.date, input.amount, input.description, input.reference ?? null,
+        fromTransactionId, toTransactionId, fromDueId, input.from_counter_entity_account_id,
+        toDueId, input.to_counter_entity_account_id, eliminatesActivity ? 1 : 0, now, now
+      )
+    );
+
+    try {
+      await this.db.batch(operations);
+      const created = await this.getIntercompanyTransactionById(id, userId);
+      if (!created) {
+        throw new AppError(ErrorCode.DATABASE_ERROR, 'Intercompany transaction was created but could not be retrieved.', 500);
+      }
+      return created;
+    } catch (error: unknown) {
+      if (error instanceof AppError) throw error;
+      console.error('IntercompanyService.createIntercompanyTransaction error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'An unexpected error occurred while recording the intercompany transaction.', 500, error);
+    }
+  }
+
+  /**
+   * Voids both journal entries of an intercompany transaction in one batch, with reversals
+   * on the same date, so the pair stays matched.
+   */
+  async voidIntercompanyTransaction(
+    id: string,
+    input: VoidIntercompanyTransactionInput,
+    userId: string
+  ): Promise<IntercompanyTransactionDetail> {
+    const existing = await this.getIntercompanyTransactionById(id, userId);
+    if (!existing) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'Intercompany transaction not found or access denied.', 404);
+    }
+    const fromVoid = await this.transactionService.prepareVoidStatements(existing.from_transaction_id, input, userId);
+    const toVoid = await this.transactionService.prepareVoidStatements(existing.to_transaction_id, input, userId);
+
+    const now = Math.floor(Date.now() / 1000);
+    try {
+      await this.db.batch([
+        ...fromVoid.statements,
+        ...toVoid.statements,
+        this.db.d1Instance
+          .prepare(`UPDATE ${this.TABLE_NAME} SET updated_at = ? WHERE id = ? AND user_id = ?`)
+          .bind(now, id, userId),
+      ]);
+      const voided = await this.getIntercompanyTransactionById(id, userId);
+      if (!voided) {
+        throw new AppError(ErrorCode.DATABASE_ERROR, 'Intercompany transaction was voided but could not be retrieved.', 500);
+      }
+      return voided;
+    } catch (error: unknown) {
+      if (error instanceof AppError) throw error;
+      const [from, to] = await Promise.all([
+        this.transactionService.getTransactionById(existing.from_transaction_id, userId),
+        this.transactionService.getTransactionById(existing.to_transaction_id, userId),
+      ]);
+      if (from?.status !== 'posted' || to?.status !== 'posted') {
+        throw new AppError(ErrorCode.VALIDATION_ERROR, 'Intercompany transaction was voided by another request.', 409);
+      }
+      console.error('IntercompanyService.voidIntercompanyTransaction error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'An unexpected error occurred while voiding the intercompany transaction.', 500, error);
+    }
+  }
+
+  /**
+   * Lists intercompany transactions whose two sides do not net to zero as of a date. With
+   * `entityId`, only pairs within that entity's consolidation group (itself and every
+   * entity below it) are checked.
+   */
+  async getIntercompanyExceptions(asOfDate: number, userId: string, entityId?: string): Promise<IntercompanyException[]> {
+    let entityIds: string[] | undefined;
+    if (entityId) {
+      await this.assertEntityAccess(entityId, userId);
+      const descendants = await this.entityService.getDescendantEntities(entityId, userId);
+      entityIds = [entityId, ...descendants.map(entity => entity.id)];
+    }
+    const lines = await this.reportService.getIntercompanyLines(asOfDate, userId, entityIds);
+    return findIntercompanyExceptions(lines);
+  }
+
+  /**
+   * Whether every given entity account maps to an income or expense account.
+   */
+  private async areProfitAndLossAccounts(entityAccountIds: string[], userId: string): Promise<boolean> {
+    const placeholders = entityAccountIds.map(() => '?').join(', ');
+    let rows: Array<{ id: string; type: AccountSystemType }>;
+    try {
+      rows = await this.db.query<{ id: string; type: AccountSystemType }>(`
+        SELECT ea.id, coa.type FROM entity_accounts ea
+        JOIN chart_of_accounts coa ON coa.id = ea.account_id
+        WHERE ea.user_id = ? AND ea.id IN (${placeholders})
+      `, [userId, ...entityAccountIds]);
+    } catch (error: unknown) {
+      console.error('IntercompanyService.areProfitAndLossAccounts error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Failed to look up counter accounts.', 500, error);
+    }
+    const typeById = new Map(rows.map(row => [row.id, row.type]));
+    return entityAccountIds.every(accountId => PROFIT_AND_LOSS_TYPES.includes(typeById.get(accountId)!));
+  }
+
+  private async findEntityAccountIdByCode(entity: Entity, code: string, overrideField: string, userId: string): Promise<string> {
+    const id = await this.entityAccountService.findActiveEntityAccountIdByCode(entity.id, code, userId);
+    if (!id) {
+      throw new AppError(
+        ErrorCode.VALIDATION_ERROR,
+        `Account ${code} is not linked to ${entity.name}. Link it or supply ${overrideField}.`,
+        400
+      );
+    }
+    return id;
+  }
+
+  private async assertEntityAccess(entityId: string, userId: string): Promise<Entity> {
+    const entity = await this.entityService.getEntityById(entityId, userId);
+    if (!entity) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'Entity not found or access denied.', 404);
+    }
+    return entity;
+  }
+}
+
+export function createIntercompanyService(d1: D1Database): IntercompanyService {
+  return new IntercompanyService(d1);
+}
@@ -0,0 +1,303 @@
+// src/lib/services/loan-accrual-service.ts
+import type { D1Database, D1PreparedStatement } from '@cloudflare/workers-types';
+import { Database, createDbClient } from '@db/db';
+import type { DbLoan, DbLoanInterestAccrual, DbLoanSchedule } from '@db/schema';
+import type { InterestAccrualRunResult, LoanDirection, LoanInterestAccrual } from '../../types/loan';
+import type { TransactionLineInput } from '../../types/transaction';
+import { AppError, ErrorCode } from '@utils/errors';
+import { dayCount, simpleInterestCents } from '@lib/accounting/dayCount';
+import { createEntityService, EntityService } from './entity-service';
+import { createEntityAccountService, EntityAccountService } from './entity-account-service';
+import { createTransactionService, TransactionService } from './transaction-service';
+
+const SECONDS_PER_DAY = 86400;
+
+// Chart of accounts codes for the accrual entry, by loan direction.
+const ACCRUAL_ACCOUNT_CODES: Record<LoanDirection, { interest: string; accrual: string }> = {
+  payable: { interest: '5810', accrual: '2400' }, // Mortgage Interest Expense, Accrued Expenses
+  receivable: { interest: '4510', accrual: '1410' }, // Interest Income, Interest Receivable
+};
+
+function mapDbAccrual(dbAccrual: DbLoanInterestAccrual): LoanInterestAccrual {
+  return {
+    id: dbAccrual.id,
+    loan_id: dbAccrual.loan_id,
+    user_id: dbAccrual.user_id,
+    entity_id: dbAccrual.entity_id,
+    period_end: dbAccrual.period_end,
+    accrual_start: dbAccrual.accrual_start,
+    days: dbAccrual.days,
+    day_count_convention: dbAccrual.day_count_convention,
+    principal_balance: dbAccrual.principal_balance,
+    amount: dbAccrual.amount,
+    transaction_id: dbAccrual.transaction_id,
+    reversal_transaction_id: dbAccrual.reversal_transaction_id,
+    created_at: dbAccrual.created_at,
+  };
+}
+
+/**
+ * Normalizes a timestamp to 00:00 UTC of its day and checks it is the last day of a month.
+ */
+function toPeriodEnd(timestamp: number): number {
+  const periodEnd = Math.floor(timestamp / SECONDS_PER_DAY) * SECONDS_PER_DAY;
+  if (new Date((periodEnd + SECONDS_PER_DAY) * 1000).getUTCDate() !== 1) {
+    throw new AppError(ErrorCode.VALIDATION_ERROR, 'Accrual period end must be the last day of a month.', 400);
+  }
+  return periodEnd;
+}
+
+/**
+ * The last day of the month before `timestamp`, used by the scheduled run.
+ */
+export function previousMonthEnd(timestamp: number): number {
+  const date = new Date(timestamp * 1000);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 0) / 1000;
+}
+
+/**
+ * Accrues loan interest that has been earned or incurred but not yet paid at month end.
+ * Each accrual posts an entry on the period end and a mirrored reversal on the first day of
+ * the next period, so the interest is recognized again in full when the payment is recorded.
+ */
+export class LoanAccrualService {
+  private db: Database;
+  private entityService: EntityService;
+  private entityAccountService: EntityAccountService;
+  private transactionService: TransactionService;
+  private TABLE_NAME = 'loan_interest_accruals';
+  private LOANS_TABLE_NAME = 'loans';
+  private SCHEDULE_TABLE_NAME = 'loan_schedules';
+  private RATE_CHANGES_TABLE_NAME = 'loan_rate_changes';
+
+  constructor(d1: D1Database) {
+    this.db = createDbClient(d1);
+    this.entityService = createEntityService(d1);
+    this.entityAccountService = createEntityAccountService(d1);
+    this.transactionService = createTransactionService(d1);
+  }
+
+  /**
+   * Lists an entity's accruals for a period, or all of its accruals when `periodEnd` is omitted.
+   */
+  async listAccruals(entityId: string, userId: string, periodEnd?: number): Promise<LoanInterestAccrual[]> {
+    await this.assertEntityAccess(entityId, userId);
+    const conditions = ['user_id = ?', 'entity_id = ?'];
+    const params: any[] = [userId, entityId];
+    if (periodEnd !== undefined) {
+      conditions.push('period_end = ?');
+      params.push(toPeriodEnd(periodEnd));
+    }
+    const sql = `SELECT * FROM ${this.TABLE_NAME} WHERE ${conditions.join(' AND ')} ORDER BY period_end DESC, loan_id`;
+    try {
+      const rows = await this.db.query<DbLoanInterestAccrual>(sql, params);
+      return rows.map(mapDbAccrual);
+    } catch (error: unknown) {
+      console.error('LoanAccrualService.listAccruals error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Failed to retrieve interest accruals.', 500, error);
+    }
+  }
+
+  /**
+   * Accrues interest on every active loan of an entity for the month ending `periodEnd`.
+   * Interest runs from the later of origination and the last scheduled payment date on or
+   * before the period end through the end of the month's last day, on the balance outstanding
+   * after that payment, at the rate in effect at period end. Loans already accrued for the period are left alone, so re-running
+   * a period only picks up loans that were skipped.
+   */
+  async accrueInterest(entityId: string, periodEnd: number, userId: string): Promise<InterestAccrualRunResult> {
+    await this.assertEntityAccess(entityId, userId);
+    const normalizedEnd = toPeriodEnd(periodEnd);
+    const reversalDate = normalizedEnd + SECONDS_PER_DAY;
+
+    let loans: DbLoan[];
+    try {
+      loans = await this.db.query<DbLoan>(`
+        SELECT l.* FROM ${this.LOANS_TABLE_NAME} l
+        WHERE l.user_id = ? AND l.entity_id = ? AND l.status = 'active'
+          AND l.origination_date < ? AND l.maturity_date > ?
+          AND NOT EXISTS (SELECT 1 FROM ${this.TABLE_NAME} a WHERE a.loan_id = l.id AND a.period_end = ?)
+        ORDER BY l.created_at
+      `, [userId, entityId, normalizedEnd, normalizedEnd, normalizedEnd]);
+    } catch (error: unknown) {
+      console.error('LoanAccrualService.accrueInterest error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Failed to retrieve loans for accrual.', 500, error);
+    }
+
+    const result: InterestAccrualRunResult = {
+      entity_id: entityId,
+      period_end: normalizedEnd,
+      reversal_date: reversalDate,
+      accruals: [],
+      skipped: [],
+    };
+    const accountIds = new Map<string, string | null>();
+
+    for (const loan of loans) {
+      try {
+        const accrual = await this.accrueLoan(loan, normalizedEnd, reversalDate, accountIds, userId);
+        if (accrual) result.accruals.push(accrual);
+      } catch (error: unknown) {
+        if (!(error instanceof AppError) || error.code === ErrorCode.DATABASE_ERROR) throw error;
+        result.skipped.push({ loan_id: loan.id, reason: error.message });
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Runs `accrueInterest` for every entity with an active loan. Used by the scheduled
+   * Worker, so one failing entity is logged and does not stop the others.
+   */
+  async accrueInterestForAllEntities(periodEnd: number): Promise<InterestAccrualRunResult[]> {
+    let owners: Array<{ user_id: string; entity_id: string }>;
+    try {
+      owners = await this.db.query<{ user_id: string; entity_id: string }>(
+        `SELECT DISTINCT user_id, entity_id FROM ${this.LOANS_TABLE_NAME} WHERE status = 'active'`
+      );
+    } catch (error: unknown) {
+      console.error('LoanAccrualService.accrueInterestForAllEntities error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Failed to retrieve entities for accrual.', 500, error);
+    }
+
+    const results: InterestAccrualRunResult[] = [];
+    for (const owner of owners) {
+      try {
+        results.push(await this.accrueInterest(owner.entity_id, periodEnd, owner.user_id));
+      } catch (error: unknown) {
+        console.error(`LoanAccrualService.accrueInterestForAllEntities failed for entity ${owner.entity_id}:`, error);
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Computes and writes one loan's accrual, its reversal and the accrual record in a single
+   * batch. Returns null when nothing has accrued.
+   */
+  private async accrueLoan(
+    loan: DbLoan,
+    periodEnd: number,
+    reversalDate: number,
+    accountIds: Map<string, string | null>,
+    userId: string
+  ): Promise<LoanInterestAccrual | null> {
+    let lastRow: DbLoanSchedule | null;
+    let rateChange: { interest_rate: number } | null;
+    try {
+      lastRow = await this.db.queryOne<DbLoanSchedule>(`
+        SELECT * FROM ${this.SCHEDULE_TABLE_NAME}
+        WHERE loan_id = ? AND payment_date <= ?
+        ORDER BY payment_date DESC, payment_number DESC
+        LIMIT 1
+      `, [loan.id, periodEnd]);
+      rateChange = await this.db.queryOne<{ interest_rate: number }>(`
+        SELECT interest_rate FROM ${this.RATE_CHANGES_TABLE_NAME}
+        WHERE loan_id = ? AND effective_date <= ?
+        ORDER BY effective_date DESC
+        LIMIT 1
+      `, [loan.id, periodEnd]);
+    } catch (error: unknown) {
+      console.error('LoanAccrualService.accrueLoan error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Failed to retrieve loan schedule for accrual.', 500, error);
+    }
+
+    // An unpaid row still carries its principal until the payment is recorded.
+    const accrualStart = lastRow ? Math.max(lastRow.payment_date, loan.origination_date) : loan.origination_date;
+    const balance = lastRow
+      ? lastRow.remaining_balance + (lastRow.status === 'paid' ? 0 : lastRow.principal_portion)
+      : loan.original_principal;
+    const convention = loan.day_count_convention ?? 'actual_365';
+    // loans.interest_rate is the latest recorded rate, which may only take effect after this period
+    const rateBasisPoints = rateChange?.interest_rate ?? loan.original_interest_rate;
+    // periodEnd is the start of the month's last day; interest accrues through the end of it
+    const accrualEnd = periodEnd + SECONDS_PER_DAY;
+    const amount = simpleInterestCents(balance, rateBasisPoints, accrualStart, accrualEnd, convention);
+    if (amount <= 0) return null;
+
+    const codes = ACCRUAL_ACCOUNT_CODES[loan.direction];
+    const interestAccountId = await this.resolveAccountId(loan.entity_id, codes.interest, accountIds, userId);
+    const accrualAccountId = await this.resolveAccountId(loan.entity_id, codes.accrual, accountIds, userId);
+    const isPayable = loan.direction === 'payable';
+    const accrualLines: TransactionLineInput[] = [
+      { entity_account_id: interestAccountId, amount, is_debit: isPayable, memo: 'Accrued interest' },
+      { entity_account_id: accrualAccountId, amount, is_debit: !isPayable, memo: 'Accrued interest' },
+    ];
+    const reversalLines = accrualLines.map(line => ({ ...line, is_debit: !line.is_debit, memo: 'Accrual reversal' }));
+    const counterparty = loan.lender_name || loan.borrower_name;
+    const label = `accrued interest${counterparty ? ` - ${counterparty}` : ''}`;
+
+    const accrual: LoanInterestAccrual = {
+      id: crypto.randomUUID(),
+      loan_id: loan.id,
+      user_id: userId,
+      entity_id: loan.entity_id,
+      period_end: periodEnd,
+      accrual_start: accrualStart,
+      days: dayCount(accrualStart, accrualEnd, convention),
+      day_count_convention: convention,
+      principal_balance: balance,
+      amount,
+      transaction_id: crypto.randomUUID(),
+      reversal_transaction_id: crypto.randomUUID(),
+      created_at: Math.floor(Date.now() / 1000),
+    };
+
+    const operations: D1PreparedStatement[] = [
+      ...await this.transactionService.prepareCreateStatements(accrual.transaction_id, {
+        entity_id: loan.entity_id,
+        date: periodEnd,
+        description: `Month-end ${label}`,
+        status: 'posted',
+        lines: accrualLines,
+      }, userId),
+      ...await this.transactionService.prepareCreateStatements(accrual.reversal_transaction_id, {
+        entity_id: loan.entity_id,
+        date: reversalDate,
+        description: `Reversal of ${label}`,
+        status: 'posted',
+        lines: reversalLines,
+      }, userId),
+      this.db.d1Instance.prepare(`
+        INSERT INTO ${this.TABLE_NAME} (
+          id, loan_id, user_id, entity_id, period_end, accrual_start, days, day_count_convention,
+          principal_balance, amount, transaction_id, reversal_transaction_id, created_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).bind(
+        accrual.id, accrual.loan_id, userId, accrual.entity_id, accrual.period_end, accrual.accrual_start,
+        accrual.days, accrual.day_count_convention, accrual.principal_balance, accrual.amount,
+        accrual.transaction_id, accrual.reversal_transaction_id, accrual.created_at
+      ),
+    ];
+
+    try {
+      await this.db.batch(operations);
+    } catch (error: unknown) {
+      console.error('LoanAccrualService.accrueLoan error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'An unexpected error occurred while posting the interest accrual.', 500, error);
+    }
+    return accrual;
+  }
+
+  private async resolveAccountId(entityId: string, code: string, cache: Map<string, string | null>, userId: string): Promise<string> {
+    if (!cache.has(code)) {
+      cache.set(code, await this.entityAccountService.findActiveEntityAccountIdByCode(entityId, code, userId));
+    }
+    const id = cache.get(code);
+    if (!id) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, `Account ${code} is not linked to this entity.`, 400);
+    }
+    return id;
+  }
+
+  private async assertEntityAccess(entityId: string, userId: string): Promise<void> {
+    const entity = await this.entityService.getEntityById(entityId, userId);
+    if (!entity) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'Entity not found or access denied.', 404);
+    }
+  }
+}
+
+export function createLoanAccrualService(d1: D1Database): LoanAccrualService {
+  return new LoanAccrualService(d1);
+}
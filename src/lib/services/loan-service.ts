@@ -0,0 +1,868 @@
+// src/lib/services/loan-service.ts
+import type { D1Database, D1PreparedStatement } from '@cloudflare/workers-types';
+import { Database, createDbClient } from '@db/db';
+import type { DbLoan, DbLoanRateChange, DbLoanSchedule } from '@db/schema';
+import type {
+  Loan,
+  LoanInput,
+  LoanPaymentResult,
+  LoanRateChange,
+  LoanRateChangeInput,
+  LoanScheduleEntry,
+  LoanScheduleStatus,
+  LoanStatus,
+  LoanWithSchedule,
+  RecordLoanPaymentInput,
+} from '../../types/loan';
+import type { TransactionLineInput } from '../../types/transaction';
+import { AppError, ErrorCode } from '@utils/errors';
+import {
+  amortizeBalance,
+  buildAmortizationSchedule,
+  paymentIntervalMonths,
+  periodicRate,
+} from '@lib/accounting/amortization';
+import type { AmortizationRow } from '@lib/accounting/amortization';
+import { createEntityService, EntityService } from './entity-service';
+import { createEntityAccountService, EntityAccountService } from './entity-account-service';
+import { createTransactionService, TransactionService } from './transaction-service';
+
+const BASIS_POINTS = 10000;
+
+// Default chart of accounts codes for the payment journal entry, by loan direction.
+const PAYMENT_ACCOUNT_CODES = {
+  payable: { principal: '2510', interest: '5810' }, // Mortgage Payable, Mortgage Interest Expense
+  receivable: { principal: '1400', interest: '4510' }, // Notes Receivable, Interest Income
+} as const;
+
+// Fields that change the amortization schedule when updated.
+const TERM_FIELDS = [
+  'original_principal',
+  'interest_rate',
+  'day_count_convention',
+  'origination_date',
+  'maturity_date',
+  'payment_frequency',
+  'payment_interval_months',
+  'payment_amount',
+  'next_payment_date',
+] as const;
+
+export type LoanUpdateInput = Partial<Omit<LoanInput, 'entity_id'>>;
+
+/**
+ * Maps a database loan to the application-level Loan, converting the basis-point
+ * interest rate to a decimal annual rate (525 → 0.0525).
+ */
+function mapDbLoanToLoan(dbLoan: DbLoan): Loan {
+  return {
+    id: dbLoan.id,
+    user_id: dbLoan.user_id,
+    entity_id: dbLoan.entity_id,
+    direction: dbLoan.direction,
+    borrower_name: dbLoan.borrower_name ?? null,
+    lender_name: dbLoan.lender_name ?? null,
+    description: dbLoan.description ?? null,
+    loan_type: dbLoan.loan_type as Loan['loan_type'],
+    original_principal: dbLoan.original_principal,
+    current_principal: dbLoan.current_principal,
+    interest_rate: dbLoan.interest_rate / BASIS_POINTS,
+    original_interest_rate: dbLoan.original_interest_rate / BASIS_POINTS,
+    interest_rate_type: dbLoan.interest_rate_type,
+    day_count_convention: dbLoan.day_count_convention ?? 'actual_365',
+    origination_date: dbLoan.origination_date,
+    maturity_date: dbLoan.maturity_date,
+    payment_frequency: dbLoan.payment_frequency as Loan['payment_frequency'],
+    payment_interval_months: dbLoan.payment_interval_months ?? null,
+    payment_amount: dbLoan.payment_amount,
+    status: dbLoan.status as LoanStatus,
+    collateral_description: dbLoan.collateral_description ?? null,
+    collateral_value: dbLoan.collateral_value ?? null,
+    next_payment_date: dbLoan.next_payment_date ?? null,
+    arrears_amount: dbLoan.arrears_amount ?? 0,
+    created_at: dbLoan.created_at,
+    updated_at: dbLoan.updated_at,
+  };
+}
+
+function mapDbLoanScheduleToEntry(dbRow: DbLoanSchedule): LoanScheduleEntry {
+  return {
+    id: dbRow.id,
+    loan_id: dbRow.loan_id,
+    user_id: dbRow.user_id,
+    payment_number: dbRow.payment_number,
+    payment_date: dbRow.payment_date,
+    total_payment: dbRow.total_payment,
+    principal_portion: dbRow.principal_portion,
+    interest_portion: dbRow.interest_portion,
+    remaining_balance: dbRow.remaining_balance,
+    status: dbRow.status as LoanScheduleStatus,
+    actual_payment_date: dbRow.actual_payment_date ?? null,
+    actual_payment_amount: dbRow.actual_payment_amount ?? null,
+    transaction_id: dbRow.transaction_id ?? null,
+    created_at: dbRow.created_at,
+    updated_at: dbRow.updated_at,
+  };
+}
+
+function mapDbLoanRateChange(dbChange: DbLoanRateChange): LoanRateChange {
+  const toRate = (basisPoints: number | null | undefined) => (basisPoints == null ? null : basisPoints / BASIS_POINTS);
+  return {
+    id: dbChange.id,
+    loan_id: dbChange.loan_id,
+    user_id: dbChange.user_id,
+    effective_date: dbChange.effective_date,
+    index_name: dbChange.index_name ?? null,
+    index_rate: toRate(dbChange.index_rate),
+    margin: toRate(dbChange.margin),
+    interest_rate: dbChange.interest_rate / BASIS_POINTS,
+    note: dbChange.note ?? null,
+    created_at: dbChange.created_at,
+  };
+}
+
+/**
+ * Converts a decimal annual rate to whole basis points, rejecting finer precision.
+ */
+function rateToBasisPoints(rate: number): number {
+  const basisPoints = Math.round(rate * BASIS_POINTS);
+  if (Math.abs(rate * BASIS_POINTS - basisPoints) > 1e-6) {
+    throw new AppError(ErrorCode.VALIDATION_ERROR, 'Interest rate must be expressed in whole basis points (e.g., 0.0525).', 400);
+  }
+  return basisPoints;
+}
+
+/**
+ * The annual rate in basis points in effect on `date`: the latest change effective by then,
+ * else the origination rate. `changes` are ordered by effective date.
+ */
+function rateInEffect(loan: Loan, changes: Pick<DbLoanRateChange, 'effective_date' | 'interest_rate'>[], date: number): number {
+  const change = [...changes].reverse().find(candidate => candidate.effective_date <= date);
+  return change ? change.interest_rate : rateToBasisPoints(loan.original_interest_rate);
+}
+
+export class LoanService {
+  private db: Database;
+  private entityService: EntityService;
+  private entityAccountService: EntityAccountService;
+  private transactionService: TransactionService;
+  private TABLE_NAME = 'loans';
+  private SCHEDULE_TABLE_NAME = 'loan_schedules';
+  private RATE_CHANGES_TABLE_NAME = 'loan_rate_changes';
+
+  constructor(d1: D1Database) {
+    this.db = createDbClient(d1);
+    this.entityService = createEntityService(d1);
+    this.entityAccountService = createEntityAccountService(d1);
+    this.transactionService = createTransactionService(d1);
+  }
+
+  async getLoanById(id: string, userId: string): Promise<Loan | null> {
+    const sql = `SELECT * FROM ${this.TABLE_NAME} WHERE id = ? AND user_id = ?`;
+    try {
+      const row = await this.db.queryOne<DbLoan>(sql, [id, userId]);
+      return row ? mapDbLoanToLoan(row) : null;
+    } catch (error: unknown) {
+      console.error('LoanService.getLoanById error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Failed to retrieve loan.', 500, error);
+    }
+  }
+
+  /**
+   * Retrieves a loan with its full amortization schedule.
+   */
+  async getLoanWithSchedule(id: string, userId: string): Promise<LoanWithSchedule | null> {
+    const loan = await this.getLoanById(id, userId);
+    if (!loan) return null;
+    return { ...loan, schedule: await this.getSchedule(id, userId) };
+  }
+
+  async getSchedule(loanId: string, userId: string): Promise<LoanScheduleEntry[]> {
+    const sql = `
+      SELECT * FROM ${this.SCHEDULE_TABLE_NAME}
+      WHERE loan_id = ? AND user_id = ?
+      ORDER BY payment_number
+    `;
+    try {
+      const rows = await this.db.query<DbLoanSchedule>(sql, [loanId, userId]);
+      return rows.map(mapDbLoanScheduleToEntry);
+    } catch (error: unknown) {
+      console.error('LoanService.getSchedule error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Failed to retrieve loan schedule.', 500, error);
+    }
+  }
+
+  /**
+   * Lists an entity's loans, soonest maturity first, optionally filtered by status.
+   */
+  async listLoans(entityId: string, userId: string, status?: LoanStatus): Promise<Loan[]> {
+    const entity = await this.entityService.getEntityById(entityId, userId);
+    if (!entity) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'Entity not found or access denied.', 404);
+    }
+
+    const conditions = ['user_id = ?', 'entity_id = ?'];
+    const params: any[] = [userId, entityId];
+    if (status) {
+      conditions.push('status = ?');
+      params.push(status);
+    }
+    const sql = `SELECT * FROM ${this.TABLE_NAME} WHERE ${conditions.join(' AND ')} ORDER BY maturity_date, created_at`;
+    try {
+      const rows = await this.db.query<DbLoan>(sql, params);
+      return rows.map(mapDbLoanToLoan);
+    } catch (error: unknown) {
+      console.error('LoanService.listLoans error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Failed to retrieve loans.', 500, error);
+    }
+  }
+
+  /**
+   * Creates a loan and writes its full amortization schedule in one batch.
+   * When `payment_amount` is omitted a level payment is computed; a payment too small to
+   * amortize the loan leaves a balloon on the final row.
+   */
+  async createLoan(input: LoanInput, userId: string): Promise<LoanWithSchedule> {
+    const entity = await this.entityService.getEntityById(input.entity_id, userId);
+    if (!entity) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'Entity not found or access denied.', 404);
+    }
+    const rateBasisPoints = rateToBasisPoints(input.interest_rate);
+    const schedule = this.buildValidatedSchedule(input, rateBasisPoints);
+
+    const loanId = crypto.randomUUID();
+    const now = Math.floor(Date.now() / 1000);
+    const sql = `
+      INSERT INTO ${this.TABLE_NAME} (
+        id, user_id, entity_id, direction, borrower_name, lender_name, description, loan_type,
+        original_principal, current_principal, interest_rate, original_interest_rate, interest_rate_type,
+        day_count_convention, origination_date, maturity_date, payment_frequency, payment_interval_months,
+        payment_amount, status, collateral_description, collateral_value, next_payment_date, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `;
+    const operations: D1PreparedStatement[] = [
+      this.db.d1Instance.prepare(sql).bind(
+        loanId, userId, input.entity_id, input.direction,
+        input.borrower_name || null, input.lender_name || null, input.description || null, input.loan_type,
+        input.original_principal, input.original_principal, rateBasisPoints, rateBasisPoints, input.interest_rate_type,
+        input.day_count_convention ?? 'actual_365', input.origination_date, input.maturity_date, input.payment_frequency,
+        input.payment_frequency === 'custom' ? input.payment_interval_months ?? null : null,
+        input.payment_frequency !== 'lump_sum' && input.payment_amount != null ? input.payment_amount : schedule[0].total_payment,
+        input.status || 'active', input.collateral_description || null, input.collateral_value ?? null,
+        schedule[0].payment_date, now, now
+      ),
+      ...this.buildScheduleInsertStatements(loanId, userId, schedule, now),
+    ];
+
+    try {
+      await this.db.batch(operations);
+      const created = await this.getLoanWithSchedule(loanId, userId);
+      if (!created) {
+        throw new AppError(ErrorCode.DATABASE_ERROR, 'Loan was created but could not be retrieved.', 500);
+      }
+      return created;
+    } catch (error: unknown) {
+      if (error instanceof AppError) throw error;
+      console.error('LoanService.createLoan error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'An unexpected error occurred while creating the loan.', 500, error);
+    }
+  }
+
+  /**
+   * Updates a loan. Changing any financial term regenerates the schedule, which is only
+   * allowed before a payment has been recorded against it. Unless supplied again, the
+   * payment amount and first payment date are recomputed from the new terms.
+   */
+  async updateLoan(id: string, input: LoanUpdateInput, userId: string): Promise<LoanWithSchedule> {
+    const existing = await this.getLoanWithSchedule(id, userId);
+    if (!existing) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'Loan not found or access denied.', 404);
+    }
+
+    const termsChanged = TERM_FIELDS.some(field => input[field] !== undefined);
+    let schedule: AmortizationRow[] | null = null;
+    let rateBasisPoints: number | null = null;
+    let merged: LoanInput | null = null;
+    if (termsChanged) {
+      if (existing.schedule.some(row => row.actual_payment_date !== null || row.transaction_id)) {
+        throw new AppError(
+          ErrorCode.VALIDATION_ERROR,
+          'Loan terms cannot be changed after payments have been recorded.',
+          400
+        );
+      }
+      merged = {
+        ...existing,
+        ...input,
+        payment_amount: input.payment_amount ?? null,
+        next_payment_date: input.next_payment_date ?? null,
+      };
+      rateBasisPoints = rateToBasisPoints(merged.interest_rate);
+      schedule = this.buildValidatedSchedule(merged, rateBasisPoints);
+    }
+
+    const updates: string[] = [];
+    const values: any[] = [];
+    const now = Math.floor(Date.now() / 1000);
+
+    const addField = (key: keyof LoanUpdateInput, dbCol: string, transform?: (v: any) => any) => {
+      const newVal = input[key];
+      if (newVal !== undefined) {
+        updates.push(`${dbCol} = ?`);
+        values.push(transform ? transform(newVal) : newVal ?? null);
+      }
+    };
+
+    addField('direction', 'direction');
+    addField('borrower_name', 'borrower_name');
+    addField('lender_name', 'lender_name');
+    addField('description', 'description');
+    addField('loan_type', 'loan_type');
+    addField('interest_rate_type', 'interest_rate_type');
+    addField('status', 'status');
+    addField('collateral_description', 'collateral_description');
+    addField('collateral_value', 'collateral_value');
+    if (schedule && merged && rateBasisPoints !== null) {
+      updates.push(
+        'original_principal = ?', 'current_principal = ?', 'interest_rate = ?', 'original_interest_rate = ?',
+        'day_count_convention = ?',
+        'origination_date = ?', 'maturity_date = ?', 'payment_frequency = ?', 'payment_interval_months = ?',
+        'payment_amount = ?', 'next_payment_date = ?'
+      );
+      values.push(
+        merged.original_principal, merged.original_principal, rateBasisPoints,
+        input.interest_rate !== undefined ? rateBasisPoints : rateToBasisPoints(existing.original_interest_rate),
+        merged.day_count_convention ?? 'actual_365', merged.origination_date,
+        merged.maturity_date, merged.payment_frequency,
+        merged.payment_frequency === 'custom' ? merged.payment_interval_months ?? null : null,
+        merged.payment_frequency !== 'lump_sum' && merged.payment_amount != null ? merged.payment_amount : schedule[0].total_payment,
+        schedule[0].payment_date
+      );
+    }
+
+    if (updates.length === 0) {
+      return existing;
+    }
+    updates.push('updated_at = ?');
+    values.push(now);
+
+    const operations: D1PreparedStatement[] = [
+      this.db.d1Instance
+        .prepare(`UPDATE ${this.TABLE_NAME} SET ${updates.join(', ')} WHERE id = ? AND user_id = ?`)
+        .bind(...values, id, userId),
+    ];
+    if (schedule) {
+      operations.push(
+        this.db.d1Instance.prepare(`DELETE FROM ${this.SCHEDULE_TABLE_NAME} WHERE loan_id = ?`).bind(id),
+        ...this.buildScheduleInsertStatements(id, userId, schedule, now)
+      );
+    }
+
+    try {
+      await this.db.batch(operations);
+      const updated = await this.getLoanWithSchedule(id, userId);
+      if (!updated) {
+        throw new AppError(ErrorCode.DATABASE_ERROR, 'Loan was updated but could not be retrieved.', 500);
+      }
+      return updated;
+    } catch (error: unknown) {
+      if (error instanceof AppError) throw error;
+      console.error('LoanService.updateLoan error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'An unexpected error occurred while updating the loan.', 500, error);
+    }
+  }
+
+  /**
+   * Deletes a loan and its schedule. Loans with recorded payments are part of the audit
+   * trail and should be cancelled instead.
+   */
+  async deleteLoan(id: string, userId: string): Promise<boolean> {
+    const existing = await this.getLoanWithSchedule(id, userId);
+    if (!existing) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'Loan not found or access denied.', 404);
+    }
+    if (existing.schedule.some(row => row.actual_payment_date !== null || row.transaction_id)) {
+      throw new AppError(
+        ErrorCode.VALIDATION_ERROR,
+        'Loans with recorded payments cannot be deleted. Set the status to cancelled instead.',
+        400
+      );
+    }
+
+    try {
+      const result = await this.db.execute(`DELETE FROM ${this.TABLE_NAME} WHERE id = ? AND user_id = ?`, [id, userId]);
+      return result.success && ((result.meta?.changes ?? 0) > 0);
+    } catch (error: unknown) {
+      console.error('LoanService.deleteLoan error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'An unexpected error occurred while deleting the loan.', 500, error);
+    }
+  }
+
+  /**
+   * Records a payment against the earliest unpaid schedule row and, unless an existing
+   * transaction is supplied, posts the principal/interest journal entry in the same batch.
+   * Interest is settled first. A shortfall is rolled into the next scheduled payment (or a
+   * catch-up row when none remains) and tracked as arrears; principal paid beyond the
+   * scheduled amount re-amortizes the remaining rows at the existing payment amount. A supplied
+   * transaction must be posted, not yet linked to any installment, and move the cash account by
+   * the payment amount.
+   */
+  async recordPayment(loanId: string, input: RecordLoanPaymentInput, userId: string): Promise<LoanPaymentResult> {
+    const loan = await this.getLoanWithSchedule(loanId, userId);
+    if (!loan) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'Loan not found or access denied.', 404);
+    }
+    if (loan.status !== 'active') {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, `Payments cannot be recorded against a loan that is ${loan.status}.`, 400);
+    }
+    const row = loan.schedule.find(entry => entry.id === input.loan_schedule_id);
+    if (!row) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'Schedule entry not found for this loan.', 404);
+    }
+    if (row.status === 'paid') {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'This scheduled payment has already been recorded.', 409);
+    }
+    const unpaid = loan.schedule.filter(entry => entry.status !== 'paid');
+    if (unpaid[0].id !== row.id) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Payments must be applied to the earliest unpaid scheduled payment.', 400);
+    }
+    const amount = input.actual_payment_amount;
+    if (!Number.isInteger(amount) || amount <= 0) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Payment amount must be a positive integer (cents).', 400);
+    }
+
+    const interestPaid = Math.min(amount, row.interest_portion);
+    const principalPaid = amount - interestPaid;
+    if (principalPaid > loan.current_principal) {
+      throw new AppError(
+        ErrorCode.VALIDATION_ERROR,
+        'Payment exceeds the outstanding principal plus interest due.',
+        400,
+        { payoff_amount: loan.current_principal + row.interest_portion }
+      );
+    }
+    const newBalance = loan.current_principal - principalPaid;
+    const shortInterest = row.interest_portion - interestPaid;
+    const shortPrincipal = Math.max(0, row.principal_portion - principalPaid);
+    const extraPrincipal = Math.max(0, principalPaid - row.principal_portion);
+    const arrears = shortInterest + shortPrincipal;
+
+    const now = Math.floor(Date.now() / 1000);
+    const operations: D1PreparedStatement[] = [];
+    let transactionId = input.transaction_id;
+    if (transactionId) {
+      const existing = await this.transactionService.getTransactionById(transactionId, userId);
+      if (!existing || existing.entity_id !== loan.entity_id) {
+        throw new AppError(ErrorCode.NOT_FOUND, 'Transaction not found for this loan\'s entity.', 404);
+      }
+      if (existing.status === 'voided') {
+        throw new AppError(ErrorCode.VALIDATION_ERROR, 'A voided transaction cannot be linked to a loan payment.', 400);
+      }
+      if (existing.status === 'pending') {
+        throw new AppError(ErrorCode.VALIDATION_ERROR, 'Post the transaction before linking it to a loan payment.', 400);
+      }
+      // One journal entry can only settle one installment
+      const linked = await this.db.queryOne<{ id: string }>(
+        `SELECT id FROM ${this.SCHEDULE_TABLE_NAME} WHERE transaction_id = ? LIMIT 1`,
+        [transactionId]
+      );
+      if (linked) {
+        throw new AppError(ErrorCode.VALIDATION_ERROR, 'This transaction is already linked to a loan payment.', 409);
+      }
+      const cashEffect = (existing.lines ?? [])
+        .filter(line => line.entity_account_id === input.cash_entity_account_id)
+        .reduce((sum, line) => sum + (line.is_debit ? line.amount : -line.amount), 0);
+      // Cash goes out when paying a loan payable and comes in when collecting a receivable
+      const expectedEffect = loan.direction === 'payable' ? -amount : amount;
+      if (cashEffect !== expectedEffect) {
+        throw new AppError(
+          ErrorCode.VALIDATION_ERROR,
+          'The transaction\'s effect on the cash account does not match the payment amount.',
+          400,
+          { cash_effect: cashEffect, expected: expectedEffect }
+        );
+      }
+    } else {
+      transactionId = crypto.randomUUID();
+      const lines = await this.buildPaymentLines(loan, input, principalPaid, interestPaid, userId);
+      operations.push(...await this.transactionService.prepareCreateStatements(transactionId, {
+        entity_id: loan.entity_id,
+        date: input.actual_payment_date,
+        description: `Loan payment #${row.payment_number}${loan.lender_name || loan.borrower_name ? ` - ${loan.lender_name || loan.borrower_name}` : ''}`,
+        reference: input.reference ?? null,
+        status: 'posted',
+        lines,
+      }, userId));
+    }
+
+    operations.push(
+      this.db.d1Instance.prepare(`
+        UPDATE ${this.SCHEDULE_TABLE_NAME}
+        SET status = 'paid', actual_payment_date = ?, actual_payment_amount = ?, principal_portion = ?,
+            interest_portion = ?, remaining_balance = ?, transaction_id = ?, updated_at = ?
+        WHERE id = ? AND user_id = ? AND status != 'paid'
+      `).bind(input.actual_payment_date, amount, principalPaid, interestPaid, newBalance, transactionId, now, row.id, userId),
+      // A retried or concurrent request finds the row already paid and posts no second journal entry
+      this.db.prepareChangeCheck()
+    );
+
+    const remaining = unpaid.slice(1);
+    let nextPaymentDate: number | null = remaining[0]?.payment_date ?? null;
+    if (extraPrincipal > 0 && remaining.length > 0) {
+      const rateChanges = await this.db.query<Pick<DbLoanRateChange, 'effective_date' | 'interest_rate'>>(
+        `SELECT effective_date, interest_rate FROM ${this.RATE_CHANGES_TABLE_NAME} WHERE loan_id = ? AND user_id = ? ORDER BY effective_date`,
+        [loan.id, userId]
+      );
+      const rows = this.reamortizeRows(loan, rateChanges, newBalance, remaining, row.payment_number + 1);
+      operations.push(
+        this.db.d1Instance
+          .prepare(`DELETE FROM ${this.SCHEDULE_TABLE_NAME} WHERE loan_id = ? AND payment_number > ?`)
+          .bind(loan.id, row.payment_number),
+        ...this.buildScheduleInsertStatements(loan.id, userId, rows, now)
+      );
+      nextPaymentDate = rows[0]?.payment_date ?? null;
+    } else if (arrears > 0 && remaining.length > 0) {
+      operations.push(
+        this.db.d1Instance.prepare(`
+          UPDATE ${this.SCHEDULE_TABLE_NAME}
+          SET principal_portion = principal_portion + ?, interest_portion = interest_portion + ?,
+              total_payment = total_payment + ?, updated_at = ?
+          WHERE id = ?
+        `).bind(shortPrincipal, shortInterest, arrears, now, remaining[0].id)
+      );
+    } else if (arrears > 0) {
+      // Nothing left on the schedule to absorb the shortfall, so it falls due immediately.
+      operations.push(...this.buildScheduleInsertStatements(loan.id, userId, [{
+        payment_number: row.payment_number + 1,
+        payment_date: row.payment_date,
+        total_payment: newBalance + shortInterest,
+        principal_portion: newBalance,
+        interest_portion: shortInterest,
+        remaining_balance: 0,
+      }], now));
+      nextPaymentDate = row.payment_date;
+    }
+
+    const isPaidOff = newBalance === 0 && arrears === 0;
+    operations.push(
+      this.db.d1Instance.prepare(`
+        UPDATE ${this.TABLE_NAME}
+        SET current_principal = ?, arrears_amount = ?, next_payment_date = ?, status = ?, updated_at = ?
+        WHERE id = ? AND user_id = ?
+      `).bind(newBalance, arrears, isPaidOff ? null : nextPaymentDate, isPaidOff ? 'paid_off' : loan.status, now, loan.id, userId)
+    );
+
+    try {
+      await this.db.batch(operations);
+      const updated = await this.getLoanWithSchedule(loan.id, userId);
+      if (!updated) {
+        throw new AppError(ErrorCode.DATABASE_ERROR, 'Payment was recorded but the loan could not be retrieved.', 500);
+      }
+      return {
+        loan: updated,
+        transaction_id: transactionId,
+        principal_paid: principalPaid,
+        interest_paid: interestPaid,
+        arrears_amount: arrears,
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppError) throw error;
+      const current = await this.db.queryOne<{ status: string }>(
+        `SELECT status FROM ${this.SCHEDULE_TABLE_NAME} WHERE id = ? AND user_id = ?`,
+        [row.id, userId]
+      );
+      if (current?.status === 'paid') {
+        throw new AppError(ErrorCode.VALIDATION_ERROR, 'This scheduled payment has already been recorded.', 409);
+      }
+      console.error('LoanService.recordPayment error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'An unexpected error occurred while recording the loan payment.', 500, error);
+    }
+  }
+
+  /**
+   * Lists a loan's rate changes, oldest first.
+   */
+  async getRateHistory(loanId: string, userId: string): Promise<LoanRateChange[]> {
+    const loan = await this.getLoanById(loanId, userId);
+    if (!loan) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'Loan not found or access denied.', 404);
+    }
+    const sql = `
+      SELECT * FROM ${this.RATE_CHANGES_TABLE_NAME}
+      WHERE loan_id = ? AND user_id = ?
+      ORDER BY effective_date
+    `;
+    try {
+      const rows = await this.db.query<DbLoanRateChange>(sql, [loanId, userId]);
+      return rows.map(mapDbLoanRateChange);
+    } catch (error: unknown) {
+      console.error('LoanService.getRateHistory error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Failed to retrieve loan rate history.', 500, error);
+    }
+  }
+
+  /**
+   * Records a rate change on a variable-rate loan and re-amortizes the unpaid installments
+   * due on or after its effective date. Paid installments are never touched, and neither is
+   * an installment already carrying arrears. The new rate applies to the whole period of the
+   * first re-amortized installment.
+   */
+  async addRateChange(loanId: string, input: LoanRateChangeInput, userId: string): Promise<LoanWithSchedule> {
+    const loan = await this.getLoanWithSchedule(loanId, userId);
+    if (!loan) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'Loan not found or access denied.', 404);
+    }
+    if (loan.interest_rate_type !== 'variable') {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Rate changes can only be recorded on variable-rate loans.', 400);
+    }
+    const intervalMonths = paymentIntervalMonths(loan.payment_frequency, loan.payment_interval_months);
+    if (intervalMonths === null) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Rate changes are only supported for loans with periodic payments.', 400);
+    }
+
+    const indexBasisPoints = input.index_rate != null ? rateToBasisPoints(input.index_rate) : null;
+    const marginBasisPoints = input.margin != null ? rateToBasisPoints(input.margin) : null;
+    let rateBasisPoints: number;
+    if (input.interest_rate != null) {
+      rateBasisPoints = rateToBasisPoints(input.interest_rate);
+    } else if (indexBasisPoints !== null && marginBasisPoints !== null) {
+      rateBasisPoints = indexBasisPoints + marginBasisPoints;
+    } else {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Provide interest_rate or both index_rate and margin.', 400);
+    }
+    if (rateBasisPoints < 0) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Interest rate cannot be negative.', 400);
+    }
+
+    if (input.effective_date < loan.origination_date || input.effective_date > loan.maturity_date) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'The effective date must fall within the loan term.', 400);
+    }
+    const lastPaid = [...loan.schedule].reverse().find(entry => entry.status === 'paid');
+    if (lastPaid && input.effective_date <= lastPaid.payment_date) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Rate changes cannot take effect on or before the last recorded payment.', 400);
+    }
+    const history = await this.getRateHistory(loanId, userId);
+    const latest = history[history.length - 1];
+    if (latest && input.effective_date <= latest.effective_date) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'The effective date must be after the most recent rate change.', 400);
+    }
+
+    const unpaid = loan.schedule.filter(entry => entry.status !== 'paid');
+    const kept = unpaid.filter((entry, i) =>
+      entry.payment_date < input.effective_date || (i === 0 && loan.arrears_amount > 0));
+    const affected = unpaid.slice(kept.length);
+    const openingBalance = kept.length > 0 ? kept[kept.length - 1].remaining_balance : loan.current_principal;
+
+    const recalculatePayment = input.recalculate_payment !== false;
+    const rows = affected.length > 0
+      ? amortizeBalance(
+        openingBalance,
+        periodicRate(rateBasisPoints, intervalMonths),
+        affected.map(entry => entry.payment_date),
+        recalculatePayment ? null : loan.payment_amount,
+        affected[0].payment_number
+      )
+      : [];
+    if (rows.slice(0, -1).some(row => row.principal_portion < 0)) {
+      throw new AppError(
+        ErrorCode.VALIDATION_ERROR,
+        'The current payment does not cover interest at the new rate. Recalculate the payment instead.',
+        400
+      );
+    }
+    const paymentAmount = recalculatePayment && rows.length > 0 ? rows[0].total_payment : loan.payment_amount;
+
+    const now = Math.floor(Date.now() / 1000);
+    const operations: D1PreparedStatement[] = [
+      this.db.d1Instance.prepare(`
+        INSERT INTO ${this.RATE_CHANGES_TABLE_NAME} (
+          id, loan_id, user_id, effective_date, index_name, index_rate, margin, interest_rate, note, created_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).bind(
+        crypto.randomUUID(), loanId, userId, input.effective_date, input.index_name || null,
+        indexBasisPoints, marginBasisPoints, rateBasisPoints, input.note || null, now
+      ),
+    ];
+    if (affected.length > 0) {
+      operations.push(
+        this.db.d1Instance
+          .prepare(`DELETE FROM ${this.SCHEDULE_TABLE_NAME} WHERE loan_id = ? AND payment_number >= ?`)
+          .bind(loanId, affected[0].payment_number),
+        ...this.buildScheduleInsertStatements(loanId, userId, rows, now)
+      );
+    }
+    operations.push(
+      this.db.d1Instance
+        .prepare(`UPDATE ${this.TABLE_NAME} SET interest_rate = ?, payment_amount = ?, updated_at = ? WHERE id = ? AND user_id = ?`)
+        .bind(rateBasisPoints, paymentAmount, now, loanId, userId)
+    );
+
+    try {
+      await this.db.batch(operations);
+      const updated = await this.getLoanWithSchedule(loanId, userId);
+      if (!updated) {
+        throw new AppError(ErrorCode.DATABASE_ERROR, 'Rate change was recorded but the loan could not be retrieved.', 500);
+      }
+      return updated;
+    } catch (error: unknown) {
+      if (error instanceof AppError) throw error;
+      console.error('LoanService.addRateChange error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'An unexpected error occurred while recording the rate change.', 500, error);
+    }
+  }
+
+  /**
+   * Checks the loan terms and builds the schedule. Every payment except the last must
+   * cover the interest accrued in its period.
+   */
+  private buildValidatedSchedule(terms: LoanInput, rateBasisPoints: number): AmortizationRow[] {
+    if (terms.original_principal <= 0) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Original principal must be greater than zero.', 400);
+    }
+    if (rateBasisPoints < 0) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Interest rate cannot be negative.', 400);
+    }
+    if (terms.maturity_date <= terms.origination_date) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Maturity date must be after the origination date.', 400);
+    }
+    if (terms.payment_frequency === 'custom' && !terms.payment_interval_months) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'A custom payment frequency requires payment_interval_months.', 400);
+    }
+    if (terms.next_payment_date != null && terms.payment_frequency !== 'lump_sum'
+      && (terms.next_payment_date <= terms.origination_date || terms.next_payment_date > terms.maturity_date)) {
+      throw new AppError(
+        ErrorCode.VALIDATION_ERROR,
+        'The first payment date must fall after origination and on or before maturity.',
+        400
+      );
+    }
+    if (terms.payment_amount != null && terms.payment_amount <= 0) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Payment amount must be greater than zero.', 400);
+    }
+
+    const schedule = buildAmortizationSchedule({
+      principal: terms.original_principal,
+      annualRateBasisPoints: rateBasisPoints,
+      originationDate: terms.origination_date,
+      maturityDate: terms.maturity_date,
+      frequency: terms.payment_frequency,
+      intervalMonths: terms.payment_interval_months,
+      firstPaymentDate: terms.next_payment_date,
+      paymentAmount: terms.payment_frequency === 'lump_sum' ? null : terms.payment_amount,
+      dayCountConvention: terms.day_count_convention,
+    });
+    if (schedule.slice(0, -1).some(row => row.principal_portion < 0)) {
+      throw new AppError(
+        ErrorCode.VALIDATION_ERROR,
+        'The scheduled payment does not cover the interest due each period.',
+        400
+      );
+    }
+    return schedule;
+  }
+
+  /**
+   * Journal lines for a payment. Payables debit the liability and interest expense and credit
+   * cash; receivables debit cash and credit the note and interest income. Zero amounts are omitted.
+   */
+  private async buildPaymentLines(
+    loan: Loan,
+    input: RecordLoanPaymentInput,
+    principalPaid: number,
+    interestPaid: number,
+    userId: string
+  ): Promise<TransactionLineInput[]> {
+    const codes = PAYMENT_ACCOUNT_CODES[loan.direction];
+    const isPayable = loan.direction === 'payable';
+    const lines: TransactionLineInput[] = [];
+    if (principalPaid > 0) {
+      const principalAccountId = input.principal_entity_account_id
+        ?? await this.findEntityAccountIdByCode(loan.entity_id, codes.principal, 'principal_entity_account_id', userId);
+      lines.push({ entity_account_id: principalAccountId, amount: principalPaid, is_debit: isPayable, memo: 'Principal' });
+    }
+    if (interestPaid > 0) {
+      const interestAccountId = input.interest_entity_account_id
+        ?? await this.findEntityAccountIdByCode(loan.entity_id, codes.interest, 'interest_entity_account_id', userId);
+      lines.push({ entity_account_id: interestAccountId, amount: interestPaid, is_debit: isPayable, memo: 'Interest' });
+    }
+    lines.push({ entity_account_id: input.cash_entity_account_id, amount: principalPaid + interestPaid, is_debit: !isPayable });
+    return lines;
+  }
+
+  private async findEntityAccountIdByCode(entityId: string, code: string, overrideField: string, userId: string): Promise<string> {
+    const id = await this.entityAccountService.findActiveEntityAccountIdByCode(entityId, code, userId);
+    if (!id) {
+      throw new AppError(
+        ErrorCode.VALIDATION_ERROR,
+        `Account ${code} is not linked to this entity. Link it or supply ${overrideField}.`,
+        400
+      );
+    }
+    return id;
+  }
+
+  /**
+   * Re-amortizes `balance` over the dates of the remaining unpaid rows, each at the rate in
+   * effect on its date and that rate's payment amount, which shortens the term when principal
+   * was prepaid.
+   */
+  private reamortizeRows(
+    loan: Loan,
+    rateChanges: Pick<DbLoanRateChange, 'effective_date' | 'interest_rate'>[],
+    balance: number,
+    remaining: LoanScheduleEntry[],
+    firstPaymentNumber: number
+  ): AmortizationRow[] {
+    const intervalMonths = paymentIntervalMonths(loan.payment_frequency, loan.payment_interval_months);
+    if (intervalMonths === null) return [];
+    // Installments are repriced in runs sharing the rate in effect on their payment date, as
+    // addRateChange splits them, so a change that is not yet effective keeps its own installments
+    const rows: AmortizationRow[] = [];
+    let openingBalance = balance;
+    let start = 0;
+    while (start < remaining.length && openingBalance > 0) {
+      const rate = rateInEffect(loan, rateChanges, remaining[start].payment_date);
+      let end = start + 1;
+      while (end < remaining.length && rateInEffect(loan, rateChanges, remaining[end].payment_date) === rate) end++;
+      const isLast = end === remaining.length;
+      // loans.payment_amount follows the latest rate change; earlier runs keep their scheduled payment
+      const payment = isLast ? loan.payment_amount : remaining[start].total_payment;
+      const run = amortizeBalance(
+        openingBalance,
+        periodicRate(rate, intervalMonths),
+        remaining.slice(start, end).map(entry => entry.payment_date),
+        payment,
+        firstPaymentNumber + rows.length,
+        isLast
+      );
+      rows.push(...run);
+      openingBalance = run.length > 0 ? run[run.length - 1].remaining_balance : openingBalance;
+      start = end;
+    }
+    return rows;
+  }
+
+  private buildScheduleInsertStatements(
+    loanId: string,
+    userId: string,
+    rows: AmortizationRow[],
+    now: number
+  ): D1PreparedStatement[] {
+    const sql = `
+      INSERT INTO ${this.SCHEDULE_TABLE_NAME} (
+        id, loan_id, user_id, payment_number, payment_date, total_payment, principal_portion,
+        interest_portion, remaining_balance, status, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'scheduled', ?, ?)
+    `;
+    return rows.map(row =>
+      this.db.d1Instance.prepare(sql).bind(
+        crypto.randomUUID(), loanId, userId, row.payment_number, row.payment_date, row.total_payment,
+        row.principal_portion, row.interest_portion, row.remaining_balance, now, now
+      )
+    );
+  }
+}
+
+export function createLoanService(d1: D1Database): LoanService {
+  return new LoanService(d1);
+}
@@ -0,0 +1,229 @@
+// src/lib/services/ownership-service.ts
+import type { D1Database } from '@cloudflare/workers-types';
+import { Database, createDbClient } from '@db/db';
+import type { DbEntityOwnership } from '@db/schema';
+import type {
+  EntityOwnership,
+  EntityOwnershipInput,
+  EntityOwnershipSummary,
+  OwnershipStake,
+} from '../../types/ownership';
+import type { Entity } from '../../types/entity';
+import { AppError, ErrorCode } from '@utils/errors';
+import { formatDateForInput } from '@utils/date';
+import { FULL_OWNERSHIP_BPS, findOverallocation, ownerKey, stakesAsOf } from '@lib/accounting/ownership';
+import { createEntityService, EntityService } from './entity-service';
+
+type OwnershipRow = DbEntityOwnership & { entity_name: string; owner_entity_name: string | null };
+
+function mapDbEntityOwnership(dbRow: DbEntityOwnership): EntityOwnership {
+  return {
+    id: dbRow.id,
+    user_id: dbRow.user_id,
+    entity_id: dbRow.entity_id,
+    owner_entity_id: dbRow.owner_entity_id ?? null,
+    owner_name: dbRow.owner_name ?? null,
+    ownership_bps: dbRow.ownership_bps,
+    effective_date: dbRow.effective_date,
+    note: dbRow.note ?? null,
+    created_at: dbRow.created_at,
+    updated_at: dbRow.updated_at,
+  };
+}
+
+function toStake(row: OwnershipRow): OwnershipStake {
+  return {
+    ownership_id: row.id,
+    entity_id: row.entity_id,
+    entity_name: row.entity_name,
+    owner_entity_id: row.owner_entity_id ?? null,
+    owner_name: row.owner_entity_name ?? row.owner_name ?? '',
+    ownership_bps: row.ownership_bps,
+    effective_date: row.effective_date,
+  };
+}
+
+const byStakeSize = (a: OwnershipStake, b: OwnershipStake) =>
+  b.ownership_bps - a.ownership_bps || a.owner_name.localeCompare(b.owner_name);
+
+export class OwnershipService {
+  private db: Database;
+  private entityService: EntityService;
+  private TABLE_NAME = 'entity_ownerships';
+
+  constructor(d1: D1Database) {
+    this.db = createDbClient(d1);
+    this.entityService = createEntityService(d1);
+  }
+
+  /**
+   * Every ownership record in the given entities, oldest first. Callers are responsible for
+   * verifying ownership of the entities.
+   */
+  async getOwnershipRecords(entityIds: string[], userId: string): Promise<EntityOwnership[]> {
+    if (entityIds.length === 0) return [];
+    const sql = `
+      SELECT * FROM ${this.TABLE_NAME}
+      WHERE user_id = ? AND entity_id IN (${entityIds.map(() => '?').join(', ')})
+      ORDER BY effective_date, id
+    `;
+    try {
+      const rows = await this.db.query<DbEntityOwnership>(sql, [userId, ...entityIds]);
+      return rows.map(mapDbEntityOwnership);
+    } catch (error: unknown) {
+      console.error('OwnershipService.getOwnershipRecords error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Failed to retrieve ownership records.', 500, error);
+    }
+  }
+
+  /**
+   * Who owns an entity and what it owns on `asOfDate`, largest stakes first, along with the
+   * entity's full ownership history.
+   */
+  async getOwnershipSummary(entityId: string, asOfDate: number, userId: string): Promise<EntityOwnershipSummary> {
+    await this.getEntityOrThrow(entityId, userId);
+
+    const sql = `
+      SELECT o.*, e.name AS entity_name, oe.name AS owner_entity_name
+      FROM ${this.TABLE_NAME} o
+      JOIN entities e ON e.id = o.entity_id
+      LEFT JOIN entities oe ON oe.id = o.owner_entity_id
+      WHERE o.user_id = ? AND (o.entity_id = ? OR o.owner_entity_id = ?)
+      ORDER BY o.effective_date, o.id
+    `;
+    let rows: OwnershipRow[];
+    try {
+      rows = await this.db.query<OwnershipRow>(sql, [userId, entityId, entityId]);
+    } catch (error: unknown) {
+      console.error('OwnershipService.getOwnershipSummary error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Failed to retrieve ownership.', 500, error);
+    }
+
+    const records = rows.filter(row => row.entity_id === entityId);
+    const owners = stakesAsOf(records, asOfDate).map(toStake).sort(byStakeSize);
+    const holdings = stakesAsOf(rows.filter(row => row.owner_entity_id === entityId), asOfDate)
+      .map(toStake)
+      .sort((a, b) => a.entity_name.localeCompare(b.entity_name));
+    const totalOwned = owners.reduce((sum, stake) => sum + stake.ownership_bps, 0);
+    return {
+      entity_id: entityId,
+      as_of_date: asOfDate,
+      owners,
+      total_owned_bps: totalOwned,
+      unassigned_bps: Math.max(FULL_OWNERSHIP_BPS - totalOwned, 0),
+      holdings,
+      history: records.map(mapDbEntityOwnership),
+    };
+  }
+
+  /**
+   * Records an owner's stake in an entity from `effective_date` on. A stake of 0 ends the
+   * owner's interest. Rejected when the entity's stakes would add up to more than 100% on
+   * any date.
+   */
+  async recordOwnership(entityId: string, input: EntityOwnershipInput, userId: string): Promise<EntityOwnership> {
+    const entity = await this.getEntityOrThrow(entityId, userId);
+
+    const ownerName = input.owner_name?.trim() || null;
+    const ownerEntityId = input.owner_entity_id || null;
+    if ((ownerEntityId === null) === (ownerName === null)) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Provide either owner_entity_id or owner_name.', 400);
+    }
+    if (ownerEntityId === entityId) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'An entity cannot own itself.', 400);
+    }
+    if (ownerEntityId && !(await this.entityService.getEntityById(ownerEntityId, userId))) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Owner entity does not exist or does not belong to the user.', 400);
+    }
+    if (!Number.isInteger(input.ownership_bps) || input.ownership_bps < 0 || input.ownership_bps > FULL_OWNERSHIP_BPS) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Ownership must be a whole number of basis points from 0 to 10000.', 400);
+    }
+
+    const existing = await this.getOwnershipRecords([entityId], userId);
+    const key = ownerKey({ owner_entity_id: ownerEntityId, owner_name: ownerName });
+    if (existing.some(record => ownerKey(record) === key && record.effective_date === input.effective_date)) {
+      throw new AppError(
+        ErrorCode.VALIDATION_ERROR,
+        'This owner already has a record on that date. Delete it first to change it.',
+        409
+      );
+    }
+    this.assertNotOverallocated(entity, [
+      ...existing,
+      { entity_id: entityId, owner_entity_id: ownerEntityId, owner_name: ownerName, ownership_bps: input.ownership_bps, effective_date: input.effective_date },
+    ]);
+
+    const id = crypto.randomUUID();
+    const now = Math.floor(Date.now() / 1000);
+    const sql = `
+      INSERT INTO ${this.TABLE_NAME} (
+        id, user_id, entity_id, owner_entity_id, owner_name, ownership_bps, effective_date, note, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `;
+    try {
+      const result = await this.db.execute(sql, [
+        id, userId, entityId, ownerEntityId, ownerName, input.ownership_bps, input.effective_date, input.note || null, now, now,
+      ]);
+      if (!result.success) {
+        throw new AppError(ErrorCode.DATABASE_ERROR, result.error || 'Failed to record ownership.', 500);
+      }
+      const created = await this.db.queryOne<DbEntityOwnership>(`SELECT * FROM ${this.TABLE_NAME} WHERE id = ?`, [id]);
+      if (!created) {
+        throw new AppError(ErrorCode.DATABASE_ERROR, 'Ownership was recorded but could not be retrieved.', 500);
+      }
+      return mapDbEntityOwnership(created);
+    } catch (error: unknown) {
+      if (error instanceof AppError) throw error;
+      console.error('OwnershipService.recordOwnership error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'An unexpected error occurred while recording ownership.', 500, error);
+    }
+  }
+
+  /**
+   * Deletes an ownership record. Rejected when removing it would leave the entity's stakes
+   * above 100%, as when it is the record that ended an earlier stake.
+   */
+  async deleteOwnershipRecord(entityId: string, ownershipId: string, userId: string): Promise<boolean> {
+    const entity = await this.getEntityOrThrow(entityId, userId);
+    const existing = await this.getOwnershipRecords([entityId], userId);
+    if (!existing.some(record => record.id === ownershipId)) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'Ownership record not found or access denied.', 404);
+    }
+    this.assertNotOverallocated(entity, existing.filter(record => record.id !== ownershipId));
+
+    try {
+      const result = await this.db.execute(
+        `DELETE FROM ${this.TABLE_NAME} WHERE id = ? AND entity_id = ? AND user_id = ?`,
+        [ownershipId, entityId, userId]
+      );
+      return result.success && ((result.meta?.changes ?? 0) > 0);
+    } catch (error: unknown) {
+      console.error('OwnershipService.deleteOwnershipRecord error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'An unexpected error occurred while deleting the ownership record.', 500, error);
+    }
+  }
+
+  private assertNotOverallocated(entity: Entity, records: Parameters<typeof findOverallocation>[0]): void {
+    const overallocation = findOverallocation(records);
+    if (overallocation) {
+      throw new AppError(
+        ErrorCode.VALIDATION_ERROR,
+        `Stakes in ${entity.name} would add up to ${(overallocation.total_bps / 100).toFixed(2)}% on ${formatDateForInput(overallocation.date * 1000)}.`,
+        400,
+        overallocation
+      );
+    }
+  }
+
+  private async getEntityOrThrow(entityId: string, userId: string): Promise<Entity> {
+    const entity = await this.entityService.getEntityById(entityId, userId);
+    if (!entity) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'Entity not found or access denied.', 404);
+    }
+    return entity;
+  }
+}
+
+export function createOwnershipService(d1: D1Database): OwnershipService {
+  return new OwnershipService(d1);
+}
@@ -0,0 +1,541 @@
+// src/lib/services/partner-service.ts
+import type { D1Database, D1PreparedStatement } from '@cloudflare/workers-types';
+import { Database, createDbClient } from '@db/db';
+import type { DbDistributionWaterfall, DbPartner, DbPartnerCapitalEntry } from '@db/schema';
+import type {
+  CapitalContributionInput,
+  DistributionInput,
+  IncomeAllocationInput,
+  Partner,
+  PartnerCapitalAccount,
+  PartnerCapitalEntry,
+  PartnerCapitalReport,
+  PartnerInput,
+  WaterfallDistribution,
+  WaterfallTerms,
+  WaterfallTier,
+} from '../../types/partner';
+import type { Entity } from '../../types/entity';
+import { AppError, ErrorCode } from '@utils/errors';
+import { FULL_OWNERSHIP_BPS } from '@lib/accounting/ownership';
+import { allocateProRata, capitalPositions, runWaterfall } from '@lib/accounting/waterfall';
+import { createEntityService, EntityService } from './entity-service';
+import { createEntityAccountService, EntityAccountService } from './entity-account-service';
+import { createTransactionService, TransactionService } from './transaction-service';
+import { createReportService, ReportService } from './report-service';
+
+const CAPITAL_ACCOUNT_CODE = '3010';
+const DRAWS_ACCOUNT_CODE = '3020';
+
+const TIER_LABELS: Record<WaterfallTier, string> = {
+  return_of_capital: 'Return of capital',
+  preferred_return: 'Preferred return',
+  catch_up: 'Catch-up',
+  promote: 'Promote',
+};
+
+function mapDbPartner(dbRow: DbPartner): Partner {
+  return {
+    id: dbRow.id,
+    user_id: dbRow.user_id,
+    entity_id: dbRow.entity_id,
+    name: dbRow.name,
+    role: dbRow.role,
+    ownership_bps: dbRow.ownership_bps,
+    is_active: dbRow.is_active === 1,
+    created_at: dbRow.created_at,
+    updated_at: dbRow.updated_at,
+  };
+}
+
+function mapDbPartnerCapitalEntry(dbRow: DbPartnerCapitalEntry): PartnerCapitalEntry {
+  return {
+    id: dbRow.id,
+    user_id: dbRow.user_id,
+    entity_id: dbRow.entity_id,
+    partner_id: dbRow.partner_id,
+    kind: dbRow.kind,
+    date: dbRow.date,
+    amount: dbRow.amount,
+    tier: dbRow.tier ?? null,
+    transaction_id: dbRow.transaction_id ?? null,
+    period_start: dbRow.period_start ?? null,
+    period_end: dbRow.period_end ?? null,
+    description: dbRow.description ?? null,
+    created_at: dbRow.created_at,
+  };
+}
+
+export class PartnerService {
+  private db: Database;
+  private entityService: EntityService;
+  private entityAccountService: EntityAccountService;
+  private transactionService: TransactionService;
+  private reportService: ReportService;
+  private TABLE_NAME = 'partners';
+  private ENTRIES_TABLE_NAME = 'partner_capital_entries';
+  private WATERFALLS_TABLE_NAME = 'distribution_waterfalls';
+
+  constructor(d1: D1Database) {
+    this.db = createDbClient(d1);
+    this.entityService = createEntityService(d1);
+    this.entityAccountService = createEntityAccountService(d1);
+    this.transactionService = createTransactionService(d1);
+    this.reportService = createReportService(d1);
+  }
+
+  /**
+   * Lists an entity's partners by name.
+   */
+  async listPartners(entityId: string, userId: string): Promise<Partner[]> {
+    await this.getEntityOrThrow(entityId, userId);
+    try {
+      const rows = await this.db.query<DbPartner>(
+        `SELECT * FROM ${this.TABLE_NAME} WHERE entity_id = ? AND user_id = ? ORDER BY name`,
+        [entityId, userId]
+      );
+      return rows.map(mapDbPartner);
+    } catch (error: unknown) {
+      console.error('PartnerService.listPartners error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Failed to retrieve partners.', 500, error);
+    }
+  }
+
+  /**
+   * Adds a partner to an entity. Active partners' percentage interests cannot exceed 100%.
+   */
+  async createPartner(entityId: string, input: PartnerInput, userId: string): Promise<Partner> {
+    const partners = await this.listPartners(entityId, userId);
+    const name = input.name.trim();
+    this.assertPartnerFits(partners, null, { ...input, name });
+
+    const id = crypto.randomUUID();
+    const now = Math.floor(Date.now() / 1000);
+    try {
+      const result = await this.db.execute(
+        `INSERT INTO ${this.TABLE_NAME} (id, user_id, entity_id, name, role, ownership_bps, is_active, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [id, userId, entityId, name, input.role, input.ownership_bps, input.is_active === false ? 0 : 1, now, now]
+      );
+      if (!result.success) {
+        throw new AppError(ErrorCode.DATABASE_ERROR, result.error || 'Failed to create partner.', 500);
+      }
+      return await this.getPartnerOrThrow(entityId, id, userId);
+    } catch (error: unknown) {
+      if (error instanceof AppError) throw error;
+      console.error('PartnerService.createPartner error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'An unexpected error occurred while creating the partner.', 500, error);
+    }
+  }
+
+  /**
+   * Updates a partner's name, role, percentage interest or active flag.
+   */
+  async updatePartner(entityId: string, partnerId: string, input: Partial<PartnerInput>, userId: string): Promise<Partner> {
+    const partners = await this.listPartners(entityId, userId);
+    const existing = partners.find(partner => partner.id === partnerId);
+    if (!existing) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'Partner not found or access denied.', 404);
+    }
+    const updated: PartnerInput = {
+      name: input.name?.trim() ?? existing.name,
+      role: input.role ?? existing.role,
+      ownership_bps: input.ownership_bps ?? existing.ownership_bps,
+      is_active: input.is_active ?? existing.is_active,
+    };
+    this.assertPartnerFits(partners, partnerId, updated);
+
+    try {
+      const result = await this.db.execute(
+        `UPDATE ${this.TABLE_NAME} SET name = ?, role = ?, ownership_bps = ?, is_active = ?, updated_at = ?
+         WHERE id = ? AND entity_id = ? AND user_id = ?`,
+        [updated.name, updated.role, updated.ownership_bps, updated.is_active ? 1 : 0, Math.floor(Date.now() / 1000), partnerId, entityId, userId]
+      );
+      if (!result.success) {
+        throw new AppError(ErrorCode.DATABASE_ERROR, result.error || 'Failed to update partner.', 500);
+      }
+      return await this.getPartnerOrThrow(entityId, partnerId, userId);
+    } catch (error: unknown) {
+      if (error instanceof AppError) throw error;
+      console.error('PartnerService.updatePartner error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'An unexpected error occurred while updating the partner.', 500, error);
+    }
+  }
+
+  /**
+   * Every partner's capital account as of a date, with what the waterfall still owes each
+   * of them in return of capital and preferred return.
+   */
+  async getCapitalAccounts(entityId: string, asOfDate: number, userId: string): Promise<PartnerCapitalReport> {
+    const partners = await this.listPartners(entityId, userId);
+    const terms = await this.getWaterfallTerms(entityId, userId);
+    const entries = (await this.getCapitalEntries(entityId, userId)).filter(entry => entry.date <= asOfDate);
+    const positions = capitalPositions(partners, entries, asOfDate, terms?.preferred_return_bps ?? 0);
+
+    const sumOf = (partnerId: string, kind: PartnerCapitalEntry['kind']) => entries
+      .filter(entry => entry.partner_id === partnerId && entry.kind === kind)
+      .reduce((sum, entry) => sum + entry.amount, 0);
+    const accounts: PartnerCapitalAccount[] = partners.map(partner => {
+      const contributions = sumOf(partner.id, 'contribution');
+      const distributions = sumOf(partner.id, 'distribution');
+      const allocatedIncome = sumOf(partner.id, 'income_allocation');
+      const position = positions.get(partner.id)!;
+      return {
+        partner_id: partner.id,
+        name: partner.name,
+        role: partner.role,
+        ownership_bps: partner.ownership_bps,
+        contributions,
+        distributions,
+        allocated_income: allocatedIncome,
+        balance: contributions + allocatedIncome - distributions,
+        unreturned_capital: position.unreturned_capital,
+        unpaid_preferred_return: terms ? position.unpaid_preferred_return : 0,
+      };
+    });
+
+    const total = (key: keyof PartnerCapitalReport['totals']) => accounts.reduce((sum, account) => sum + account[key], 0);
+    return {
+      entity_id: entityId,
+      as_of_date: asOfDate,
+      partners: accounts,
+      totals: {
+        contributions: total('contributions'),
+        distributions: total('distributions'),
+        allocated_income: total('allocated_income'),
+        balance: total('balance'),
+        unreturned_capital: total('unreturned_capital'),
+        unpaid_preferred_return: total('unpaid_preferred_return'),
+      },
+    };
+  }
+
+  /**
+   * Records a partner's capital contribution and posts it: debit the cash account, credit
+   * 3010 Capital.
+   */
+  async recordContribution(entityId: string, partnerId: string, input: CapitalContributionInput, userId: string): Promise<PartnerCapitalEntry> {
+    const entity = await this.getEntityOrThrow(entityId, userId);
+    const partner = await this.getPartnerOrThrow(entityId, partnerId, userId);
+    if (!Number.isInteger(input.amount) || input.amount <= 0) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Amount must be a positive integer (cents).', 400);
+    }
+    const capitalAccountId = await this.findEquityAccountId(entity, CAPITAL_ACCOUNT_CODE, userId);
+    if (input.cash_entity_account_id === capitalAccountId) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'The cash account must differ from the capital account.', 400);
+    }
+
+    const transactionId = crypto.randomUUID();
+    const entryId = crypto.randomUUID();
+    const description = input.description || `Capital contribution - ${partner.name}`;
+    const operations: D1PreparedStatement[] = [
+      ...await this.transactionService.prepareCreateStatements(transactionId, {
+        entity_id: entityId,
+        date: input.date,
+        description,
+        status: 'posted',
+        lines: [
+          { entity_account_id: input.cash_entity_account_id, amount: input.amount, is_debit: true, memo: partner.name },
+          { entity_account_id: capitalAccountId, amount: input.amount, is_debit: false, memo: partner.name },
+        ],
+      }, userId),
+      this.prepareEntryInsert(entryId, userId, entityId, partnerId, 'contribution', input.date, input.amount, null, transactionId, null, null, description),
+    ];
+
+    try {
+      await this.db.batch(operations);
+      return await this.getCapitalEntryOrThrow(entryId);
+    } catch (error: unknown) {
+      if (error instanceof AppError) throw error;
+      console.error('PartnerService.recordContribution error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'An unexpected error occurred while recording the contribution.', 500, error);
+    }
+  }
+
+  /**
+   * Allocates the entity's net income (or loss) for a period to the active partners by their
+   * percentage interests, which must total 100%. Each period can be allocated only once.
+   * The ledger already carries the income in equity, so no journal entry is made.
+   */
+  async allocateIncome(entityId: string, input: IncomeAllocationInput, userId: string): Promise<PartnerCapitalEntry[]> {
+    if (input.end_date < input.start_date) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'The end date must be on or after the start date.', 400);
+    }
+    const partners = (await this.listPartners(entityId, userId)).filter(partner => partner.is_active);
+    const totalBps = partners.reduce((sum, partner) => sum + partner.ownership_bps, 0);
+    if (totalBps !== FULL_OWNERSHIP_BPS) {
+      throw new AppError(
+        ErrorCode.VALIDATION_ERROR,
+        `Active partners' percentage interests add up to ${(totalBps / 100).toFixed(2)}%; they must total 100% to allocate income.`,
+        400
+      );
+    }
+    const overlapping = (await this.getCapitalEntries(entityId, userId)).find(entry =>
+      entry.kind === 'income_allocation' && entry.period_start! <= input.end_date && entry.period_end! >= input.start_date);
+    if (overlapping) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Income for part of this period has already been allocated.', 409, {
+        period_start: overlapping.period_start,
+        period_end: overlapping.period_end,
+      });
+    }
+
+    const statement = await this.reportService.getIncomeStatement(entityId, input.start_date, input.end_date, 'none', userId);
+    const shares = allocateProRata(statement.net_income[0], partners.map(partner => partner.ownership_bps));
+    const entries = partners
+      .map((partner, index) => ({ partner, amount: shares[index], id: crypto.randomUUID() }))
+      .filter(({ amount }) => amount !== 0);
+    if (entries.length === 0) return [];
+
+    try {
+      await this.db.batch(entries.map(({ partner, amount, id }) => this.prepareEntryInsert(
+        id, userId, entityId, partner.id, 'income_allocation', input.end_date, amount, null, null, input.start_date, input.end_date, null
+      )));
+      return await Promise.all(entries.map(({ id }) => this.getCapitalEntryOrThrow(id)));
+    } catch (error: unknown) {
+      if (error instanceof AppError) throw error;
+      console.error('PartnerService.allocateIncome error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'An unexpected error occurred while allocating income.', 500, error);
+    }
+  }
+
+  async getWaterfallTerms(entityId: string, userId: string): Promise<WaterfallTerms | null> {
+    try {
+      const row = await this.db.queryOne<DbDistributionWaterfall>(
+        `SELECT * FROM ${this.WATERFALLS_TABLE_NAME} WHERE entity_id = ? AND user_id = ?`,
+        [entityId, userId]
+      );
+      return row
+        ? { preferred_return_bps: row.preferred_return_bps, catch_up_bps: row.catch_up_bps, promote_bps: row.promote_bps }
+        : null;
+    } catch (error: unknown) {
+      console.error('PartnerService.getWaterfallTerms error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Failed to retrieve waterfall terms.', 500, error);
+    }
+  }
+
+  /**
+   * Sets the entity's waterfall terms. A catch-up must pay the sponsors a larger share than
+   * the promote, or it would never catch them up.
+   */
+  async setWaterfallTerms(entityId: string, terms: WaterfallTerms, userId: string): Promise<WaterfallTerms> {
+    await this.getEntityOrThrow(entityId, userId);
+    if (terms.catch_up_bps !== 0 && terms.catch_up_bps <= terms.promote_bps) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'The catch-up share must be 0 or greater than the promote share.', 400);
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    try {
+      const result = await this.db.execute(
+        `INSERT INTO ${this.WATERFALLS_TABLE_NAME} (entity_id, user_id, preferred_return_bps, catch_up_bps, promote_bps, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT(entity_id) DO UPDATE SET
+           preferred_return_bps = excluded.preferred_return_bps, catch_up_bps = excluded.catch_up_bps,
+           promote_bps = excluded.promote_bps, updated_at = excluded.updated_at`,
+        [entityId, userId, terms.preferred_return_bps, terms.catch_up_bps, terms.promote_bps, now, now]
+      );
+      if (!result.success) {
+        throw new AppError(ErrorCode.DATABASE_ERROR, result.error || 'Failed to save waterfall terms.', 500);
+      }
+      return terms;
+    } catch (error: unknown) {
+      if (error instanceof AppError) throw error;
+      console.error('PartnerService.setWaterfallTerms error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'An unexpected error occurred while saving waterfall terms.', 500, error);
+    }
+  }
+
+  /**
+   * Runs a distribution through the entity's waterfall without posting anything.
+   */
+  async calculateDistribution(entityId: string, input: Pick<DistributionInput, 'date' | 'amount'>, userId: string): Promise<WaterfallDistribution> {
+    const terms = await this.getWaterfallTerms(entityId, userId);
+    if (!terms) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Set up the waterfall terms for this entity first.', 400);
+    }
+    if (!Number.isInteger(input.amount) || input.amount <= 0) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Amount must be a positive integer (cents).', 400);
+    }
+    const partners = (await this.listPartners(entityId, userId)).filter(partner => partner.is_active);
+    const entries = await this.getCapitalEntries(entityId, userId);
+    const later = entries.find(entry => entry.kind === 'distribution' && entry.date > input.date);
+    if (later) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'A distribution has already been made after this date.', 400, { date: later.date });
+    }
+    // Profit tiers are split by capital contributed, so an inactive partner's capital cannot carry them
+    const activeIds = new Set(partners.map(partner => partner.id));
+    if (!entries.some(entry => entry.kind === 'contribution' && entry.date <= input.date && activeIds.has(entry.partner_id))) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'No active partner has contributed capital yet.', 400);
+    }
+
+    const { tiers, allocations } = runWaterfall(input.amount, input.date, terms, partners, entries);
+    const allocated = allocations.reduce((sum, allocation) => sum + allocation.amount, 0);
+    if (allocated !== input.amount) {
+      throw new AppError(
+        ErrorCode.VALIDATION_ERROR,
+        'The waterfall could not allocate the whole distribution to the active partners.',
+        400,
+        { amount: input.amount, allocated }
+      );
+    }
+    return {
+      entity_id: entityId,
+      date: input.date,
+      amount: input.amount,
+      terms,
+      tiers,
+      allocations,
+      by_partner: partners
+        .map(partner => ({
+          partner_id: partner.id,
+          name: partner.name,
+          amount: allocations.filter(allocation => allocation.partner_id === partner.id).reduce((sum, allocation) => sum + allocation.amount, 0),
+        }))
+        .filter(share => share.amount > 0),
+      transaction_id: null,
+    };
+  }
+
+  /**
+   * Runs a distribution through the waterfall and posts it as one journal entry: a debit to
+   * 3020 Draws for each partner and tier, and a credit to the cash account for the total.
+   */
+  async postDistribution(entityId: string, input: DistributionInput, userId: string): Promise<WaterfallDistribution> {
+    const entity = await this.getEntityOrThrow(entityId, userId);
+    const distribution = await this.calculateDistribution(entityId, input, userId);
+    const drawsAccountId = await this.findEquityAccountId(entity, DRAWS_ACCOUNT_CODE, userId);
+    if (input.cash_entity_account_id === drawsAccountId) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'The cash account must differ from the draws account.', 400);
+    }
+
+    const names = new Map(distribution.by_partner.map(share => [share.partner_id, share.name]));
+    const transactionId = crypto.randomUUID();
+    const description = input.description || 'Partner distribution';
+    const operations: D1PreparedStatement[] = [
+      ...await this.transactionService.prepareCreateStatements(transactionId, {
+        entity_id: entityId,
+        date: input.date,
+        description,
+        status: 'posted',
+        lines: [
+          ...distribution.allocations.map(allocation => ({
+            entity_account_id: drawsAccountId,
+            amount: allocation.amount,
+            is_debit: true,
+            memo: `${names.get(allocation.partner_id)} - ${TIER_LABELS[allocation.tier]}`,
+          })),
+          { entity_account_id: input.cash_entity_account_id, amount: input.amount, is_debit: false },
+        ],
+      }, userId),
+      ...distribution.allocations.map(allocation => this.prepareEntryInsert(
+        crypto.randomUUID(), userId, entityId, allocation.partner_id, 'distribution', input.date, allocation.amount,
+        allocation.tier, transactionId, null, null, description
+      )),
+    ];
+
+    try {
+      await this.db.batch(operations);
+      return { ...distribution, transaction_id: transactionId };
+    } catch (error: unknown) {
+      console.error('PartnerService.postDistribution error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'An unexpected error occurred while posting the distribution.', 500, error);
+    }
+  }
+
+  /**
+   * Capital entries of an entity, oldest first, leaving out those whose journal entry was voided.
+   */
+  private async getCapitalEntries(entityId: string, userId: string): Promise<PartnerCapitalEntry[]> {
+    const sql = `
+      SELECT e.* FROM ${this.ENTRIES_TABLE_NAME} e
+      LEFT JOIN transactions t ON t.id = e.transaction_id
+      WHERE e.entity_id = ? AND e.user_id = ? AND (e.transaction_id IS NULL OR t.status != 'voided')
+      ORDER BY e.date, e.created_at
+    `;
+    try {
+      const rows = await this.db.query<DbPartnerCapitalEntry>(sql, [entityId, userId]);
+      return rows.map(mapDbPartnerCapitalEntry);
+    } catch (error: unknown) {
+      console.error('PartnerService.getCapitalEntries error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Failed to retrieve capital entries.', 500, error);
+    }
+  }
+
+  private prepareEntryInsert(
+    id: string,
+    userId: string,
+    entityId: string,
+    partnerId: string,
+    kind: PartnerCapitalEntry['kind'],
+    date: number,
+    amount: number,
+    tier: WaterfallTier | null,
+    transactionId: string | null,
+    periodStart: number | null,
+    periodEnd: number | null,
+    description: string | null
+  ): D1PreparedStatement {
+    return this.db.d1Instance.prepare(`
+      INSERT INTO ${this.ENTRIES_TABLE_NAME} (
+        id, user_id, entity_id, partner_id, kind, date, amount, tier, transaction_id, period_start, period_end, description, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      id, userId, entityId, partnerId, kind, date, amount, tier, transactionId, periodStart, periodEnd, description, Math.floor(Date.now() / 1000)
+    );
+  }
+
+  private async getCapitalEntryOrThrow(id: string): Promise<PartnerCapitalEntry> {
+    const row = await this.db.queryOne<DbPartnerCapitalEntry>(`SELECT * FROM ${this.ENTRIES_TABLE_NAME} WHERE id = ?`, [id]);
+    if (!row) {
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Capital entry was recorded but could not be retrieved.', 500);
+    }
+    return mapDbPartnerCapitalEntry(row);
+  }
+
+  private assertPartnerFits(partners: Partner[], partnerId: string | null, input: PartnerInput): void {
+    if (partners.some(partner => partner.id !== partnerId && partner.name.toLowerCase() === input.name.toLowerCase())) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, `This entity already has a partner named ${input.name}.`, 409);
+    }
+    if (input.is_active === false) return;
+    const otherBps = partners
+      .filter(partner => partner.id !== partnerId && partner.is_active)
+      .reduce((sum, partner) => sum + partner.ownership_bps, 0);
+    if (otherBps + input.ownership_bps > FULL_OWNERSHIP_BPS) {
+      throw new AppError(
+        ErrorCode.VALIDATION_ERROR,
+        `Active partners' percentage interests would add up to ${((otherBps + input.ownership_bps) / 100).toFixed(2)}%.`,
+        400
+      );
+    }
+  }
+
+  private async findEquityAccountId(entity: Entity, code: string, userId: string): Promise<string> {
+    const id = await this.entityAccountService.findActiveEntityAccountIdByCode(entity.id, code, userId);
+    if (!id) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, `Account ${code} is not linked to ${entity.name}. Link it before recording partner capital.`, 400);
+    }
+    return id;
+  }
+
+  private async getPartnerOrThrow(entityId: string, partnerId: string, userId: string): Promise<Partner> {
+    const row = await this.db.queryOne<DbPartner>(
+      `SELECT * FROM ${this.TABLE_NAME} WHERE id = ? AND entity_id = ? AND user_id = ?`,
+      [partnerId, entityId, userId]
+    );
+    if (!row) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'Partner not found or access denied.', 404);
+    }
+    return mapDbPartner(row);
+  }
+
+  private async getEntityOrThrow(entityId: string, userId: string): Promise<Entity> {
+    const entity = await this.entityService.getEntityById(entityId, userId);
+    if (!entity) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'Entity not found or access denied.', 404);
+    }
+    return entity;
+  }
+}
+
+export function createPartnerService(d1: D1Database): PartnerService {
+  return new PartnerService(d1);
+}
@@ -0,0 +1,401 @@
+// src/lib/services/reconciliation-service.ts
+import type { D1Database, D1PreparedStatement } from '@cloudflare/workers-types';
+import { Database, createDbClient } from '@db/db';
+import type { DbExecuteResult } from '@db/db';
+import type { DbBankReconciliation } from '@db/schema';
+import type {
+  BankReconciliation,
+  BankReconciliationDetail,
+  BankReconciliationInput,
+  BankReconciliationReport,
+  ReconciliationClearInput,
+  ReconciliationSummary,
+  ReconciliationTransaction,
+} from '../../types/reconciliation';
+import { AppError, ErrorCode } from '@utils/errors';
+import { createEntityService, EntityService } from './entity-service';
+import { createEntityAccountService, EntityAccountService } from './entity-account-service';
+
+function mapDbReconciliation(dbReconciliation: DbBankReconciliation): BankReconciliation {
+  return {
+    id: dbReconciliation.id,
+    user_id: dbReconciliation.user_id,
+    entity_id: dbReconciliation.entity_id,
+    cash_entity_account_id: dbReconciliation.cash_entity_account_id,
+    statement_end_date: dbReconciliation.statement_end_date,
+    statement_ending_balance: dbReconciliation.statement_ending_balance,
+    beginning_balance: dbReconciliation.beginning_balance,
+    status: dbReconciliation.status,
+    completed_at: dbReconciliation.completed_at ?? null,
+    created_at: dbReconciliation.created_at,
+    updated_at: dbReconciliation.updated_at,
+  };
+}
+
+interface ReconciliationTransactionRow {
+  transaction_id: string;
+  date: number;
+  description: string;
+  reference: string | null;
+  amount: number;
+  is_cleared: number;
+}
+
+function mapTransactionRow(row: ReconciliationTransactionRow): ReconciliationTransaction {
+  return {
+    transaction_id: row.transaction_id,
+    date: row.date,
+    description: row.description,
+    reference: row.reference ?? null,
+    amount: row.amount,
+    is_cleared: row.is_cleared === 1,
+  };
+}
+
+/**
+ * Totals the cleared transactions of a session against the statement balance.
+ */
+export function summarizeReconciliation(
+  reconciliation: Pick<BankReconciliation, 'beginning_balance' | 'statement_ending_balance'>,
+  transactions: ReconciliationTransaction[]
+): ReconciliationSummary {
+  const cleared = transactions.filter(txn => txn.is_cleared);
+  const clearedDeposits = cleared.filter(txn => txn.amount > 0).reduce((sum, txn) => sum + txn.amount, 0);
+  const clearedWithdrawals = cleared.filter(txn => txn.amount < 0).reduce((sum, txn) => sum - txn.amount, 0);
+  const clearedBalance = reconciliation.beginning_balance + clearedDeposits - clearedWithdrawals;
+  return {
+    beginning_balance: reconciliation.beginning_balance,
+    cleared_deposits: clearedDeposits,
+    cleared_withdrawals: clearedWithdrawals,
+    cleared_balance: clearedBalance,
+    statement_ending_balance: reconciliation.statement_ending_balance,
+    difference: reconciliation.statement_ending_balance - clearedBalance,
+  };
+}
+
+/**
+ * Reconciles cash accounts against bank statements. A session collects the transactions
+ * that cleared the bank; completing it marks them reconciled, which locks them from
+ * editing, and keeps the outstanding items as the reconciliation report.
+ */
+export class ReconciliationService {
+  private db: Database;
+  private entityService: EntityService;
+  private entityAccountService: EntityAccountService;
+  private TABLE_NAME = 'bank_reconciliations';
+  private ITEMS_TABLE_NAME = 'bank_reconciliation_items';
+
+  constructor(d1: D1Database) {
+    this.db = createDbClient(d1);
+    this.entityService = createEntityService(d1);
+    this.entityAccountService = createEntityAccountService(d1);
+  }
+
+  async listReconciliations(entityId: string, cashEntityAccountId: string | undefined, userId: string): Promise<BankReconciliation[]> {
+    await this.assertEntityAccess(entityId, userId);
+    let sql = `SELECT * FROM ${this.TABLE_NAME} WHERE user_id = ? AND entity_id = ?`;
+    const params: any[] = [userId, entityId];
+    if (cashEntityAccountId) {
+      sql += ' AND cash_entity_account_id = ?';
+      params.push(cashEntityAccountId);
+    }
+    sql += ' ORDER BY statement_end_date DESC, created_at DESC';
+    try {
+      const rows = await this.db.query<DbBankReconciliation>(sql, params);
+      return rows.map(mapDbReconciliation);
+    } catch (error: unknown) {
+      console.error('ReconciliationService.listReconciliations error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Failed to retrieve reconciliations.', 500, error);
+    }
+  }
+
+  async getReconciliationById(id: string, userId: string): Promise<BankReconciliation | null> {
+    try {
+      const row = await this.db.queryOne<DbBankReconciliation>(
+        `SELECT * FROM ${this.TABLE_NAME} WHERE id = ? AND user_id = ?`,
+        [id, userId]
+      );
+      return row ? mapDbReconciliation(row) : null;
+    } catch (error: unknown) {
+      console.error('ReconciliationService.getReconciliationById error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Failed to retrieve reconciliation.', 500, error);
+    }
+  }
+
+  /**
+   * Opens a session for a cash account. The beginning balance carries over from the last
+   * completed reconciliation, and only one session per account may be open at a time.
+   */
+  async startReconciliation(input: BankReconciliationInput, userId: string): Promise<BankReconciliationDetail> {
+    await this.assertEntityAccess(input.entity_id, userId);
+    const cashAccount = await this.entityAccountService.getEntityAccountById(input.cash_entity_account_id, userId);
+    if (!cashAccount || cashAccount.entity_id !== input.entity_id || !cashAccount.is_active) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Cash account must be an active account of this entity.', 400);
+    }
+    if (cashAccount.account_type !== 'asset') {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Only asset (cash) accounts can be reconciled.', 400);
+    }
+
+    let previous: DbBankReconciliation | null;
+    let open: { id: string } | null;
+    try {
+      open = await this.db.queryOne<{ id: string }>(
+        `SELECT id FROM ${this.TABLE_NAME} WHERE user_id = ? AND cash_entity_account_id = ? AND status = 'in_progress'`,
+        [userId, input.cash_entity_account_id]
+      );
+      previous = await this.db.queryOne<DbBankReconciliation>(
+        `SELECT * FROM ${this.TABLE_NAME}
+         WHERE user_id = ? AND cash_entity_account_id = ? AND status = 'completed'
+         ORDER BY statement_end_date DESC LIMIT 1`,
+        [userId, input.cash_entity_account_id]
+      );
+    } catch (error: unknown) {
+      console.error('ReconciliationService.startReconciliation error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Failed to retrieve previous reconciliations.', 500, error);
+    }
+    if (open) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'This account already has a reconciliation in progress.', 409, { reconciliation_id: open.id });
+    }
+    if (previous && input.statement_end_date <= previous.statement_end_date) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'The statement end date must be after the last completed reconciliation.', 400);
+    }
+
+    const reconciliationId = crypto.randomUUID();
+    const now = Math.floor(Date.now() / 1000);
+    const sql = `
+      INSERT INTO ${this.TABLE_NAME} (
+        id, user_id, entity_id, cash_entity_account_id, statement_end_date, statement_ending_balance,
+        beginning_balance, status, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, 'in_progress', ?, ?)
+    `;
+    try {
+      const result: DbExecuteResult = await this.db.execute(sql, [
+        reconciliationId, userId, input.entity_id, input.cash_entity_account_id, input.statement_end_date,
+        input.statement_ending_balance, previous?.statement_ending_balance ?? 0, now, now,
+      ]);
+      if (!result.success) {
+        throw new AppError(ErrorCode.DATABASE_ERROR, result.error || 'Failed to start reconciliation.', 500);
+      }
+    } catch (error: unknown) {
+      if (error instanceof AppError) throw error;
+      console.error('ReconciliationService.startReconciliation error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'An unexpected error occurred while starting the reconciliation.', 500, error);
+    }
+    const created = await this.getReconciliationDetail(reconciliationId, userId);
+    if (!created) {
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Reconciliation was started but could not be retrieved.', 500);
+    }
+    return created;
+  }
+
+  /**
+   * Retrieves a session with the account's unreconciled transactions through the statement
+   * date and the live difference. Completed sessions are returned as their report instead.
+   */
+  async getReconciliationDetail(id: string, userId: string): Promise<BankReconciliationDetail | null> {
+    const reconciliation = await this.getReconciliationById(id, userId);
+    if (!reconciliation) return null;
+    const transactions = reconciliation.status === 'completed'
+      ? await this.getRecordedTransactions(reconciliation, userId)
+      : await this.getCandidateTransactions(reconciliation, userId);
+    return { ...reconciliation, summary: summarizeReconciliation(reconciliation, transactions), transactions };
+  }
+
+  /**
+   * Marks transactions cleared or uncleared in an open session and returns the updated
+   * session. Only unreconciled transactions of the account dated on or before the
+   * statement end date can be cleared.
+   */
+  async setCleared(id: string, input: ReconciliationClearInput, userId: string): Promise<BankReconciliationDetail> {
+    const reconciliation = await this.getOpenReconciliation(id, userId);
+    const candidates = await this.getCandidateTransactions(reconciliation, userId);
+    const candidateById = new Map(candidates.map(txn => [txn.transaction_id, txn]));
+    const unknown = input.transaction_ids.filter(transactionId => !candidateById.has(transactionId));
+    if (unknown.length > 0) {
+      throw new AppError(
+        ErrorCode.VALIDATION_ERROR,
+        'Some transactions cannot be cleared in this reconciliation.',
+        400,
+        { transaction_ids: unknown }
+      );
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const operations: D1PreparedStatement[] = input.transaction_ids.map(transactionId => input.cleared
+      ? this.db.d1Instance
+          .prepare(`INSERT OR IGNORE INTO ${this.ITEMS_TABLE_NAME} (reconciliation_id, transaction_id, amount, is_cleared, created_at) VALUES (?, ?, ?, 1, ?)`)
+          .bind(id, transactionId, candidateById.get(transactionId)!.amount, now)
+      : this.db.d1Instance
+          .prepare(`DELETE FROM ${this.ITEMS_TABLE_NAME} WHERE reconciliation_id = ? AND transaction_id = ?`)
+          .bind(id, transactionId)
+    );
+    operations.push(
+      this.db.d1Instance.prepare(`UPDATE ${this.TABLE_NAME} SET updated_at = ? WHERE id = ?`).bind(now, id)
+    );
+
+    try {
+      await this.db.batch(operations);
+    } catch (error: unknown) {
+      console.error('ReconciliationService.setCleared error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'An unexpected error occurred while updating cleared items.', 500, error);
+    }
+    const updated = await this.getReconciliationDetail(id, userId);
+    if (!updated) {
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Reconciliation was updated but could not be retrieved.', 500);
+    }
+    return updated;
+  }
+
+  /**
+   * Completes a session whose difference is zero: cleared transactions are marked
+   * reconciled (and so locked), and the uncleared ones are recorded as outstanding.
+   */
+  async completeReconciliation(id: string, userId: string): Promise<BankReconciliationReport> {
+    const reconciliation = await this.getOpenReconciliation(id, userId);
+    const transactions = await this.getCandidateTransactions(reconciliation, userId);
+    const summary = summarizeReconciliation(reconciliation, transactions);
+    if (summary.difference !== 0) {
+      throw new AppError(
+        ErrorCode.VALIDATION_ERROR,
+        'The cleared balance does not match the statement ending balance.',
+        400,
+        { difference: summary.difference }
+      );
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const operations: D1PreparedStatement[] = [
+      this.db.d1Instance
+        .prepare(`UPDATE ${this.TABLE_NAME} SET status = 'completed', completed_at = ?, updated_at = ? WHERE id = ? AND status = 'in_progress'`)
+        .bind(now, now, id),
+      this.db.d1Instance
+        .prepare(`
+          UPDATE transactions SET is_reconciled = 1, updated_at = ?
+          WHERE id IN (SELECT transaction_id FROM ${this.ITEMS_TABLE_NAME} WHERE reconciliation_id = ? AND is_cleared = 1)
+        `)
+        .bind(now, id),
+      ...transactions.filter(txn => !txn.is_cleared).map(txn => this.db.d1Instance
+        .prepare(`INSERT INTO ${this.ITEMS_TABLE_NAME} (reconciliation_id, transaction_id, amount, is_cleared, created_at) VALUES (?, ?, ?, 0, ?)`)
+        .bind(id, txn.transaction_id, txn.amount, now)),
+    ];
+
+    try {
+      await this.db.batch(operations);
+    } catch (error: unknown) {
+      console.error('ReconciliationService.completeReconciliation error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'An unexpected error occurred while completing the reconciliation.', 500, error);
+    }
+    const report = await this.getReconciliationReport(id, userId);
+    if (!report) {
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Reconciliation was completed but could not be retrieved.', 500);
+    }
+    return report;
+  }
+
+  /**
+   * The kept report of a completed reconciliation, with outstanding checks (uncleared
+   * money out) and deposits in transit (uncleared money in).
+   */
+  async getReconciliationReport(id: string, userId: string): Promise<BankReconciliationReport | null> {
+    const reconciliation = await this.getReconciliationById(id, userId);
+    if (!reconciliation) return null;
+    if (reconciliation.status !== 'completed') {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'This reconciliation has not been completed.', 400);
+    }
+    const transactions = await this.getRecordedTransactions(reconciliation, userId);
+    const outstandingChecks = transactions.filter(txn => !txn.is_cleared && txn.amount < 0);
+    const depositsInTransit = transactions.filter(txn => !txn.is_cleared && txn.amount > 0);
+    return {
+      ...reconciliation,
+      summary: summarizeReconciliation(reconciliation, transactions),
+      cleared: transactions.filter(txn => txn.is_cleared),
+      outstanding_checks: outstandingChecks,
+      deposits_in_transit: depositsInTransit,
+      adjusted_bank_balance: reconciliation.statement_ending_balance
+        + depositsInTransit.reduce((sum, txn) => sum + txn.amount, 0)
+        + outstandingChecks.reduce((sum, txn) => sum + txn.amount, 0),
+    };
+  }
+
+  /**
+   * Abandons an open session. Completed reconciliations are kept as reports.
+   */
+  async deleteReconciliation(id: string, userId: string): Promise<boolean> {
+    await this.getOpenReconciliation(id, userId);
+    try {
+      const result = await this.db.execute(
+        `DELETE FROM ${this.TABLE_NAME} WHERE id = ? AND user_id = ? AND status = 'in_progress'`,
+        [id, userId]
+      );
+      return result.success && ((result.meta?.changes ?? 0) > 0);
+    } catch (error: unknown) {
+      console.error('ReconciliationService.deleteReconciliation error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'An unexpected error occurred while deleting the reconciliation.', 500, error);
+    }
+  }
+
+  /**
+   * Unreconciled, non-pending transactions that touch the cash account up to the statement
+   * end date, netted to their effect on the account and flagged if cleared in this session.
+   */
+  private async getCandidateTransactions(reconciliation: BankReconciliation, userId: string): Promise<ReconciliationTransaction[]> {
+    try {
+      const rows = await this.db.query<ReconciliationTransactionRow>(`
+        SELECT
+          t.id AS transaction_id, t.date, t.description, t.reference,
+          SUM(CASE WHEN tl.is_debit = 1 THEN tl.amount ELSE -tl.amount END) AS amount,
+          EXISTS (
+            SELECT 1 FROM ${this.ITEMS_TABLE_NAME} ri WHERE ri.reconciliation_id = ? AND ri.transaction_id = t.id
+          ) AS is_cleared
+        FROM transactions t
+        JOIN transaction_lines tl ON tl.transaction_id = t.id
+        WHERE t.user_id = ? AND t.entity_id = ? AND tl.entity_account_id = ?
+          AND t.status != 'pending' AND t.is_reconciled = 0 AND t.date <= ?
+        GROUP BY t.id
+        ORDER BY t.date, t.created_at
+      `, [reconciliation.id, userId, reconciliation.entity_id, reconciliation.cash_entity_account_id, reconciliation.statement_end_date]);
+      return rows.map(mapTransactionRow);
+    } catch (error: unknown) {
+      console.error('ReconciliationService.getCandidateTransactions error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Failed to retrieve transactions to reconcile.', 500, error);
+    }
+  }
+
+  private async getRecordedTransactions(reconciliation: BankReconciliation, userId: string): Promise<ReconciliationTransaction[]> {
+    try {
+      const rows = await this.db.query<ReconciliationTransactionRow>(`
+        SELECT ri.transaction_id, t.date, t.description, t.reference, ri.amount, ri.is_cleared
+        FROM ${this.ITEMS_TABLE_NAME} ri
+        JOIN transactions t ON t.id = ri.transaction_id
+        WHERE ri.reconciliation_id = ? AND t.user_id = ?
+        ORDER BY t.date, t.created_at
+      `, [reconciliation.id, userId]);
+      return rows.map(mapTransactionRow);
+    } catch (error: unknown) {
+      console.error('ReconciliationService.getRecordedTransactions error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Failed to retrieve reconciled transactions.', 500, error);
+    }
+  }
+
+  private async getOpenReconciliation(id: string, userId: string): Promise<BankReconciliation> {
+    const reconciliation = await this.getReconciliationById(id, userId);
+    if (!reconciliation) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'Reconciliation not found or access denied.', 404);
+    }
+    if (reconciliation.status !== 'in_progress') {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'This reconciliation has already been completed.', 400);
+    }
+    return reconciliation;
+  }
+
+  private async assertEntityAccess(entityId: string, userId: string): Promise<void> {
+    const entity = await this.entityService.getEntityById(entityId, userId);
+    if (!entity) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'Entity not found or access denied.', 404);
+    }
+  }
+}
+
+export function createReconciliationService(d1: D1Database): ReconciliationService {
+  return new ReconciliationService(d1);
+}
@@ -0,0 +1,600 @@
+// src/lib/services/report-service.ts
+import type { D1Database } from '@cloudflare/workers-types';
+import { Database, createDbClient } from '@db/db';
+import type { AccountSystemType } from '@db/schema';
+import type {
+  AccountActivityReport,
+  AccountBalance,
+  AccountLedger,
+  BalanceSheet,
+  CashFlowStatement,
+  ComparisonMode,
+  ConsolidatedBalanceSheet,
+  ConsolidatedIncomeStatement,
+  ConsolidatedTrialBalanceReport,
+  ConsolidationEntity,
+  GeneralLedgerReport,
+  IncomeStatement,
+  LedgerEntry,
+  NormalBalance,
+  ReportDateRange,
+  ReportPeriod,
+  TrialBalanceReport,
+  TrialBalanceRow,
+} from '../../types/report';
+import type { Entity } from '../../types/entity';
+import { AppError, ErrorCode } from '@utils/errors';
+import { normalBalanceForType, signedBalanceCents } from '@utils/financial';
+import { fiscalYearStartFor } from '@utils/date';
+import {
+  buildBalanceSheet,
+  buildIncomeStatement,
+  comparisonPeriod,
+  netIncomeFromBalances,
+} from '@lib/reporting/financialStatements';
+import { buildCashFlowStatement } from '@lib/reporting/cashFlowStatement';
+import {
+  buildConsolidatedBalanceSheet,
+  buildConsolidatedIncomeStatement,
+  buildConsolidatedTrialBalance,
+  orderConsolidationEntities,
+  type GroupOwnershipByPeriod,
+  type IntercompanyEliminations,
+} from '@lib/reporting/consolidation';
+import { buildEliminationBalances, findIntercompanyExceptions, type IntercompanyLine } from '@lib/reporting/intercompany';
+import { groupOwnershipShares } from '@lib/accounting/ownership';
+import { createEntityService, EntityService } from './entity-service';
+import { createAccountService, AccountService } from './account-service';
+import { createOwnershipService, OwnershipService } from './ownership-service';
+
+/**
+ * Transaction statuses that count towards balances. A voided transaction stays in the
+ * ledger alongside its posted reversal, so the pair nets to zero from the reversal date on.
+ */
+export const REPORTABLE_STATUS_SQL = `('posted', 'voided')`;
+
+interface RawAccountBalanceRow {
+  entity_account_id: string;
+  account_id: string;
+  account_code: string;
+  account_name: string;
+  account_type: AccountSystemType;
+  account_subtype: string | null;
+  parent_account_id: string | null;
+  debit_total: number | null;
+  credit_total: number | null;
+}
+
+interface RawLedgerLineRow {
+  line_id: string;
+  entity_account_id: string;
+  amount: number;
+  is_debit: number;
+  memo: string | null;
+  transaction_id: string;
+  date: number;
+  description: string;
+  reference: string | null;
+  status: 'posted' | 'voided';
+  reverses_transaction_id: string | null;
+}
+
+function mapRawAccountBalance(raw: RawAccountBalanceRow): AccountBalance {
+  const normalBalance = normalBalanceForType(raw.account_type);
+  const debitTotal = raw.debit_total ?? 0;
+  const creditTotal = raw.credit_total ?? 0;
+  return {
+    entity_account_id: raw.entity_account_id,
+    account_id: raw.account_id,
+    account_code: raw.account_code,
+    account_name: raw.account_name,
+    account_type: raw.account_type,
+    account_subtype: raw.account_subtype ?? null,
+    parent_account_id: raw.parent_account_id ?? null,
+    normal_balance: normalBalance,
+    debit_total: debitTotal,
+    credit_total: creditTotal,
+    balance: signedBalanceCents(debitTotal, creditTotal, normalBalance),
+  };
+}
+
+/**
+ * Applies ledger lines to an opening balance in order, producing entries with running balances.
+ */
+function buildLedgerEntries(lines: RawLedgerLineRow[], openingBalance: number, normalBalance: NormalBalance): LedgerEntry[] {
+  let runningBalance = openingBalance;
+  return lines.map(line => {
+    const isDebit = line.is_debit === 1;
+    runningBalance += isDebit === (normalBalance === 'debit') ? line.amount : -line.amount;
+    return {
+      line_id: line.line_id,
+      transaction_id: line.transaction_id,
+      date: line.date,
+      description: line.description,
+      reference: line.reference ?? null,
+      memo: line.memo ?? null,
+      status: line.status,
+      reverses_transaction_id: line.reverses_transaction_id ?? null,
+      debit: isDebit ? line.amount : 0,
+      credit: isDebit ? 0 : line.amount,
+      running_balance: runningBalance,
+    };
+  });
+}
+
+export class ReportService {
+  private db: Database;
+  private entityService: EntityService;
+  private accountService: AccountService;
+  private ownershipService: OwnershipService;
+
+  constructor(d1: D1Database) {
+    this.db = createDbClient(d1);
+    this.entityService = createEntityService(d1);
+    this.accountService = createAccountService(d1);
+    this.ownershipService = createOwnershipService(d1);
+  }
+
+  /**
+   * Totals posted debits and credits per entity account over a date window.
+   * Every account linked to the entity is returned, including those without activity.
+   * Callers are responsible for verifying ownership of the entity.
+   */
+  async getAccountBalances(entityId: string, range: ReportDateRange, userId: string): Promise<AccountBalance[]> {
+    const lineConditions: string[] = [
+      't.user_id = ?',
+      't.entity_id = ?',
+      `t.status IN ${REPORTABLE_STATUS_SQL}`,
+      't.date <= ?',
+    ];
+    const lineParams: any[] = [userId, entityId, range.end_date];
+    if (range.start_date !== undefined) {
+      lineConditions.push('t.date >= ?');
+      lineParams.push(range.start_date);
+    }
+
+    const sql = `
+      SELECT
+        ea.id AS entity_account_id, coa.id AS account_id, coa.code AS account_code,
+        COALESCE(ea.custom_name, coa.name) AS account_name, coa.type AS account_type,
+        coa.subtype AS account_subtype, coa.parent_id AS parent_account_id,
+        totals.debit_total, totals.credit_total
+      FROM entity_accounts ea
+      JOIN chart_of_accounts coa ON coa.id = ea.account_id
+      LEFT JOIN (
+        SELECT
+          tl.entity_account_id,
+          SUM(CASE WHEN tl.is_debit = 1 THEN tl.amount ELSE 0 END) AS debit_total,
+          SUM(CASE WHEN tl.is_debit = 0 THEN tl.amount ELSE 0 END) AS credit_total
+        FROM transaction_lines tl
+        JOIN transactions t ON t.id = tl.transaction_id
+        WHERE ${lineConditions.join(' AND ')}
+        GROUP BY tl.entity_account_id
+      ) totals ON totals.entity_account_id = ea.id
+      WHERE ea.user_id = ? AND ea.entity_id = ?
+      ORDER BY coa.code
+    `;
+    try {
+      const rows = await this.db.query<RawAccountBalanceRow>(sql, [...lineParams, userId, entityId]);
+      return rows.map(mapRawAccountBalance);
+    } catch (error: unknown) {
+      console.error('ReportService.getAccountBalances error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Failed to compute account balances.', 500, error);
+    }
+  }
+
+  /**
+   * Builds a trial balance for an entity as of a date (inclusive).
+   * Each account's net balance is shown in the debit or credit column depending on its sign,
+   * so contra accounts land on the side they actually carry.
+   */
+  async getTrialBalance(entityId: string, asOfDate: number, userId: string, includeZeroBalances = false): Promise<TrialBalanceReport> {
+    await this.assertEntityAccess(entityId, userId);
+
+    const balances = await this.getAccountBalances(entityId, { end_date: asOfDate }, userId);
+    const rows: TrialBalanceRow[] = balances
+      .filter(balance => includeZeroBalances || balance.debit_total !== balance.credit_total)
+      .map(balance => {
+        const netDebit = balance.debit_total - balance.credit_total;
+        return {
+          ...balance,
+          debit_balance: netDebit > 0 ? netDebit : 0,
+          credit_balance: netDebit < 0 ? -netDebit : 0,
+        };
+      });
+
+    const totalDebits = rows.reduce((sum, row) => sum + row.debit_balance, 0);
+    const totalCredits = rows.reduce((sum, row) => sum + row.credit_balance, 0);
+    return {
+      entity_id: entityId,
+      as_of_date: asOfDate,
+      rows,
+      total_debits: totalDebits,
+      total_credits: totalCredits,
+      is_balanced: totalDebits === totalCredits,
+    };
+  }
+
+  /**
+   * Builds general ledger detail for every account with an opening balance or activity in the window.
+   */
+  async getGeneralLedger(entityId: string, startDate: number, endDate: number, userId: string): Promise<GeneralLedgerReport> {
+    await this.assertEntityAccess(entityId, userId);
+
+    const openingBalances = await this.getAccountBalances(entityId, { end_date: startDate - 1 }, userId);
+    const lines = await this.getLedgerLines(entityId, { start_date: startDate, end_date: endDate }, userId);
+
+    const linesByAccount = new Map<string, RawLedgerLineRow[]>();
+    for (const line of lines) {
+      const accountLines = linesByAccount.get(line.entity_account_id) ?? [];
+      accountLines.push(line);
+      linesByAccount.set(line.entity_account_id, accountLines);
+    }
+
+    const accounts = openingBalances
+      .filter(opening => opening.balance !== 0 || linesByAccount.has(opening.entity_account_id))
+      .map(opening => this.buildAccountLedger(opening, linesByAccount.get(opening.entity_account_id) ?? []));
+
+    return { entity_id: entityId, start_date: startDate, end_date: endDate, accounts };
+  }
+
+  /**
+   * Builds running-balance activity for a single entity account.
+   * Without a start date, the report covers all history up to `range.end_date`.
+   */
+  async getAccountActivity(entityAccountId: string, range: ReportDateRange, userId: string): Promise<AccountActivityReport> {
+    let header: (RawAccountBalanceRow & { entity_id: string }) | null;
+    try {
+      header = await this.db.queryOne<RawAccountBalanceRow & { entity_id: string }>(`
+        SELECT
+          ea.id AS entity_account_id, ea.entity_id, coa.id AS account_id, coa.code AS account_code,
+          COALESCE(ea.custom_name, coa.name) AS account_name, coa.type AS account_type,
+          coa.subtype AS account_subtype, coa.parent_id AS parent_account_id,
+          NULL AS debit_total, NULL AS credit_total
+        FROM entity_accounts ea
+        JOIN chart_of_accounts coa ON coa.id = ea.account_id
+        WHERE ea.id = ? AND ea.user_id = ?
+      `, [entityAccountId, userId]);
+    } catch (error: unknown) {
+      console.error('ReportService.getAccountActivity error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Failed to retrieve entity account.', 500, error);
+    }
+    if (!header) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'Entity account not found or access denied.', 404);
+    }
+
+    let opening = mapRawAccountBalance(header);
+    if (range.start_date !== undefined) {
+      const openingBalances = await this.getAccountBalances(header.entity_id, { end_date: range.start_date - 1 }, userId);
+      opening = openingBalances.find(balance => balance.entity_account_id === entityAccountId) ?? opening;
+    }
+
+    const lines = await this.getLedgerLines(header.entity_id, range, userId, entityAccountId);
+    return {
+      entity_id: header.entity_id,
+      start_date: range.start_date ?? null,
+      end_date: range.end_date,
+      ...this.buildAccountLedger(opening, lines),
+    };
+  }
+
+  /**
+   * Builds an income statement for [startDate, endDate], optionally with a comparative column.
+   */
+  async getIncomeStatement(
+    entityId: string,
+    startDate: number,
+    endDate: number,
+    compare: ComparisonMode,
+    userId: string
+  ): Promise<IncomeStatement> {
+    await this.assertEntityAccess(entityId, userId);
+
+    const primary: ReportPeriod = { label: 'Current Period', start_date: startDate, end_date: endDate };
+    const comparison = comparisonPeriod(primary, compare);
+    const periods = comparison ? [primary, comparison] : [primary];
+
+    const chart = await this.accountService.getAllAccounts(userId);
+    const balancesByPeriod = await Promise.all(
+      periods.map(period => this.getAccountBalances(entityId, { start_date: period.start_date ?? undefined, end_date: period.end_date }, userId))
+    );
+    return buildIncomeStatement(entityId, chart, periods, balancesByPeriod);
+  }
+
+  /**
+   * Builds a balance sheet as of a date, optionally with a comparative column.
+   * Current-year net income is measured from the start of the fiscal year containing each date,
+   * using the entity's fiscal year unless `fiscalYearStartMonth` is given.
+   */
+  async getBalanceSheet(
+    entityId: string,
+    asOfDate: number,
+    compare: ComparisonMode,
+    userId: string,
+    fiscalYearStartMonth?: number
+  ): Promise<BalanceSheet> {
+    const entity = await this.assertEntityAccess(entityId, userId);
+    const startMonth = fiscalYearStartMonth ?? entity.fiscal_year_start_month;
+
+    const primary: ReportPeriod = { label: 'Current Period', start_date: null, end_date: asOfDate };
+    const comparison = comparisonPeriod(primary, compare);
+    const periods = comparison ? [primary, comparison] : [primary];
+
+    const chart = await this.accountService.getAllAccounts(userId);
+    const balancesByPeriod = await Promise.all(
+      periods.map(period => this.getAccountBalances(entityId, { end_date: period.end_date }, userId))
+    );
+    const currentYearNetIncome = await Promise.all(
+      periods.map(async period => {
+        const yearStart = fiscalYearStartFor(period.end_date, startMonth);
+        const balances = await this.getAccountBalances(entityId, { start_date: yearStart, end_date: period.end_date }, userId);
+        return netIncomeFromBalances(balances);
+      })
+    );
+    return buildBalanceSheet(entityId, chart, periods, balancesByPeriod, currentYearNetIncome);
+  }
+
+  /**
+   * Builds an indirect-method statement of cash flows for [startDate, endDate].
+   * Accounts are classified by their `cash_flow_category` in the chart of accounts.
+   */
+  async getCashFlowStatement(entityId: string, startDate: number, endDate: number, userId: string): Promise<CashFlowStatement> {
+    await this.assertEntityAccess(entityId, userId);
+
+    const chart = await this.accountService.getAllAccounts(userId);
+    const activity = await this.getAccountBalances(entityId, { start_date: startDate, end_date: endDate }, userId);
+    const openingBalances = await this.getAccountBalances(entityId, { end_date: startDate - 1 }, userId);
+    return buildCashFlowStatement(entityId, chart, startDate, endDate, activity, openingBalances);
+  }
+
+  /**
+   * Builds a trial balance for a parent entity and every entity below it, one row per chart
+   * of accounts code with each entity's balance and the intercompany eliminations alongside.
+   */
+  async getConsolidatedTrialBalance(
+    parentEntityId: string,
+    asOfDate: number,
+    userId: string,
+    includeZeroBalances = false
+  ): Promise<ConsolidatedTrialBalanceReport> {
+    const entities = await this.getConsolidationEntities(parentEntityId, userId);
+    const chart = await this.accountService.getAllAccounts(userId);
+    const entityBalances = await Promise.all(
+      entities.map(async entity => ({
+        entity_id: entity.entity_id,
+        balances: await this.getAccountBalances(entity.entity_id, { end_date: asOfDate }, userId),
+      }))
+    );
+    const intercompany = await this.getIntercompanyEliminations(entities, [{ end_date: asOfDate }], userId);
+    return buildConsolidatedTrialBalance(parentEntityId, asOfDate, entities, chart, entityBalances, intercompany, includeZeroBalances);
+  }
+
+  /**
+   * Builds an income statement for a parent entity and every entity below it, with each line
+   * broken down by entity and intercompany activity between them eliminated. Net income is
+   * split between the parent and the non-controlling interest by the ownership in force at
+   * each period's end.
+   */
+  async getConsolidatedIncomeStatement(
+    parentEntityId: string,
+    startDate: number,
+    endDate: number,
+    compare: ComparisonMode,
+    userId: string
+  ): Promise<ConsolidatedIncomeStatement> {
+    const entities = await this.getConsolidationEntities(parentEntityId, userId);
+
+    const primary: ReportPeriod = { label: 'Current Period', start_date: startDate, end_date: endDate };
+    const comparison = comparisonPeriod(primary, compare);
+    const periods = comparison ? [primary, comparison] : [primary];
+
+    const chart = await this.accountService.getAllAccounts(userId);
+    const entityBalances = await Promise.all(
+      entities.map(async entity => ({
+        entity_id: entity.entity_id,
+        balancesByPeriod: await Promise.all(
+          periods.map(period =>
+            this.getAccountBalances(entity.entity_id, { start_date: period.start_date ?? undefined, end_date: period.end_date }, userId))
+        ),
+      }))
+    );
+    const intercompany = await this.getIntercompanyEliminations(
+      entities,
+      periods.map(period => ({ start_date: period.start_date ?? undefined, end_date: period.end_date })),
+      userId
+    );
+    const ownership = await this.getGroupOwnership(entities, periods, userId);
+    return buildConsolidatedIncomeStatement(parentEntityId, entities, chart, periods, entityBalances, intercompany, ownership);
+  }
+
+  /**
+   * Builds a balance sheet for a parent entity and every entity below it, with each line
+   * broken down by entity and intercompany balances between them eliminated. The equity of
+   * subsidiaries held by outside owners is presented as a non-controlling interest.
+   * Current-year net income follows the parent's fiscal year unless `fiscalYearStartMonth` is given.
+   */
+  async getConsolidatedBalanceSheet(
+    parentEntityId: string,
+    asOfDate: number,
+    compare: ComparisonMode,
+    userId: string,
+    fiscalYearStartMonth?: number
+  ): Promise<ConsolidatedBalanceSheet> {
+    const entities = await this.getConsolidationEntities(parentEntityId, userId);
+    const startMonth = fiscalYearStartMonth ?? (await this.assertEntityAccess(parentEntityId, userId)).fiscal_year_start_month;
+
+    const primary: ReportPeriod = { label: 'Current Period', start_date: null, end_date: asOfDate };
+    const comparison = comparisonPeriod(primary, compare);
+    const periods = comparison ? [primary, comparison] : [primary];
+
+    const chart = await this.accountService.getAllAccounts(userId);
+    const entityBalances = await Promise.all(
+      entities.map(async entity => ({
+        entity_id: entity.entity_id,
+        balancesByPeriod: await Promise.all(
+          periods.map(period => this.getAccountBalances(entity.entity_id, { end_date: period.end_date }, userId))
+        ),
+        currentYearNetIncome: await Promise.all(
+          periods.map(async period => {
+            const yearStart = fiscalYearStartFor(period.end_date, startMonth);
+            const balances = await this.getAccountBalances(entity.entity_id, { start_date: yearStart, end_date: period.end_date }, userId);
+            return netIncomeFromBalances(balances);
+          })
+        ),
+      }))
+    );
+    const intercompany = await this.getIntercompanyEliminations(entities, periods.map(period => ({ end_date: period.end_date })), userId);
+    const ownership = await this.getGroupOwnership(entities, periods, userId);
+    return buildConsolidatedBalanceSheet(parentEntityId, entities, chart, periods, entityBalances, intercompany, ownership);
+  }
+
+  /**
+   * Lines of intercompany transactions, and of the reversals that void them, posted up to
+   * `endDate`. With `entityIds`, only transactions between two of those entities are included.
+   * Callers are responsible for verifying ownership of the entities.
+   */
+  async getIntercompanyLines(endDate: number, userId: string, entityIds?: string[]): Promise<IntercompanyLine[]> {
+    const conditions: string[] = ['ic.user_id = ?', `t.status IN ${REPORTABLE_STATUS_SQL}`, 't.date <= ?'];
+    const params: any[] = [userId, endDate];
+    if (entityIds) {
+      if (entityIds.length === 0) return [];
+      const placeholders = entityIds.map(() => '?').join(', ');
+      conditions.push(`ic.from_entity_id IN (${placeholders})`, `ic.to_entity_id IN (${placeholders})`);
+      params.push(...entityIds, ...entityIds);
+    }
+
+    const sql = `
+      SELECT
+        ic.id AS intercompany_transaction_id, ic.from_entity_id, ic.to_entity_id,
+        ic.date AS intercompany_date, ic.amount AS intercompany_amount,
+        ic.description AS intercompany_description, ic.eliminates_activity,
+        CASE WHEN COALESCE(t.reverses_transaction_id, t.id) = ic.from_transaction_id THEN 'from' ELSE 'to' END AS side,
+        CASE WHEN tl.entity_account_id IN (ic.from_due_entity_account_id, ic.to_due_entity_account_id) THEN 1 ELSE 0 END AS is_due,
+        t.entity_id, tl.entity_account_id, coa.id AS account_id, coa.code AS account_code, coa.name AS account_name,
+        coa.type AS account_type, coa.subtype AS account_subtype, coa.parent_id AS parent_account_id,
+        tl.amount, tl.is_debit, t.date
+      FROM intercompany_transactions ic
+      JOIN transactions t ON COALESCE(t.reverses_transaction_id, t.id) IN (ic.from_transaction_id, ic.to_transaction_id)
+      JOIN transaction_lines tl ON tl.transaction_id = t.id
+      JOIN entity_accounts ea ON ea.id = tl.entity_account_id
+      JOIN chart_of_accounts coa ON coa.id = ea.account_id
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY ic.date, ic.id, t.date, tl.id
+    `;
+    try {
+      return await this.db.query<IntercompanyLine>(sql, params);
+    } catch (error: unknown) {
+      console.error('ReportService.getIntercompanyLines error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Failed to retrieve intercompany lines.', 500, error);
+    }
+  }
+
+  private buildAccountLedger(opening: AccountBalance, lines: RawLedgerLineRow[]): AccountLedger {
+    const entries = buildLedgerEntries(lines, opening.balance, opening.normal_balance);
+    return {
+      entity_account_id: opening.entity_account_id,
+      account_code: opening.account_code,
+      account_name: opening.account_name,
+      account_type: opening.account_type,
+      normal_balance: opening.normal_balance,
+      opening_balance: opening.balance,
+      entries,
+      total_debits: entries.reduce((sum, entry) => sum + entry.debit, 0),
+      total_credits: entries.reduce((sum, entry) => sum + entry.credit, 0),
+      closing_balance: entries.length > 0 ? entries[entries.length - 1].running_balance : opening.balance,
+    };
+  }
+
+  private async getLedgerLines(
+    entityId: string,
+    range: ReportDateRange,
+    userId: string,
+    entityAccountId?: string
+  ): Promise<RawLedgerLineRow[]> {
+    const conditions: string[] = [
+      't.user_id = ?',
+      't.entity_id = ?',
+      `t.status IN ${REPORTABLE_STATUS_SQL}`,
+      't.date <= ?',
+    ];
+    const params: any[] = [userId, entityId, range.end_date];
+    if (range.start_date !== undefined) {
+      conditions.push('t.date >= ?');
+      params.push(range.start_date);
+    }
+    if (entityAccountId) {
+      conditions.push('tl.entity_account_id = ?');
+      params.push(entityAccountId);
+    }
+
+    const sql = `
+      SELECT
+        tl.id AS line_id, tl.entity_account_id, tl.amount, tl.is_debit, tl.memo,
+        t.id AS transaction_id, t.date, t.description, t.reference, t.status, t.reverses_transaction_id
+      FROM transaction_lines tl
+      JOIN transactions t ON t.id = tl.transaction_id
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY t.date, t.created_at, t.id, tl.is_debit DESC, tl.id
+    `;
+    try {
+      return await this.db.query<RawLedgerLineRow>(sql, params);
+    } catch (error: unknown) {
+      console.error('ReportService.getLedgerLines error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Failed to retrieve ledger lines.', 500, error);
+    }
+  }
+
+  /**
+   * The parent entity followed by every entity below it. Inactive entities are included:
+   * their posted history still belongs in the group's statements.
+   */
+  private async getConsolidationEntities(parentEntityId: string, userId: string): Promise<ConsolidationEntity[]> {
+    const parent = await this.entityService.getEntityById(parentEntityId, userId);
+    if (!parent) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'Entity not found or access denied.', 404);
+    }
+    const descendants = await this.entityService.getDescendantEntities(parentEntityId, userId);
+    return orderConsolidationEntities(parent, descendants);
+  }
+
+  /**
+   * Elimination entries for each range, from intercompany transactions between the given
+   * entities. Broken pairs are judged as of the first range's end date.
+   */
+  private async getIntercompanyEliminations(
+    entities: ConsolidationEntity[],
+    ranges: ReportDateRange[],
+    userId: string
+  ): Promise<IntercompanyEliminations> {
+    const entityIds = entities.map(entity => entity.entity_id);
+    const linesByRange = await Promise.all(ranges.map(range => this.getIntercompanyLines(range.end_date, userId, entityIds)));
+    return {
+      balancesByPeriod: ranges.map((range, i) => buildEliminationBalances(linesByRange[i], range)),
+      exceptions: findIntercompanyExceptions(linesByRange[0] ?? []),
+    };
+  }
+
+  /**
+   * The group's share of each consolidated entity at the end of each period.
+   */
+  private async getGroupOwnership(
+    entities: ConsolidationEntity[],
+    periods: ReportPeriod[],
+    userId: string
+  ): Promise<GroupOwnershipByPeriod> {
+    const records = await this.ownershipService.getOwnershipRecords(entities.map(entity => entity.entity_id), userId);
+    return periods.map(period => groupOwnershipShares(entities, records, period.end_date));
+  }
+
+  private async assertEntityAccess(entityId: string, userId: string): Promise<Entity> {
+    const entity = await this.entityService.getEntityById(entityId, userId);
+    if (!entity) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'Entity not found or access denied.', 404);
+    }
+    return entity;
+  }
+}
+
+export function createReportService(d1: D1Database): ReportService {
+  return new ReportService(d1);
+}
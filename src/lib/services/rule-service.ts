@@ -0,0 +1,573 @@
+// src/lib/services/rule-service.ts
+import type { D1Database, D1PreparedStatement } from '@cloudflare/workers-types';
+import { Database, createDbClient } from '@db/db';
+import type { DbExecuteResult } from '@db/db';
+import type { DbBankImportItem, DbCategorizationRule } from '@db/schema';
+import type { Rule, RuleAction, RuleConditionNode } from '@rules/engine';
+import { RuleEngine, validateRuleConditions } from '@rules/engine';
+import { getActionAccountIds, mapActionAccounts, validateRuleAction } from '@rules/splits';
+import { getDefaultRules, resolvePlaceholderAccountCode } from '@rules/ruleDefinitions';
+import { getBankTransactionRules } from '@rules/bankTransactions';
+import { mergeCandidateRules, simulateRules, type SimulationSubject } from '@rules/simulation';
+import { suggestRules, type ManualCategorization } from '@rules/learning';
+import type {
+  RuleInput,
+  RuleSeedResult,
+  RuleSimulationInput,
+  RuleSimulationReport,
+  RuleSuggestion,
+  StoredRule,
+} from '../../types/rule';
+import { AppError, ErrorCode } from '@utils/errors';
+import { createEntityService, EntityService } from './entity-service';
+import { createEntityAccountService, EntityAccountService } from './entity-account-service';
+
+const DEFAULT_PRIORITY = 50;
+const MAX_SIMULATION_ITEMS = 2000;
+const MAX_LEARNING_ITEMS = 2000;
+
+function mapDbRuleToStoredRule(dbRule: DbCategorizationRule): StoredRule {
+  return {
+    id: dbRule.id,
+    name: dbRule.name,
+    description: dbRule.description ?? undefined,
+    entityId: dbRule.entity_id ?? undefined,
+    isActive: dbRule.is_active === 1,
+    priority: dbRule.priority,
+    conditions: JSON.parse(dbRule.conditions),
+    action: JSON.parse(dbRule.action),
+    templateId: dbRule.template_id ?? null,
+    createdAt: dbRule.created_at,
+    updatedAt: dbRule.updated_at,
+  };
+}
+
+/**
+ * Stores categorization rules per user and, optionally, per entity, and builds the
+ * RuleEngine rule set for an entity from them.
+ */
+export class RuleService {
+  private db: Database;
+  private entityService: EntityService;
+  private entityAccountService: EntityAccountService;
+  private TABLE_NAME = 'categorization_rules';
+
+  constructor(d1: D1Database) {
+    this.db = createDbClient(d1);
+    this.entityService = createEntityService(d1);
+    this.entityAccountService = createEntityAccountService(d1);
+  }
+
+  /**
+   * Lists a user's rules, highest priority first. With `entityId`, only that entity's rules
+   * and the user's global rules are returned.
+   */
+  async listRules(userId: string, entityId?: string): Promise<StoredRule[]> {
+    const conditions = ['user_id = ?'];
+    const params: any[] = [userId];
+    if (entityId) {
+      await this.assertEntityAccess(entityId, userId);
+      conditions.push('(entity_id IS NULL OR entity_id = ?)');
+      params.push(entityId);
+    }
+    const sql = `SELECT * FROM ${this.TABLE_NAME} WHERE ${conditions.join(' AND ')} ORDER BY priority DESC, created_at`;
+    try {
+      const rows = await this.db.query<DbCategorizationRule>(sql, params);
+      return rows.map(mapDbRuleToStoredRule);
+    } catch (error: unknown) {
+      console.error('RuleService.listRules error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Failed to retrieve rules.', 500, error);
+    }
+  }
+
+  async getRuleById(id: string, userId: string): Promise<StoredRule | null> {
+    const sql = `SELECT * FROM ${this.TABLE_NAME} WHERE id = ? AND user_id = ?`;
+    try {
+      const row = await this.db.queryOne<DbCategorizationRule>(sql, [id, userId]);
+      return row ? mapDbRuleToStoredRule(row) : null;
+    } catch (error: unknown) {
+      console.error('RuleService.getRuleById error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Failed to retrieve rule.', 500, error);
+    }
+  }
+
+  /**
+   * Creates a rule. Every action account (the single account or each split's) must be an
+   * active `entity_accounts` link of the rule's entity, or of any of the user's entities
+   * for a global rule.
+   */
+  async createRule(input: RuleInput, userId: string): Promise<StoredRule> {
+    this.assertConditions(input.conditions);
+    this.assertAction(input.action);
+    if (input.entityId) {
+      await this.assertEntityAccess(input.entityId, userId);
+    }
+    await this.assertActionAccounts(input.action, input.entityId ?? null, userId);
+
+    const ruleId = crypto.randomUUID();
+    const now = Math.floor(Date.now() / 1000);
+    try {
+      const result: DbExecuteResult = await this.db.execute(
+        this.insertSql(),
+        this.insertParams(ruleId, userId, input, null, now)
+      );
+      if (!result.success) {
+        throw new AppError(ErrorCode.DATABASE_ERROR, result.error || 'Failed to create rule.', 500);
+      }
+      const created = await this.getRuleById(ruleId, userId);
+      if (!created) {
+        throw new AppError(ErrorCode.DATABASE_ERROR, 'Rule was created but could not be retrieved.', 500);
+      }
+      return created;
+    } catch (error: unknown) {
+      if (error instanceof AppError) throw error;
+      console.error('RuleService.createRule error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'An unexpected error occurred while creating the rule.', 500, error);
+    }
+  }
+
+  /**
+   * Updates a rule. Moving it to another entity or changing its action re-validates the
+   * action account; passing `entityId: null` makes the rule global.
+   */
+  async updateRule(id: string, input: Partial<Omit<RuleInput, 'entityId'>> & { entityId?: string | null }, userId: string): Promise<StoredRule> {
+    const existing = await this.getRuleById(id, userId);
+    if (!existing) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'Rule not found or access denied.', 404);
+    }
+    if (input.conditions !== undefined) {
+      this.assertConditions(input.conditions);
+    }
+    if (input.action !== undefined) {
+      this.assertAction(input.action);
+    }
+    const entityId = input.entityId !== undefined ? input.entityId : existing.entityId ?? null;
+    if (input.entityId) {
+      await this.assertEntityAccess(input.entityId, userId);
+    }
+    if (input.entityId !== undefined || input.action !== undefined) {
+      await this.assertActionAccounts(input.action ?? existing.action, entityId, userId);
+    }
+
+    const updates: string[] = [];
+    const values: any[] = [];
+    const addField = (key: keyof typeof input, dbCol: string, transform?: (v: any) => any) => {
+      const newVal = input[key];
+      if (newVal !== undefined) {
+        updates.push(`${dbCol} = ?`);
+        values.push(transform ? transform(newVal) : newVal ?? null);
+      }
+    };
+
+    addField('name', 'name');
+    addField('description', 'description');
+    addField('entityId', 'entity_id');
+    addField('isActive', 'is_active', v => (v ? 1 : 0));
+    addField('priority', 'priority');
+    addField('conditions', 'conditions', v => JSON.stringify(v));
+    addField('action', 'action', v => JSON.stringify(v));
+
+    if (updates.length === 0) {
+      return existing;
+    }
+    updates.push('updated_at = ?');
+    values.push(Math.floor(Date.now() / 1000));
+
+    const sql = `UPDATE ${this.TABLE_NAME} SET ${updates.join(', ')} WHERE id = ? AND user_id = ?`;
+    try {
+      const result: DbExecuteResult = await this.db.execute(sql, [...values, id, userId]);
+      if (!result.success) {
+        throw new AppError(ErrorCode.DATABASE_ERROR, result.error || 'Failed to update rule.', 500);
+      }
+      const updated = await this.getRuleById(id, userId);
+      if (!updated) {
+        throw new AppError(ErrorCode.DATABASE_ERROR, 'Rule was updated but could not be retrieved.', 500);
+      }
+      return updated;
+    } catch (error: unknown) {
+      if (error instanceof AppError) throw error;
+      console.error('RuleService.updateRule error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'An unexpected error occurred while updating the rule.', 500, error);
+    }
+  }
+
+  async deleteRule(id: string, userId: string): Promise<boolean> {
+    const existing = await this.getRuleById(id, userId);
+    if (!existing) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'Rule not found or access denied.', 404);
+    }
+    try {
+      const result = await this.db.execute(`DELETE FROM ${this.TABLE_NAME} WHERE id = ? AND user_id = ?`, [id, userId]);
+      return result.success && ((result.meta?.changes ?? 0) > 0);
+    } catch (error: unknown) {
+      console.error('RuleService.deleteRule error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'An unexpected error occurred while deleting the rule.', 500, error);
+    }
+  }
+
+  /**
+   * The active rules that apply to an entity, with every action pointing at one of the
+   * entity's own accounts. Global rules are re-pointed to the entity's link of the same
+   * chart of accounts entry and dropped when the entity does not use that account.
+   */
+  async getRulesForEntity(entityId: string, userId: string): Promise<Rule[]> {
+    await this.assertEntityAccess(entityId, userId);
+    let rows: DbCategorizationRule[];
+    try {
+      rows = await this.db.query<DbCategorizationRule>(`
+        SELECT * FROM ${this.TABLE_NAME}
+        WHERE user_id = ? AND is_active = 1 AND (entity_id IS NULL OR entity_id = ?)
+        ORDER BY priority DESC, created_at
+      `, [userId, entityId]);
+    } catch (error: unknown) {
+      console.error('RuleService.getRulesForEntity error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Failed to retrieve rules.', 500, error);
+    }
+    const rules = rows.map(mapDbRuleToStoredRule);
+
+    const entityAccounts = await this.entityAccountService.getAccountsForEntity(entityId, userId);
+    const activeLinkIds = new Set(entityAccounts.filter(ea => ea.is_active).map(ea => ea.id));
+    const linkIdByAccountId = new Map(entityAccounts.filter(ea => ea.is_active).map(ea => [ea.account_id, ea.id]));
+
+    const foreignLinkIds = [...new Set(
+      rules.filter(rule => !rule.entityId).flatMap(rule => getActionAccountIds(rule.action)).filter(id => !activeLinkIds.has(id))
+    )];
+    const accountIdByLinkId = new Map<string, string>();
+    if (foreignLinkIds.length > 0) {
+      try {
+        const links = await this.db.query<{ id: string; account_id: string }>(
+          `SELECT id, account_id FROM entity_accounts WHERE user_id = ? AND id IN (${foreignLinkIds.map(() => '?').join(', ')})`,
+          [userId, ...foreignLinkIds]
+        );
+        links.forEach(link => accountIdByLinkId.set(link.id, link.account_id));
+      } catch (error: unknown) {
+        console.error('RuleService.getRulesForEntity error:', error);
+        throw new AppError(ErrorCode.DATABASE_ERROR, 'Failed to resolve rule accounts.', 500, error);
+      }
+    }
+
+    return rules.flatMap(rule => {
+      if (getActionAccountIds(rule.action).every(id => activeLinkIds.has(id))) return [rule];
+      if (rule.entityId) return [];
+      const action = mapActionAccounts(rule.action, linkId => {
+        if (activeLinkIds.has(linkId)) return linkId;
+        const accountId = accountIdByLinkId.get(linkId);
+        return accountId ? linkIdByAccountId.get(accountId) : undefined;
+      });
+      return action ? [{ ...rule, action }] : [];
+    });
+  }
+
+  /**
+   * A RuleEngine loaded with the rules that apply to an entity.
+   */
+  async createRuleEngine(entityId: string, userId: string): Promise<RuleEngine> {
+    return new RuleEngine(await this.getRulesForEntity(entityId, userId));
+  }
+
+  /**
+   * Dry-runs candidate rules over an entity's past imported lines or posted transactions
+   * and reports what would change against the current rules. Candidates are validated like
+   * saved rules, but their accounts must belong to the simulated entity. Nothing is written.
+   */
+  async simulateRules(input: RuleSimulationInput, userId: string): Promise<RuleSimulationReport> {
+    const currentRules = await this.getRulesForEntity(input.entity_id, userId);
+    const currentIds = new Set(currentRules.map(rule => rule.id));
+    const candidates: Rule[] = [];
+    for (const [index, candidate] of input.rules.entries()) {
+      if (candidate.entityId && candidate.entityId !== input.entity_id) {
+        throw new AppError(ErrorCode.VALIDATION_ERROR, 'Candidate rules must apply to the simulated entity.', 400, { rules: [index] });
+      }
+      if (candidate.id && !currentIds.has(candidate.id) && !(await this.getRuleById(candidate.id, userId))) {
+        throw new AppError(ErrorCode.NOT_FOUND, `Rule ${candidate.id} not found or access denied.`, 404);
+      }
+      this.assertConditions(candidate.conditions);
+      this.assertAction(candidate.action);
+      await this.assertActionAccounts(candidate.action, input.entity_id, userId);
+      candidates.push({
+        id: candidate.id ?? `candidate-${index + 1}`,
+        name: candidate.name,
+        description: candidate.description,
+        entityId: candidate.entityId,
+        isActive: candidate.isActive !== false,
+        priority: candidate.priority ?? DEFAULT_PRIORITY,
+        conditions: candidate.conditions,
+        action: candidate.action,
+      });
+    }
+
+    if (input.cash_entity_account_id) {
+      const cashAccount = await this.entityAccountService.getEntityAccountById(input.cash_entity_account_id, userId);
+      if (!cashAccount || cashAccount.entity_id !== input.entity_id) {
+        throw new AppError(ErrorCode.VALIDATION_ERROR, 'Cash account must be an account of this entity.', 400);
+      }
+    }
+    const subjects = input.source === 'transactions'
+      ? await this.getTransactionSubjects(input, userId)
+      : await this.getImportSubjects(input, userId);
+    const truncated = subjects.length > MAX_SIMULATION_ITEMS;
+
+    return {
+      entity_id: input.entity_id,
+      source: input.source,
+      start_date: input.start_date,
+      end_date: input.end_date,
+      truncated,
+      ...simulateRules(
+        subjects.slice(0, MAX_SIMULATION_ITEMS),
+        currentRules,
+        mergeCandidateRules(currentRules, candidates, input.replace_all)
+      ),
+    };
+  }
+
+  /**
+   * Suggests rules from the entity's import lines that were categorized by hand (those
+   * with a category but no rule), most recent first and optionally limited to a date
+   * window. Lines the current rules already categorize the same way teach nothing new.
+   */
+  async suggestRules(
+    entityId: string,
+    userId: string,
+    window: { start_date?: number; end_date?: number } = {}
+  ): Promise<RuleSuggestion[]> {
+    const engine = await this.createRuleEngine(entityId, userId);
+    let sql = `
+      SELECT bi.id, bi.date, bi.description, bi.amount, bi.direction, bi.category_entity_account_id
+      FROM bank_import_items bi
+      JOIN bank_import_batches b ON b.id = bi.batch_id
+      JOIN entity_accounts ea ON ea.id = bi.category_entity_account_id
+      WHERE b.user_id = ? AND b.entity_id = ? AND b.status != 'discarded'
+        AND bi.rule_id IS NULL AND bi.status IN ('proposed', 'posted') AND ea.is_active = 1
+    `;
+    const params: any[] = [userId, entityId];
+    if (window.start_date !== undefined) {
+      sql += ' AND bi.date >= ?';
+      params.push(window.start_date);
+    }
+    if (window.end_date !== undefined) {
+      sql += ' AND bi.date <= ?';
+      params.push(window.end_date);
+    }
+    sql += ' ORDER BY bi.date DESC, bi.id LIMIT ?';
+    params.push(MAX_LEARNING_ITEMS);
+    let categorizations: ManualCategorization[];
+    try {
+      const rows = await this.db.query<Pick<DbBankImportItem, 'id' | 'date' | 'description' | 'amount' | 'direction'> & { category_entity_account_id: string }>(sql, params);
+      categorizations = rows.map(row => ({
+        item: {
+          id: row.id,
+          date: new Date(row.date * 1000),
+          description: row.description,
+          amount: row.amount,
+          type: row.direction,
+          entityId,
+        },
+        entityAccountId: row.category_entity_account_id,
+      }));
+    } catch (error: unknown) {
+      console.error('RuleService.suggestRules error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Failed to retrieve categorized lines.', 500, error);
+    }
+    return suggestRules(categorizations, entityId, engine);
+  }
+
+  /**
+   * Copies `defaultRules` and `bankTransactionRules` into an entity's rules, resolving their
+   * placeholder account ids to the entity's accounts by chart of accounts code. Defaults
+   * already seeded for the entity are skipped, so seeding again only fills gaps.
+   */
+  async seedDefaultRules(entityId: string, userId: string): Promise<RuleSeedResult> {
+    await this.assertEntityAccess(entityId, userId);
+    let seededTemplateIds: Set<string>;
+    try {
+      const rows = await this.db.query<{ template_id: string }>(
+        `SELECT template_id FROM ${this.TABLE_NAME} WHERE user_id = ? AND entity_id = ? AND template_id IS NOT NULL`,
+        [userId, entityId]
+      );
+      seededTemplateIds = new Set(rows.map(row => row.template_id));
+    } catch (error: unknown) {
+      console.error('RuleService.seedDefaultRules error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Failed to retrieve seeded rules.', 500, error);
+    }
+
+    const entityAccounts = await this.entityAccountService.getAccountsForEntity(entityId, userId);
+    const linkIdByCode = new Map(entityAccounts.filter(ea => ea.is_active).map(ea => [ea.account_code, ea.id]));
+
+    const result: RuleSeedResult = { created: [], skipped: [] };
+    const operations: D1PreparedStatement[] = [];
+    const createdIds: string[] = [];
+    const now = Math.floor(Date.now() / 1000);
+    for (const template of [...getDefaultRules(), ...getBankTransactionRules()]) {
+      if (seededTemplateIds.has(template.id)) continue;
+      const missingCodes: string[] = [];
+      const action = mapActionAccounts(template.action, placeholder => {
+        const code = resolvePlaceholderAccountCode(placeholder);
+        const linkId = linkIdByCode.get(code);
+        if (!linkId) missingCodes.push(code);
+        return linkId;
+      });
+      if (!action) {
+        result.skipped.push({ templateId: template.id, reason: `Account ${missingCodes[0]} is not linked to this entity.` });
+        continue;
+      }
+      const ruleId = crypto.randomUUID();
+      const input: RuleInput = {
+        name: template.name,
+        description: template.description,
+        entityId,
+        isActive: template.isActive,
+        priority: template.priority,
+        conditions: template.conditions,
+        action,
+      };
+      operations.push(this.db.d1Instance.prepare(this.insertSql()).bind(...this.insertParams(ruleId, userId, input, template.id, now)));
+      createdIds.push(ruleId);
+    }
+    if (operations.length === 0) return result;
+
+    try {
+      await this.db.batch(operations);
+    } catch (error: unknown) {
+      console.error('RuleService.seedDefaultRules error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Failed to seed default rules.', 500, error);
+    }
+    const created = await this.listRules(userId, entityId);
+    result.created = created.filter(rule => createdIds.includes(rule.id));
+    return result;
+  }
+
+  /**
+   * Staged and posted import lines of the entity in the window, described the way
+   * BankImportService hands them to the engine. Skipped lines are left out.
+   */
+  private async getImportSubjects(input: RuleSimulationInput, userId: string): Promise<SimulationSubject[]> {
+    let sql = `
+      SELECT bi.id, bi.date, bi.description, bi.amount, bi.direction, bi.reference, bi.external_id, bi.memo
+      FROM bank_import_items bi
+      JOIN bank_import_batches b ON b.id = bi.batch_id
+      WHERE b.user_id = ? AND b.entity_id = ? AND b.status != 'discarded' AND bi.status != 'skipped'
+        AND bi.date BETWEEN ? AND ?
+    `;
+    const params: any[] = [userId, input.entity_id, input.start_date, input.end_date];
+    if (input.cash_entity_account_id) {
+      sql += ' AND b.cash_entity_account_id = ?';
+      params.push(input.cash_entity_account_id);
+    }
+    sql += ' ORDER BY bi.date, bi.row_number LIMIT ?';
+    params.push(MAX_SIMULATION_ITEMS + 1);
+    try {
+      const rows = await this.db.query<Pick<DbBankImportItem, 'id' | 'date' | 'description' | 'amount' | 'direction' | 'reference' | 'external_id' | 'memo'>>(sql, params);
+      return rows.map(row => ({
+        kind: 'import_item' as const,
+        item: {
+          id: row.id,
+          date: new Date(row.date * 1000),
+          description: row.description,
+          amount: row.amount,
+          type: row.direction,
+          entityId: input.entity_id,
+          metadata: { reference: row.reference ?? null, externalId: row.external_id ?? null, memo: row.memo ?? null },
+        },
+      }));
+    } catch (error: unknown) {
+      console.error('RuleService.getImportSubjects error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Failed to retrieve imported lines.', 500, error);
+    }
+  }
+
+  /**
+   * Posted transactions that touch the cash account in the window, netted to their effect
+   * on it: money in is a bank credit, money out a bank debit. Reversals are left out.
+   */
+  private async getTransactionSubjects(input: RuleSimulationInput, userId: string): Promise<SimulationSubject[]> {
+    try {
+      const rows = await this.db.query<{ id: string; date: number; description: string; reference: string | null; amount: number }>(`
+        SELECT t.id, t.date, t.description, t.reference,
+          SUM(CASE WHEN tl.is_debit = 1 THEN tl.amount ELSE -tl.amount END) AS amount
+        FROM transactions t
+        JOIN transaction_lines tl ON tl.transaction_id = t.id
+        WHERE t.user_id = ? AND t.entity_id = ? AND tl.entity_account_id = ?
+          AND t.status = 'posted' AND t.reverses_transaction_id IS NULL
+          AND t.date BETWEEN ? AND ?
+        GROUP BY t.id
+        HAVING amount != 0
+        ORDER BY t.date, t.created_at
+        LIMIT ?
+      `, [userId, input.entity_id, input.cash_entity_account_id, input.start_date, input.end_date, MAX_SIMULATION_ITEMS + 1]);
+      return rows.map(row => ({
+        kind: 'transaction' as const,
+        item: {
+          id: row.id,
+          date: new Date(row.date * 1000),
+          description: row.description,
+          amount: Math.abs(row.amount),
+          type: row.amount > 0 ? 'credit' as const : 'debit' as const, // A cash debit is money in
+          entityId: input.entity_id,
+          metadata: { reference: row.reference ?? null },
+        },
+      }));
+    } catch (error: unknown) {
+      console.error('RuleService.getTransactionSubjects error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Failed to retrieve transactions.', 500, error);
+    }
+  }
+
+  private insertSql(): string {
+    return `
+      INSERT INTO ${this.TABLE_NAME} (
+        id, user_id, entity_id, template_id, name, description, is_active, priority,
+        conditions, action, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `;
+  }
+
+  private insertParams(ruleId: string, userId: string, input: RuleInput, templateId: string | null, now: number): any[] {
+    return [
+      ruleId, userId, input.entityId ?? null, templateId, input.name, input.description ?? null,
+      input.isActive === false ? 0 : 1, input.priority ?? DEFAULT_PRIORITY,
+      JSON.stringify(input.conditions), JSON.stringify(input.action), now, now,
+    ];
+  }
+
+  private assertConditions(conditions: RuleConditionNode[]): void {
+    const errors = validateRuleConditions(conditions);
+    if (errors.length > 0) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Rule conditions are invalid.', 400, { conditions: errors });
+    }
+  }
+
+  private assertAction(action: RuleAction): void {
+    const errors = validateRuleAction(action);
+    if (errors.length > 0) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Rule action is invalid.', 400, { action: errors });
+    }
+  }
+
+  /**
+   * Every action account must be one of the user's active entity-account links and, for an
+   * entity rule, belong to that entity.
+   */
+  private async assertActionAccounts(action: RuleAction, entityId: string | null, userId: string): Promise<void> {
+    for (const entityAccountId of new Set(getActionAccountIds(action))) {
+      const entityAccount = await this.entityAccountService.getEntityAccountById(entityAccountId, userId);
+      if (!entityAccount || !entityAccount.is_active) {
+        throw new AppError(ErrorCode.VALIDATION_ERROR, 'Rule action account must be an active entity account.', 400);
+      }
+      if (entityId && entityAccount.entity_id !== entityId) {
+        throw new AppError(ErrorCode.VALIDATION_ERROR, 'Rule action account must belong to the rule\'s entity.', 400);
+      }
+    }
+  }
+
+  private async assertEntityAccess(entityId: string, userId: string): Promise<void> {
+    const entity = await this.entityService.getEntityById(entityId, userId);
+    if (!entity) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'Entity not found or access denied.', 404);
+    }
+  }
+}
+
+export function createRuleService(d1: D1Database): RuleService {
+  return new RuleService(d1);
+}
@@ -0,0 +1,576 @@
+// src/lib/services/transaction-service.ts
+import type { D1Database, D1PreparedStatement } from '@cloudflare/workers-types';
+import { Database, createDbClient } from '@db/db';
+import type { DbTransaction, DbTransactionLine } from '@db/schema';
+import type {
+  Transaction,
+  TransactionLine,
+  TransactionInput,
+  TransactionLineInput,
+  TransactionListFilters,
+  PaginatedTransactions,
+  PostTransactionInput,
+  VoidTransactionInput,
+  VoidTransactionResult,
+} from '../../types/transaction';
+import { AppError, ErrorCode } from '@utils/errors';
+import { isTransactionBalancedCents } from '@utils/financial';
+import { createEntityService, EntityService } from './entity-service';
+import { createFiscalPeriodService, FiscalPeriodService } from './fiscal-period-service';
+
+const TRANSACTION_COLUMNS = `
+  id, user_id, entity_id, journal_id, date, description, reference, status, is_reconciled,
+  document_url, reverses_transaction_id, voided_at, void_reason, created_at, updated_at
+`;
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+/**
+ * Maps a database transaction header to the application-level Transaction,
+ * converting numeric flags (0/1) to booleans.
+ */
+function mapDbTransactionToTransaction(dbTransaction: DbTransaction): Transaction {
+  return {
+    id: dbTransaction.id,
+    user_id: dbTransaction.user_id,
+    entity_id: dbTransaction.entity_id,
+    journal_id: dbTransaction.journal_id ?? null,
+    date: dbTransaction.date,
+    description: dbTransaction.description,
+    reference: dbTransaction.reference ?? null,
+    status: dbTransaction.status,
+    is_reconciled: dbTransaction.is_reconciled === 1,
+    document_url: dbTransaction.document_url ?? null,
+    reverses_transaction_id: dbTransaction.reverses_transaction_id ?? null,
+    voided_at: dbTransaction.voided_at ?? null,
+    void_reason: dbTransaction.void_reason ?? null,
+    created_at: dbTransaction.created_at,
+    updated_at: dbTransaction.updated_at,
+  };
+}
+
+function mapDbTransactionLineToTransactionLine(dbLine: DbTransactionLine): TransactionLine {
+  return {
+    id: dbLine.id,
+    transaction_id: dbLine.transaction_id,
+    entity_account_id: dbLine.entity_account_id,
+    amount: dbLine.amount,
+    is_debit: dbLine.is_debit === 1,
+    memo: dbLine.memo ?? null,
+    created_at: dbLine.created_at,
+  };
+}
+
+/**
+ * Produces the lines of a reversing entry: same accounts and amounts, opposite sides.
+ */
+export function buildReversingLines(lines: Array<Pick<TransactionLine, 'entity_account_id' | 'amount' | 'is_debit' | 'memo'>>): TransactionLineInput[] {
+  return lines.map(line => ({
+    entity_account_id: line.entity_account_id,
+    amount: line.amount,
+    is_debit: !line.is_debit,
+    memo: line.memo ?? null,
+  }));
+}
+
+export class TransactionService {
+  private db: Database;
+  private entityService: EntityService;
+  private fiscalPeriodService: FiscalPeriodService;
+  private TABLE_NAME = 'transactions';
+  private LINES_TABLE_NAME = 'transaction_lines';
+
+  constructor(d1: D1Database) {
+    this.db = createDbClient(d1);
+    this.entityService = createEntityService(d1);
+    this.fiscalPeriodService = createFiscalPeriodService(d1);
+  }
+
+  /**
+   * Retrieves a transaction header with all of its lines, ensuring it belongs to the user.
+   */
+  async getTransactionById(id: string, userId: string): Promise<Transaction | null> {
+    const sql = `
+      SELECT ${TRANSACTION_COLUMNS}
+      FROM ${this.TABLE_NAME}
+      WHERE id = ? AND user_id = ?
+    `;
+    try {
+      const dbTransaction = await this.db.queryOne<DbTransaction>(sql, [id, userId]);
+      if (!dbTransaction) return null;
+      const transaction = mapDbTransactionToTransaction(dbTransaction);
+      transaction.lines = await this.getTransactionLines(id);
+      return transaction;
+    } catch (error: unknown) {
+      if (error instanceof AppError) throw error;
+      console.error('TransactionService.getTransactionById error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Failed to retrieve transaction.', 500, error);
+    }
+  }
+
+  /**
+   * Retrieves the lines of a transaction, debits first.
+   * Callers are responsible for verifying ownership of the transaction header.
+   */
+  async getTransactionLines(transactionId: string): Promise<TransactionLine[]> {
+    const sql = `
+      SELECT id, transaction_id, entity_account_id, amount, is_debit, memo, created_at
+      FROM ${this.LINES_TABLE_NAME}
+      WHERE transaction_id = ?
+      ORDER BY is_debit DESC, created_at, id
+    `;
+    try {
+      const dbLines = await this.db.query<DbTransactionLine>(sql, [transactionId]);
+      return dbLines.map(mapDbTransactionLineToTransactionLine);
+    } catch (error: unknown) {
+      console.error('TransactionService.getTransactionLines error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Failed to retrieve transaction lines.', 500, error);
+    }
+  }
+
+  /**
+   * Lists transaction headers for an entity, optionally filtered by date range and status.
+   * Results are ordered by date (newest first) and paginated.
+   */
+  async listTransactions(filters: TransactionListFilters, userId: string): Promise<PaginatedTransactions> {
+    const entity = await this.entityService.getEntityById(filters.entity_id, userId);
+    if (!entity) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'Entity not found or access denied.', 404);
+    }
+
+    const page = Math.max(1, Math.floor(filters.page ?? 1));
+    const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(filters.page_size ?? DEFAULT_PAGE_SIZE)));
+
+    const conditions: string[] = ['user_id = ?', 'entity_id = ?'];
+    const params: any[] = [userId, filters.entity_id];
+    if (filters.start_date !== undefined) {
+      conditions.push('date >= ?');
+      params.push(filters.start_date);
+    }
+    if (filters.end_date !== undefined) {
+      conditions.push('date <= ?');
+      params.push(filters.end_date);
+    }
+    if (filters.status) {
+      conditions.push('status = ?');
+      params.push(filters.status);
+    }
+    const whereClause = conditions.join(' AND ');
+
+    const countSql = `SELECT COUNT(*) AS total FROM ${this.TABLE_NAME} WHERE ${whereClause}`;
+    const listSql = `
+      SELECT ${TRANSACTION_COLUMNS}
+      FROM ${this.TABLE_NAME}
+      WHERE ${whereClause}
+      ORDER BY date DESC, created_at DESC
+      LIMIT ? OFFSET ?
+    `;
+
+    try {
+      const countRow = await this.db.queryOne<{ total: number }>(countSql, params);
+      const total = countRow?.total ?? 0;
+      const dbTransactions = await this.db.query<DbTransaction>(listSql, [...params, pageSize, (page - 1) * pageSize]);
+      return {
+        transactions: dbTransactions.map(mapDbTransactionToTransaction),
+        page,
+        page_size: pageSize,
+        total,
+        total_pages: Math.ceil(total / pageSize),
+      };
+    } catch (error: unknown) {
+      console.error('TransactionService.listTransactions error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Failed to retrieve transactions.', 500, error);
+    }
+  }
+
+  /**
+   * Creates a transaction header and its lines atomically.
+   * Lines must balance and every line must reference an active account linked to the entity.
+   */
+  async createTransaction(input: TransactionInput, userId: string): Promise<Transaction> {
+    const transactionId = crypto.randomUUID();
+    const operations = await this.prepareCreateStatements(transactionId, input, userId);
+
+    try {
+      await this.db.batch(operations);
+      const created = await this.getTransactionById(transactionId, userId);
+      if (!created) {
+        throw new AppError(ErrorCode.DATABASE_ERROR, 'Transaction was created but could not be retrieved.', 500);
+      }
+      return created;
+    } catch (error: unknown) {
+      if (error instanceof AppError) throw error;
+      console.error('TransactionService.createTransaction error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'An unexpected error occurred while creating the transaction.', 500, error);
+    }
+  }
+
+  /**
+   * Validates a new transaction and returns the statements that insert its header and lines,
+   * so other services can write a journal entry in the same batch as their own changes.
+   * Posted transactions must fall in a period that is open for posting.
+   */
+  async prepareCreateStatements(transactionId: string, input: TransactionInput, userId: string): Promise<D1PreparedStatement[]> {
+    const entity = await this.entityService.getEntityById(input.entity_id, userId);
+    if (!entity) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'Entity not found or access denied.', 404);
+    }
+    if (input.status === 'voided') {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Transactions cannot be created as voided.', 400);
+    }
+    await this.validateLines(input.entity_id, input.lines, userId);
+    const overrideStatements = (input.status ?? 'posted') === 'posted'
+      ? await this.fiscalPeriodService.preparePostingCheck(input.entity_id, input.date, transactionId, input.period_override_reason, userId)
+      : [];
+
+    const now = Math.floor(Date.now() / 1000);
+    return [
+      this.buildHeaderInsertStatement(transactionId, input, userId, now),
+      ...this.buildLineInsertStatements(transactionId, input.lines, now),
+      ...overrideStatements,
+    ];
+  }
+
+  /**
+   * Updates a transaction header and, when `lines` is supplied, replaces all of its lines.
+   * The header update and line replacement run in a single batch.
+   * Only pending transactions may change amounts, accounts or dates; posted transactions
+   * accept descriptive edits only and must be corrected through a void. Reconciled
+   * transactions are locked entirely.
+   * Status changes go through `postTransaction` and `voidTransaction`.
+   */
+  async updateTransaction(
+    id: string,
+    input: Partial<Omit<TransactionInput, 'entity_id' | 'status' | 'period_override_reason'>>,
+    userId: string
+  ): Promise<Transaction> {
+    const existing = await this.getTransactionById(id, userId);
+    if (!existing) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'Transaction not found or access denied.', 404);
+    }
+    if (existing.status === 'voided') {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Voided transactions cannot be modified.', 400);
+    }
+    if (existing.is_reconciled) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Reconciled transactions are locked and cannot be modified.', 400);
+    }
+    if (existing.status === 'posted' && (input.lines !== undefined || input.date !== undefined || input.journal_id !== undefined)) {
+      throw new AppError(
+        ErrorCode.VALIDATION_ERROR,
+        'Posted transactions cannot have their lines, date or journal changed. Void the transaction and record a new one.',
+        400
+      );
+    }
+    if (input.lines) {
+      await this.validateLines(existing.entity_id, input.lines, userId);
+    }
+
+    const updates: string[] = [];
+    const values: any[] = [];
+    const now = Math.floor(Date.now() / 1000);
+
+    const addField = (key: Exclude<keyof typeof input, 'lines'>, dbCol: string, transform?: (v: any) => any) => {
+      const newVal = input[key];
+      if (newVal !== undefined) {
+        updates.push(`${dbCol} = ?`);
+        values.push(transform ? transform(newVal) : newVal ?? null);
+      }
+    };
+
+    addField('journal_id', 'journal_id');
+    addField('date', 'date');
+    addField('description', 'description');
+    addField('reference', 'reference');
+    addField('document_url', 'document_url');
+
+    if (updates.length === 0 && !input.lines) {
+      return existing;
+    }
+
+    updates.push('updated_at = ?');
+    values.push(now);
+
+    const operations: D1PreparedStatement[] = [
+      this.db.d1Instance
+        .prepare(`UPDATE ${this.TABLE_NAME} SET ${updates.join(', ')} WHERE id = ? AND user_id = ?`)
+        .bind(...values, id, userId),
+    ];
+    if (input.lines) {
+      operations.push(
+        this.db.d1Instance.prepare(`DELETE FROM ${this.LINES_TABLE_NAME} WHERE transaction_id = ?`).bind(id),
+        ...this.buildLineInsertStatements(id, input.lines, now)
+      );
+    }
+
+    try {
+      await this.db.batch(operations);
+      const updated = await this.getTransactionById(id, userId);
+      if (!updated) {
+        throw new AppError(ErrorCode.DATABASE_ERROR, 'Transaction was updated but could not be retrieved.', 500);
+      }
+      return updated;
+    } catch (error: unknown) {
+      if (error instanceof AppError) throw error;
+      console.error('TransactionService.updateTransaction error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'An unexpected error occurred while updating the transaction.', 500, error);
+    }
+  }
+
+  /**
+   * Deletes a pending transaction. Lines are removed by the ON DELETE CASCADE constraint.
+   * Posted and voided transactions are part of the audit trail and cannot be deleted.
+   */
+  async deleteTransaction(id: string, userId: string): Promise<boolean> {
+    const existing = await this.getTransactionById(id, userId);
+    if (!existing) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'Transaction not found or access denied.', 404);
+    }
+    if (existing.status !== 'pending') {
+      throw new AppError(
+        ErrorCode.VALIDATION_ERROR,
+        `Only pending transactions can be deleted. This transaction is ${existing.status}.`,
+        400
+      );
+    }
+
+    const sql = `DELETE FROM ${this.TABLE_NAME} WHERE id = ? AND user_id = ?`;
+    try {
+      const result = await this.db.execute(sql, [id, userId]);
+      return result.success && ((result.meta?.changes ?? 0) > 0);
+    } catch (error: unknown) {
+      if (error instanceof AppError) throw error;
+      console.error('TransactionService.deleteTransaction error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'An unexpected error occurred while deleting the transaction.', 500, error);
+    }
+  }
+
+  /**
+   * Moves a pending transaction to 'posted' after re-checking that its stored lines balance
+   * and that its period is open for posting.
+   */
+  async postTransaction(id: string, userId: string, input: PostTransactionInput = {}): Promise<Transaction> {
+    const existing = await this.getTransactionById(id, userId);
+    if (!existing) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'Transaction not found or access denied.', 404);
+    }
+    if (existing.status !== 'pending') {
+      throw new AppError(
+        ErrorCode.VALIDATION_ERROR,
+        `Cannot post transaction. Current status: ${existing.status}. Expected 'pending'.`,
+        400
+      );
+    }
+    await this.validateLines(existing.entity_id, existing.lines ?? [], userId);
+    const overrideStatements = await this.fiscalPeriodService.preparePostingCheck(
+      existing.entity_id, existing.date, id, input.period_override_reason, userId
+    );
+
+    const now = Math.floor(Date.now() / 1000);
+    const sql = `
+      UPDATE ${this.TABLE_NAME}
+      SET status = 'posted', updated_at = ?
+      WHERE id = ? AND user_id = ? AND status = 'pending'
+    `;
+    try {
+      // The override log goes in the same batch so a soft-closed posting is never left without its
+      // reason, and the change check rolls it back when the transaction was no longer pending
+      await this.db.batch([
+        this.db.d1Instance.prepare(sql).bind(now, id, userId),
+        this.db.prepareChangeCheck(),
+        ...overrideStatements,
+      ]);
+      const posted = await this.getTransactionById(id, userId);
+      if (!posted) {
+        throw new AppError(ErrorCode.DATABASE_ERROR, 'Transaction was posted but could not be retrieved.', 500);
+      }
+      return posted;
+    } catch (error: unknown) {
+      if (error instanceof AppError) throw error;
+      if ((await this.getTransactionById(id, userId))?.status !== 'pending') {
+        throw new AppError(ErrorCode.VALIDATION_ERROR, 'Transaction status changed before it could be posted.', 409);
+      }
+      console.error('TransactionService.postTransaction error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'An unexpected error occurred while posting the transaction.', 500, error);
+    }
+  }
+
+  /**
+   * Voids a posted transaction by recording a linked reversing entry dated `input.date`.
+   * The original keeps its lines and is marked 'voided'; the reversal is posted with every
+   * line flipped, so the pair nets to zero while both remain visible in the ledger.
+   */
+  async voidTransaction(id: string, input: VoidTransactionInput, userId: string): Promise<VoidTransactionResult> {
+    const { reversalId, statements } = await this.prepareVoidStatements(id, input, userId);
+
+    try {
+      await this.db.batch(statements);
+      const voided = await this.getTransactionById(id, userId);
+      const reversal = await this.getTransactionById(reversalId, userId);
+      if (!voided || !reversal) {
+        throw new AppError(ErrorCode.DATABASE_ERROR, 'Transaction was voided but could not be retrieved.', 500);
+      }
+      return { voided, reversal };
+    } catch (error: unknown) {
+      if (error instanceof AppError) throw error;
+      if ((await this.getTransactionById(id, userId))?.status !== 'posted') {
+        throw new AppError(ErrorCode.VALIDATION_ERROR, 'Transaction status changed before it could be voided.', 409);
+      }
+      console.error('TransactionService.voidTransaction error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'An unexpected error occurred while voiding the transaction.', 500, error);
+    }
+  }
+
+  /**
+   * Validates a void and returns the statements that mark the transaction voided and insert
+   * its reversing entry, so other services can void several transactions in one batch.
+   * The reversal date must fall in a period that is open for posting. The batch fails if the
+   * transaction is no longer posted when it runs.
+   */
+  async prepareVoidStatements(
+    id: string,
+    input: VoidTransactionInput,
+    userId: string
+  ): Promise<{ reversalId: string; statements: D1PreparedStatement[] }> {
+    const existing = await this.getTransactionById(id, userId);
+    if (!existing) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'Transaction not found or access denied.', 404);
+    }
+    if (existing.status !== 'posted') {
+      throw new AppError(
+        ErrorCode.VALIDATION_ERROR,
+        `Cannot void transaction. Current status: ${existing.status}. Expected 'posted'.`,
+        400
+      );
+    }
+    if (existing.reverses_transaction_id) {
+      throw new AppError(
+        ErrorCode.VALIDATION_ERROR,
+        'Reversing entries cannot be voided. Record a new transaction instead.',
+        400
+      );
+    }
+    if (existing.is_reconciled) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Reconciled transactions are locked and cannot be voided.', 400);
+    }
+    if (input.date < existing.date) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'The reversal date cannot be before the original transaction date.', 400);
+    }
+
+    const reversalId = crypto.randomUUID();
+    const overrideStatements = await this.fiscalPeriodService.preparePostingCheck(
+      existing.entity_id, input.date, reversalId, input.period_override_reason, userId
+    );
+    const now = Math.floor(Date.now() / 1000);
+    const reversalLines = buildReversingLines(existing.lines ?? []);
+    const reversalInput: TransactionInput = {
+      entity_id: existing.entity_id,
+      journal_id: existing.journal_id,
+      date: input.date,
+      description: `VOID: ${existing.description}`,
+      reference: existing.reference,
+      status: 'posted',
+      lines: reversalLines,
+    };
+
+    return {
+      reversalId,
+      statements: [
+        this.db.d1Instance
+          .prepare(`
+            UPDATE ${this.TABLE_NAME}
+            SET status = 'voided', voided_at = ?, void_reason = ?, updated_at = ?
+            WHERE id = ? AND user_id = ? AND status = 'posted'
+          `)
+          .bind(now, input.reason || null, now, id, userId),
+        // A concurrent void finds the transaction already voided and inserts no second reversal
+        this.db.prepareChangeCheck(),
+        this.buildHeaderInsertStatement(reversalId, reversalInput, userId, now, id),
+        ...this.buildLineInsertStatements(reversalId, reversalLines, now),
+        ...overrideStatements,
+      ],
+    };
+  }
+
+  /**
+   * Ensures lines balance, carry positive amounts and reference active
+   * entity accounts that belong to the given entity and user.
+   */
+  private async validateLines(entityId: string, lines: TransactionLineInput[], userId: string): Promise<void> {
+    if (!lines || lines.length < 2) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Transaction must have at least two lines.', 400);
+    }
+    if (lines.some(line => !Number.isInteger(line.amount) || line.amount <= 0)) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Line amounts must be positive integers (cents).', 400);
+    }
+    if (!isTransactionBalancedCents(lines)) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'Transaction debits and credits must balance.', 400);
+    }
+
+    const accountIds = [...new Set(lines.map(line => line.entity_account_id))];
+    const placeholders = accountIds.map(() => '?').join(', ');
+    const sql = `
+      SELECT id FROM entity_accounts
+      WHERE user_id = ? AND entity_id = ? AND is_active = 1 AND id IN (${placeholders})
+    `;
+    let found: Array<{ id: string }>;
+    try {
+      found = await this.db.query<{ id: string }>(sql, [userId, entityId, ...accountIds]);
+    } catch (error: unknown) {
+      console.error('TransactionService.validateLines error:', error);
+      throw new AppError(ErrorCode.DATABASE_ERROR, 'Failed to validate transaction accounts.', 500, error);
+    }
+    const foundIds = new Set(found.map(row => row.id));
+    const missing = accountIds.filter(accountId => !foundIds.has(accountId));
+    if (missing.length > 0) {
+      throw new AppError(
+        ErrorCode.VALIDATION_ERROR,
+        'One or more lines reference accounts that are inactive or not linked to this entity.',
+        400,
+        { entity_account_ids: missing }
+      );
+    }
+  }
+
+  private buildHeaderInsertStatement(
+    transactionId: string,
+    input: TransactionInput,
+    userId: string,
+    now: number,
+    reversesTransactionId: string | null = null
+  ): D1PreparedStatement {
+    const sql = `
+      INSERT INTO ${this.TABLE_NAME} (
+        id, user_id, entity_id, journal_id, date, description, reference,
+        status, is_reconciled, document_url, reverses_transaction_id, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `;
+    return this.db.d1Instance.prepare(sql).bind(
+      transactionId, userId, input.entity_id, input.journal_id || null, input.date,
+      input.description, input.reference || null,
+      input.status || 'posted',
+      0, // Only a completed bank reconciliation marks a transaction reconciled
+      input.document_url || null,
+      reversesTransactionId,
+      now, now
+    );
+  }
+
+  private buildLineInsertStatements(transactionId: string, lines: TransactionLineInput[], now: number): D1PreparedStatement[] {
+    const sql = `
+      INSERT INTO ${this.LINES_TABLE_NAME} (
+        id, transaction_id, entity_account_id, amount, is_debit, memo, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?)
+    `;
+    return lines.map(line =>
+      this.db.d1Instance.prepare(sql).bind(
+        crypto.randomUUID(), transactionId, line.entity_account_id,
+        line.amount, line.is_debit ? 1 : 0, line.memo || null, now
+      )
+    );
+  }
+}
+
+export function createTransactionService(d1: D1Database): TransactionService {
+  return new TransactionService(d1);
+}
@@ -12,6 +12,12 @@ export type AccountSystemType = 'asset' | 'liability' | 'equity' | 'income' | 'e
  */
 export type ExpenseSubtype = 'recoverable' | 'non-recoverable' | 'other'; // Can be extended
 
+/**
+ * Where an account's movements appear on the statement of cash flows.
+ * Aligns with DbChartOfAccount['cash_flow_category'].
+ */
+export type CashFlowCategory = 'cash' | 'operating' | 'investing' | 'financing' | 'non_cash';
+
 /**
  * Represents a definition of an account in the Chart of Accounts for application use.
  * This interface aligns with the structure of the 'chart_of_accounts' D1 table
@@ -48,6 +54,11 @@ export interface ChartOfAccount {
   is_active: boolean; // Application-level boolean
   /** Optional link to tax form lines or categories. */
   tax_category?: string | null;
+  /**
+   * Statement of cash flows classification. Null inherits the parent account's category;
+   * balance-sheet accounts with no category anywhere in their ancestry count as operating.
+   */
+  cash_flow_category?: CashFlowCategory | null;
   /**
    * The ID (UUID) of the parent account, for hierarchical chart of accounts.
    * Null if it's a top-level account.
@@ -74,6 +85,7 @@ export interface ChartOfAccountInput {
   recovery_percentage?: number | null;
   is_active?: boolean;      // Defaults to true if not provided in service
   tax_category?: string | null;
+  cash_flow_category?: CashFlowCategory | null;
   parent_id?: string | null;
 }
 
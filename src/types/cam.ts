@@ -0,0 +1,80 @@
+// src/types/cam.ts
+
+/**
+ * A tenant sharing in an entity's recoverable expense (CAM) pool.
+ * Mirrors the `cam_tenants` table, converting integer flags to booleans.
+ */
+export interface CamTenant {
+  id: string;
+  user_id: string;
+  entity_id: string;
+  name: string;
+  pro_rata_share: number; // Basis points of the recoverable pool (10000 = 100%)
+  is_active: boolean;
+  created_at: number;
+  updated_at: number;
+}
+
+/**
+ * Payload for creating/updating a CAM tenant.
+ */
+export interface CamTenantInput {
+  entity_id: string;
+  name: string;
+  pro_rata_share: number;
+  is_active?: boolean;
+}
+
+/**
+ * Estimated recoveries billed to a tenant during a reconciliation year.
+ */
+export interface CamTenantEstimate {
+  id: string;
+  tenant_id: string;
+  year: number;
+  billed_amount: number; // Cents
+  created_at: number;
+  updated_at: number;
+}
+
+/**
+ * One recoverable expense account in the reconciliation. `recovery_percentage` is the
+ * effective basis points: the entity-account override when set, otherwise the CoA default.
+ */
+export interface CamExpenseLine {
+  entity_account_id: string;
+  account_code: string;
+  account_name: string;
+  expense_amount: number; // Cents of net expense for the year
+  recovery_percentage: number; // Basis points
+  recovery_source: 'entity_account' | 'chart_of_accounts';
+  recoverable_amount: number; // Cents
+}
+
+/**
+ * A tenant's share of the recoverable pool compared with what was billed.
+ * A positive `true_up` is owed by the tenant; a negative one is a credit due to the tenant.
+ */
+export interface CamTenantTrueUp {
+  tenant_id: string;
+  tenant_name: string;
+  pro_rata_share: number;
+  share_amount: number;
+  estimated_billed: number;
+  true_up: number;
+}
+
+export interface CamReconciliation {
+  entity_id: string;
+  year: number;
+  start_date: number;
+  end_date: number;
+  expenses: CamExpenseLine[];
+  total_recoverable_expenses: number; // Cents, before recovery percentages
+  recoverable_pool: number; // Cents, after recovery percentages
+  tenants: CamTenantTrueUp[];
+  total_share: number;
+  total_billed: number;
+  total_true_up: number;
+  unallocated_amount: number; // Pool not assigned to any tenant (vacancy), borne by the owner
+}
@@ -0,0 +1,48 @@
+// src/types/document.ts
+
+export type DocumentTargetType = 'transaction' | 'entity' | 'loan';
+
+/**
+ * A record a document is attached to.
+ */
+export interface DocumentLink {
+  target_type: DocumentTargetType;
+  target_id: string;
+  created_at: number;
+}
+
+/**
+ * An uploaded receipt, invoice, lease or other file. The file itself lives in R2 and is
+ * only served through a signed, short-lived download URL.
+ * Aligns with the 'documents' D1 table (DbDocument).
+ */
+export interface Document {
+  id: string;
+  user_id: string;
+  file_name: string;
+  content_type: string;
+  size_bytes: number;
+  description: string | null;
+  links: DocumentLink[];
+  created_at: number;
+  updated_at: number;
+}
+
+/**
+ * An uploaded file and its metadata, parsed from the multipart upload form.
+ */
+export interface DocumentUploadInput {
+  file: Blob;
+  file_name: string;
+  content_type: string; // As declared by the client; checked against the file's first bytes
+  description?: string | null;
+  links?: Array<Omit<DocumentLink, 'created_at'>>;
+}
+
+/**
+ * A download URL valid for the requesting user until `expires_at`.
+ */
+export interface DocumentDownloadUrl {
+  url: string;
+  expires_at: number; // Unix timestamp (seconds)
+}
@@ -16,6 +16,7 @@ export interface Entity {
   parent_id?: string | null;
   is_active: boolean;
   allows_sub_entities: boolean;
+  fiscal_year_start_month: number; // 1-12 (January = 1)
   created_at: number;
   updated_at: number;
 }
@@ -34,4 +35,5 @@ export interface EntityInput {
   parent_id?: string | null;
   is_active?: boolean;
   allows_sub_entities?: boolean;
+  fiscal_year_start_month?: number;
 }
@@ -0,0 +1,162 @@
+// src/types/import.ts
+import type { TransactionInput } from './transaction';
+
+export type StatementDirection = 'debit' | 'credit'; // Bank perspective: money out / money in
+export type CsvSignConvention = 'deposits_positive' | 'withdrawals_positive';
+export type CsvDateFormat = 'YYYY-MM-DD' | 'MM/DD/YYYY' | 'DD/MM/YYYY';
+export type BankImportSource = 'csv' | 'ofx';
+export type BankImportBatchStatus = 'staged' | 'posted' | 'discarded';
+export type BankImportItemStatus = 'proposed' | 'uncategorized' | 'skipped' | 'posted';
+export type BankImportDuplicateFlag = 'exact' | 'possible'; // Same external id / similar line already on the books
+
+/**
+ * How to read a bank's CSV export. Either `amount_column` or both `debit_column` and
+ * `credit_column` are set; `sign_convention` only applies to a single amount column.
+ * Aligns with the 'bank_import_mappings' D1 table.
+ */
+export interface BankImportMapping {
+  id: string;
+  user_id: string;
+  name: string; // e.g., the bank's name
+  date_column: string;
+  description_column: string;
+  amount_column: string | null;
+  debit_column: string | null; // Money out
+  credit_column: string | null; // Money in
+  reference_column: string | null;
+  sign_convention: CsvSignConvention;
+  date_format: CsvDateFormat;
+  created_at: number;
+  updated_at: number;
+}
+
+/**
+ * Payload for creating/updating a saved mapping, also accepted inline on a CSV import.
+ */
+export interface BankImportMappingInput {
+  name: string;
+  date_column: string;
+  description_column: string;
+  amount_column?: string | null;
+  debit_column?: string | null;
+  credit_column?: string | null;
+  reference_column?: string | null;
+  sign_convention: CsvSignConvention;
+  date_format: CsvDateFormat;
+}
+
+/**
+ * One bank line parsed from a statement file, before categorization.
+ */
+export interface StatementLine {
+  row_number: number; // 1-based data row in the source file
+  date: number; // Unix timestamp (seconds), 00:00 UTC
+  description: string;
+  amount: number; // Positive cents
+  direction: StatementDirection;
+  reference: string | null;
+  external_id: string | null; // Bank's id for the line, e.g. OFX FITID
+  memo: string | null;
+}
+
+export interface StatementParseResult {
+  lines: StatementLine[];
+  errors: Array<{ row_number: number; message: string }>;
+}
+
+/**
+ * One category line of a staged bank line categorized by a split rule.
+ */
+export interface BankImportCategorySplit {
+  entity_account_id: string;
+  amount: number; // Positive cents; the splits of a line sum to its amount
+  memo: string | null;
+}
+
+/**
+ * A staged bank line with its proposed categorization. `proposed_transaction` is the
+ * balanced entry that posting will create, or null while the line is uncategorized.
+ * Exact duplicates are staged as skipped; possible duplicates are held back from posting
+ * until reviewed.
+ */
+export interface BankImportItem {
+  id: string;
+  batch_id: string;
+  row_number: number;
+  date: number;
+  description: string;
+  amount: number; // Positive cents
+  direction: StatementDirection;
+  reference: string | null;
+  external_id: string | null;
+  memo: string | null;
+  rule_id: string | null; // Rule that proposed the category, if any
+  category_entity_account_id: string | null;
+  category_splits: BankImportCategorySplit[] | null; // Set instead of the account by a split rule
+  note: string | null;
+  status: BankImportItemStatus;
+  transaction_id: string | null;
+  duplicate_flag: BankImportDuplicateFlag | null;
+  duplicate_of_item_id: string | null; // Earlier import line it matches
+  duplicate_of_transaction_id: string | null; // Or the hand-entered transaction it matches
+  proposed_transaction: TransactionInput | null;
+  created_at: number;
+  updated_at: number;
+}
+
+/**
+ * A statement upload staged for review against an entity's cash account.
+ */
+export interface BankImportBatch {
+  id: string;
+  user_id: string;
+  entity_id: string;
+  cash_entity_account_id: string;
+  source: BankImportSource;
+  file_name: string | null;
+  mapping_id: string | null;
+  status: BankImportBatchStatus;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface BankImportBatchWithItems extends BankImportBatch {
+  items: BankImportItem[];
+  parse_errors?: StatementParseResult['errors'];
+}
+
+/**
+ * Payload for importing a CSV statement. Supply `mapping_id` for a saved mapping or
+ * `mapping` inline; `save_mapping` also stores the inline mapping for reuse.
+ */
+export interface CsvImportInput {
+  entity_id: string;
+  cash_entity_account_id: string;
+  content: string;
+  file_name?: string | null;
+  mapping_id?: string;
+  mapping?: BankImportMappingInput;
+  save_mapping?: boolean;
+  near_duplicate_days?: number;
+}
+
+/**
+ * Payload for importing an OFX or QFX statement file.
+ */
+export interface OfxImportInput {
+  entity_id: string;
+  cash_entity_account_id: string;
+  content: string;
+  file_name?: string | null;
+  near_duplicate_days?: number;
+}
+
+/**
+ * Review changes to a staged line: assign a category account, skip it, or confirm that a
+ * possible duplicate is a separate bank line.
+ */
+export interface BankImportItemUpdate {
+  category_entity_account_id?: string;
+  status?: 'skipped' | 'proposed';
+  not_duplicate?: boolean;
+}
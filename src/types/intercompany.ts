@@ -0,0 +1,81 @@
+// src/types/intercompany.ts
+import type { Transaction, VoidTransactionInput } from './transaction';
+
+/**
+ * `advance`: the from entity lends money or pays an expense for the to entity, which then
+ * owes it (Due from Related Entities / Due to Related Entities).
+ * `settlement`: the from entity pays down what it owes the to entity, reducing both balances.
+ */
+export type IntercompanyKind = 'advance' | 'settlement';
+
+/**
+ * One event between two entities, posted as a mirrored pair of journal entries.
+ * The from entity debits its due account and credits its counter account; the to entity
+ * debits its counter account and credits its due account, both for `amount`.
+ * Aligns with the 'intercompany_transactions' D1 table (DbIntercompanyTransaction).
+ */
+export interface IntercompanyTransaction {
+  id: string;
+  user_id: string;
+  kind: IntercompanyKind;
+  from_entity_id: string;
+  to_entity_id: string;
+  date: number; // Unix timestamp (seconds)
+  amount: number; // Cents
+  description: string;
+  reference: string | null;
+  from_transaction_id: string;
+  to_transaction_id: string;
+  from_due_entity_account_id: string;
+  from_counter_entity_account_id: string;
+  to_due_entity_account_id: string;
+  to_counter_entity_account_id: string;
+  eliminates_activity: boolean;
+  created_at: number;
+  updated_at: number;
+}
+
+/**
+ * Input for recording an intercompany transaction. The counter accounts say where the money
+ * went on each side: cash for a loan, an expense on the to side for a bill paid on its
+ * behalf, income and expense for a fee. Due accounts default to 1420 / 2450, swapped for
+ * settlements.
+ */
+export interface IntercompanyTransactionInput {
+  kind?: IntercompanyKind; // Defaults to 'advance'
+  from_entity_id: string;
+  to_entity_id: string;
+  date: number; // Unix timestamp (seconds)
+  amount: number; // Cents
+  description: string;
+  reference?: string | null;
+  from_counter_entity_account_id: string;
+  to_counter_entity_account_id: string;
+  from_due_entity_account_id?: string;
+  to_due_entity_account_id?: string;
+}
+
+export interface IntercompanyTransactionDetail extends IntercompanyTransaction {
+  from_transaction: Transaction;
+  to_transaction: Transaction;
+}
+
+export type VoidIntercompanyTransactionInput = VoidTransactionInput;
+
+/**
+ * An intercompany transaction whose two sides no longer mirror each other as of a date,
+ * typically because one side's journal entry was voided on its own. `from_balance` is the
+ * net debit on the from entity's due account from the pair's entries, `to_balance` the net
+ * credit on the to entity's; they should be equal. Such pairs are left out of eliminations.
+ */
+export interface IntercompanyException {
+  intercompany_transaction_id: string;
+  from_entity_id: string;
+  to_entity_id: string;
+  date: number;
+  description: string;
+  amount: number;
+  from_balance: number;
+  to_balance: number;
+  difference: number; // from_balance - to_balance
+}
@@ -4,6 +4,8 @@ export type LoanType = 'mortgage' | 'seller_financing' | 'related_party' | 'othe
 export type LoanPaymentFrequency = 'monthly' | 'quarterly' | 'annually' | 'lump_sum' | 'custom';
 export type LoanStatus = 'active' | 'pending_approval' | 'paid_off' | 'defaulted' | 'cancelled' | 'draft';
 export type InterestRateType = 'fixed' | 'variable';
+export type LoanDirection = 'receivable' | 'payable';
+export type DayCountConvention = 'actual_365' | 'actual_360' | '30_360';
 
 /**
  * Represents a loan (note receivable or note payable).
@@ -13,22 +15,27 @@ export interface Loan {
   id: string;
   user_id: string; // From D1 schema, for ownership
   entity_id: string; // The entity that owns this loan (receivable) or owes this loan (payable)
+  direction: LoanDirection;
   borrower_name?: string | null; // If receivable, name of the borrower
   lender_name?: string | null;   // If payable, name of the lender
   description?: string | null;
   loan_type: LoanType;
   original_principal: number;
   current_principal: number;
-  interest_rate: number; // Annual rate, e.g., 0.05 for 5%
+  interest_rate: number; // Annual rate, e.g., 0.05 for 5%. The latest recorded rate, which may take effect later
+  original_interest_rate: number; // Rate at origination, in effect until the first rate change
   interest_rate_type: InterestRateType;
+  day_count_convention: DayCountConvention; // Used for interest accruals and lump-sum interest
   origination_date: number; // Unix timestamp (seconds)
   maturity_date: number;    // Unix timestamp (seconds)
   payment_frequency: LoanPaymentFrequency;
+  payment_interval_months?: number | null; // Months between payments when payment_frequency is 'custom'
   payment_amount: number;   // Scheduled periodic payment
   status: LoanStatus;
   collateral_description?: string | null;
   collateral_value?: number | null;
   next_payment_date?: number | null; // Unix timestamp (seconds)
+  arrears_amount: number; // Scheduled amounts unpaid and rolled into the next payment (cents)
   created_at: number; // Unix timestamp (seconds)
   updated_at: number; // Unix timestamp (seconds)
 }
@@ -57,12 +64,50 @@ export interface LoanScheduleEntry {
   updated_at: number; // Unix timestamp (seconds)
 }
 
+/**
+ * A loan together with its amortization schedule, ordered by payment number.
+ */
+export interface LoanWithSchedule extends Loan {
+  schedule: LoanScheduleEntry[];
+}
+
+/**
+ * An effective-dated rate change on a variable-rate loan. Rates are decimal annual rates.
+ * Aligns with the 'loan_rate_changes' D1 table (DbLoanRateChange).
+ */
+export interface LoanRateChange {
+  id: string;
+  loan_id: string;
+  user_id: string;
+  effective_date: number; // Unix timestamp (seconds)
+  index_name?: string | null;
+  index_rate?: number | null;
+  margin?: number | null;
+  interest_rate: number; // All-in rate, e.g., 0.0705
+  note?: string | null;
+  created_at: number; // Unix timestamp (seconds)
+}
+
+/**
+ * Input for recording a rate change. Supply `interest_rate` directly or `index_rate` and `margin`.
+ */
+export interface LoanRateChangeInput {
+  effective_date: number; // Unix timestamp (seconds)
+  index_name?: string | null;
+  index_rate?: number | null; // e.g., 0.043
+  margin?: number | null; // e.g., 0.0275
+  interest_rate?: number | null; // Defaults to index_rate + margin
+  recalculate_payment?: boolean; // Defaults to true; false keeps the payment and adjusts the final balloon
+  note?: string | null;
+}
+
 /**
  * Input payload for creating or updating a Loan.
  * `user_id` is derived from session. `current_principal` usually starts as `original_principal`.
  */
 export interface LoanInput {
   entity_id: string;
+  direction: LoanDirection;
   borrower_name?: string | null;
   lender_name?: string | null;
   description?: string | null;
@@ -70,10 +115,12 @@ export interface LoanInput {
   original_principal: number;
   interest_rate: number;
   interest_rate_type: InterestRateType;
+  day_count_convention?: DayCountConvention; // Defaults to 'actual_365'
   origination_date: number; // Unix timestamp (seconds)
   maturity_date: number;    // Unix timestamp (seconds)
   payment_frequency: LoanPaymentFrequency;
-  payment_amount: number;
+  payment_interval_months?: number | null; // Required when payment_frequency is 'custom'
+  payment_amount?: number | null; // Omit to compute a level payment that fully amortizes the loan
   status?: LoanStatus; // Initial status, e.g., 'draft' or 'active'
   collateral_description?: string | null;
   collateral_value?: number | null;
@@ -89,4 +136,52 @@ export interface RecordLoanPaymentInput {
   actual_payment_amount: number;
   transaction_id?: string; // Optional: ID of the accounting transaction if already created
   // new_status?: LoanScheduleStatus; // Usually becomes 'paid'
-}
\ No newline at end of file
+  cash_entity_account_id: string; // Bank/cash account paid from or into; a supplied transaction must move it by the payment amount
+  principal_entity_account_id?: string; // Defaults to 2510 (payable) or 1400 (receivable)
+  interest_entity_account_id?: string; // Defaults to 5810 (payable) or 4510 (receivable)
+  reference?: string | null;
+}
+
+/**
+ * Outcome of recording a loan payment. Interest is paid first; any shortfall is rolled into
+ * the next scheduled payment and extra principal re-amortizes the remaining schedule.
+ */
+export interface LoanPaymentResult {
+  loan: LoanWithSchedule;
+  transaction_id: string;
+  principal_paid: number;
+  interest_paid: number;
+  arrears_amount: number;
+}
+
+/**
+ * A month-end interest accrual on a loan and the entry that reverses it on the first day
+ * of the next period. Aligns with the 'loan_interest_accruals' D1 table.
+ */
+export interface LoanInterestAccrual {
+  id: string;
+  loan_id: string;
+  user_id: string;
+  entity_id: string;
+  period_end: number; // Unix timestamp (seconds) of the last day of the period
+  accrual_start: number; // Last scheduled payment date (or origination) interest is accrued from
+  days: number; // Through the end of period_end's day
+  day_count_convention: DayCountConvention;
+  principal_balance: number; // Cents the interest was accrued on
+  amount: number; // Cents
+  transaction_id: string;
+  reversal_transaction_id: string;
+  created_at: number;
+}
+
+/**
+ * Outcome of an accrual run for one entity. Loans that could not be accrued are listed with
+ * the reason instead of failing the whole run.
+ */
+export interface InterestAccrualRunResult {
+  entity_id: string;
+  period_end: number;
+  reversal_date: number;
+  accruals: LoanInterestAccrual[];
+  skipped: Array<{ loan_id: string; reason: string }>;
+}
@@ -0,0 +1,59 @@
+// src/types/ownership.ts
+
+/**
+ * An effective-dated stake in an entity. The owner is another entity (`owner_entity_id`) or
+ * an outside owner such as a person (`owner_name`), never both. The stake holds from
+ * `effective_date` until the same owner's next record; a record of 0 ends it.
+ * Aligns with the 'entity_ownerships' D1 table (DbEntityOwnership).
+ */
+export interface EntityOwnership {
+  id: string;
+  user_id: string;
+  entity_id: string;
+  owner_entity_id: string | null;
+  owner_name: string | null;
+  ownership_bps: number; // Basis points, e.g., 5000 for 50%
+  effective_date: number; // Unix timestamp (seconds)
+  note: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+/**
+ * Input for recording a stake in an entity; the owned entity comes from the path.
+ * Supply `owner_entity_id` or `owner_name`.
+ */
+export interface EntityOwnershipInput {
+  owner_entity_id?: string | null;
+  owner_name?: string | null;
+  ownership_bps: number;
+  effective_date: number;
+  note?: string | null;
+}
+
+/**
+ * A stake in force on a date, with display names for both sides.
+ */
+export interface OwnershipStake {
+  ownership_id: string;
+  entity_id: string;
+  entity_name: string;
+  owner_entity_id: string | null;
+  owner_name: string; // The owner entity's name for entity owners
+  ownership_bps: number;
+  effective_date: number;
+}
+
+/**
+ * An entity's ownership as of a date: who owns it, what it owns, and every record on file.
+ * `unassigned_bps` is the part of the entity no recorded owner holds.
+ */
+export interface EntityOwnershipSummary {
+  entity_id: string;
+  as_of_date: number;
+  owners: OwnershipStake[];
+  total_owned_bps: number;
+  unassigned_bps: number;
+  holdings: OwnershipStake[];
+  history: EntityOwnership[];
+}
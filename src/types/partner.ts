@@ -0,0 +1,139 @@
+// src/types/partner.ts
+
+/**
+ * `investor`: a limited partner or passive member. `sponsor`: the general partner or managing
+ * member, who receives the catch-up and promote. Both earn a return of capital and the
+ * preferred return on what they contributed.
+ */
+export type PartnerRole = 'investor' | 'sponsor';
+
+/**
+ * A partner or member of an entity with an individual capital account.
+ * Aligns with the 'partners' D1 table (DbPartner).
+ */
+export interface Partner {
+  id: string;
+  user_id: string;
+  entity_id: string;
+  name: string;
+  role: PartnerRole;
+  ownership_bps: number; // Percentage interest for allocating income and losses
+  is_active: boolean;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface PartnerInput {
+  name: string;
+  role: PartnerRole;
+  ownership_bps: number;
+  is_active?: boolean;
+}
+
+export type CapitalEntryKind = 'contribution' | 'distribution' | 'income_allocation';
+
+/**
+ * The tiers of a distribution waterfall, in the order they are paid.
+ */
+export type WaterfallTier = 'return_of_capital' | 'preferred_return' | 'catch_up' | 'promote';
+
+/**
+ * One movement on a partner's capital account. Contributions and distributions carry the
+ * journal entry that posted them to 3010 Capital or 3020 Draws; income allocations only move
+ * the partner's share of net income, which the ledger already holds in equity.
+ * Aligns with the 'partner_capital_entries' D1 table (DbPartnerCapitalEntry).
+ */
+export interface PartnerCapitalEntry {
+  id: string;
+  user_id: string;
+  entity_id: string;
+  partner_id: string;
+  kind: CapitalEntryKind;
+  date: number; // Unix timestamp (seconds)
+  amount: number; // Cents; an income allocation is negative for a loss
+  tier: WaterfallTier | null; // Distributions only
+  transaction_id: string | null;
+  period_start: number | null; // Income allocations only
+  period_end: number | null;
+  description: string | null;
+  created_at: number;
+}
+
+export interface CapitalContributionInput {
+  date: number;
+  amount: number; // Cents
+  cash_entity_account_id: string; // Debited; 3010 Capital is credited
+  description?: string | null;
+}
+
+export interface IncomeAllocationInput {
+  start_date: number;
+  end_date: number;
+}
+
+/**
+ * The terms of an entity's distribution waterfall. Rates and shares are basis points.
+ * Partners first get their unreturned capital back, then a simple preferred return at
+ * `preferred_return_bps` a year on it. The catch-up then pays the sponsors `catch_up_bps` of
+ * each dollar until they hold `promote_bps` of the profits distributed so far, and the promote
+ * splits everything after that `promote_bps` to the sponsors. A `catch_up_bps` of 0 skips
+ * the catch-up.
+ * Aligns with the 'distribution_waterfalls' D1 table (DbDistributionWaterfall).
+ */
+export interface WaterfallTerms {
+  preferred_return_bps: number;
+  catch_up_bps: number;
+  promote_bps: number;
+}
+
+export interface DistributionInput {
+  date: number;
+  amount: number; // Cents
+  cash_entity_account_id: string; // Credited; 3020 Draws is debited per partner
+  description?: string | null;
+}
+
+/**
+ * A partner's capital account as of a date. `unreturned_capital` and `unpaid_preferred_return`
+ * are what the waterfall still owes the partner in its first two tiers.
+ */
+export interface PartnerCapitalAccount {
+  partner_id: string;
+  name: string;
+  role: PartnerRole;
+  ownership_bps: number;
+  contributions: number;
+  distributions: number;
+  allocated_income: number;
+  balance: number; // contributions + allocated_income - distributions
+  unreturned_capital: number;
+  unpaid_preferred_return: number;
+}
+
+export interface PartnerCapitalReport {
+  entity_id: string;
+  as_of_date: number;
+  partners: PartnerCapitalAccount[];
+  totals: Omit<PartnerCapitalAccount, 'partner_id' | 'name' | 'role' | 'ownership_bps'>;
+}
+
+export interface WaterfallAllocation {
+  partner_id: string;
+  tier: WaterfallTier;
+  amount: number;
+}
+
+/**
+ * A distribution run through the waterfall: how much each tier paid and to whom.
+ * `transaction_id` is set once the distribution has been posted.
+ */
+export interface WaterfallDistribution {
+  entity_id: string;
+  date: number;
+  amount: number;
+  terms: WaterfallTerms;
+  tiers: Array<{ tier: WaterfallTier; amount: number }>;
+  allocations: WaterfallAllocation[];
+  by_partner: Array<{ partner_id: string; name: string; amount: number }>;
+  transaction_id: string | null;
+}
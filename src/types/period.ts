@@ -0,0 +1,57 @@
+// src/types/period.ts
+
+/**
+ * `open`: anything can be posted. `soft_closed`: the books are being finalized; only an
+ * administrator can post, with a reason. `closed`: nothing can be posted until the period is
+ * reopened.
+ */
+export type FiscalPeriodStatus = 'open' | 'soft_closed' | 'closed';
+
+/**
+ * One calendar month of an entity's books. Months without a stored row are open.
+ * Aligns with the 'fiscal_periods' D1 table (DbFiscalPeriod).
+ */
+export interface FiscalPeriod {
+  entity_id: string;
+  fiscal_year: number;
+  period_number: number; // 1-12 within the fiscal year
+  period_start: number; // Unix timestamp (seconds), first instant of the month (UTC)
+  period_end: number; // Unix timestamp (seconds), last second of the month
+  label: string; // e.g., "March 2025"
+  status: FiscalPeriodStatus;
+  closed_at: number | null;
+  note: string | null;
+}
+
+export interface FiscalPeriodStatusInput {
+  period_start: number; // Any date in the month
+  status: FiscalPeriodStatus;
+  note?: string | null;
+}
+
+/**
+ * A posting let into a soft-closed period by an administrator.
+ * Aligns with the 'period_lock_overrides' D1 table (DbPeriodLockOverride).
+ */
+export interface PeriodLockOverride {
+  id: string;
+  entity_id: string;
+  period_start: number;
+  transaction_id: string;
+  reason: string;
+  created_at: number;
+}
+
+/**
+ * An entity's fiscal year, named for the calendar year it ends in, with its twelve periods
+ * and the overrides recorded against them.
+ */
+export interface FiscalYear {
+  entity_id: string;
+  fiscal_year: number;
+  start_month: number; // 1-12 (January = 1)
+  start_date: number;
+  end_date: number;
+  periods: FiscalPeriod[];
+  overrides: PeriodLockOverride[];
+}
@@ -0,0 +1,84 @@
+// src/types/reconciliation.ts
+
+export type BankReconciliationStatus = 'in_progress' | 'completed';
+
+/**
+ * A bank reconciliation session for a cash account against one statement.
+ * Aligns with the 'bank_reconciliations' D1 table (DbBankReconciliation).
+ */
+export interface BankReconciliation {
+  id: string;
+  user_id: string;
+  entity_id: string;
+  cash_entity_account_id: string;
+  statement_end_date: number; // Unix timestamp (seconds)
+  statement_ending_balance: number; // Cents, signed
+  beginning_balance: number; // Cents: the previous reconciliation's ending balance, or 0
+  status: BankReconciliationStatus;
+  completed_at: number | null;
+  created_at: number;
+  updated_at: number;
+}
+
+/**
+ * Payload for starting a reconciliation session.
+ */
+export interface BankReconciliationInput {
+  entity_id: string;
+  cash_entity_account_id: string;
+  statement_end_date: number;
+  statement_ending_balance: number; // Cents
+}
+
+/**
+ * A transaction that touches the cash account, with its net effect on that account.
+ */
+export interface ReconciliationTransaction {
+  transaction_id: string;
+  date: number;
+  description: string;
+  reference: string | null;
+  amount: number; // Cents, signed: positive is money in, negative is money out
+  is_cleared: boolean;
+}
+
+/**
+ * Running totals of a session. `difference` is zero when the cleared items explain the
+ * statement, which is required to complete it.
+ */
+export interface ReconciliationSummary {
+  beginning_balance: number;
+  cleared_deposits: number; // Cents, positive
+  cleared_withdrawals: number; // Cents, positive
+  cleared_balance: number;
+  statement_ending_balance: number;
+  difference: number; // statement_ending_balance - cleared_balance
+}
+
+/**
+ * An in-progress session with every unreconciled transaction up to the statement date.
+ */
+export interface BankReconciliationDetail extends BankReconciliation {
+  summary: ReconciliationSummary;
+  transactions: ReconciliationTransaction[];
+}
+
+/**
+ * The report kept for a completed reconciliation: the book balance is the statement
+ * balance adjusted for items that had not cleared the bank yet.
+ */
+export interface BankReconciliationReport extends BankReconciliation {
+  summary: ReconciliationSummary;
+  cleared: ReconciliationTransaction[];
+  outstanding_checks: ReconciliationTransaction[];
+  deposits_in_transit: ReconciliationTransaction[];
+  adjusted_bank_balance: number; // Statement balance + deposits in transit - outstanding checks
+}
+
+/**
+ * Marks transactions cleared or uncleared in a session.
+ */
+export interface ReconciliationClearInput {
+  transaction_ids: string[];
+  cleared: boolean;
+}
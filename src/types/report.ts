@@ -0,0 +1,292 @@
+// src/types/report.ts
+import type { AccountSystemType } from './account';
+import type { IntercompanyException } from './intercompany';
+
+/**
+ * The side on which an account's balance normally increases.
+ */
+export type NormalBalance = 'debit' | 'credit';
+
+/**
+ * Activity totals for one entity account over a date window.
+ * All amounts are integer cents. `balance` is signed by the account's normal balance:
+ * positive means the account carries a balance on its normal side.
+ */
+export interface AccountBalance {
+  entity_account_id: string;
+  account_id: string;
+  account_code: string;
+  account_name: string;
+  account_type: AccountSystemType;
+  account_subtype: string | null;
+  parent_account_id: string | null;
+  normal_balance: NormalBalance;
+  debit_total: number;
+  credit_total: number;
+  balance: number;
+}
+
+/**
+ * A trial balance row, presenting the net balance in either the debit or the credit column.
+ */
+export interface TrialBalanceRow extends AccountBalance {
+  debit_balance: number;
+  credit_balance: number;
+}
+
+export interface TrialBalanceReport {
+  entity_id: string;
+  as_of_date: number; // Unix timestamp (seconds), inclusive
+  rows: TrialBalanceRow[];
+  total_debits: number;
+  total_credits: number;
+  is_balanced: boolean;
+}
+
+/**
+ * One posted line in a ledger, with the account balance after it was applied.
+ */
+export interface LedgerEntry {
+  line_id: string;
+  transaction_id: string;
+  date: number;
+  description: string;
+  reference: string | null;
+  memo: string | null;
+  status: 'posted' | 'voided';
+  reverses_transaction_id: string | null;
+  debit: number;
+  credit: number;
+  running_balance: number;
+}
+
+/**
+ * Activity for a single account between two dates, opening to closing balance.
+ */
+export interface AccountLedger {
+  entity_account_id: string;
+  account_code: string;
+  account_name: string;
+  account_type: AccountSystemType;
+  normal_balance: NormalBalance;
+  opening_balance: number;
+  entries: LedgerEntry[];
+  total_debits: number;
+  total_credits: number;
+  closing_balance: number;
+}
+
+export interface GeneralLedgerReport {
+  entity_id: string;
+  start_date: number;
+  end_date: number;
+  accounts: AccountLedger[];
+}
+
+export interface AccountActivityReport extends AccountLedger {
+  entity_id: string;
+  start_date: number | null;
+  end_date: number;
+}
+
+/**
+ * Inclusive date window for report queries. When `start_date` is omitted, all history
+ * up to `end_date` is included.
+ */
+export interface ReportDateRange {
+  start_date?: number;
+  end_date: number;
+}
+
+/**
+ * GAAP presentation sections. Accounts are assigned by type, refined by the nearest
+ * recognised `subtype` on the account or one of its ancestors.
+ */
+export type StatementSectionKey =
+  | 'current_assets'
+  | 'non_current_assets'
+  | 'current_liabilities'
+  | 'long_term_liabilities'
+  | 'equity'
+  | 'revenue'
+  | 'operating_expenses'
+  | 'other_income'
+  | 'other_expenses';
+
+/**
+ * How comparative columns are derived from the primary period.
+ * `prior_period` steps back by the length of the period (whole months when the period is
+ * month-aligned); `prior_year` steps back twelve months.
+ */
+export type ComparisonMode = 'none' | 'prior_period' | 'prior_year';
+
+/**
+ * A statement column. Income statement columns cover [start_date, end_date];
+ * balance sheet columns are point-in-time and have a null `start_date`.
+ */
+export interface ReportPeriod {
+  label: string;
+  start_date: number | null;
+  end_date: number;
+}
+
+/**
+ * A statement line, one amount per period. `amounts` is the account's own balance and
+ * `totals` includes every descendant account rolled up through `chart_of_accounts.parent_id`.
+ * Computed lines such as net income have a null `account_id`.
+ */
+export interface StatementLine {
+  account_id: string | null;
+  account_code: string | null;
+  account_name: string;
+  depth: number;
+  amounts: number[];
+  totals: number[];
+  children: StatementLine[];
+}
+
+export interface StatementSection {
+  key: StatementSectionKey;
+  title: string;
+  lines: StatementLine[];
+  totals: number[];
+}
+
+export interface IncomeStatement {
+  entity_id: string;
+  periods: ReportPeriod[];
+  sections: StatementSection[];
+  operating_income: number[];
+  net_income: number[];
+}
+
+export interface BalanceSheet {
+  entity_id: string;
+  periods: ReportPeriod[];
+  sections: StatementSection[];
+  total_assets: number[];
+  total_liabilities: number[];
+  total_equity: number[];
+  total_liabilities_and_equity: number[];
+  is_balanced: boolean[];
+}
+
+/**
+ * An entity included in a consolidation: the parent the report was requested for (depth 0)
+ * and every entity below it, listed parent before children.
+ */
+export interface ConsolidationEntity {
+  entity_id: string;
+  name: string;
+  parent_id: string | null;
+  depth: number;
+}
+
+/**
+ * A consolidated statement line. `by_entity` maps each consolidated entity's id to its share
+ * of `totals`, `eliminations` holds the intercompany amounts removed and
+ * `non_controlling_interest` the equity moved to the non-controlling interest line (balance
+ * sheet equity only), so the shares plus both adjustments add up to the line.
+ */
+export interface ConsolidatedStatementLine extends StatementLine {
+  by_entity: Record<string, number[]>;
+  eliminations: number[];
+  non_controlling_interest: number[];
+  children: ConsolidatedStatementLine[];
+}
+
+export interface ConsolidatedStatementSection extends StatementSection {
+  lines: ConsolidatedStatementLine[];
+  by_entity: Record<string, number[]>;
+  eliminations: number[];
+  non_controlling_interest: number[];
+}
+
+/**
+ * A consolidated entity that the group does not wholly own. `share_bps` is the part held by
+ * owners outside the group for each column, and `amounts` their part of the entity's net
+ * income (income statement) or equity (balance sheet).
+ */
+export interface NonControllingInterest {
+  entity_id: string;
+  share_bps: number[];
+  amounts: number[];
+}
+
+/**
+ * A trial balance row for a chart of accounts code, summed over every entity's account for it.
+ */
+export interface ConsolidatedTrialBalanceRow extends Omit<TrialBalanceRow, 'entity_account_id'> {
+  by_entity: Record<string, { debit_balance: number; credit_balance: number }>;
+  eliminations: { debit_balance: number; credit_balance: number };
+}
+
+/**
+ * Every consolidated report lists the intercompany transactions whose two sides do not net
+ * to zero; those are left in the figures rather than eliminated.
+ */
+export interface ConsolidatedTrialBalanceReport extends Omit<TrialBalanceReport, 'rows'> {
+  entities: ConsolidationEntity[];
+  rows: ConsolidatedTrialBalanceRow[];
+  intercompany_exceptions: IntercompanyException[];
+}
+
+export interface ConsolidatedIncomeStatement extends IncomeStatement {
+  entities: ConsolidationEntity[];
+  sections: ConsolidatedStatementSection[];
+  by_entity: Record<string, { operating_income: number[]; net_income: number[] }>;
+  eliminations: { operating_income: number[]; net_income: number[] };
+  non_controlling_interests: NonControllingInterest[];
+  net_income_attributable: { parent: number[]; non_controlling_interest: number[] };
+  intercompany_exceptions: IntercompanyException[];
+}
+
+export interface ConsolidatedBalanceSheet extends BalanceSheet {
+  entities: ConsolidationEntity[];
+  sections: ConsolidatedStatementSection[];
+  by_entity: Record<string, { total_assets: number[]; total_liabilities: number[]; total_equity: number[] }>;
+  eliminations: { total_assets: number[]; total_liabilities: number[]; total_equity: number[] };
+  non_controlling_interests: NonControllingInterest[];
+  equity_attributable: { parent: number[]; non_controlling_interest: number[] };
+  intercompany_exceptions: IntercompanyException[];
+}
+
+/**
+ * The cash effect of one account's activity over the period, in cents.
+ * Positive amounts are sources of cash, negative amounts are uses.
+ */
+export interface CashFlowLine {
+  account_id: string;
+  account_code: string;
+  account_name: string;
+  amount: number;
+}
+
+export interface CashFlowSection {
+  lines: CashFlowLine[];
+  total: number;
+}
+
+/**
+ * Statement of cash flows (indirect method). Operating activities start from net income,
+ * add back non-cash expenses and adjust for changes in working-capital accounts.
+ * `unreconciled_difference` is non-zero only when account categories are inconsistent,
+ * e.g. a balance-sheet account tagged 'non_cash' without a matching add-back.
+ */
+export interface CashFlowStatement {
+  entity_id: string;
+  start_date: number;
+  end_date: number;
+  net_income: number;
+  operating: {
+    adjustments: CashFlowLine[];
+    working_capital_changes: CashFlowLine[];
+    total: number;
+  };
+  investing: CashFlowSection;
+  financing: CashFlowSection;
+  net_change_in_cash: number;
+  beginning_cash: number;
+  ending_cash: number;
+  unreconciled_difference: number;
+}
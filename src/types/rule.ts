@@ -0,0 +1,107 @@
+// src/types/rule.ts
+import type { Rule } from '../lib/rules/engine';
+
+/**
+ * A categorization rule persisted in `categorization_rules`. Keeps the `Rule` shape the
+ * RuleEngine consumes; `action.accountId` and each `action.splits[].accountId` are
+ * `entity_accounts` ids.
+ */
+export interface StoredRule extends Rule {
+  templateId: string | null; // ID of the default rule this was seeded from, if any
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Payload for creating a rule. Omit `entityId` for a rule that applies to all of the user's
+ * entities; its action account is then matched to each entity by chart of accounts entry.
+ */
+export type RuleInput = Omit<Rule, 'id' | 'isActive' | 'priority'> & {
+  isActive?: boolean; // Defaults to true
+  priority?: number; // Defaults to 50
+};
+
+/**
+ * Outcome of seeding the default rules for an entity. Defaults whose account is not
+ * linked to the entity are listed instead of being created.
+ */
+export interface RuleSeedResult {
+  created: StoredRule[];
+  skipped: Array<{ templateId: string; reason: string }>;
+}
+
+/**
+ * Payload for a dry run of rule changes. `rules` are overlaid on the entity's current rules
+ * by id (a new id adds a rule) unless `replace_all` is set, and replayed over the entity's
+ * imported lines or, for `source: 'transactions'`, the posted transactions that touch
+ * `cash_entity_account_id` between the two dates. Nothing is saved.
+ */
+export interface RuleSimulationInput {
+  entity_id: string;
+  source: 'imports' | 'transactions';
+  cash_entity_account_id?: string; // Required for 'transactions'; narrows 'imports'
+  start_date: number; // Unix timestamp (seconds), inclusive
+  end_date: number;
+  rules: Array<RuleInput & { id?: string }>;
+  replace_all?: boolean;
+}
+
+export type RuleSimulationChange = 'unchanged' | 'category_changed' | 'rule_changed' | 'newly_matched' | 'no_longer_matched';
+
+/**
+ * The rule that wins an item and the category line(s) it would produce.
+ */
+export interface RuleSimulationOutcome {
+  rule_id: string;
+  rule_name: string | null;
+  lines: Array<{ entity_account_id: string; amount: number; is_debit: boolean }>;
+}
+
+/**
+ * One replayed item. `before` is the outcome under the current rules, `after` under the
+ * candidate set; either is null when no rule matches.
+ */
+export interface RuleSimulationItem {
+  kind: 'import_item' | 'transaction';
+  item_id: string;
+  date: number;
+  description: string;
+  amount: number; // Positive cents
+  direction: 'debit' | 'credit'; // Money out / money in
+  change: RuleSimulationChange;
+  before: RuleSimulationOutcome | null;
+  after: RuleSimulationOutcome | null;
+}
+
+export interface RuleSimulationSummary extends Record<RuleSimulationChange, number> {
+  items: number;
+  unmatched: number; // Items no candidate rule categorizes
+}
+
+export interface RuleSimulationReport {
+  entity_id: string;
+  source: RuleSimulationInput['source'];
+  start_date: number;
+  end_date: number;
+  truncated: boolean; // True when the window held more than the simulation limit
+  summary: RuleSimulationSummary;
+  changes: RuleSimulationItem[];
+  unmatched: RuleSimulationItem[];
+}
+
+/**
+ * A rule proposed from lines categorized by hand. `rule` is ready to POST to /api/rules.
+ * `consistency` is the share of the lines the rule matches that were mapped to
+ * `entity_account_id`; `confidence` also discounts suggestions backed by few lines.
+ */
+export interface RuleSuggestion {
+  key: string; // Description word or two-word phrase the rule matches
+  direction: 'debit' | 'credit'; // Money out / money in
+  entity_account_id: string;
+  support: number; // Lines mapped to the account that the rule matches
+  conflicting: number; // Lines the rule matches that were mapped elsewhere
+  consistency: number; // 0 to 1
+  confidence: number; // 0 to 1
+  sample_item_ids: string[];
+  rule: RuleInput;
+}
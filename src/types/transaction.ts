@@ -17,6 +17,9 @@ export interface Transaction {
   status: TransactionStatus;
   is_reconciled: boolean; // Stored as 0 or 1 in DB
   document_url?: string | null;
+  reverses_transaction_id?: string | null; // On a reversing entry, the ID of the transaction it voids
+  voided_at?: number | null; // Unix timestamp (seconds)
+  void_reason?: string | null;
   created_at: number; // Unix timestamp (seconds)
   updated_at: number; // Unix timestamp (seconds)
   lines?: TransactionLine[]; // For convenience when fetching a full transaction with its lines
@@ -58,7 +61,54 @@ export interface TransactionInput {
   description: string;
   reference?: string | null;
   status?: TransactionStatus; // Defaults to 'pending' or 'posted' based on system logic
-  is_reconciled?: boolean; // Defaults to false
   document_url?: string | null;
   lines: TransactionLineInput[];
-}
\ No newline at end of file
+  period_override_reason?: string | null; // Lets an administrator post into a soft-closed period
+}
+/**
+ * Input for voiding a posted transaction. The reversing entry is dated `date`.
+ */
+export interface VoidTransactionInput {
+  date: number; // Unix timestamp (seconds)
+  reason?: string | null;
+  period_override_reason?: string | null; // Needed when `date` falls in a soft-closed period
+}
+
+/**
+ * Input for posting a pending transaction.
+ */
+export interface PostTransactionInput {
+  period_override_reason?: string | null; // Needed when the transaction falls in a soft-closed period
+}
+
+/**
+ * Result of a void: the original (now 'voided') and the posted reversing entry.
+ */
+export interface VoidTransactionResult {
+  voided: Transaction;
+  reversal: Transaction;
+}
+
+/**
+ * Filters accepted when listing transactions for an entity.
+ * Dates are inclusive Unix timestamps (seconds).
+ */
+export interface TransactionListFilters {
+  entity_id: string;
+  start_date?: number;
+  end_date?: number;
+  status?: TransactionStatus;
+  page?: number;      // 1-based
+  page_size?: number;
+}
+
+/**
+ * A page of transactions plus the information needed to request the next one.
+ */
+export interface PaginatedTransactions {
+  transactions: Transaction[];
+  page: number;
+  page_size: number;
+  total: number;
+  total_pages: number;
+}
@@ -54,4 +54,35 @@ export function getDateRange(range: 'current-month' | 'last-month' | 'current-ye
         end: customEnd ? new Date(customEnd) : new Date()
       };
   }
-}
\ No newline at end of file
+}
+/**
+ * Shift a Unix timestamp (seconds) by whole calendar months in UTC.
+ * The day of month is clamped to the target month, and a timestamp on the last second
+ * of a month maps to the last second of the target month (so month-ends stay month-ends).
+ */
+export function shiftUnixMonths(timestamp: number, months: number): number {
+  const d = new Date(timestamp * 1000);
+  const isMonthEnd = Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 1) / 1000 - 1 === timestamp;
+  const targetYear = d.getUTCFullYear();
+  const targetMonth = d.getUTCMonth() + months;
+  if (isMonthEnd) {
+    return Date.UTC(targetYear, targetMonth + 1, 1) / 1000 - 1;
+  }
+  const lastDay = new Date(Date.UTC(targetYear, targetMonth + 1, 0)).getUTCDate();
+  const shifted = Date.UTC(
+    targetYear, targetMonth, Math.min(d.getUTCDate(), lastDay),
+    d.getUTCHours(), d.getUTCMinutes(), d.getUTCSeconds()
+  );
+  return shifted / 1000;
+}
+
+/**
+ * Unix timestamp (seconds) of the first instant of the fiscal year containing `timestamp`.
+ * `startMonth` is 1-based (1 = January).
+ */
+export function fiscalYearStartFor(timestamp: number, startMonth = 1): number {
+  const d = new Date(timestamp * 1000);
+  const monthIndex = startMonth - 1;
+  const year = d.getUTCMonth() >= monthIndex ? d.getUTCFullYear() : d.getUTCFullYear() - 1;
+  return Date.UTC(year, monthIndex, 1) / 1000;
+}
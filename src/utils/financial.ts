@@ -83,3 +83,24 @@ export function calculateAccountBalanceCents(
   }
   return balance.toNumber();
 }
+
+/**
+ * Default normal balance for an account type: assets and expenses increase with debits,
+ * liabilities, equity and income with credits.
+ */
+export function normalBalanceForType(
+  type: 'asset' | 'liability' | 'equity' | 'income' | 'expense'
+): 'debit' | 'credit' {
+  return type === 'asset' || type === 'expense' ? 'debit' : 'credit';
+}
+
+/**
+ * Signed balance (in cents) from debit and credit totals, positive on the normal side.
+ */
+export function signedBalanceCents(
+  debitTotal: number,
+  creditTotal: number,
+  accountNormalBalance: 'debit' | 'credit'
+): number {
+  return accountNormalBalance === 'debit' ? debitTotal - creditTotal : creditTotal - debitTotal;
+}
@@ -0,0 +1,19 @@
+// src/workers/interest-accrual.ts
+// Scheduled Worker that accrues loan interest for every entity at month end. Deployed
+// separately from the Pages app with wrangler.accruals.toml, against the same D1 database.
+import { createLoanAccrualService, previousMonthEnd } from '@lib/services/loan-accrual-service';
+
+export default {
+  async scheduled(controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+    // The cron fires on the 1st, so the period being closed is the month that just ended.
+    const periodEnd = previousMonthEnd(Math.floor(controller.scheduledTime / 1000));
+    const accrualService = createLoanAccrualService(env.DB);
+    ctx.waitUntil(
+      accrualService.accrueInterestForAllEntities(periodEnd).then(results => {
+        const posted = results.reduce((sum, result) => sum + result.accruals.length, 0);
+        const skipped = results.reduce((sum, result) => sum + result.skipped.length, 0);
+        console.log(`Interest accrual for period ending ${periodEnd}: ${posted} posted, ${skipped} skipped.`);
+      })
+    );
+  },
+} satisfies ExportedHandler<Env>;
@@ -52,6 +52,7 @@ const createAppEntityMock = (
         parent_id: data.parent_id ?? null,
         is_active: data.is_active ?? true,
         allows_sub_entities: data.allows_sub_entities ?? false,
+        fiscal_year_start_month: data.fiscal_year_start_month ?? 1,
         created_at: data.created_at ?? Math.floor(Date.now() / 1000),
         updated_at: data.updated_at ?? Math.floor(Date.now() / 1000)
     };
@@ -0,0 +1,595 @@
+// tests/unit/bankImport.test.ts
+import { describe, it, expect, vi, beforeEach, afterEach, type MockInstance } from 'vitest';
+import { BankImportService, createBankImportService } from '../../src/lib/services/bank-import-service';
+import { RuleService } from '../../src/lib/services/rule-service';
+import { TransactionService } from '../../src/lib/services/transaction-service';
+import { RuleEngine } from '../../src/lib/rules/engine';
+import { parseCsvStatement, parseStatementAmount, parseStatementDate } from '../../src/lib/imports/csvStatement';
+import { parseOfxStatement } from '../../src/lib/imports/ofxStatement';
+import { assignExternalIds, descriptionSimilarity } from '../../src/lib/imports/duplicates';
+import type { DbBankImportBatch, DbBankImportItem, DbEntity } from '../../src/db/schema';
+import type { BankImportMappingInput, StatementLine } from '../../src/types/import';
+import { ErrorCode } from '../../src/utils/errors';
+import type { D1Database } from '@cloudflare/workers-types';
+
+const mockDbQuery = vi.fn();
+const mockDbQueryOne = vi.fn();
+const mockDbExecute = vi.fn();
+const mockDbBatch = vi.fn();
+const mockD1Prepare = vi.fn();
+const mockD1Bind = vi.fn();
+
+const mockPreparedStatement = { bind: mockD1Bind };
+const mockChangeCheck = { sql: 'change check' };
+
+vi.mock('@db/db', () => ({
+  createDbClient: vi.fn(() => ({
+    query: mockDbQuery,
+    queryOne: mockDbQueryOne,
+    execute: mockDbExecute,
+    batch: mockDbBatch,
+    prepareChangeCheck: () => mockChangeCheck,
+    d1Instance: {
+      prepare: mockD1Prepare,
+    },
+  })),
+}));
+
+const mockD1Instance = {} as D1Database;
+
+const utc = (year: number, month: number, day: number) => Date.UTC(year, month - 1, day) / 1000;
+
+const signedMapping: BankImportMappingInput = {
+  name: 'First Bank',
+  date_column: 'Date',
+  description_column: 'Description',
+  amount_column: 'Amount',
+  reference_column: 'Check #',
+  sign_convention: 'deposits_positive',
+  date_format: 'MM/DD/YYYY',
+};
+
+describe('CSV statement parsing', () => {
+  it('parses dates in the mapped format and rejects impossible ones', () => {
+    expect(parseStatementDate('03/15/2024', 'MM/DD/YYYY')).toBe(utc(2024, 3, 15));
+    expect(parseStatementDate('15/03/24', 'DD/MM/YYYY')).toBe(utc(2024, 3, 15));
+    expect(parseStatementDate('2024-03-15', 'YYYY-MM-DD')).toBe(utc(2024, 3, 15));
+    expect(parseStatementDate('02/30/2024', 'MM/DD/YYYY')).toBeNull();
+  });
+
+  it('parses currency symbols, thousands separators and parenthesized negatives to cents', () => {
+    expect(parseStatementAmount('$1,234.56')).toBe(123456);
+    expect(parseStatementAmount('(45.00)')).toBe(-4500);
+    expect(parseStatementAmount('-$0.5')).toBe(-50);
+    expect(parseStatementAmount('')).toBeNull();
+    expect(parseStatementAmount('n/a')).toBeNaN();
+  });
+
+  it('reads direction from the sign convention and reports bad rows without failing the file', () => {
+    const csv = [
+      'Date,Description,Amount,Check #',
+      '03/01/2024,RENT DEPOSIT UNIT 4,"1,500.00",',
+      '03/02/2024,CHECK 1042,-250.00,1042',
+      '03/32/2024,BAD DATE,10.00,',
+      '',
+    ].join('\n');
+
+    const result = parseCsvStatement(csv, signedMapping);
+    expect(result.lines).toEqual([
+      { row_number: 1, date: utc(2024, 3, 1), description: 'RENT DEPOSIT UNIT 4', amount: 150000, direction: 'credit', reference: null, external_id: null, memo: null },
+      { row_number: 2, date: utc(2024, 3, 2), description: 'CHECK 1042', amount: 25000, direction: 'debit', reference: '1042', external_id: null, memo: null },
+    ]);
+    expect(result.errors).toEqual([{ row_number: 3, message: 'Invalid date "03/32/2024" for format MM/DD/YYYY.' }]);
+
+    const flipped = parseCsvStatement(csv, { ...signedMapping, sign_convention: 'withdrawals_positive' });
+    expect(flipped.lines.map(line => line.direction)).toEqual(['debit', 'credit']);
+  });
+
+  it('reads separate debit and credit columns and reports missing columns', () => {
+    const mapping: BankImportMappingInput = {
+      ...signedMapping,
+      amount_column: null,
+      reference_column: null,
+      debit_column: 'Withdrawal',
+      credit_column: 'Deposit',
+      date_format: 'YYYY-MM-DD',
+    };
+    const csv = 'Date,Description,Withdrawal,Deposit\n2024-03-05,SERVICE FEE,12.00,\n2024-03-06,INTEREST,,0.42\n';
+
+    expect(parseCsvStatement(csv, mapping).lines.map(line => [line.amount, line.direction])).toEqual([
+      [1200, 'debit'],
+      [42, 'credit'],
+    ]);
+    expect(parseCsvStatement('Date,Memo,Withdrawal,Deposit\n', mapping).errors).toEqual([
+      { row_number: 0, message: 'Missing column(s): Description.' },
+    ]);
+  });
+});
+
+const sgmlStatement = [
+  'OFXHEADER:100',
+  'DATA:OFXSGML',
+  'VERSION:102',
+  '',
+  '<OFX>',
+  '<BANKMSGSRSV1><STMTTRNRS><STMTRS><CURDEF>USD',
+  '<BANKTRANLIST>',
+  '<DTSTART>20240301<DTEND>20240331',
+  '<STMTTRN>',
+  '<TRNTYPE>DEBIT',
+  '<DTPOSTED>20240305120000.000[-5:EST]',
+  '<TRNAMT>-12.00',
+  '<FITID>202403051',
+  '<NAME>SERVICE FEE',
+  '<MEMO>MONTHLY MAINTENANCE &amp; PAPER',
+  '</STMTTRN>',
+  '<STMTTRN>',
+  '<TRNTYPE>CHECK',
+  '<DTPOSTED>20240306',
+  '<TRNAMT>-250,00',
+  '<FITID>202403062',
+  '<CHECKNUM>1042',
+  '<NAME>CHECK 1042',
+  '</STMTTRN>',
+  '<STMTTRN>',
+  '<TRNTYPE>CREDIT',
+  '<DTPOSTED>20240231',
+  '<TRNAMT>10.00',
+  '<FITID>202403063',
+  '</STMTTRN>',
+  '</BANKTRANLIST>',
+  '</STMTRS></STMTTRNRS></BANKMSGSRSV1>',
+  '</OFX>',
+].join('\r\n');
+
+const xmlStatement = `<?xml version="1.0" encoding="UTF-8"?>
+<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE"?>
+<OFX>
+  <CREDITCARDMSGSRSV1><CCSTMTTRNRS><CCSTMTRS>
+    <BANKTRANLIST>
+      <STMTTRN>
+        <TRNTYPE>CREDIT</TRNTYPE>
+        <DTPOSTED>20240310</DTPOSTED>
+        <TRNAMT>1500.00</TRNAMT>
+        <FITID>CC-77</FITID>
+        <PAYEE><NAME>RENT DEPOSIT UNIT 4</NAME></PAYEE>
+      </STMTTRN>
+    </BANKTRANLIST>
+  </CCSTMTRS></CCSTMTTRNRS></CREDITCARDMSGSRSV1>
+</OFX>`;
+
+describe('OFX statement parsing', () => {
+  it('reads SGML records without closing leaf tags and reports bad records', () => {
+    const result = parseOfxStatement(sgmlStatement);
+
+    expect(result.lines).toEqual([
+      {
+        row_number: 1,
+        date: utc(2024, 3, 5),
+        description: 'SERVICE FEE',
+        amount: 1200,
+        direction: 'debit',
+        reference: null,
+        external_id: '202403051',
+        memo: 'MONTHLY MAINTENANCE & PAPER',
+      },
+      {
+        row_number: 2,
+        date: utc(2024, 3, 6),
+        description: 'CHECK 1042',
+        amount: 25000,
+        direction: 'debit',
+        reference: '1042',
+        external_id: '202403062',
+        memo: null,
+      },
+    ]);
+    expect(result.errors).toEqual([{ row_number: 3, message: 'Invalid DTPOSTED "20240231".' }]);
+  });
+
+  it('reads XML records, including a payee aggregate', () => {
+    expect(parseOfxStatement(xmlStatement).lines).toEqual([expect.objectContaining({
+      date: utc(2024, 3, 10),
+      description: 'RENT DEPOSIT UNIT 4',
+      amount: 150000,
+      direction: 'credit',
+      external_id: 'CC-77',
+    })]);
+  });
+
+  it('rejects content that is not OFX', () => {
+    expect(parseOfxStatement('Date,Description,Amount\n').errors).toEqual([
+      { row_number: 0, message: 'File is not an OFX or QFX statement.' },
+    ]);
+  });
+});
+
+describe('BankImportService', () => {
+  let importService: BankImportService;
+  let ruleEngineSpy: MockInstance<RuleService['createRuleEngine']>;
+  let prepareSpy: MockInstance<TransactionService['prepareCreateStatements']>;
+  const testUserId = 'user-test-123';
+  const entityId = 'ent-1';
+  const now = Math.floor(Date.now() / 1000);
+
+  const mockDbEntity: DbEntity = {
+    id: entityId,
+    user_id: testUserId,
+    name: 'Main Street LLC',
+    is_active: 1,
+    allows_sub_entities: 0,
+    created_at: now,
+    updated_at: now,
+  };
+
+  const cashLink = {
+    id: 'ea-cash',
+    user_id: testUserId,
+    entity_id: entityId,
+    account_id: 'acc-1010',
+    custom_name: null,
+    is_active: 1,
+    recovery_type: null,
+    recovery_percentage: null,
+    created_at: now,
+    updated_at: now,
+    account_code: '1010',
+    account_name: 'Operating Cash',
+    account_type: 'asset',
+    account_subtype: null,
+    account_is_recoverable: 0,
+  };
+
+  const dbBatch: DbBankImportBatch = {
+    id: 'batch-1',
+    user_id: testUserId,
+    entity_id: entityId,
+    cash_entity_account_id: 'ea-cash',
+    source: 'csv',
+    file_name: 'march.csv',
+    mapping_id: null,
+    status: 'staged',
+    created_at: now,
+    updated_at: now,
+  };
+
+  const dbItem = (id: string, overrides: Partial<DbBankImportItem> = {}): DbBankImportItem => ({
+    id,
+    batch_id: 'batch-1',
+    user_id: testUserId,
+    row_number: 1,
+    date: utc(2024, 3, 1),
+    description: 'RENT DEPOSIT UNIT 4',
+    amount: 150000,
+    direction: 'credit',
+    reference: null,
+    external_id: null,
+    memo: null,
+    rule_id: 'rule-rent',
+    category_entity_account_id: 'ea-rent',
+    note: null,
+    status: 'proposed',
+    transaction_id: null,
+    created_at: now,
+    updated_at: now,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockD1Prepare.mockReturnValue(mockPreparedStatement);
+    mockD1Bind.mockReturnValue(mockPreparedStatement);
+    mockDbBatch.mockResolvedValue([]);
+    ruleEngineSpy = vi.spyOn(RuleService.prototype, 'createRuleEngine').mockResolvedValue(new RuleEngine([
+      {
+        id: 'rule-rent',
+        name: 'Rent deposits',
+        isActive: true,
+        priority: 90,
+        conditions: [{ field: 'description', operator: 'contains', value: 'RENT' }, { field: 'type', operator: 'equals', value: 'credit' }],
+        action: { accountId: 'ea-rent', isDebit: false },
+      },
+      {
+        id: 'rule-fee',
+        name: 'Fees booked as credits',
+        isActive: true,
+        priority: 50,
+        conditions: [{ field: 'description', operator: 'contains', value: 'FEE' }],
+        action: { accountId: 'ea-fees', isDebit: false },
+      },
+    ]));
+    prepareSpy = vi.spyOn(TransactionService.prototype, 'prepareCreateStatements').mockResolvedValue([]);
+    importService = createBankImportService(mockD1Instance);
+  });
+
+  afterEach(() => {
+    ruleEngineSpy.mockRestore();
+    prepareSpy.mockRestore();
+  });
+
+  // Recorded external ids, earlier import lines and hand-entered transactions, in query order.
+  const queueDuplicateChecks = (
+    importedIds: Array<{ external_id: string; item_id: string }> = [],
+    items: unknown[] = [],
+    transactions: unknown[] = []
+  ) => {
+    mockDbQuery.mockResolvedValueOnce(importedIds);
+    mockDbQuery.mockResolvedValueOnce(items);
+    mockDbQuery.mockResolvedValueOnce(transactions);
+  };
+  const itemInserts = () => mockD1Bind.mock.calls.filter(call => call.length === 21);
+  const externalIdInserts = () => mockD1Bind.mock.calls.filter(call => call.length === 6);
+
+  describe('stageLines', () => {
+    it('should propose categories from the rules and leave conflicting or unmatched lines uncategorized', async () => {
+      mockDbQueryOne.mockResolvedValueOnce(mockDbEntity);
+      mockDbQueryOne.mockResolvedValueOnce(cashLink);
+      queueDuplicateChecks();
+      mockDbQueryOne.mockResolvedValueOnce(dbBatch);
+      mockDbQuery.mockResolvedValueOnce([dbItem('item-1')]);
+
+      const lines = [
+        { row_number: 1, date: utc(2024, 3, 1), description: 'RENT DEPOSIT UNIT 4', amount: 150000, direction: 'credit' as const, reference: null, external_id: null, memo: null },
+        { row_number: 2, date: utc(2024, 3, 5), description: 'SERVICE FEE', amount: 1200, direction: 'debit' as const, reference: null, external_id: null, memo: null },
+        { row_number: 3, date: utc(2024, 3, 6), description: 'ACH TRANSFER', amount: 5000, direction: 'debit' as const, reference: null, external_id: null, memo: null },
+      ];
+      const result = await importService.stageLines(
+        { entityId, cashEntityAccountId: 'ea-cash', source: 'csv', fileName: 'march.csv', mappingId: null },
+        { lines, errors: [{ row_number: 4, message: 'Amount is zero.' }] },
+        testUserId
+      );
+
+      const itemRows = itemInserts().map(call => ({
+        rule: call[11], category: call[12], note: call[14], status: call[15],
+      }));
+      expect(itemRows).toEqual([
+        { rule: 'rule-rent', category: 'ea-rent', note: null, status: 'proposed' },
+        {
+          rule: 'rule-fee',
+          category: null,
+          note: 'Rule rule-fee posts a credit, which does not offset this withdrawal.',
+          status: 'uncategorized',
+        },
+        { rule: null, category: null, note: null, status: 'uncategorized' },
+      ]);
+      expect(mockDbBatch).toHaveBeenCalledTimes(1);
+      expect(result.parse_errors).toEqual([{ row_number: 4, message: 'Amount is zero.' }]);
+      expect(result.items[0].proposed_transaction?.lines).toEqual([
+        { entity_account_id: 'ea-cash', amount: 150000, is_debit: true },
+        { entity_account_id: 'ea-rent', amount: 150000, is_debit: false },
+      ]);
+    });
+
+    it('should stage every line of a split rule and propose one category line per split', async () => {
+      ruleEngineSpy.mockResolvedValue(new RuleEngine([{
+        id: 'rule-mortgage',
+        name: 'Mortgage',
+        isActive: true,
+        priority: 90,
+        conditions: [{ field: 'description', operator: 'contains', value: 'MORTGAGE' }],
+        action: {
+          isDebit: true,
+          splits: [
+            { accountId: 'ea-interest', type: 'fixed', value: 120000, description: 'Interest' },
+            { accountId: 'ea-escrow', type: 'fixed', value: 35000, description: 'Escrow' },
+            { accountId: 'ea-principal', type: 'remainder', description: 'Principal' },
+          ],
+        },
+      }]));
+      mockDbQueryOne.mockResolvedValueOnce(mockDbEntity);
+      mockDbQueryOne.mockResolvedValueOnce(cashLink);
+      queueDuplicateChecks();
+      mockDbQueryOne.mockResolvedValueOnce(dbBatch);
+      mockDbQuery.mockImplementationOnce(async () => [dbItem('item-1', {
+        description: 'MORTGAGE PMT', amount: 210000, direction: 'debit', rule_id: 'rule-mortgage',
+        category_entity_account_id: null, category_splits: itemInserts()[0][13],
+      })]);
+
+      const result = await importService.stageLines(
+        { entityId, cashEntityAccountId: 'ea-cash', source: 'csv', fileName: null, mappingId: null },
+        {
+          lines: [{ row_number: 1, date: utc(2024, 3, 1), description: 'MORTGAGE PMT', amount: 210000, direction: 'debit', reference: null, external_id: null, memo: null }],
+          errors: [],
+        },
+        testUserId
+      );
+
+      const [insert] = itemInserts();
+      expect(insert[12]).toBeNull();
+      expect(JSON.parse(insert[13])).toEqual([
+        { entity_account_id: 'ea-interest', amount: 120000, memo: 'Interest' },
+        { entity_account_id: 'ea-escrow', amount: 35000, memo: 'Escrow' },
+        { entity_account_id: 'ea-principal', amount: 55000, memo: 'Principal' },
+      ]);
+      expect(insert[15]).toBe('proposed');
+
+      expect(result.items[0].proposed_transaction?.lines).toEqual([
+        { entity_account_id: 'ea-cash', amount: 210000, is_debit: false },
+        { entity_account_id: 'ea-interest', amount: 120000, is_debit: true, memo: 'Interest' },
+        { entity_account_id: 'ea-escrow', amount: 35000, is_debit: true, memo: 'Escrow' },
+        { entity_account_id: 'ea-principal', amount: 55000, is_debit: true, memo: 'Principal' },
+      ]);
+    });
+
+    it('should reject a cash account that belongs to another entity', async () => {
+      mockDbQueryOne.mockResolvedValueOnce(mockDbEntity);
+      mockDbQueryOne.mockResolvedValueOnce({ ...cashLink, entity_id: 'ent-2' });
+
+      await expect(importService.stageLines(
+        { entityId, cashEntityAccountId: 'ea-cash', source: 'csv', fileName: null, mappingId: null },
+        { lines: [], errors: [] },
+        testUserId
+      )).rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR, status: 400 });
+      expect(mockDbBatch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('importOfx', () => {
+    it('should stage OFX records with their FITID as an ofx import', async () => {
+      mockDbQueryOne.mockResolvedValueOnce(mockDbEntity);
+      mockDbQueryOne.mockResolvedValueOnce(cashLink);
+      queueDuplicateChecks();
+      mockDbQueryOne.mockResolvedValueOnce({ ...dbBatch, source: 'ofx' });
+      mockDbQuery.mockResolvedValueOnce([]);
+
+      const result = await importService.importOfx(
+        { entity_id: entityId, cash_entity_account_id: 'ea-cash', content: sgmlStatement, file_name: 'march.qfx' },
+        testUserId
+      );
+
+      expect(mockD1Bind.mock.calls[0][4]).toBe('ofx');
+      expect(itemInserts().map(call => [call[9], call[10]])).toEqual([
+        ['202403051', 'MONTHLY MAINTENANCE & PAPER'],
+        ['202403062', null],
+      ]);
+      expect(result.parse_errors).toHaveLength(1);
+    });
+
+    it('should reject a file with no readable transactions', async () => {
+      await expect(importService.importOfx(
+        { entity_id: entityId, cash_entity_account_id: 'ea-cash', content: '<OFX></OFX>' },
+        testUserId
+      )).rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR, status: 400 });
+    });
+  });
+
+  describe('duplicate detection', () => {
+    const line = (overrides: Partial<StatementLine> = {}): StatementLine => ({
+      row_number: 1,
+      date: utc(2024, 3, 5),
+      description: 'SERVICE FEE',
+      amount: 1200,
+      direction: 'debit',
+      reference: null,
+      external_id: null,
+      memo: null,
+      ...overrides,
+    });
+
+    it('should hash lines without a bank id and number identical lines within a file', async () => {
+      const [first, second, withFitid] = await assignExternalIds([line(), line({ row_number: 2 }), line({ external_id: 'FIT-1' })]);
+      const [again] = await assignExternalIds([line({ description: 'Service  fee' })]);
+
+      expect(first.external_id).toMatch(/^hash:[0-9a-f]{64}$/);
+      expect(second.external_id).not.toBe(first.external_id);
+      expect(again.external_id).toBe(first.external_id);
+      expect(withFitid.external_id).toBe('FIT-1');
+    });
+
+    it('should score similar descriptions above unrelated ones', () => {
+      expect(descriptionSimilarity('SERVICE FEE', 'Monthly service fee')).toBeGreaterThanOrEqual(0.5);
+      expect(descriptionSimilarity('SERVICE FEE', 'HOME DEPOT #4411')).toBeLessThan(0.5);
+    });
+
+    it('should skip lines already imported and record ids only for new lines', async () => {
+      mockDbQueryOne.mockResolvedValueOnce(mockDbEntity);
+      mockDbQueryOne.mockResolvedValueOnce(cashLink);
+      queueDuplicateChecks([{ external_id: 'FIT-1', item_id: 'item-old' }]);
+      mockDbQueryOne.mockResolvedValueOnce(dbBatch);
+      mockDbQuery.mockResolvedValueOnce([]);
+
+      await importService.stageLines(
+        { entityId, cashEntityAccountId: 'ea-cash', source: 'ofx', fileName: null, mappingId: null },
+        { lines: [line({ external_id: 'FIT-1' }), line({ row_number: 2, external_id: 'FIT-2', description: 'ACH TRANSFER' })], errors: [] },
+        testUserId
+      );
+
+      expect(itemInserts().map(call => [call[9], call[15], call[16], call[17]])).toEqual([
+        ['FIT-1', 'skipped', 'exact', 'item-old'],
+        ['FIT-2', 'uncategorized', null, null],
+      ]);
+      expect(externalIdInserts().map(call => [call[0], call[1]])).toEqual([['ea-cash', 'FIT-2']]);
+    });
+
+    it('should flag a similar hand-entered transaction within the window as a possible duplicate', async () => {
+      mockDbQueryOne.mockResolvedValueOnce(mockDbEntity);
+      mockDbQueryOne.mockResolvedValueOnce(cashLink);
+      queueDuplicateChecks([], [], [
+        { id: 'txn-manual', date: utc(2024, 3, 3), description: 'Monthly service fee', amount: 1200, is_debit: 0 },
+        { id: 'txn-deposit', date: utc(2024, 3, 5), description: 'Service fee refund', amount: 1200, is_debit: 1 },
+      ]);
+      mockDbQueryOne.mockResolvedValueOnce(dbBatch);
+      mockDbQuery.mockResolvedValueOnce([]);
+
+      await importService.stageLines(
+        { entityId, cashEntityAccountId: 'ea-cash', source: 'csv', fileName: null, mappingId: null },
+        { lines: [line(), line({ row_number: 2, date: utc(2024, 3, 20) })], errors: [] },
+        testUserId,
+        { nearDuplicateDays: 3 }
+      );
+
+      const candidateQuery = mockDbQuery.mock.calls[2];
+      expect(candidateQuery[0]).toContain('NOT EXISTS');
+      expect(candidateQuery[1].slice(3)).toEqual([utc(2024, 3, 2), utc(2024, 3, 23)]);
+      expect(itemInserts().map(call => [call[16], call[18]])).toEqual([
+        ['possible', 'txn-manual'],
+        [null, null],
+      ]);
+    });
+
+    it('should hold possible duplicates back from posting until reviewed', async () => {
+      mockDbQueryOne.mockResolvedValueOnce(dbBatch);
+      mockDbQuery.mockResolvedValueOnce([
+        dbItem('item-1'),
+        dbItem('item-2', { row_number: 2, duplicate_flag: 'possible', duplicate_of_transaction_id: 'txn-manual' }),
+      ]);
+      mockDbQueryOne.mockResolvedValueOnce(dbBatch);
+      mockDbQuery.mockResolvedValueOnce([]);
+
+      await importService.postBatch('batch-1', testUserId);
+
+      expect(prepareSpy).toHaveBeenCalledTimes(1);
+      const statements = mockD1Prepare.mock.calls.map(call => String(call[0]));
+      expect(statements.some(sql => sql.includes("UPDATE bank_import_batches SET status = 'posted'"))).toBe(false);
+    });
+  });
+
+  describe('postBatch', () => {
+    it('should post proposed lines and keep the batch staged while lines remain uncategorized', async () => {
+      mockDbQueryOne.mockResolvedValueOnce(dbBatch);
+      mockDbQuery.mockResolvedValueOnce([
+        dbItem('item-1'),
+        dbItem('item-2', { row_number: 2, rule_id: null, category_entity_account_id: null, status: 'uncategorized' }),
+        dbItem('item-3', { row_number: 3, status: 'skipped' }),
+      ]);
+      mockDbQueryOne.mockResolvedValueOnce(dbBatch);
+      mockDbQuery.mockResolvedValueOnce([]);
+
+      await importService.postBatch('batch-1', testUserId);
+
+      expect(prepareSpy).toHaveBeenCalledTimes(1);
+      expect(prepareSpy.mock.calls[0][1]).toEqual(expect.objectContaining({
+        entity_id: entityId,
+        date: utc(2024, 3, 1),
+        status: 'posted',
+      }));
+      const statements = mockD1Prepare.mock.calls.map(call => String(call[0]));
+      expect(statements.some(sql => sql.includes("UPDATE bank_import_items SET status = 'posted'"))).toBe(true);
+      expect(statements.some(sql => sql.includes("UPDATE bank_import_batches SET status = 'posted'"))).toBe(false);
+    });
+
+    it('should book nothing twice when another request posted the lines first', async () => {
+      mockDbQueryOne.mockResolvedValueOnce(dbBatch);
+      mockDbQuery.mockResolvedValueOnce([dbItem('item-1')]);
+      mockDbBatch.mockRejectedValueOnce(new Error('D1_ERROR: malformed JSON: SQLITE_ERROR'));
+      mockDbQueryOne.mockResolvedValueOnce({ ...dbBatch, status: 'posted' });
+      mockDbQuery.mockResolvedValueOnce([dbItem('item-1', { status: 'posted' })]);
+
+      await expect(importService.postBatch('batch-1', testUserId))
+        .rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR, status: 409 });
+      const statements = mockD1Prepare.mock.calls.map(call => String(call[0]));
+      expect(statements).toContain("UPDATE bank_import_items SET status = 'posted', transaction_id = ?, updated_at = ? WHERE id = ? AND status = 'proposed'");
+      expect(statements).toContain("UPDATE bank_import_batches SET status = 'posted', updated_at = ? WHERE id = ? AND status = 'staged'");
+      expect(mockDbBatch.mock.calls[0][0].filter((statement: unknown) => statement === mockChangeCheck)).toHaveLength(2);
+    });
+
+    it('should refuse a batch with nothing proposed', async () => {
+      mockDbQueryOne.mockResolvedValueOnce(dbBatch);
+      mockDbQuery.mockResolvedValueOnce([dbItem('item-1', { status: 'uncategorized', category_entity_account_id: null })]);
+
+      await expect(importService.postBatch('batch-1', testUserId))
+        .rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR, status: 400 });
+      expect(mockDbBatch).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,67 @@
+// tests/unit/camReconciliation.test.ts
+import { describe, it, expect } from 'vitest';
+import {
+  buildCamReconciliation,
+  effectiveRecoveryPercentage,
+  isRecoverableForEntity,
+  type CamExpenseSource,
+} from '../../src/lib/reporting/camReconciliation';
+
+function source(overrides: Partial<CamExpenseSource>): CamExpenseSource {
+  return {
+    entity_account_id: 'ea-5010',
+    account_code: '5010',
+    account_name: 'Repairs & Maintenance',
+    coa_is_recoverable: true,
+    coa_recovery_percentage: null,
+    recovery_type: null,
+    recovery_percentage: null,
+    debit_total: 0,
+    credit_total: 0,
+    ...overrides,
+  };
+}
+
+describe('camReconciliation', () => {
+  it('lets entity-level recovery settings override the chart of accounts', () => {
+    expect(isRecoverableForEntity(source({ coa_is_recoverable: true, recovery_type: 'non-recoverable' }))).toBe(false);
+    expect(isRecoverableForEntity(source({ coa_is_recoverable: false, recovery_type: 'recoverable' }))).toBe(true);
+    expect(isRecoverableForEntity(source({ coa_is_recoverable: true }))).toBe(true);
+
+    expect(effectiveRecoveryPercentage(source({ coa_recovery_percentage: 8000, recovery_percentage: 5000 })))
+      .toEqual({ basisPoints: 5000, source: 'entity_account' });
+    expect(effectiveRecoveryPercentage(source({ coa_recovery_percentage: 8000 })))
+      .toEqual({ basisPoints: 8000, source: 'chart_of_accounts' });
+    expect(effectiveRecoveryPercentage(source({}))).toEqual({ basisPoints: 10000, source: 'chart_of_accounts' });
+  });
+
+  it('allocates the recoverable pool and computes each tenant true-up', () => {
+    const sources = [
+      source({ entity_account_id: 'ea-5010', account_code: '5010', debit_total: 1200000, credit_total: 200000 }),
+      source({ entity_account_id: 'ea-5030', account_code: '5030', coa_recovery_percentage: 5000, debit_total: 400000 }),
+      source({ entity_account_id: 'ea-5040', account_code: '5040', recovery_type: 'non-recoverable', debit_total: 999999 }),
+      source({ entity_account_id: 'ea-5050', account_code: '5050', coa_is_recoverable: false, recovery_type: 'recoverable', recovery_percentage: 2500, debit_total: 100001 }),
+    ];
+    const tenants = [
+      { id: 't1', name: 'Anchor', pro_rata_share: 6000 },
+      { id: 't2', name: 'Cafe', pro_rata_share: 2500 },
+    ];
+    const billed = new Map([['t1', 700000], ['t2', 350000]]);
+
+    const report = buildCamReconciliation('ent-1', 2024, 1704067200, 1735689599, sources, tenants, billed);
+
+    expect(report.expenses.map(line => [line.account_code, line.recoverable_amount])).toEqual([
+      ['5010', 1000000],
+      ['5030', 200000],
+      ['5050', 25000], // 25000.25 rounds half-even
+    ]);
+    expect(report.total_recoverable_expenses).toBe(1500001);
+    expect(report.recoverable_pool).toBe(1225000);
+    expect(report.tenants).toEqual([
+      expect.objectContaining({ tenant_id: 't1', share_amount: 735000, estimated_billed: 700000, true_up: 35000 }),
+      expect.objectContaining({ tenant_id: 't2', share_amount: 306250, estimated_billed: 350000, true_up: -43750 }),
+    ]);
+    expect(report.total_true_up).toBe(-8750);
+    expect(report.unallocated_amount).toBe(183750);
+  });
+});
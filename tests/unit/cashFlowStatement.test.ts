@@ -0,0 +1,91 @@
+// tests/unit/cashFlowStatement.test.ts
+import { describe, it, expect } from 'vitest';
+import {
+  buildCashFlowStatement,
+  resolveCashFlowCategory,
+  type CashFlowAccount,
+} from '../../src/lib/reporting/cashFlowStatement';
+import type { AccountBalance } from '../../src/types/report';
+import { normalBalanceForType, signedBalanceCents } from '../../src/utils/financial';
+
+const chart: CashFlowAccount[] = [
+  { id: 'a1010', code: '1010', name: 'Cash and Cash Equivalents', type: 'asset', parent_id: null, cash_flow_category: 'cash' },
+  { id: 'a1020', code: '1020', name: 'Checking', type: 'asset', parent_id: 'a1010', cash_flow_category: null },
+  { id: 'a1100', code: '1100', name: 'Accounts Receivable', type: 'asset', parent_id: null, cash_flow_category: 'operating' },
+  { id: 'a1500', code: '1500', name: 'Fixed Assets', type: 'asset', parent_id: null, cash_flow_category: 'investing' },
+  { id: 'a1520', code: '1520', name: 'Buildings', type: 'asset', parent_id: 'a1500', cash_flow_category: null },
+  { id: 'a1525', code: '1525', name: 'Accumulated Depreciation', type: 'asset', parent_id: 'a1520', cash_flow_category: 'non_cash' },
+  { id: 'a2010', code: '2010', name: 'Accounts Payable', type: 'liability', parent_id: null, cash_flow_category: 'operating' },
+  { id: 'a2510', code: '2510', name: 'Mortgage Payable', type: 'liability', parent_id: null, cash_flow_category: 'financing' },
+  { id: 'a3020', code: '3020', name: "Owner's Draws", type: 'equity', parent_id: null, cash_flow_category: 'financing' },
+  { id: 'a3030', code: '3030', name: 'Retained Earnings', type: 'equity', parent_id: null, cash_flow_category: null },
+  { id: 'a4010', code: '4010', name: 'Rental Income', type: 'income', parent_id: null, cash_flow_category: null },
+  { id: 'a5020', code: '5020', name: 'Repairs', type: 'expense', parent_id: null, cash_flow_category: null },
+  { id: 'a5910', code: '5910', name: 'Depreciation Expense', type: 'expense', parent_id: null, cash_flow_category: 'non_cash' },
+];
+
+function balance(accountId: string, debit: number, credit: number): AccountBalance {
+  const account = chart.find(a => a.id === accountId)!;
+  const normal = normalBalanceForType(account.type);
+  return {
+    entity_account_id: `ea-${account.code}`,
+    account_id: account.id,
+    account_code: account.code,
+    account_name: account.name,
+    account_type: account.type,
+    account_subtype: null,
+    parent_account_id: account.parent_id ?? null,
+    normal_balance: normal,
+    debit_total: debit,
+    credit_total: credit,
+    balance: signedBalanceCents(debit, credit, normal),
+  };
+}
+
+describe('cashFlowStatement', () => {
+  it('inherits categories and defaults uncategorised balance-sheet accounts to operating', () => {
+    const byId = new Map(chart.map(a => [a.id, a]));
+    expect(resolveCashFlowCategory(byId.get('a1020')!, byId)).toBe('cash');
+    expect(resolveCashFlowCategory(byId.get('a1520')!, byId)).toBe('investing');
+    expect(resolveCashFlowCategory(byId.get('a1525')!, byId)).toBe('non_cash');
+    expect(resolveCashFlowCategory(byId.get('a3030')!, byId)).toBe('operating');
+    expect(resolveCashFlowCategory(byId.get('a4010')!, byId)).toBeNull();
+  });
+
+  it('reconciles net income to the change in cash', () => {
+    // Period activity (cents):
+    //  rent billed 600000 (Dr AR / Cr income), 450000 collected (Dr cash / Cr AR)
+    //  repairs 50000 on account (Dr expense / Cr AP), AP paid 20000
+    //  depreciation 30000 (Dr 5910 / Cr 1525)
+    //  building improvement 200000 paid in cash, mortgage principal 40000 paid, owner draw 25000
+    const activity = [
+      balance('a1020', 450000, 20000 + 200000 + 40000 + 25000),
+      balance('a1100', 600000, 450000),
+      balance('a1520', 200000, 0),
+      balance('a1525', 0, 30000),
+      balance('a2010', 20000, 50000),
+      balance('a2510', 40000, 0),
+      balance('a3020', 25000, 0),
+      balance('a4010', 0, 600000),
+      balance('a5020', 50000, 0),
+      balance('a5910', 30000, 0),
+    ];
+    const opening = [balance('a1020', 1000000, 0), balance('a1100', 80000, 0)];
+
+    const statement = buildCashFlowStatement('ent-1', chart, 100, 200, activity, opening);
+
+    expect(statement.net_income).toBe(520000);
+    expect(statement.operating.adjustments).toEqual([expect.objectContaining({ account_code: '5910', amount: 30000 })]);
+    expect(statement.operating.working_capital_changes.map(line => [line.account_code, line.amount])).toEqual([
+      ['1100', -150000],
+      ['2010', 30000],
+    ]);
+    expect(statement.operating.total).toBe(430000);
+    expect(statement.investing).toEqual({ lines: [expect.objectContaining({ account_code: '1520', amount: -200000 })], total: -200000 });
+    expect(statement.financing.total).toBe(-65000);
+    expect(statement.net_change_in_cash).toBe(165000);
+    expect(statement.beginning_cash).toBe(1000000);
+    expect(statement.ending_cash).toBe(1165000);
+    expect(statement.unreconciled_difference).toBe(0);
+  });
+});
@@ -0,0 +1,215 @@
+// tests/unit/consolidation.test.ts
+import { describe, it, expect } from 'vitest';
+import {
+  buildConsolidatedBalanceSheet,
+  buildConsolidatedIncomeStatement,
+  buildConsolidatedTrialBalance,
+  orderConsolidationEntities,
+} from '../../src/lib/reporting/consolidation';
+import type { StatementAccount } from '../../src/lib/reporting/financialStatements';
+import type { AccountBalance } from '../../src/types/report';
+import type { Entity } from '../../src/types/entity';
+import { normalBalanceForType, signedBalanceCents } from '../../src/utils/financial';
+
+const utc = (year: number, month: number, day: number) => Date.UTC(year, month - 1, day) / 1000;
+
+const chart: StatementAccount[] = [
+  { id: 'a1020', code: '1020', name: 'Checking', type: 'asset', subtype: 'current_asset', parent_id: null },
+  { id: 'a1420', code: '1420', name: 'Due from Related Entities', type: 'asset', subtype: 'current_asset', parent_id: null },
+  { id: 'a2450', code: '2450', name: 'Due to Related Entities', type: 'liability', subtype: 'current_liability', parent_id: null },
+  { id: 'a2510', code: '2510', name: 'Mortgage Payable', type: 'liability', subtype: 'long_term_liability', parent_id: null },
+  { id: 'a3010', code: '3010', name: "Owner's Capital", type: 'equity', subtype: null, parent_id: null },
+  { id: 'a4010', code: '4010', name: 'Rental Income', type: 'income', subtype: 'operating_revenue', parent_id: null },
+  { id: 'a5020', code: '5020', name: 'Repairs', type: 'expense', subtype: null, parent_id: null },
+];
+
+function balance(entityId: string, accountId: string, debit: number, credit: number, customName?: string): AccountBalance {
+  const account = chart.find(a => a.id === accountId)!;
+  const normal = normalBalanceForType(account.type);
+  return {
+    entity_account_id: `${entityId}-ea-${account.code}`,
+    account_id: account.id,
+    account_code: account.code,
+    account_name: customName ?? account.name,
+    account_type: account.type,
+    account_subtype: account.subtype ?? null,
+    parent_account_id: null,
+    normal_balance: normal,
+    debit_total: debit,
+    credit_total: credit,
+    balance: signedBalanceCents(debit, credit, normal),
+  };
+}
+
+const entity = (id: string, name: string, parentId: string | null): Entity => ({
+  id,
+  user_id: 'user-1',
+  name,
+  parent_id: parentId,
+  is_active: true,
+  allows_sub_entities: true,
+  fiscal_year_start_month: 1,
+  created_at: 0,
+  updated_at: 0,
+});
+
+const noIntercompany = { balancesByPeriod: [], exceptions: [] };
+const whollyOwned: Array<Map<string, number>> = [];
+
+const entities = [
+  { entity_id: 'holdco', name: 'HoldCo', parent_id: null, depth: 0 },
+  { entity_id: 'main', name: 'Main Street LLC', parent_id: 'holdco', depth: 1 },
+  { entity_id: 'oak', name: 'Oak Ave LLC', parent_id: 'main', depth: 2 },
+];
+
+describe('consolidation', () => {
+  it('orders the hierarchy parent before children and ignores parent_id cycles', () => {
+    const ordered = orderConsolidationEntities(entity('holdco', 'HoldCo', 'oak'), [
+      entity('oak', 'Oak Ave LLC', 'main'),
+      entity('main', 'Main Street LLC', 'holdco'),
+      entity('elm', 'Elm LLC', 'holdco'),
+    ]);
+
+    expect(ordered).toEqual([
+      { entity_id: 'holdco', name: 'HoldCo', parent_id: null, depth: 0 },
+      { entity_id: 'elm', name: 'Elm LLC', parent_id: 'holdco', depth: 1 },
+      { entity_id: 'main', name: 'Main Street LLC', parent_id: 'holdco', depth: 1 },
+      { entity_id: 'oak', name: 'Oak Ave LLC', parent_id: 'main', depth: 2 },
+    ]);
+  });
+
+  it('sums trial balances by chart of accounts code with each entity alongside', () => {
+    const report = buildConsolidatedTrialBalance('holdco', utc(2025, 6, 30), entities, chart, [
+      { entity_id: 'holdco', balances: [balance('holdco', 'a1020', 10000, 0), balance('holdco', 'a3010', 0, 10000)] },
+      { entity_id: 'main', balances: [balance('main', 'a1020', 50000, 20000, 'Main Checking'), balance('main', 'a4010', 0, 30000)] },
+      { entity_id: 'oak', balances: [balance('oak', 'a1020', 0, 0), balance('oak', 'a5020', 4000, 0), balance('oak', 'a2510', 0, 4000)] },
+    ], noIntercompany);
+
+    expect(report.rows.map(row => row.account_code)).toEqual(['1020', '2510', '3010', '4010', '5020']);
+    const checking = report.rows[0];
+    expect(checking.account_name).toBe('Checking');
+    expect(checking.debit_balance).toBe(40000);
+    expect(checking.by_entity).toEqual({
+      holdco: { debit_balance: 10000, credit_balance: 0 },
+      main: { debit_balance: 30000, credit_balance: 0 },
+      oak: { debit_balance: 0, credit_balance: 0 },
+    });
+    expect(report.total_debits).toBe(44000);
+    expect(report.is_balanced).toBe(true);
+  });
+
+  it('keeps a trial balance row whose entity balances cancel out', () => {
+    const report = buildConsolidatedTrialBalance('holdco', utc(2025, 6, 30), entities.slice(0, 2), chart, [
+      { entity_id: 'holdco', balances: [balance('holdco', 'a1020', 5000, 0)] },
+      { entity_id: 'main', balances: [balance('main', 'a1020', 0, 5000)] },
+    ], noIntercompany);
+
+    expect(report.rows).toHaveLength(1);
+    expect(report.rows[0]).toMatchObject({ debit_balance: 0, credit_balance: 0 });
+    expect(report.rows[0].by_entity.main).toEqual({ debit_balance: 0, credit_balance: 5000 });
+  });
+
+  it('breaks income statement lines and net income down by entity', () => {
+    const periods = [{ label: 'Current Period', start_date: utc(2025, 1, 1), end_date: utc(2025, 7, 1) - 1 }];
+    const statement = buildConsolidatedIncomeStatement('holdco', entities, chart, periods, [
+      { entity_id: 'holdco', balancesByPeriod: [[]] },
+      { entity_id: 'main', balancesByPeriod: [[balance('main', 'a4010', 0, 30000), balance('main', 'a5020', 2000, 0)]] },
+      { entity_id: 'oak', balancesByPeriod: [[balance('oak', 'a4010', 0, 12000), balance('oak', 'a5020', 5000, 0)]] },
+    ], noIntercompany, whollyOwned);
+
+    const revenue = statement.sections.find(section => section.key === 'revenue')!;
+    expect(revenue.lines[0].totals).toEqual([42000]);
+    expect(revenue.lines[0].by_entity).toEqual({ holdco: [0], main: [30000], oak: [12000] });
+    expect(revenue.by_entity.oak).toEqual([12000]);
+    expect(statement.net_income).toEqual([35000]);
+    expect(statement.by_entity.main.net_income).toEqual([28000]);
+    expect(statement.entities).toBe(entities);
+  });
+
+  it('balances the consolidated balance sheet and splits computed equity lines by entity', () => {
+    const periods = [{ label: 'Current Period', start_date: null, end_date: utc(2025, 6, 30) }];
+    const sheet = buildConsolidatedBalanceSheet('holdco', entities.slice(0, 2), chart, periods, [
+      {
+        entity_id: 'holdco',
+        balancesByPeriod: [[balance('holdco', 'a1020', 10000, 0), balance('holdco', 'a3010', 0, 10000)]],
+        currentYearNetIncome: [0],
+      },
+      {
+        entity_id: 'main',
+        balancesByPeriod: [[balance('main', 'a1020', 28000, 0), balance('main', 'a4010', 0, 30000), balance('main', 'a5020', 2000, 0)]],
+        currentYearNetIncome: [28000],
+      },
+    ], noIntercompany, whollyOwned);
+
+    expect(sheet.total_assets).toEqual([38000]);
+    expect(sheet.is_balanced).toEqual([true]);
+    const equity = sheet.sections.find(section => section.key === 'equity')!;
+    const netIncome = equity.lines.find(line => line.account_id === null)!;
+    expect(netIncome.by_entity).toEqual({ holdco: [0], main: [28000] });
+    expect(equity.by_entity).toEqual({ holdco: [10000], main: [28000] });
+    expect(sheet.by_entity.main.total_assets).toEqual([28000]);
+  });
+
+  it('removes intercompany balances and reports pairs that do not net to zero', () => {
+    const periods = [{ label: 'Current Period', start_date: null, end_date: utc(2025, 6, 30) }];
+    const exception = {
+      intercompany_transaction_id: 'ic-2', from_entity_id: 'holdco', to_entity_id: 'main', date: utc(2025, 5, 1),
+      description: 'Loan', amount: 1000, from_balance: 1000, to_balance: 0, difference: 1000,
+    };
+    const sheet = buildConsolidatedBalanceSheet('holdco', entities.slice(0, 2), chart, periods, [
+      {
+        entity_id: 'holdco',
+        balancesByPeriod: [[balance('holdco', 'a1020', 0, 5000), balance('holdco', 'a1420', 6000, 0), balance('holdco', 'a3010', 0, 1000)]],
+        currentYearNetIncome: [0],
+      },
+      {
+        entity_id: 'main',
+        balancesByPeriod: [[balance('main', 'a1020', 5000, 0), balance('main', 'a2450', 0, 5000)]],
+        currentYearNetIncome: [0],
+      },
+    ], {
+      balancesByPeriod: [[balance('holdco', 'a1420', 0, 5000), balance('main', 'a2450', 5000, 0)]],
+      exceptions: [exception],
+    }, whollyOwned);
+
+    expect(sheet.total_assets).toEqual([1000]);
+    expect(sheet.total_liabilities).toEqual([0]);
+    expect(sheet.is_balanced).toEqual([true]);
+    expect(sheet.eliminations.total_assets).toEqual([-5000]);
+    const assets = sheet.sections.find(section => section.key === 'current_assets')!;
+    const due = assets.lines.find(line => line.account_code === '1420')!;
+    expect(due.by_entity.holdco).toEqual([6000]);
+    expect(due.eliminations).toEqual([-5000]);
+    expect(due.totals).toEqual([1000]);
+    expect(sheet.intercompany_exceptions).toEqual([exception]);
+  });
+
+  it('moves the outside owners\' share of a joint venture into a non-controlling interest', () => {
+    const periods = [{ label: 'Current Period', start_date: null, end_date: utc(2025, 6, 30) }];
+    const halfOwned = [new Map([['holdco', 1], ['main', 0.5]])];
+    const mainBalances = [balance('main', 'a1020', 28000, 0), balance('main', 'a3010', 0, 8000), balance('main', 'a4010', 0, 30000), balance('main', 'a5020', 10000, 0)];
+    const sheet = buildConsolidatedBalanceSheet('holdco', entities.slice(0, 2), chart, periods, [
+      { entity_id: 'holdco', balancesByPeriod: [[balance('holdco', 'a1020', 10000, 0), balance('holdco', 'a3010', 0, 10000)]], currentYearNetIncome: [0] },
+      { entity_id: 'main', balancesByPeriod: [mainBalances], currentYearNetIncome: [20000] },
+    ], noIntercompany, halfOwned);
+
+    const equity = sheet.sections.find(section => section.key === 'equity')!;
+    expect(equity.lines.map(line => [line.account_name, line.totals[0]])).toEqual([
+      ["Owner's Capital", 14000],
+      ['Net Income (Current Year)', 10000],
+      ['Non-controlling Interest', 14000],
+    ]);
+    expect(equity.lines[0].non_controlling_interest).toEqual([-4000]);
+    expect(equity.totals).toEqual([38000]);
+    expect(sheet.is_balanced).toEqual([true]);
+    expect(sheet.equity_attributable).toEqual({ parent: [24000], non_controlling_interest: [14000] });
+    expect(sheet.non_controlling_interests).toEqual([{ entity_id: 'main', share_bps: [5000], amounts: [14000] }]);
+
+    const statement = buildConsolidatedIncomeStatement('holdco', entities.slice(0, 2), chart, periods, [
+      { entity_id: 'holdco', balancesByPeriod: [[]] },
+      { entity_id: 'main', balancesByPeriod: [mainBalances] },
+    ], noIntercompany, halfOwned);
+    expect(statement.net_income).toEqual([20000]);
+    expect(statement.net_income_attributable).toEqual({ parent: [10000], non_controlling_interest: [10000] });
+  });
+});
@@ -0,0 +1,183 @@
+// tests/unit/document.test.ts
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { APIContext } from 'astro';
+import { DocumentService, createDocumentService } from '../../src/lib/services/document-service';
+import { POST as uploadDocumentRoute } from '../../src/functions/api/documents/index';
+import { matchesContentType } from '../../src/lib/documents/fileTypes';
+import { signDocumentDownload, verifyDocumentDownload } from '../../src/lib/documents/downloadUrls';
+import type { DbDocument } from '../../src/db/schema';
+import { ErrorCode } from '../../src/utils/errors';
+import type { D1Database, R2Bucket } from '@cloudflare/workers-types';
+
+const mockDbQuery = vi.fn();
+const mockDbQueryOne = vi.fn();
+const mockDbExecute = vi.fn();
+const mockDbBatch = vi.fn();
+const mockD1Prepare = vi.fn();
+const mockD1Bind = vi.fn();
+
+const mockPreparedStatement = { bind: mockD1Bind };
+
+vi.mock('@db/db', () => ({
+  createDbClient: vi.fn(() => ({
+    query: mockDbQuery,
+    queryOne: mockDbQueryOne,
+    execute: mockDbExecute,
+    batch: mockDbBatch,
+    d1Instance: {
+      prepare: mockD1Prepare,
+    },
+  })),
+}));
+
+const mockBucketPut = vi.fn();
+const mockBucketGet = vi.fn();
+const mockBucketDelete = vi.fn();
+const mockBucket = { put: mockBucketPut, get: mockBucketGet, delete: mockBucketDelete } as unknown as R2Bucket;
+
+const mockD1Instance = {} as D1Database;
+const secret = 'test-signing-secret-that-is-long-enough';
+
+const pdfBytes = new TextEncoder().encode('%PDF-1.7\n%fake receipt\n');
+
+describe('DocumentService', () => {
+  let documentService: DocumentService;
+  const testUserId = 'user-test-123';
+  const now = Math.floor(Date.now() / 1000);
+
+  const dbDocument = (overrides: Partial<DbDocument> = {}): DbDocument => ({
+    id: 'doc-1',
+    user_id: testUserId,
+    storage_key: `${testUserId}/doc-1`,
+    file_name: 'receipt.pdf',
+    content_type: 'application/pdf',
+    size_bytes: pdfBytes.byteLength,
+    description: null,
+    created_at: now,
+    updated_at: now,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockD1Prepare.mockReturnValue(mockPreparedStatement);
+    mockD1Bind.mockReturnValue(mockPreparedStatement);
+    mockDbBatch.mockResolvedValue([]);
+    mockBucketPut.mockResolvedValue({});
+    mockBucketDelete.mockResolvedValue(undefined);
+    documentService = createDocumentService(mockD1Instance, mockBucket, secret);
+  });
+
+  describe('file checks', () => {
+    it('should match content types by their leading bytes', () => {
+      expect(matchesContentType('application/pdf', pdfBytes)).toBe(true);
+      expect(matchesContentType('image/png', pdfBytes)).toBe(false);
+      expect(matchesContentType('text/csv; charset=utf-8', new TextEncoder().encode('date,amount\n'))).toBe(true);
+      expect(matchesContentType('application/x-msdownload', new Uint8Array([0x4d, 0x5a]))).toBe(false);
+    });
+  });
+
+  describe('uploadDocument', () => {
+    it('should store the file under the user and save metadata and links in one batch', async () => {
+      mockDbQueryOne.mockResolvedValueOnce({ id: 'txn-1' });
+      mockDbQueryOne.mockResolvedValueOnce(dbDocument());
+      mockDbQuery.mockResolvedValueOnce([{ document_id: 'doc-1', user_id: testUserId, target_type: 'transaction', target_id: 'txn-1', created_at: now }]);
+
+      const document = await documentService.uploadDocument({
+        file: new Blob([pdfBytes], { type: 'application/pdf' }),
+        file_name: 'receipt.pdf',
+        content_type: 'application/pdf',
+        links: [{ target_type: 'transaction', target_id: 'txn-1' }],
+      }, testUserId);
+
+      expect(mockDbQueryOne.mock.calls[0][0]).toContain('FROM transactions');
+      const [key, , options] = mockBucketPut.mock.calls[0];
+      expect(key).toMatch(new RegExp(`^${testUserId}/`));
+      expect(options.httpMetadata).toEqual({ contentType: 'application/pdf' });
+      expect(mockDbBatch).toHaveBeenCalledTimes(1);
+      expect(mockD1Bind.mock.calls[1].slice(1, 4)).toEqual([testUserId, 'transaction', 'txn-1']);
+      expect(document.links).toEqual([{ target_type: 'transaction', target_id: 'txn-1', created_at: now }]);
+    });
+
+    it('should refuse files whose content does not match the declared type', async () => {
+      await expect(documentService.uploadDocument({
+        file: new Blob([new Uint8Array([0x4d, 0x5a, 0x90, 0x00])]),
+        file_name: 'invoice.pdf',
+        content_type: 'application/pdf',
+      }, testUserId)).rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR, status: 415 });
+      expect(mockBucketPut).not.toHaveBeenCalled();
+    });
+
+    it('should refuse oversized files before reading them', async () => {
+      const file = { size: 25 * 1024 * 1024, arrayBuffer: vi.fn() } as unknown as Blob;
+
+      await expect(documentService.uploadDocument({ file, file_name: 'lease.pdf', content_type: 'application/pdf' }, testUserId))
+        .rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR, status: 413 });
+      expect((file.arrayBuffer as ReturnType<typeof vi.fn>)).not.toHaveBeenCalled();
+    });
+
+    it('should remove the stored file when the metadata cannot be saved', async () => {
+      mockDbBatch.mockRejectedValueOnce(new Error('D1 unavailable'));
+
+      await expect(documentService.uploadDocument({
+        file: new Blob([pdfBytes]),
+        file_name: 'receipt.pdf',
+        content_type: 'application/pdf',
+      }, testUserId)).rejects.toMatchObject({ code: ErrorCode.DATABASE_ERROR });
+      expect(mockBucketDelete).toHaveBeenCalledWith(mockBucketPut.mock.calls[0][0]);
+    });
+
+    it('should refuse a request declaring an oversized body before reading it', async () => {
+      const request = new Request('http://localhost/api/documents', {
+        method: 'POST',
+        headers: { 'Content-Type': 'multipart/form-data; boundary=x', 'Content-Length': String(25 * 1024 * 1024) },
+        body: '--x--',
+      });
+      const formData = vi.spyOn(request, 'formData');
+
+      const response = await uploadDocumentRoute({
+        request,
+        locals: { user: { id: testUserId }, runtime: { env: { DB: mockD1Instance, DOCUMENTS: mockBucket, AUTH_SECRET: secret } } },
+      } as unknown as APIContext);
+
+      expect(response.status).toBe(413);
+      expect(formData).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('downloads', () => {
+    it('should issue a URL only the same user can use before it expires', async () => {
+      mockDbQueryOne.mockResolvedValueOnce(dbDocument());
+      mockDbQuery.mockResolvedValueOnce([]);
+
+      const { url, expires_at } = await documentService.createDownloadUrl('doc-1', testUserId);
+      const signature = new URL(url, 'https://example.test').searchParams.get('signature')!;
+
+      expect(url).toMatch(/^\/api\/documents\/doc-1\/download\?expires=\d+&signature=[0-9a-f]{64}$/);
+      expect(await verifyDocumentDownload(secret, 'doc-1', testUserId, expires_at, signature)).toBe(true);
+      expect(await verifyDocumentDownload(secret, 'doc-1', 'user-other', expires_at, signature)).toBe(false);
+      expect(await verifyDocumentDownload(secret, 'doc-1', testUserId, expires_at, signature, expires_at + 1)).toBe(false);
+    });
+
+    it('should refuse an expired link without touching storage', async () => {
+      const expired = now - 10;
+      const signature = await signDocumentDownload(secret, 'doc-1', testUserId, expired);
+
+      await expect(documentService.getDownload('doc-1', testUserId, expired, signature))
+        .rejects.toMatchObject({ code: ErrorCode.AUTHORIZATION_ERROR, status: 403 });
+      expect(mockBucketGet).not.toHaveBeenCalled();
+    });
+
+    it('should return the stored object for a valid link', async () => {
+      const expiresAt = now + 60;
+      const signature = await signDocumentDownload(secret, 'doc-1', testUserId, expiresAt);
+      mockDbQueryOne.mockResolvedValueOnce(dbDocument());
+      mockBucketGet.mockResolvedValueOnce({ body: 'stream' });
+
+      const download = await documentService.getDownload('doc-1', testUserId, expiresAt, signature);
+
+      expect(mockBucketGet).toHaveBeenCalledWith(`${testUserId}/doc-1`);
+      expect(download.document.file_name).toBe('receipt.pdf');
+    });
+  });
+});
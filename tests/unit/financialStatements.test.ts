@@ -0,0 +1,117 @@
+// tests/unit/financialStatements.test.ts
+import { describe, it, expect } from 'vitest';
+import {
+  buildBalanceSheet,
+  buildIncomeStatement,
+  comparisonPeriod,
+  resolveStatementSection,
+  type StatementAccount,
+} from '../../src/lib/reporting/financialStatements';
+import type { AccountBalance } from '../../src/types/report';
+import { normalBalanceForType, signedBalanceCents } from '../../src/utils/financial';
+
+const utc = (year: number, month: number, day: number) => Date.UTC(year, month - 1, day) / 1000;
+
+const chart: StatementAccount[] = [
+  { id: 'a1000', code: '1000', name: 'Current Assets', type: 'asset', subtype: 'current_asset', parent_id: null },
+  { id: 'a1020', code: '1020', name: 'Checking', type: 'asset', subtype: null, parent_id: 'a1000' },
+  { id: 'a1500', code: '1500', name: 'Fixed Assets', type: 'asset', subtype: 'fixed_asset', parent_id: null },
+  { id: 'a1520', code: '1520', name: 'Buildings', type: 'asset', subtype: null, parent_id: 'a1500' },
+  { id: 'a1525', code: '1525', name: 'Accumulated Depreciation', type: 'asset', subtype: null, parent_id: 'a1520' },
+  { id: 'a2500', code: '2500', name: 'Long-Term Liabilities', type: 'liability', subtype: 'long_term_liability', parent_id: null },
+  { id: 'a2510', code: '2510', name: 'Mortgage Payable', type: 'liability', subtype: null, parent_id: 'a2500' },
+  { id: 'a3010', code: '3010', name: "Owner's Capital", type: 'equity', subtype: null, parent_id: null },
+  { id: 'a4000', code: '4000', name: 'Operating Revenue', type: 'income', subtype: 'operating_revenue', parent_id: null },
+  { id: 'a4010', code: '4010', name: 'Rental Income', type: 'income', subtype: null, parent_id: 'a4000' },
+  { id: 'a5000', code: '5000', name: 'Property Operating Expenses', type: 'expense', subtype: null, parent_id: null },
+  { id: 'a5020', code: '5020', name: 'Repairs', type: 'expense', subtype: 'non-recoverable', parent_id: 'a5000' },
+  { id: 'a5800', code: '5800', name: 'Financial Expenses', type: 'expense', subtype: 'non_operating_expense', parent_id: null },
+  { id: 'a5810', code: '5810', name: 'Mortgage Interest', type: 'expense', subtype: null, parent_id: 'a5800' },
+];
+
+function balance(accountId: string, debit: number, credit: number): AccountBalance {
+  const account = chart.find(a => a.id === accountId)!;
+  const normal = normalBalanceForType(account.type);
+  return {
+    entity_account_id: `ea-${account.code}`,
+    account_id: account.id,
+    account_code: account.code,
+    account_name: account.name,
+    account_type: account.type,
+    account_subtype: account.subtype ?? null,
+    parent_account_id: account.parent_id ?? null,
+    normal_balance: normal,
+    debit_total: debit,
+    credit_total: credit,
+    balance: signedBalanceCents(debit, credit, normal),
+  };
+}
+
+describe('financialStatements', () => {
+  it('inherits the section from the nearest ancestor with a recognised subtype', () => {
+    const byId = new Map(chart.map(a => [a.id, a]));
+    expect(resolveStatementSection(byId.get('a1525')!, byId)).toBe('non_current_assets');
+    expect(resolveStatementSection(byId.get('a5810')!, byId)).toBe('other_expenses');
+    expect(resolveStatementSection(byId.get('a5020')!, byId)).toBe('operating_expenses');
+  });
+
+  it('rolls balances up the hierarchy and separates operating from net income', () => {
+    const periods = [
+      { label: 'Current Period', start_date: utc(2025, 5, 1), end_date: utc(2025, 6, 1) - 1 },
+      { label: 'Prior Period', start_date: utc(2025, 4, 1), end_date: utc(2025, 5, 1) - 1 },
+    ];
+    const statement = buildIncomeStatement('ent-1', chart, periods, [
+      [balance('a4010', 0, 500000), balance('a5020', 80000, 0), balance('a5810', 120000, 0)],
+      [balance('a4010', 0, 450000), balance('a5020', 30000, 0)],
+    ]);
+
+    const revenue = statement.sections.find(s => s.key === 'revenue')!;
+    expect(revenue.lines[0]).toEqual(expect.objectContaining({ account_code: '4000', amounts: [0, 0], totals: [500000, 450000] }));
+    expect(revenue.lines[0].children[0]).toEqual(expect.objectContaining({ account_code: '4010', depth: 1 }));
+    expect(statement.operating_income).toEqual([420000, 420000]);
+    expect(statement.net_income).toEqual([300000, 420000]);
+  });
+
+  it('nets contra accounts and carries net income into equity so the balance sheet balances', () => {
+    const periods = [{ label: 'Current Period', start_date: null, end_date: utc(2025, 6, 30) }];
+    const balances = [
+      balance('a1020', 1500000, 200000),
+      balance('a1520', 3000000, 0),
+      balance('a1525', 0, 100000),
+      balance('a2510', 0, 2500000),
+      balance('a3010', 0, 1000000),
+      balance('a4010', 0, 900000),
+      balance('a5020', 200000, 0),
+    ];
+    // 700000 cumulative net income, of which 400000 was earned this fiscal year.
+    const sheet = buildBalanceSheet('ent-1', chart, periods, [balances], [400000]);
+
+    const nonCurrent = sheet.sections.find(s => s.key === 'non_current_assets')!;
+    expect(nonCurrent.totals).toEqual([2900000]);
+    const equity = sheet.sections.find(s => s.key === 'equity')!;
+    expect(equity.lines.map(line => [line.account_name, line.totals[0]])).toEqual([
+      ["Owner's Capital", 1000000],
+      ['Retained Earnings (Unclosed Prior Years)', 300000],
+      ['Net Income (Current Year)', 400000],
+    ]);
+    expect(sheet.total_assets).toEqual([4200000]);
+    expect(sheet.total_liabilities_and_equity).toEqual([4200000]);
+    expect(sheet.is_balanced).toEqual([true]);
+  });
+
+  it('derives month-aligned prior periods and prior-year comparisons', () => {
+    const ytd = { label: 'Current Period', start_date: utc(2025, 1, 1), end_date: utc(2025, 3, 15) };
+    expect(comparisonPeriod(ytd, 'prior_year')).toEqual(
+      expect.objectContaining({ start_date: utc(2024, 1, 1), end_date: utc(2024, 3, 15) })
+    );
+
+    const quarter = { label: 'Current Period', start_date: utc(2025, 4, 1), end_date: utc(2025, 7, 1) - 1 };
+    expect(comparisonPeriod(quarter, 'prior_period')).toEqual(
+      expect.objectContaining({ start_date: utc(2025, 1, 1), end_date: utc(2025, 4, 1) - 1 })
+    );
+
+    const monthEnd = { label: 'Current Period', start_date: null, end_date: utc(2025, 4, 1) - 1 };
+    expect(comparisonPeriod(monthEnd, 'prior_period')?.end_date).toBe(utc(2025, 3, 1) - 1);
+    expect(comparisonPeriod(monthEnd, 'none')).toBeNull();
+  });
+});
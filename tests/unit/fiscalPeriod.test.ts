@@ -0,0 +1,186 @@
+// tests/unit/fiscalPeriod.test.ts
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { FiscalPeriodService, createFiscalPeriodService } from '../../src/lib/services/fiscal-period-service';
+import { EntityService } from '../../src/lib/services/entity-service';
+import { fiscalYearFor, fiscalYearPeriods, monthStartFor, periodLabel } from '../../src/lib/accounting/periods';
+import type { DbFiscalPeriod } from '../../src/db/schema';
+import type { Entity } from '../../src/types/entity';
+import { ErrorCode } from '../../src/utils/errors';
+import type { D1Database } from '@cloudflare/workers-types';
+
+const mockDbQuery = vi.fn();
+const mockDbQueryOne = vi.fn();
+const mockDbExecute = vi.fn();
+const mockD1Prepare = vi.fn();
+const mockD1Bind = vi.fn();
+
+const mockPreparedStatement = { bind: mockD1Bind };
+
+vi.mock('@db/db', () => ({
+  createDbClient: vi.fn(() => ({
+    query: mockDbQuery,
+    queryOne: mockDbQueryOne,
+    execute: mockDbExecute,
+    batch: vi.fn(),
+    d1Instance: {
+      prepare: mockD1Prepare,
+    },
+  })),
+}));
+
+const mockD1Instance = {} as D1Database;
+
+const utc = (year: number, month: number, day: number) => Date.UTC(year, month - 1, day) / 1000;
+
+describe('periods', () => {
+  it('names fiscal years for the calendar year they end in', () => {
+    expect(fiscalYearFor(utc(2024, 6, 30), 7)).toBe(2024);
+    expect(fiscalYearFor(utc(2024, 7, 1), 7)).toBe(2025);
+    expect(fiscalYearFor(utc(2024, 12, 31))).toBe(2024);
+  });
+
+  it('lays out twelve monthly periods from the start month', () => {
+    const periods = fiscalYearPeriods(2025, 7);
+
+    expect(periods).toHaveLength(12);
+    expect(periods[0]).toEqual({ fiscal_year: 2025, period_number: 1, period_start: utc(2024, 7, 1), period_end: utc(2024, 8, 1) - 1 });
+    expect(periods[11].period_end).toBe(utc(2025, 7, 1) - 1);
+    expect(monthStartFor(utc(2025, 3, 17) + 3600)).toBe(utc(2025, 3, 1));
+    expect(periodLabel(utc(2025, 3, 1))).toBe('March 2025');
+  });
+});
+
+describe('FiscalPeriodService', () => {
+  let fiscalPeriodService: FiscalPeriodService;
+  const testUserId = 'user-test-123';
+  const now = Math.floor(Date.now() / 1000);
+
+  const entity = { id: 'ent-1', user_id: testUserId, name: 'Main Street LLC', fiscal_year_start_month: 7 } as Entity;
+  const dbPeriod = (periodStart: number, status: DbFiscalPeriod['status']): DbFiscalPeriod => ({
+    id: `fp-${periodStart}`, user_id: testUserId, entity_id: 'ent-1', period_start: periodStart, status,
+    closed_at: status === 'open' ? null : now, note: null, created_at: now, updated_at: now,
+  });
+
+  let spies: Array<{ mockRestore: () => void }> = [];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockD1Prepare.mockReturnValue(mockPreparedStatement);
+    mockD1Bind.mockReturnValue(mockPreparedStatement);
+    spies = [vi.spyOn(EntityService.prototype, 'getEntityById').mockResolvedValue(entity)];
+    fiscalPeriodService = createFiscalPeriodService(mockD1Instance);
+  });
+
+  afterEach(() => {
+    spies.forEach(spy => spy.mockRestore());
+  });
+
+  describe('preparePostingCheck', () => {
+    it('should let postings into open periods through without logging anything', async () => {
+      mockDbQueryOne.mockResolvedValueOnce(null);
+
+      await expect(fiscalPeriodService.preparePostingCheck('ent-1', utc(2025, 3, 17), 'txn-1', 'Late invoice', testUserId))
+        .resolves.toEqual([]);
+    });
+
+    it('should reject postings into a closed period, even with an override', async () => {
+      mockDbQueryOne.mockResolvedValueOnce(dbPeriod(utc(2025, 3, 1), 'closed'));
+
+      await expect(fiscalPeriodService.preparePostingCheck('ent-1', utc(2025, 3, 17), 'txn-1', 'Late invoice', testUserId))
+        .rejects.toMatchObject({
+          code: ErrorCode.VALIDATION_ERROR,
+          status: 400,
+          message: 'March 2025 is closed. Reopen the period before posting into it.',
+          details: { period_start: utc(2025, 3, 1), status: 'closed' },
+        });
+    });
+
+    it('should require an administrator\'s override reason for a soft-closed period', async () => {
+      mockDbQueryOne.mockResolvedValue(dbPeriod(utc(2025, 3, 1), 'soft_closed'));
+
+      await expect(fiscalPeriodService.preparePostingCheck('ent-1', utc(2025, 3, 17), 'txn-1', null, testUserId))
+        .rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR, message: expect.stringContaining('is soft-closed') });
+
+      mockDbQueryOne
+        .mockResolvedValueOnce(dbPeriod(utc(2025, 3, 1), 'soft_closed'))
+        .mockResolvedValueOnce({ role: 'user' });
+      await expect(fiscalPeriodService.preparePostingCheck('ent-1', utc(2025, 3, 17), 'txn-1', 'Late invoice', testUserId))
+        .rejects.toMatchObject({ code: ErrorCode.AUTHORIZATION_ERROR, status: 403 });
+    });
+
+    it('should log an administrator\'s override with its reason', async () => {
+      mockDbQueryOne
+        .mockResolvedValueOnce(dbPeriod(utc(2025, 3, 1), 'soft_closed'))
+        .mockResolvedValueOnce({ role: 'admin' });
+
+      const statements = await fiscalPeriodService.preparePostingCheck('ent-1', utc(2025, 3, 17), 'txn-1', 'Late invoice', testUserId);
+
+      expect(statements).toHaveLength(1);
+      expect(mockD1Prepare).toHaveBeenCalledWith(expect.stringContaining('INSERT INTO period_lock_overrides'));
+      expect(mockD1Bind.mock.calls[0].slice(1, 6)).toEqual([testUserId, 'ent-1', utc(2025, 3, 1), 'txn-1', 'Late invoice']);
+    });
+  });
+
+  describe('setPeriodStatus', () => {
+    it('should refuse to close a month with pending transactions', async () => {
+      mockDbQueryOne
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ count: 2 });
+
+      await expect(fiscalPeriodService.setPeriodStatus('ent-1', { period_start: utc(2025, 3, 17), status: 'closed' }, testUserId))
+        .rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR, message: expect.stringContaining('March 2025 has 2 pending') });
+      expect(mockDbQueryOne.mock.calls[1][1]).toEqual(['ent-1', testUserId, utc(2025, 3, 1), utc(2025, 4, 1) - 1]);
+      expect(mockDbExecute).not.toHaveBeenCalled();
+    });
+
+    it('should only let an administrator reopen a closed month', async () => {
+      mockDbQueryOne
+        .mockResolvedValueOnce(dbPeriod(utc(2025, 3, 1), 'closed'))
+        .mockResolvedValueOnce({ role: 'user' });
+
+      await expect(fiscalPeriodService.setPeriodStatus('ent-1', { period_start: utc(2025, 3, 1), status: 'open' }, testUserId))
+        .rejects.toMatchObject({ code: ErrorCode.AUTHORIZATION_ERROR, status: 403 });
+      expect(mockDbExecute).not.toHaveBeenCalled();
+    });
+
+    it('should not let a non-administrator reopen a soft-closed month', async () => {
+      mockDbQueryOne
+        .mockResolvedValueOnce(dbPeriod(utc(2025, 3, 1), 'soft_closed'))
+        .mockResolvedValueOnce({ role: 'user' });
+
+      await expect(fiscalPeriodService.setPeriodStatus('ent-1', { period_start: utc(2025, 3, 1), status: 'open' }, testUserId))
+        .rejects.toMatchObject({
+          code: ErrorCode.AUTHORIZATION_ERROR,
+          status: 403,
+          message: 'March 2025 is soft-closed. Only an administrator can change its status.',
+        });
+      expect(mockDbExecute).not.toHaveBeenCalled();
+    });
+
+    it('should soft-close a month and report it in its fiscal year', async () => {
+      mockDbQueryOne
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ count: 0 })
+        .mockResolvedValueOnce(dbPeriod(utc(2025, 3, 1), 'soft_closed'));
+      mockDbExecute.mockResolvedValueOnce({ success: true });
+
+      const period = await fiscalPeriodService.setPeriodStatus('ent-1', { period_start: utc(2025, 3, 17), status: 'soft_closed' }, testUserId);
+
+      expect(mockDbExecute.mock.calls[0][1].slice(2, 5)).toEqual(['ent-1', utc(2025, 3, 1), 'soft_closed']);
+      // With a July start, March is the ninth period of fiscal 2025
+      expect(period).toEqual(expect.objectContaining({ fiscal_year: 2025, period_number: 9, label: 'March 2025', status: 'soft_closed' }));
+    });
+  });
+
+  it('should list every month of the fiscal year, open unless stored otherwise', async () => {
+    mockDbQuery
+      .mockResolvedValueOnce([dbPeriod(utc(2024, 7, 1), 'closed'), dbPeriod(utc(2024, 8, 1), 'soft_closed')])
+      .mockResolvedValueOnce([]);
+
+    const fiscalYear = await fiscalPeriodService.getFiscalYear('ent-1', 2025, testUserId);
+
+    expect(fiscalYear.start_date).toBe(utc(2024, 7, 1));
+    expect(fiscalYear.end_date).toBe(utc(2025, 7, 1) - 1);
+    expect(fiscalYear.periods.map(period => period.status).slice(0, 3)).toEqual(['closed', 'soft_closed', 'open']);
+  });
+});
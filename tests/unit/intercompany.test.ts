@@ -0,0 +1,247 @@
+// tests/unit/intercompany.test.ts
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { IntercompanyService, createIntercompanyService } from '../../src/lib/services/intercompany-service';
+import { TransactionService } from '../../src/lib/services/transaction-service';
+import { EntityService } from '../../src/lib/services/entity-service';
+import { EntityAccountService } from '../../src/lib/services/entity-account-service';
+import { buildEliminationBalances, findIntercompanyExceptions, type IntercompanyLine } from '../../src/lib/reporting/intercompany';
+import type { DbIntercompanyTransaction } from '../../src/db/schema';
+import type { Entity } from '../../src/types/entity';
+import type { Transaction } from '../../src/types/transaction';
+import { ErrorCode } from '../../src/utils/errors';
+import type { D1Database } from '@cloudflare/workers-types';
+
+const mockDbQuery = vi.fn();
+const mockDbQueryOne = vi.fn();
+const mockDbBatch = vi.fn();
+const mockD1Prepare = vi.fn();
+const mockD1Bind = vi.fn();
+
+const mockPreparedStatement = { bind: mockD1Bind };
+
+vi.mock('@db/db', () => ({
+  createDbClient: vi.fn(() => ({
+    query: mockDbQuery,
+    queryOne: mockDbQueryOne,
+    execute: vi.fn(),
+    batch: mockDbBatch,
+    d1Instance: {
+      prepare: mockD1Prepare,
+    },
+  })),
+}));
+
+const mockD1Instance = {} as D1Database;
+
+const utc = (year: number, month: number, day: number) => Date.UTC(year, month - 1, day) / 1000;
+
+function icLine(
+  id: string,
+  side: 'from' | 'to',
+  isDue: boolean,
+  code: string,
+  type: IntercompanyLine['account_type'],
+  amount: number,
+  isDebit: boolean,
+  overrides: Partial<IntercompanyLine> = {}
+): IntercompanyLine {
+  const entityId = side === 'from' ? 'holdco' : 'oak';
+  return {
+    intercompany_transaction_id: id,
+    from_entity_id: 'holdco',
+    to_entity_id: 'oak',
+    intercompany_date: utc(2025, 3, 1),
+    intercompany_amount: amount,
+    intercompany_description: 'Management fee',
+    eliminates_activity: 0,
+    side,
+    is_due: isDue ? 1 : 0,
+    entity_id: entityId,
+    entity_account_id: `${entityId}-ea-${code}`,
+    account_id: `coa-${code}`,
+    account_code: code,
+    account_name: `Account ${code}`,
+    account_type: type,
+    account_subtype: null,
+    parent_account_id: null,
+    amount,
+    is_debit: isDebit ? 1 : 0,
+    date: utc(2025, 3, 1),
+    ...overrides,
+  };
+}
+
+describe('intercompany eliminations', () => {
+  const feePair = (id: string, overrides: Partial<IntercompanyLine> = {}) => [
+    icLine(id, 'from', true, '1420', 'asset', 50000, true, overrides),
+    icLine(id, 'from', false, '4030', 'income', 50000, false, overrides),
+    icLine(id, 'to', false, '5010', 'expense', 50000, true, overrides),
+    icLine(id, 'to', true, '2450', 'liability', 50000, false, overrides),
+  ];
+
+  it('reverses due lines, and activity lines when flagged, for matched pairs', () => {
+    const balances = buildEliminationBalances(feePair('ic-1', { eliminates_activity: 1 }), { end_date: utc(2025, 12, 31) });
+
+    expect(balances.map(b => [b.account_code, b.debit_total, b.credit_total])).toEqual([
+      ['1420', 0, 50000],
+      ['2450', 50000, 0],
+      ['4030', 50000, 0],
+      ['5010', 0, 50000],
+    ]);
+    expect(balances.reduce((sum, b) => sum + b.debit_total - b.credit_total, 0)).toBe(0);
+  });
+
+  it('keeps counter lines when the activity is not intercompany', () => {
+    const balances = buildEliminationBalances(feePair('ic-1'), { end_date: utc(2025, 12, 31) });
+
+    expect(balances.map(b => b.account_code)).toEqual(['1420', '2450']);
+  });
+
+  it('only eliminates lines inside the range', () => {
+    expect(buildEliminationBalances(feePair('ic-1'), { start_date: utc(2025, 4, 1), end_date: utc(2025, 12, 31) })).toEqual([]);
+  });
+
+  it('reports and skips a pair with one side voided on its own', () => {
+    const lines = [
+      ...feePair('ic-1', { eliminates_activity: 1 }),
+      // Reversal of the to side only
+      icLine('ic-1', 'to', false, '5010', 'expense', 50000, false, { date: utc(2025, 4, 1) }),
+      icLine('ic-1', 'to', true, '2450', 'liability', 50000, true, { date: utc(2025, 4, 1) }),
+      ...feePair('ic-2'),
+    ];
+
+    expect(findIntercompanyExceptions(lines)).toEqual([expect.objectContaining({
+      intercompany_transaction_id: 'ic-1',
+      from_balance: 50000,
+      to_balance: 0,
+      difference: 50000,
+    })]);
+    const balances = buildEliminationBalances(lines, { end_date: utc(2025, 12, 31) });
+    expect(balances.map(b => [b.entity_account_id, b.debit_total, b.credit_total])).toEqual([
+      ['holdco-ea-1420', 0, 50000],
+      ['oak-ea-2450', 50000, 0],
+    ]);
+  });
+});
+
+describe('IntercompanyService', () => {
+  let intercompanyService: IntercompanyService;
+  const testUserId = 'user-test-123';
+  const now = Math.floor(Date.now() / 1000);
+
+  const entity = (id: string, name: string): Entity => ({
+    id, user_id: testUserId, name, is_active: true, allows_sub_entities: false, fiscal_year_start_month: 1, created_at: now, updated_at: now,
+  });
+  const transaction = (id: string, entityId: string): Transaction => ({
+    id, user_id: testUserId, entity_id: entityId, date: utc(2025, 3, 1), description: 'Advance',
+    status: 'posted', is_reconciled: false, created_at: now, updated_at: now, lines: [],
+  });
+  const dbRecord: DbIntercompanyTransaction = {
+    id: 'ic-1',
+    user_id: testUserId,
+    kind: 'advance',
+    from_entity_id: 'holdco',
+    to_entity_id: 'oak',
+    date: utc(2025, 3, 1),
+    amount: 250000,
+    description: 'Advance for roof repair',
+    reference: null,
+    from_transaction_id: 'txn-from',
+    to_transaction_id: 'txn-to',
+    from_due_entity_account_id: 'holdco-1420',
+    from_counter_entity_account_id: 'holdco-cash',
+    to_due_entity_account_id: 'oak-2450',
+    to_counter_entity_account_id: 'oak-cash',
+    eliminates_activity: 0,
+    created_at: now,
+    updated_at: now,
+  };
+
+  let spies: Array<{ mockRestore: () => void }> = [];
+  const prepareCreateCalls = () => vi.mocked(TransactionService.prototype.prepareCreateStatements).mock.calls;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockD1Prepare.mockReturnValue(mockPreparedStatement);
+    mockD1Bind.mockReturnValue(mockPreparedStatement);
+    mockDbBatch.mockResolvedValue([]);
+    const entities: Record<string, Entity> = { holdco: entity('holdco', 'HoldCo'), oak: entity('oak', 'Oak Ave LLC') };
+    spies = [
+      vi.spyOn(TransactionService.prototype, 'prepareCreateStatements').mockResolvedValue([]),
+      vi.spyOn(TransactionService.prototype, 'prepareVoidStatements').mockResolvedValue({ reversalId: 'rev', statements: [] }),
+      vi.spyOn(TransactionService.prototype, 'getTransactionById').mockImplementation(async id => transaction(id, 'holdco')),
+      vi.spyOn(EntityService.prototype, 'getEntityById').mockImplementation(async id => entities[id] ?? null),
+      vi.spyOn(EntityAccountService.prototype, 'findActiveEntityAccountIdByCode')
+        .mockImplementation(async (entityId, code) => `${entityId}-${code}`),
+    ];
+    intercompanyService = createIntercompanyService(mockD1Instance);
+  });
+
+  afterEach(() => {
+    spies.forEach(spy => spy.mockRestore());
+  });
+
+  const input = {
+    from_entity_id: 'holdco',
+    to_entity_id: 'oak',
+    date: utc(2025, 3, 1),
+    amount: 250000,
+    description: 'Advance for roof repair',
+    from_counter_entity_account_id: 'holdco-cash',
+    to_counter_entity_account_id: 'oak-5020',
+  };
+
+  it('should post mirrored entries against the default due accounts in one batch', async () => {
+    mockDbQuery.mockResolvedValueOnce([{ id: 'holdco-cash', type: 'asset' }, { id: 'oak-5020', type: 'expense' }]);
+    mockDbQueryOne.mockResolvedValueOnce(dbRecord);
+
+    await intercompanyService.createIntercompanyTransaction(input, testUserId);
+
+    expect(prepareCreateCalls()[0][1]).toEqual(expect.objectContaining({ entity_id: 'holdco', status: 'posted' }));
+    expect(prepareCreateCalls()[0][1].lines).toEqual([
+      { entity_account_id: 'holdco-1420', amount: 250000, is_debit: true, memo: 'Oak Ave LLC' },
+      { entity_account_id: 'holdco-cash', amount: 250000, is_debit: false },
+    ]);
+    expect(prepareCreateCalls()[1][1].lines).toEqual([
+      { entity_account_id: 'oak-5020', amount: 250000, is_debit: true },
+      { entity_account_id: 'oak-2450', amount: 250000, is_debit: false, memo: 'HoldCo' },
+    ]);
+    const recordBind = mockD1Bind.mock.calls[0];
+    expect(recordBind[2]).toBe('advance');
+    expect(recordBind.slice(11, 16)).toEqual(['holdco-1420', 'holdco-cash', 'oak-2450', 'oak-5020', 0]);
+    expect(mockDbBatch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should swap the due accounts for a settlement and flag intercompany fees for elimination', async () => {
+    mockDbQuery.mockResolvedValueOnce([{ id: 'holdco-5010', type: 'expense' }, { id: 'oak-4030', type: 'income' }]);
+    mockDbQueryOne.mockResolvedValueOnce(dbRecord);
+
+    await intercompanyService.createIntercompanyTransaction({
+      ...input,
+      kind: 'settlement',
+      from_counter_entity_account_id: 'holdco-5010',
+      to_counter_entity_account_id: 'oak-4030',
+    }, testUserId);
+
+    expect(prepareCreateCalls()[0][1].lines[0].entity_account_id).toBe('holdco-2450');
+    expect(prepareCreateCalls()[1][1].lines[1].entity_account_id).toBe('oak-1420');
+    expect(mockD1Bind.mock.calls[0][15]).toBe(1);
+  });
+
+  it('should name the missing due account when it is not linked', async () => {
+    vi.mocked(EntityAccountService.prototype.findActiveEntityAccountIdByCode).mockResolvedValueOnce(null);
+
+    await expect(intercompanyService.createIntercompanyTransaction(input, testUserId))
+      .rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR, message: expect.stringContaining('1420 is not linked to HoldCo') });
+    expect(mockDbBatch).not.toHaveBeenCalled();
+  });
+
+  it('should void both sides in one batch', async () => {
+    mockDbQueryOne.mockResolvedValue(dbRecord);
+
+    await intercompanyService.voidIntercompanyTransaction('ic-1', { date: utc(2025, 4, 1), reason: 'Entered twice' }, testUserId);
+
+    expect(vi.mocked(TransactionService.prototype.prepareVoidStatements).mock.calls.map(call => call[0])).toEqual(['txn-from', 'txn-to']);
+    expect(mockDbBatch).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,209 @@
+// tests/unit/interestAccrual.test.ts
+import { describe, it, expect, vi, beforeEach, afterEach, type MockInstance } from 'vitest';
+import { LoanAccrualService, createLoanAccrualService, previousMonthEnd } from '../../src/lib/services/loan-accrual-service';
+import { TransactionService } from '../../src/lib/services/transaction-service';
+import { dayCount, simpleInterestCents } from '../../src/lib/accounting/dayCount';
+import type { DbEntity, DbLoan, DbLoanSchedule } from '../../src/db/schema';
+import { ErrorCode } from '../../src/utils/errors';
+import type { D1Database } from '@cloudflare/workers-types';
+
+const mockDbQuery = vi.fn();
+const mockDbQueryOne = vi.fn();
+const mockDbExecute = vi.fn();
+const mockDbBatch = vi.fn();
+const mockD1Prepare = vi.fn();
+const mockD1Bind = vi.fn();
+
+const mockPreparedStatement = { bind: mockD1Bind };
+
+vi.mock('@db/db', () => ({
+  createDbClient: vi.fn(() => ({
+    query: mockDbQuery,
+    queryOne: mockDbQueryOne,
+    execute: mockDbExecute,
+    batch: mockDbBatch,
+    d1Instance: {
+      prepare: mockD1Prepare,
+    },
+  })),
+}));
+
+const mockD1Instance = {} as D1Database;
+
+const utc = (year: number, month: number, day: number) => Date.UTC(year, month - 1, day) / 1000;
+
+describe('dayCount', () => {
+  it('counts calendar days for actual conventions and 30-day months for 30/360', () => {
+    expect(dayCount(utc(2024, 1, 30), utc(2024, 3, 31), 'actual_365')).toBe(61);
+    expect(dayCount(utc(2024, 1, 30), utc(2024, 3, 31), 'actual_360')).toBe(61);
+    expect(dayCount(utc(2024, 1, 30), utc(2024, 3, 31), '30_360')).toBe(60);
+    expect(dayCount(utc(2024, 1, 15), utc(2024, 1, 31), '30_360')).toBe(16);
+  });
+
+  it('divides by the convention year basis when computing interest', () => {
+    expect(simpleInterestCents(1000000, 600, utc(2024, 4, 1), utc(2024, 5, 1), 'actual_360')).toBe(5000);
+    expect(simpleInterestCents(1000000, 600, utc(2024, 4, 1), utc(2024, 5, 1), 'actual_365')).toBe(4932);
+  });
+});
+
+describe('LoanAccrualService', () => {
+  let accrualService: LoanAccrualService;
+  let prepareSpy: MockInstance<TransactionService['prepareCreateStatements']>;
+  const testUserId = 'user-test-123';
+  const entityId = 'ent-1';
+  const now = Math.floor(Date.now() / 1000);
+
+  const mockDbEntity: DbEntity = {
+    id: entityId,
+    user_id: testUserId,
+    name: 'Main Street LLC',
+    is_active: 1,
+    allows_sub_entities: 0,
+    created_at: now,
+    updated_at: now,
+  };
+
+  const payableLoan: DbLoan = {
+    id: 'loan-1',
+    user_id: testUserId,
+    entity_id: entityId,
+    direction: 'payable',
+    lender_name: 'First Bank',
+    loan_type: 'mortgage',
+    original_principal: 1200000,
+    current_principal: 1105381,
+    interest_rate: 1200,
+    original_interest_rate: 1200,
+    interest_rate_type: 'fixed',
+    day_count_convention: 'actual_365',
+    origination_date: utc(2023, 12, 15),
+    maturity_date: utc(2024, 12, 15),
+    payment_frequency: 'monthly',
+    payment_amount: 106619,
+    status: 'active',
+    next_payment_date: utc(2024, 2, 15),
+    arrears_amount: 0,
+    created_at: now,
+    updated_at: now,
+  };
+
+  const januaryRow: DbLoanSchedule = {
+    id: 'sched-1',
+    loan_id: 'loan-1',
+    user_id: testUserId,
+    payment_number: 1,
+    payment_date: utc(2024, 1, 15),
+    total_payment: 106619,
+    principal_portion: 94619,
+    interest_portion: 12000,
+    remaining_balance: 1105381,
+    status: 'paid',
+    actual_payment_date: utc(2024, 1, 15),
+    actual_payment_amount: 106619,
+    transaction_id: 'txn-paid',
+    created_at: now,
+    updated_at: now,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockD1Prepare.mockReturnValue(mockPreparedStatement);
+    mockD1Bind.mockReturnValue(mockPreparedStatement);
+    mockDbBatch.mockResolvedValue([]);
+    prepareSpy = vi.spyOn(TransactionService.prototype, 'prepareCreateStatements').mockResolvedValue([]);
+    accrualService = createLoanAccrualService(mockD1Instance);
+  });
+
+  afterEach(() => {
+    prepareSpy.mockRestore();
+  });
+
+  const queueRun = (loan: DbLoan, lastRow: DbLoanSchedule | null, rateChange: { interest_rate: number } | null = null) => {
+    mockDbQueryOne.mockResolvedValueOnce(mockDbEntity);
+    mockDbQuery.mockResolvedValueOnce([loan]);
+    mockDbQueryOne.mockResolvedValueOnce(lastRow);
+    mockDbQueryOne.mockResolvedValueOnce(rateChange);
+  };
+
+  it('should accrue payable interest since the last payment and reverse it on the first of the next month', async () => {
+    queueRun(payableLoan, januaryRow);
+    mockDbQueryOne.mockResolvedValueOnce({ id: 'ea-5810' });
+    mockDbQueryOne.mockResolvedValueOnce({ id: 'ea-2400' });
+
+    const result = await accrualService.accrueInterest(entityId, utc(2024, 1, 31) + 3600, testUserId);
+
+    expect(result.period_end).toBe(utc(2024, 1, 31));
+    expect(result.reversal_date).toBe(utc(2024, 2, 1));
+    expect(result.accruals).toHaveLength(1);
+    expect(result.accruals[0]).toEqual(expect.objectContaining({
+      accrual_start: utc(2024, 1, 15),
+      days: 17, // January 15 through 31
+      principal_balance: 1105381,
+      amount: 6178,
+    }));
+
+    const [accrualCall, reversalCall] = prepareSpy.mock.calls;
+    expect(accrualCall[1]).toEqual(expect.objectContaining({ date: utc(2024, 1, 31), status: 'posted' }));
+    expect(accrualCall[1].lines).toEqual([
+      { entity_account_id: 'ea-5810', amount: 6178, is_debit: true, memo: 'Accrued interest' },
+      { entity_account_id: 'ea-2400', amount: 6178, is_debit: false, memo: 'Accrued interest' },
+    ]);
+    expect(reversalCall[1].date).toBe(utc(2024, 2, 1));
+    expect(reversalCall[1].lines.map(line => line.is_debit)).toEqual([false, true]);
+    expect(mockDbBatch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should include unpaid principal and use the rate in effect at period end for receivables', async () => {
+    const receivableLoan: DbLoan = {
+      ...payableLoan,
+      direction: 'receivable',
+      interest_rate_type: 'variable',
+      day_count_convention: '30_360',
+    };
+    queueRun(receivableLoan, { ...januaryRow, status: 'scheduled' }, { interest_rate: 600 });
+    mockDbQueryOne.mockResolvedValueOnce({ id: 'ea-4510' });
+    mockDbQueryOne.mockResolvedValueOnce({ id: 'ea-1410' });
+
+    const result = await accrualService.accrueInterest(entityId, utc(2024, 1, 31), testUserId);
+
+    expect(result.accruals[0]).toEqual(expect.objectContaining({ principal_balance: 1200000, days: 16, amount: 3200 }));
+    expect(prepareSpy.mock.calls[0][1].lines).toEqual([
+      { entity_account_id: 'ea-4510', amount: 3200, is_debit: false, memo: 'Accrued interest' },
+      { entity_account_id: 'ea-1410', amount: 3200, is_debit: true, memo: 'Accrued interest' },
+    ]);
+  });
+
+  it('should accrue at the origination rate before the first rate change takes effect', async () => {
+    // A change to 15% from March is already recorded on the loan row
+    queueRun({ ...payableLoan, interest_rate_type: 'variable', interest_rate: 1500 }, januaryRow, null);
+    mockDbQueryOne.mockResolvedValueOnce({ id: 'ea-5810' });
+    mockDbQueryOne.mockResolvedValueOnce({ id: 'ea-2400' });
+
+    const result = await accrualService.accrueInterest(entityId, utc(2024, 1, 31), testUserId);
+
+    expect(result.accruals[0].amount).toBe(6178);
+  });
+
+  it('should skip loans whose accrual accounts are not linked', async () => {
+    queueRun(payableLoan, januaryRow);
+    mockDbQueryOne.mockResolvedValueOnce({ id: 'ea-5810' });
+    mockDbQueryOne.mockResolvedValueOnce(null);
+
+    const result = await accrualService.accrueInterest(entityId, utc(2024, 1, 31), testUserId);
+
+    expect(result.accruals).toEqual([]);
+    expect(result.skipped).toEqual([{ loan_id: 'loan-1', reason: 'Account 2400 is not linked to this entity.' }]);
+    expect(mockDbBatch).not.toHaveBeenCalled();
+  });
+
+  it('should reject a period end that is not the last day of a month', async () => {
+    mockDbQueryOne.mockResolvedValueOnce(mockDbEntity);
+
+    await expect(accrualService.accrueInterest(entityId, utc(2024, 1, 30), testUserId))
+      .rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR, status: 400 });
+  });
+
+  it('should accrue through the end of the previous month on a scheduled run', () => {
+    expect(previousMonthEnd(utc(2024, 3, 1) + 6 * 3600)).toBe(utc(2024, 2, 29));
+  });
+});
@@ -0,0 +1,519 @@
+// tests/unit/loan.test.ts
+import { describe, it, expect, vi, beforeEach, afterEach, type MockInstance } from 'vitest';
+import { LoanService, createLoanService } from '../../src/lib/services/loan-service';
+import { TransactionService } from '../../src/lib/services/transaction-service';
+import { buildAmortizationSchedule } from '../../src/lib/accounting/amortization';
+import type { LoanInput } from '../../src/types/loan';
+import type { Transaction } from '../../src/types/transaction';
+import type { DbEntity, DbLoan, DbLoanSchedule } from '../../src/db/schema';
+import { ErrorCode } from '../../src/utils/errors';
+import type { D1Database } from '@cloudflare/workers-types';
+
+const mockDbQuery = vi.fn();
+const mockDbQueryOne = vi.fn();
+const mockDbExecute = vi.fn();
+const mockDbBatch = vi.fn();
+const mockD1Prepare = vi.fn();
+const mockD1Bind = vi.fn();
+
+const mockPreparedStatement = { bind: mockD1Bind };
+const mockChangeCheck = { sql: 'change check' };
+
+vi.mock('@db/db', () => ({
+  createDbClient: vi.fn(() => ({
+    query: mockDbQuery,
+    queryOne: mockDbQueryOne,
+    execute: mockDbExecute,
+    batch: mockDbBatch,
+    prepareChangeCheck: () => mockChangeCheck,
+    d1Instance: {
+      prepare: mockD1Prepare,
+    },
+  })),
+}));
+
+const mockD1Instance = {} as D1Database;
+
+const utc = (year: number, month: number, day: number) => Date.UTC(year, month - 1, day) / 1000;
+
+describe('buildAmortizationSchedule', () => {
+  it('computes a level monthly payment that retires the loan on the maturity date', () => {
+    const rows = buildAmortizationSchedule({
+      principal: 1200000,
+      annualRateBasisPoints: 1200,
+      originationDate: utc(2024, 1, 15),
+      maturityDate: utc(2025, 1, 15),
+      frequency: 'monthly',
+    });
+
+    expect(rows).toHaveLength(12);
+    expect(rows[0]).toEqual({
+      payment_number: 1,
+      payment_date: utc(2024, 2, 15),
+      total_payment: 106619,
+      principal_portion: 94619,
+      interest_portion: 12000,
+      remaining_balance: 1105381,
+    });
+    expect(rows[11].payment_date).toBe(utc(2025, 1, 15));
+    expect(rows[11].remaining_balance).toBe(0);
+    expect(rows.reduce((sum, row) => sum + row.principal_portion, 0)).toBe(1200000);
+  });
+
+  it('leaves a balloon on the final row when the payment does not fully amortize', () => {
+    const rows = buildAmortizationSchedule({
+      principal: 1200000,
+      annualRateBasisPoints: 1200,
+      originationDate: utc(2024, 1, 15),
+      maturityDate: utc(2025, 1, 15),
+      frequency: 'quarterly',
+      paymentAmount: 100000,
+    });
+
+    expect(rows.map(row => row.payment_date)).toEqual([utc(2024, 4, 15), utc(2024, 7, 15), utc(2024, 10, 15), utc(2025, 1, 15)]);
+    expect(rows[0]).toEqual(expect.objectContaining({ interest_portion: 36000, principal_portion: 64000 }));
+    expect(rows[3].principal_portion).toBe(rows[2].remaining_balance);
+    expect(rows[3].remaining_balance).toBe(0);
+  });
+
+  it('schedules a single payment of principal plus simple interest for lump-sum loans', () => {
+    const rows = buildAmortizationSchedule({
+      principal: 1000000,
+      annualRateBasisPoints: 800,
+      originationDate: utc(2024, 1, 1),
+      maturityDate: utc(2025, 1, 1),
+      frequency: 'lump_sum',
+    });
+
+    // 366 days at 8% on an actual/365 basis
+    expect(rows).toEqual([{
+      payment_number: 1,
+      payment_date: utc(2025, 1, 1),
+      total_payment: 1080219,
+      principal_portion: 1000000,
+      interest_portion: 80219,
+      remaining_balance: 0,
+    }]);
+  });
+
+  it('uses the custom interval and an explicit first payment date', () => {
+    const rows = buildAmortizationSchedule({
+      principal: 500000,
+      annualRateBasisPoints: 0,
+      originationDate: utc(2024, 1, 1),
+      maturityDate: utc(2025, 6, 30),
+      frequency: 'custom',
+      intervalMonths: 6,
+      firstPaymentDate: utc(2024, 6, 30),
+    });
+
+    expect(rows.map(row => [row.payment_date, row.total_payment])).toEqual([
+      [utc(2024, 6, 30), 166667],
+      [utc(2024, 12, 30), 166667],
+      [utc(2025, 6, 30), 166666],
+    ]);
+  });
+});
+
+describe('LoanService', () => {
+  let loanService: LoanService;
+  const testUserId = 'user-test-123';
+  const entityId = 'ent-1';
+  const now = Math.floor(Date.now() / 1000);
+
+  const mockDbEntity: DbEntity = {
+    id: entityId,
+    user_id: testUserId,
+    name: 'Main Street LLC',
+    is_active: 1,
+    allows_sub_entities: 0,
+    created_at: now,
+    updated_at: now,
+  };
+
+  const loanInput: LoanInput = {
+    entity_id: entityId,
+    direction: 'receivable',
+    borrower_name: 'J. Buyer',
+    loan_type: 'seller_financing',
+    original_principal: 1200000,
+    interest_rate: 0.12,
+    interest_rate_type: 'fixed',
+    origination_date: utc(2024, 1, 15),
+    maturity_date: utc(2025, 1, 15),
+    payment_frequency: 'monthly',
+  };
+
+  const mockDbLoan: DbLoan = {
+    id: 'loan-1',
+    user_id: testUserId,
+    entity_id: entityId,
+    direction: 'receivable',
+    loan_type: 'seller_financing',
+    original_principal: 1200000,
+    current_principal: 1200000,
+    interest_rate: 1200,
+    original_interest_rate: 1200,
+    interest_rate_type: 'fixed',
+    day_count_convention: 'actual_365',
+    origination_date: utc(2024, 1, 15),
+    maturity_date: utc(2025, 1, 15),
+    payment_frequency: 'monthly',
+    payment_amount: 106619,
+    status: 'active',
+    next_payment_date: utc(2024, 2, 15),
+    arrears_amount: 0,
+    created_at: now,
+    updated_at: now,
+  };
+
+  const mockScheduleRow = (overrides: Partial<DbLoanSchedule> = {}): DbLoanSchedule => ({
+    id: 'sched-1',
+    loan_id: 'loan-1',
+    user_id: testUserId,
+    payment_number: 1,
+    payment_date: utc(2024, 2, 15),
+    total_payment: 106619,
+    principal_portion: 94619,
+    interest_portion: 12000,
+    remaining_balance: 1105381,
+    status: 'scheduled',
+    actual_payment_date: null,
+    actual_payment_amount: null,
+    transaction_id: null,
+    created_at: now,
+    updated_at: now,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockD1Prepare.mockReturnValue(mockPreparedStatement);
+    mockD1Bind.mockReturnValue(mockPreparedStatement);
+    loanService = createLoanService(mockD1Instance);
+  });
+
+  describe('createLoan', () => {
+    it('should write the loan and every schedule row in a single batch', async () => {
+      mockDbQueryOne.mockResolvedValueOnce(mockDbEntity);
+      mockDbBatch.mockResolvedValue([]);
+      mockDbQueryOne.mockResolvedValueOnce(mockDbLoan);
+      mockDbQuery.mockResolvedValueOnce([mockScheduleRow()]);
+
+      const result = await loanService.createLoan(loanInput, testUserId);
+
+      expect(mockDbBatch).toHaveBeenCalledTimes(1);
+      expect(mockDbBatch.mock.calls[0][0]).toHaveLength(13); // loan + 12 schedule rows
+      const loanBind = mockD1Bind.mock.calls[0];
+      expect(loanBind.slice(10, 12)).toEqual([1200, 1200]); // current and original rate, in basis points
+      expect(loanBind[18]).toBe(106619); // computed level payment
+      expect(loanBind[22]).toBe(utc(2024, 2, 15)); // next payment date
+      expect(result.interest_rate).toBe(0.12);
+      expect(result.schedule).toHaveLength(1);
+    });
+
+    it('should reject a maturity date on or before origination', async () => {
+      mockDbQueryOne.mockResolvedValueOnce(mockDbEntity);
+      await expect(loanService.createLoan({ ...loanInput, maturity_date: loanInput.origination_date }, testUserId))
+        .rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR, status: 400 });
+      expect(mockDbBatch).not.toHaveBeenCalled();
+    });
+
+    it('should reject payments that do not cover periodic interest', async () => {
+      mockDbQueryOne.mockResolvedValueOnce(mockDbEntity);
+      await expect(loanService.createLoan({ ...loanInput, payment_amount: 5000 }, testUserId))
+        .rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR, status: 400 });
+    });
+
+    it('should require an interval for custom frequencies', async () => {
+      mockDbQueryOne.mockResolvedValueOnce(mockDbEntity);
+      await expect(loanService.createLoan({ ...loanInput, payment_frequency: 'custom' }, testUserId))
+        .rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR, status: 400 });
+    });
+  });
+
+  describe('updateLoan', () => {
+    it('should reject term changes once a payment has been recorded', async () => {
+      mockDbQueryOne.mockResolvedValueOnce(mockDbLoan);
+      mockDbQuery.mockResolvedValueOnce([mockScheduleRow({ status: 'paid', actual_payment_date: utc(2024, 2, 15), transaction_id: 'txn-1' })]);
+
+      await expect(loanService.updateLoan('loan-1', { interest_rate: 0.1 }, testUserId))
+        .rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR, status: 400 });
+      expect(mockDbBatch).not.toHaveBeenCalled();
+    });
+
+    it('should regenerate the schedule when terms change before any payment', async () => {
+      mockDbQueryOne.mockResolvedValueOnce(mockDbLoan);
+      mockDbQuery.mockResolvedValueOnce([mockScheduleRow()]);
+      mockDbBatch.mockResolvedValue([]);
+      mockDbQueryOne.mockResolvedValueOnce(mockDbLoan);
+      mockDbQuery.mockResolvedValueOnce([]);
+
+      await loanService.updateLoan('loan-1', { payment_frequency: 'quarterly' }, testUserId);
+
+      expect(mockD1Prepare).toHaveBeenCalledWith(expect.stringContaining('DELETE FROM loan_schedules'));
+      expect(mockDbBatch.mock.calls[0][0]).toHaveLength(6); // update + delete + 4 quarterly rows
+    });
+  });
+  describe('recordPayment', () => {
+    const payableLoan: DbLoan = { ...mockDbLoan, direction: 'payable', lender_name: 'First Bank', borrower_name: null };
+    const secondRow = mockScheduleRow({
+      id: 'sched-2', payment_number: 2, payment_date: utc(2024, 3, 15),
+      principal_portion: 95565, interest_portion: 11054, remaining_balance: 1009816,
+    });
+    const paymentInput = {
+      loan_schedule_id: 'sched-1',
+      actual_payment_date: utc(2024, 2, 15),
+      actual_payment_amount: 106619,
+      cash_entity_account_id: 'ea-cash',
+    };
+    let prepareSpy: MockInstance<TransactionService['prepareCreateStatements']>;
+
+    beforeEach(() => {
+      prepareSpy = vi.spyOn(TransactionService.prototype, 'prepareCreateStatements').mockResolvedValue([]);
+      mockDbBatch.mockResolvedValue([]);
+    });
+
+    afterEach(() => {
+      prepareSpy.mockRestore();
+    });
+
+    const queueLoan = (loan: DbLoan, rows: DbLoanSchedule[]) => {
+      mockDbQueryOne.mockResolvedValueOnce(loan);
+      mockDbQuery.mockResolvedValueOnce(rows);
+    };
+    const loanUpdateBind = () => mockD1Bind.mock.calls[mockD1Bind.mock.calls.length - 1];
+
+    it('should split a scheduled payment and post the payable journal entry', async () => {
+      queueLoan(payableLoan, [mockScheduleRow(), secondRow]);
+      mockDbQueryOne.mockResolvedValueOnce({ id: 'ea-2510' });
+      mockDbQueryOne.mockResolvedValueOnce({ id: 'ea-5810' });
+      queueLoan(payableLoan, []);
+
+      const result = await loanService.recordPayment('loan-1', paymentInput, testUserId);
+
+      expect(mockDbQueryOne).toHaveBeenCalledWith(expect.stringContaining('coa.code = ?'), [testUserId, entityId, '2510']);
+      expect(prepareSpy.mock.calls[0][1].lines).toEqual([
+        { entity_account_id: 'ea-2510', amount: 94619, is_debit: true, memo: 'Principal' },
+        { entity_account_id: 'ea-5810', amount: 12000, is_debit: true, memo: 'Interest' },
+        { entity_account_id: 'ea-cash', amount: 106619, is_debit: false },
+      ]);
+      expect(result).toEqual(expect.objectContaining({ principal_paid: 94619, interest_paid: 12000, arrears_amount: 0 }));
+      expect(loanUpdateBind().slice(0, 4)).toEqual([1105381, 0, utc(2024, 3, 15), 'active']);
+    });
+
+    it('should mirror the entry for a receivable', async () => {
+      queueLoan(mockDbLoan, [mockScheduleRow(), secondRow]);
+      queueLoan(mockDbLoan, []);
+
+      await loanService.recordPayment('loan-1', {
+        ...paymentInput,
+        principal_entity_account_id: 'ea-1400',
+        interest_entity_account_id: 'ea-4510',
+      }, testUserId);
+
+      expect(prepareSpy.mock.calls[0][1].lines).toEqual([
+        { entity_account_id: 'ea-1400', amount: 94619, is_debit: false, memo: 'Principal' },
+        { entity_account_id: 'ea-4510', amount: 12000, is_debit: false, memo: 'Interest' },
+        { entity_account_id: 'ea-cash', amount: 106619, is_debit: true },
+      ]);
+    });
+
+    it('should roll a short payment into the next installment as arrears', async () => {
+      queueLoan(payableLoan, [mockScheduleRow(), secondRow]);
+      mockDbQueryOne.mockResolvedValueOnce({ id: 'ea-2510' });
+      mockDbQueryOne.mockResolvedValueOnce({ id: 'ea-5810' });
+      queueLoan(payableLoan, []);
+
+      const result = await loanService.recordPayment('loan-1', { ...paymentInput, actual_payment_amount: 50000 }, testUserId);
+
+      expect(result).toEqual(expect.objectContaining({ principal_paid: 38000, interest_paid: 12000, arrears_amount: 56619 }));
+      expect(mockD1Prepare).toHaveBeenCalledWith(expect.stringContaining('principal_portion = principal_portion + ?'));
+      expect(mockD1Bind).toHaveBeenCalledWith(56619, 0, 56619, expect.any(Number), 'sched-2');
+      expect(loanUpdateBind().slice(0, 4)).toEqual([1162000, 56619, utc(2024, 3, 15), 'active']);
+    });
+
+    it('should re-amortize the remaining schedule after a prepayment', async () => {
+      queueLoan(payableLoan, [mockScheduleRow(), secondRow]);
+      mockDbQueryOne.mockResolvedValueOnce({ id: 'ea-2510' });
+      mockDbQueryOne.mockResolvedValueOnce({ id: 'ea-5810' });
+      mockDbQuery.mockResolvedValueOnce([]); // rate changes
+      queueLoan(payableLoan, []);
+
+      await loanService.recordPayment('loan-1', { ...paymentInput, actual_payment_amount: 206619 }, testUserId);
+
+      expect(mockD1Prepare).toHaveBeenCalledWith(expect.stringContaining('DELETE FROM loan_schedules WHERE loan_id = ? AND payment_number > ?'));
+      // The last remaining date retires the whole balance of 1005381.
+      expect(mockD1Bind).toHaveBeenCalledWith(
+        expect.any(String), 'loan-1', testUserId, 2, utc(2024, 3, 15), 1015435, 1005381, 10054, 0,
+        expect.any(Number), expect.any(Number)
+      );
+    });
+
+    describe('with an existing transaction', () => {
+      const linkedTransaction = (overrides: Partial<Transaction> = {}): Transaction => ({
+        id: 'txn-9', user_id: testUserId, entity_id: entityId, date: utc(2024, 2, 15), description: 'Loan payment',
+        status: 'posted', is_reconciled: false, created_at: now, updated_at: now,
+        lines: [
+          { id: 'tl-1', transaction_id: 'txn-9', entity_account_id: 'ea-2510', amount: 106619, is_debit: true, created_at: now },
+          { id: 'tl-2', transaction_id: 'txn-9', entity_account_id: 'ea-cash', amount: 106619, is_debit: false, created_at: now },
+        ],
+        ...overrides,
+      });
+      let getTransactionSpy: MockInstance<TransactionService['getTransactionById']>;
+
+      beforeEach(() => {
+        getTransactionSpy = vi.spyOn(TransactionService.prototype, 'getTransactionById');
+      });
+
+      afterEach(() => {
+        getTransactionSpy.mockRestore();
+      });
+
+      it('should link a posted transaction that pays the installment from the cash account', async () => {
+        queueLoan(payableLoan, [mockScheduleRow(), secondRow]);
+        getTransactionSpy.mockResolvedValueOnce(linkedTransaction());
+        mockDbQueryOne.mockResolvedValueOnce(null);
+        queueLoan(payableLoan, []);
+
+        const result = await loanService.recordPayment('loan-1', { ...paymentInput, transaction_id: 'txn-9' }, testUserId);
+
+        expect(mockDbQueryOne).toHaveBeenCalledWith(expect.stringContaining('WHERE transaction_id = ?'), ['txn-9']);
+        expect(prepareSpy).not.toHaveBeenCalled();
+        expect(result.transaction_id).toBe('txn-9');
+      });
+
+      it('should reject a pending transaction', async () => {
+        queueLoan(payableLoan, [mockScheduleRow(), secondRow]);
+        getTransactionSpy.mockResolvedValueOnce(linkedTransaction({ status: 'pending' }));
+
+        await expect(loanService.recordPayment('loan-1', { ...paymentInput, transaction_id: 'txn-9' }, testUserId))
+          .rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR, status: 400 });
+        expect(mockDbBatch).not.toHaveBeenCalled();
+      });
+
+      it('should reject a transaction that already pays another installment', async () => {
+        queueLoan(payableLoan, [mockScheduleRow(), secondRow]);
+        getTransactionSpy.mockResolvedValueOnce(linkedTransaction());
+        mockDbQueryOne.mockResolvedValueOnce({ id: 'sched-0' });
+
+        await expect(loanService.recordPayment('loan-1', { ...paymentInput, transaction_id: 'txn-9' }, testUserId))
+          .rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR, status: 409 });
+        expect(mockDbBatch).not.toHaveBeenCalled();
+      });
+
+      it('should reject a transaction that does not move the cash account by the payment amount', async () => {
+        queueLoan(payableLoan, [mockScheduleRow(), secondRow]);
+        getTransactionSpy.mockResolvedValueOnce(linkedTransaction());
+        mockDbQueryOne.mockResolvedValueOnce(null);
+
+        await expect(loanService.recordPayment('loan-1', { ...paymentInput, transaction_id: 'txn-9', actual_payment_amount: 50000 }, testUserId))
+          .rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR, details: { cash_effect: -106619, expected: -50000 } });
+        expect(mockDbBatch).not.toHaveBeenCalled();
+      });
+    });
+
+    it('should roll back the journal entry when the installment was paid in the meantime', async () => {
+      queueLoan(payableLoan, [mockScheduleRow(), secondRow]);
+      mockDbQueryOne.mockResolvedValueOnce({ id: 'ea-2510' });
+      mockDbQueryOne.mockResolvedValueOnce({ id: 'ea-5810' });
+      mockDbBatch.mockRejectedValueOnce(new Error('D1_ERROR: malformed JSON: SQLITE_ERROR'));
+      mockDbQueryOne.mockResolvedValueOnce({ status: 'paid' });
+
+      await expect(loanService.recordPayment('loan-1', paymentInput, testUserId))
+        .rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR, status: 409 });
+      expect(mockD1Prepare).toHaveBeenCalledWith(expect.stringContaining('WHERE id = ? AND user_id = ? AND status != \'paid\''));
+      expect(mockDbBatch.mock.calls[0][0]).toContain(mockChangeCheck);
+    });
+
+    it('should keep the rate in force for installments before a future-dated rate change', async () => {
+      // 15% from April 1 is already recorded, so the loan row carries it and its payment
+      const variableLoan: DbLoan = { ...payableLoan, interest_rate_type: 'variable', interest_rate: 1500, payment_amount: 108000 };
+      const aprilRow = mockScheduleRow({
+        id: 'sched-3', payment_number: 3, payment_date: utc(2024, 4, 15), total_payment: 108000, remaining_balance: 914000,
+      });
+      queueLoan(variableLoan, [mockScheduleRow(), secondRow, aprilRow]);
+      mockDbQueryOne.mockResolvedValueOnce({ id: 'ea-2510' });
+      mockDbQueryOne.mockResolvedValueOnce({ id: 'ea-5810' });
+      mockDbQuery.mockResolvedValueOnce([{ effective_date: utc(2024, 4, 1), interest_rate: 1500 }]);
+      queueLoan(variableLoan, []);
+
+      await loanService.recordPayment('loan-1', { ...paymentInput, actual_payment_amount: 206619 }, testUserId);
+
+      // March still accrues 12% on 1005381 and pays the 106619 scheduled for it
+      expect(mockD1Bind).toHaveBeenCalledWith(
+        expect.any(String), 'loan-1', testUserId, 2, utc(2024, 3, 15), 106619, 96565, 10054, 908816,
+        expect.any(Number), expect.any(Number)
+      );
+      // April is the first installment at 15%
+      expect(mockD1Bind).toHaveBeenCalledWith(
+        expect.any(String), 'loan-1', testUserId, 3, utc(2024, 4, 15), 920176, 908816, 11360, 0,
+        expect.any(Number), expect.any(Number)
+      );
+    });
+
+    it('should reject payments applied out of schedule order', async () => {
+      queueLoan(payableLoan, [mockScheduleRow(), secondRow]);
+
+      await expect(loanService.recordPayment('loan-1', { ...paymentInput, loan_schedule_id: 'sched-2' }, testUserId))
+        .rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR, status: 400 });
+      expect(mockDbBatch).not.toHaveBeenCalled();
+    });
+  });
+  describe('addRateChange', () => {
+    const variableLoan: DbLoan = { ...mockDbLoan, interest_rate_type: 'variable', current_principal: 1105381 };
+    const schedule = [
+      mockScheduleRow({ status: 'paid', actual_payment_date: utc(2024, 2, 15), transaction_id: 'txn-1' }),
+      mockScheduleRow({ id: 'sched-2', payment_number: 2, payment_date: utc(2024, 3, 15), remaining_balance: 1009816 }),
+      mockScheduleRow({ id: 'sched-3', payment_number: 3, payment_date: utc(2024, 4, 15), remaining_balance: 0 }),
+    ];
+
+    const queueLoanWithHistory = (loan: DbLoan) => {
+      mockDbQueryOne.mockResolvedValueOnce(loan);
+      mockDbQuery.mockResolvedValueOnce(schedule);
+      mockDbQueryOne.mockResolvedValueOnce(loan); // rate history ownership check
+      mockDbQuery.mockResolvedValueOnce([]);
+    };
+
+    it('should re-amortize only unpaid installments due after the effective date', async () => {
+      queueLoanWithHistory(variableLoan);
+      mockDbBatch.mockResolvedValue([]);
+      mockDbQueryOne.mockResolvedValueOnce(variableLoan);
+      mockDbQuery.mockResolvedValueOnce(schedule);
+
+      await loanService.addRateChange('loan-1', {
+        effective_date: utc(2024, 4, 1),
+        index_name: 'SOFR',
+        index_rate: 0.1225,
+        margin: 0.0275,
+      }, testUserId);
+
+      expect(mockD1Bind).toHaveBeenCalledWith(
+        expect.any(String), 'loan-1', testUserId, utc(2024, 4, 1), 'SOFR', 1225, 275, 1500, null, expect.any(Number)
+      );
+      expect(mockD1Bind).toHaveBeenCalledWith('loan-1', 3); // delete from installment 3 onwards
+      expect(mockD1Bind).toHaveBeenCalledWith(
+        expect.any(String), 'loan-1', testUserId, 3, utc(2024, 4, 15), 1022439, 1009816, 12623, 0,
+        expect.any(Number), expect.any(Number)
+      );
+      expect(mockD1Bind).toHaveBeenCalledWith(1500, 1022439, expect.any(Number), 'loan-1', testUserId);
+    });
+
+    it('should reject rate changes on fixed-rate loans', async () => {
+      mockDbQueryOne.mockResolvedValueOnce(mockDbLoan);
+      mockDbQuery.mockResolvedValueOnce(schedule);
+
+      await expect(loanService.addRateChange('loan-1', { effective_date: utc(2024, 4, 1), interest_rate: 0.1 }, testUserId))
+        .rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR, status: 400 });
+    });
+
+    it('should reject rate changes effective before the last recorded payment', async () => {
+      mockDbQueryOne.mockResolvedValueOnce(variableLoan);
+      mockDbQuery.mockResolvedValueOnce(schedule);
+
+      await expect(loanService.addRateChange('loan-1', { effective_date: utc(2024, 2, 1), interest_rate: 0.1 }, testUserId))
+        .rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR, status: 400 });
+      expect(mockDbBatch).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,147 @@
+// tests/unit/ownership.test.ts
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { OwnershipService, createOwnershipService } from '../../src/lib/services/ownership-service';
+import { findOverallocation, groupOwnershipShares, stakesAsOf } from '../../src/lib/accounting/ownership';
+import type { DbEntity, DbEntityOwnership } from '../../src/db/schema';
+import { ErrorCode } from '../../src/utils/errors';
+import type { D1Database } from '@cloudflare/workers-types';
+
+const mockDbQuery = vi.fn();
+const mockDbQueryOne = vi.fn();
+const mockDbExecute = vi.fn();
+
+vi.mock('@db/db', () => ({
+  createDbClient: vi.fn(() => ({
+    query: mockDbQuery,
+    queryOne: mockDbQueryOne,
+    execute: mockDbExecute,
+    batch: vi.fn(),
+  })),
+}));
+
+const mockD1Instance = {} as D1Database;
+
+const utc = (year: number, month: number, day: number) => Date.UTC(year, month - 1, day) / 1000;
+
+const stake = (entityId: string, owner: string, bps: number, date: number, isEntity = true) => ({
+  entity_id: entityId,
+  owner_entity_id: isEntity ? owner : null,
+  owner_name: isEntity ? null : owner,
+  ownership_bps: bps,
+  effective_date: date,
+});
+
+describe('ownership', () => {
+  it('uses each owner\'s latest record and drops ended stakes', () => {
+    const records = [
+      stake('jv', 'holdco', 5000, utc(2024, 1, 1)),
+      stake('jv', 'Dana Smith', 5000, utc(2024, 1, 1), false),
+      stake('jv', 'holdco', 7500, utc(2025, 1, 1)),
+      stake('jv', 'Dana Smith', 2500, utc(2025, 1, 1), false),
+      stake('jv', 'Dana Smith', 0, utc(2025, 6, 1), false),
+    ];
+
+    expect(stakesAsOf(records, utc(2024, 12, 31)).map(s => s.ownership_bps)).toEqual([5000, 5000]);
+    expect(stakesAsOf(records, utc(2025, 3, 1)).map(s => s.ownership_bps)).toEqual([7500, 2500]);
+    expect(stakesAsOf(records, utc(2025, 6, 1))).toEqual([records[2]]);
+  });
+
+  it('finds the first date stakes add up to more than 100%', () => {
+    const records = [
+      stake('jv', 'holdco', 5000, utc(2024, 1, 1)),
+      stake('jv', 'Dana Smith', 5000, utc(2024, 1, 1), false),
+    ];
+
+    expect(findOverallocation(records)).toBeNull();
+    expect(findOverallocation([...records, stake('jv', 'holdco', 6000, utc(2025, 1, 1))]))
+      .toEqual({ entity_id: 'jv', date: utc(2025, 1, 1), total_bps: 11000 });
+  });
+
+  it('multiplies the group\'s stakes through each tier and defaults to the parent\'s share', () => {
+    const entities = [
+      { entity_id: 'holdco', name: 'HoldCo', parent_id: null, depth: 0 },
+      { entity_id: 'jv', name: 'JV LLC', parent_id: 'holdco', depth: 1 },
+      { entity_id: 'oak', name: 'Oak Ave LLC', parent_id: 'jv', depth: 2 },
+      { entity_id: 'elm', name: 'Elm LLC', parent_id: 'jv', depth: 2 },
+    ];
+    const records = [
+      stake('jv', 'holdco', 5000, utc(2024, 1, 1)),
+      stake('jv', 'Partner LP', 5000, utc(2024, 1, 1), false),
+      stake('oak', 'jv', 8000, utc(2024, 1, 1)),
+      stake('oak', 'Dana Smith', 2000, utc(2024, 1, 1), false),
+      // A stake in the root is ignored: the group's view starts at the root
+      stake('holdco', 'Dana Smith', 10000, utc(2024, 1, 1), false),
+    ];
+
+    const shares = groupOwnershipShares(entities, records, utc(2025, 1, 1));
+    expect(Object.fromEntries(shares)).toEqual({ holdco: 1, jv: 0.5, oak: 0.4, elm: 0.5 });
+  });
+});
+
+describe('OwnershipService', () => {
+  let ownershipService: OwnershipService;
+  const testUserId = 'user-test-123';
+  const now = Math.floor(Date.now() / 1000);
+
+  const dbEntity = (id: string, name: string): DbEntity => ({
+    id, user_id: testUserId, name, is_active: 1, allows_sub_entities: 0, created_at: now, updated_at: now,
+  } as DbEntity);
+  const dbRecord = (id: string, ownerEntityId: string | null, ownerName: string | null, bps: number, date: number): DbEntityOwnership => ({
+    id, user_id: testUserId, entity_id: 'jv', owner_entity_id: ownerEntityId, owner_name: ownerName,
+    ownership_bps: bps, effective_date: date, note: null, created_at: now, updated_at: now,
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    ownershipService = createOwnershipService(mockD1Instance);
+  });
+
+  it('should record a stake that fits alongside the existing ones', async () => {
+    mockDbQueryOne
+      .mockResolvedValueOnce(dbEntity('jv', 'JV LLC'))
+      .mockResolvedValueOnce(dbEntity('holdco', 'HoldCo'))
+      .mockResolvedValueOnce(dbRecord('own-2', 'holdco', null, 5000, utc(2024, 1, 1)));
+    mockDbQuery.mockResolvedValueOnce([dbRecord('own-1', null, 'Partner LP', 5000, utc(2024, 1, 1))]);
+    mockDbExecute.mockResolvedValueOnce({ success: true });
+
+    const record = await ownershipService.recordOwnership('jv', {
+      owner_entity_id: 'holdco',
+      ownership_bps: 5000,
+      effective_date: utc(2024, 1, 1),
+    }, testUserId);
+
+    expect(record.ownership_bps).toBe(5000);
+    expect(mockDbExecute.mock.calls[0][1].slice(2, 7)).toEqual(['jv', 'holdco', null, 5000, utc(2024, 1, 1)]);
+  });
+
+  it('should reject stakes that add up to more than 100%', async () => {
+    mockDbQueryOne.mockResolvedValueOnce(dbEntity('jv', 'JV LLC'));
+    mockDbQuery.mockResolvedValueOnce([dbRecord('own-1', null, 'Partner LP', 5000, utc(2024, 1, 1))]);
+
+    await expect(ownershipService.recordOwnership('jv', {
+      owner_name: ' Dana Smith ',
+      ownership_bps: 6000,
+      effective_date: utc(2025, 1, 1),
+    }, testUserId)).rejects.toMatchObject({
+      code: ErrorCode.VALIDATION_ERROR,
+      message: 'Stakes in JV LLC would add up to 110.00% on 2025-01-01.',
+    });
+    expect(mockDbExecute).not.toHaveBeenCalled();
+  });
+
+  it('should summarize owners and holdings as of a date', async () => {
+    mockDbQueryOne.mockResolvedValueOnce(dbEntity('jv', 'JV LLC'));
+    mockDbQuery.mockResolvedValueOnce([
+      { ...dbRecord('own-1', null, 'Partner LP', 4000, utc(2024, 1, 1)), entity_name: 'JV LLC', owner_entity_name: null },
+      { ...dbRecord('own-2', 'holdco', null, 6000, utc(2024, 1, 1)), entity_name: 'JV LLC', owner_entity_name: 'HoldCo' },
+      { ...dbRecord('own-3', 'jv', null, 10000, utc(2024, 2, 1)), entity_id: 'oak', entity_name: 'Oak Ave LLC', owner_entity_name: 'JV LLC' },
+    ]);
+
+    const summary = await ownershipService.getOwnershipSummary('jv', utc(2025, 1, 1), testUserId);
+
+    expect(summary.owners.map(s => [s.owner_name, s.ownership_bps])).toEqual([['HoldCo', 6000], ['Partner LP', 4000]]);
+    expect(summary.unassigned_bps).toBe(0);
+    expect(summary.holdings.map(s => [s.entity_name, s.ownership_bps])).toEqual([['Oak Ave LLC', 10000]]);
+    expect(summary.history).toHaveLength(2);
+  });
+});
@@ -0,0 +1,221 @@
+// tests/unit/reconciliation.test.ts
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  ReconciliationService,
+  createReconciliationService,
+  summarizeReconciliation,
+} from '../../src/lib/services/reconciliation-service';
+import type { DbBankReconciliation, DbEntity } from '../../src/db/schema';
+import { ErrorCode } from '../../src/utils/errors';
+import type { D1Database } from '@cloudflare/workers-types';
+
+const mockDbQuery = vi.fn();
+const mockDbQueryOne = vi.fn();
+const mockDbExecute = vi.fn();
+const mockDbBatch = vi.fn();
+const mockD1Prepare = vi.fn();
+const mockD1Bind = vi.fn();
+
+const mockPreparedStatement = { bind: mockD1Bind };
+
+vi.mock('@db/db', () => ({
+  createDbClient: vi.fn(() => ({
+    query: mockDbQuery,
+    queryOne: mockDbQueryOne,
+    execute: mockDbExecute,
+    batch: mockDbBatch,
+    d1Instance: {
+      prepare: mockD1Prepare,
+    },
+  })),
+}));
+
+const mockD1Instance = {} as D1Database;
+
+const utc = (year: number, month: number, day: number) => Date.UTC(year, month - 1, day) / 1000;
+
+describe('ReconciliationService', () => {
+  let reconciliationService: ReconciliationService;
+  const testUserId = 'user-test-123';
+  const entityId = 'ent-1';
+  const now = Math.floor(Date.now() / 1000);
+
+  const mockDbEntity: DbEntity = {
+    id: entityId,
+    user_id: testUserId,
+    name: 'Main Street LLC',
+    is_active: 1,
+    allows_sub_entities: 0,
+    created_at: now,
+    updated_at: now,
+  };
+
+  const cashLink = {
+    id: 'ea-cash',
+    user_id: testUserId,
+    entity_id: entityId,
+    account_id: 'acc-1010',
+    custom_name: null,
+    is_active: 1,
+    recovery_type: null,
+    recovery_percentage: null,
+    created_at: now,
+    updated_at: now,
+    account_code: '1010',
+    account_name: 'Operating Cash',
+    account_type: 'asset',
+    account_subtype: null,
+    account_is_recoverable: 0,
+  };
+
+  const dbReconciliation = (overrides: Partial<DbBankReconciliation> = {}): DbBankReconciliation => ({
+    id: 'rec-1',
+    user_id: testUserId,
+    entity_id: entityId,
+    cash_entity_account_id: 'ea-cash',
+    statement_end_date: utc(2024, 3, 31),
+    statement_ending_balance: 1_050_000,
+    beginning_balance: 1_000_000,
+    status: 'in_progress',
+    completed_at: null,
+    created_at: now,
+    updated_at: now,
+    ...overrides,
+  });
+
+  // Deposit of $1,500, check of $800 and an uncashed check of $200.
+  const candidateRows = (cleared: string[]) => [
+    { transaction_id: 'txn-deposit', date: utc(2024, 3, 1), description: 'Rent', reference: null, amount: 150000, is_cleared: cleared.includes('txn-deposit') ? 1 : 0 },
+    { transaction_id: 'txn-check', date: utc(2024, 3, 10), description: 'Plumber', reference: '1042', amount: -100000, is_cleared: cleared.includes('txn-check') ? 1 : 0 },
+    { transaction_id: 'txn-outstanding', date: utc(2024, 3, 29), description: 'Landscaping', reference: '1043', amount: -20000, is_cleared: cleared.includes('txn-outstanding') ? 1 : 0 },
+  ];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockD1Prepare.mockReturnValue(mockPreparedStatement);
+    mockD1Bind.mockReturnValue(mockPreparedStatement);
+    mockDbBatch.mockResolvedValue([]);
+    reconciliationService = createReconciliationService(mockD1Instance);
+  });
+
+  describe('summarizeReconciliation', () => {
+    it('should compute the cleared balance and the difference from the statement', () => {
+      const summary = summarizeReconciliation(
+        { beginning_balance: 1_000_000, statement_ending_balance: 1_050_000 },
+        [
+          { transaction_id: 'a', date: 0, description: '', reference: null, amount: 150000, is_cleared: true },
+          { transaction_id: 'b', date: 0, description: '', reference: null, amount: -80000, is_cleared: true },
+          { transaction_id: 'c', date: 0, description: '', reference: null, amount: -20000, is_cleared: false },
+        ]
+      );
+
+      expect(summary).toEqual({
+        beginning_balance: 1_000_000,
+        cleared_deposits: 150000,
+        cleared_withdrawals: 80000,
+        cleared_balance: 1_070_000,
+        statement_ending_balance: 1_050_000,
+        difference: -20000,
+      });
+    });
+  });
+
+  describe('startReconciliation', () => {
+    const input = {
+      entity_id: entityId,
+      cash_entity_account_id: 'ea-cash',
+      statement_end_date: utc(2024, 3, 31),
+      statement_ending_balance: 1_050_000,
+    };
+
+    it('should carry the beginning balance over from the last completed reconciliation', async () => {
+      mockDbQueryOne.mockResolvedValueOnce(mockDbEntity);
+      mockDbQueryOne.mockResolvedValueOnce(cashLink);
+      mockDbQueryOne.mockResolvedValueOnce(null);
+      mockDbQueryOne.mockResolvedValueOnce(dbReconciliation({ id: 'rec-0', status: 'completed', statement_end_date: utc(2024, 2, 29), statement_ending_balance: 1_000_000 }));
+      mockDbExecute.mockResolvedValueOnce({ success: true, meta: { changes: 1 } });
+      mockDbQueryOne.mockResolvedValueOnce(dbReconciliation());
+      mockDbQuery.mockResolvedValueOnce(candidateRows([]));
+
+      const result = await reconciliationService.startReconciliation(input, testUserId);
+
+      expect(mockDbExecute.mock.calls[0][1][6]).toBe(1_000_000);
+      expect(result.transactions).toHaveLength(3);
+      expect(result.summary.difference).toBe(50000);
+    });
+
+    it('should refuse a second open session for the same account', async () => {
+      mockDbQueryOne.mockResolvedValueOnce(mockDbEntity);
+      mockDbQueryOne.mockResolvedValueOnce(cashLink);
+      mockDbQueryOne.mockResolvedValueOnce({ id: 'rec-open' });
+      mockDbQueryOne.mockResolvedValueOnce(null);
+
+      await expect(reconciliationService.startReconciliation(input, testUserId))
+        .rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR, status: 409 });
+      expect(mockDbExecute).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('setCleared', () => {
+    it('should reject transactions outside the session', async () => {
+      mockDbQueryOne.mockResolvedValueOnce(dbReconciliation());
+      mockDbQuery.mockResolvedValueOnce(candidateRows([]));
+
+      await expect(reconciliationService.setCleared('rec-1', { transaction_ids: ['txn-april'], cleared: true }, testUserId))
+        .rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR, details: { transaction_ids: ['txn-april'] } });
+      expect(mockDbBatch).not.toHaveBeenCalled();
+    });
+
+    it('should record cleared items with their effect on the account', async () => {
+      mockDbQueryOne.mockResolvedValueOnce(dbReconciliation());
+      mockDbQuery.mockResolvedValueOnce(candidateRows([]));
+      mockDbQueryOne.mockResolvedValueOnce(dbReconciliation());
+      mockDbQuery.mockResolvedValueOnce(candidateRows(['txn-deposit', 'txn-check']));
+
+      const result = await reconciliationService.setCleared(
+        'rec-1',
+        { transaction_ids: ['txn-deposit', 'txn-check'], cleared: true },
+        testUserId
+      );
+
+      expect(mockD1Bind.mock.calls.slice(0, 2).map(call => [call[1], call[2]])).toEqual([
+        ['txn-deposit', 150000],
+        ['txn-check', -100000],
+      ]);
+      expect(result.summary.difference).toBe(0);
+    });
+  });
+
+  describe('completeReconciliation', () => {
+    it('should refuse to complete while the difference is not zero', async () => {
+      mockDbQueryOne.mockResolvedValueOnce(dbReconciliation());
+      mockDbQuery.mockResolvedValueOnce(candidateRows(['txn-deposit']));
+
+      await expect(reconciliationService.completeReconciliation('rec-1', testUserId))
+        .rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR, details: { difference: -100000 } });
+      expect(mockDbBatch).not.toHaveBeenCalled();
+    });
+
+    it('should mark cleared items reconciled and keep outstanding checks and deposits in transit', async () => {
+      mockDbQueryOne.mockResolvedValueOnce(dbReconciliation());
+      mockDbQuery.mockResolvedValueOnce(candidateRows(['txn-deposit', 'txn-check']));
+      mockDbQueryOne.mockResolvedValueOnce(dbReconciliation({ status: 'completed', completed_at: now }));
+      mockDbQuery.mockResolvedValueOnce([
+        ...candidateRows(['txn-deposit', 'txn-check']),
+        { transaction_id: 'txn-transit', date: utc(2024, 3, 31), description: 'Late deposit', reference: null, amount: 30000, is_cleared: 0 },
+      ]);
+
+      const report = await reconciliationService.completeReconciliation('rec-1', testUserId);
+
+      const statements = mockD1Prepare.mock.calls.map(call => String(call[0]));
+      expect(statements[1]).toContain('UPDATE transactions SET is_reconciled = 1');
+      expect(mockD1Bind.mock.calls[2]).toEqual(['rec-1', 'txn-outstanding', -20000, expect.any(Number)]);
+      expect(mockDbBatch).toHaveBeenCalledTimes(1);
+
+      expect(report.cleared.map(txn => txn.transaction_id)).toEqual(['txn-deposit', 'txn-check']);
+      expect(report.outstanding_checks.map(txn => txn.transaction_id)).toEqual(['txn-outstanding']);
+      expect(report.deposits_in_transit.map(txn => txn.transaction_id)).toEqual(['txn-transit']);
+      expect(report.adjusted_bank_balance).toBe(1_050_000 + 30000 - 20000);
+    });
+  });
+});
@@ -0,0 +1,188 @@
+// tests/unit/report.test.ts
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ReportService, createReportService } from '../../src/lib/services/report-service';
+import type { DbEntity } from '../../src/db/schema';
+import { ErrorCode } from '../../src/utils/errors';
+import type { D1Database } from '@cloudflare/workers-types';
+
+const mockDbQuery = vi.fn();
+const mockDbQueryOne = vi.fn();
+
+vi.mock('@db/db', () => ({
+  createDbClient: vi.fn(() => ({
+    query: mockDbQuery,
+    queryOne: mockDbQueryOne,
+    execute: vi.fn(),
+    batch: vi.fn(),
+    d1Instance: { prepare: vi.fn() },
+  })),
+}));
+
+const mockD1Instance = {} as D1Database;
+
+describe('ReportService', () => {
+  let reportService: ReportService;
+  const testUserId = 'user-test-123';
+  const entityId = 'ent-1';
+  const now = Math.floor(Date.now() / 1000);
+
+  const mockDbEntity: DbEntity = {
+    id: entityId,
+    user_id: testUserId,
+    name: 'Main Street LLC',
+    is_active: 1,
+    allows_sub_entities: 0,
+    created_at: now,
+    updated_at: now,
+  };
+
+  const balanceRow = (code: string, type: string, debit: number | null, credit: number | null) => ({
+    entity_account_id: `ea-${code}`,
+    account_id: `coa-${code}`,
+    account_code: code,
+    account_name: `Account ${code}`,
+    account_type: type,
+    account_subtype: null,
+    parent_account_id: null,
+    debit_total: debit,
+    credit_total: credit,
+  });
+
+  const ledgerLine = (id: string, accountCode: string, amount: number, isDebit: boolean, date: number) => ({
+    line_id: id,
+    entity_account_id: `ea-${accountCode}`,
+    amount,
+    is_debit: isDebit ? 1 : 0,
+    memo: null,
+    transaction_id: `txn-${id}`,
+    date,
+    description: 'Activity',
+    reference: null,
+    status: 'posted',
+    reverses_transaction_id: null,
+  });
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    reportService = createReportService(mockD1Instance);
+  });
+
+  describe('getTrialBalance', () => {
+    it('should place net balances in the debit or credit column and total them', async () => {
+      mockDbQueryOne.mockResolvedValueOnce(mockDbEntity);
+      mockDbQuery.mockResolvedValueOnce([
+        balanceRow('1020', 'asset', 500000, 120000),
+        balanceRow('1525', 'asset', null, 30000), // contra asset
+        balanceRow('2010', 'liability', 20000, 50000),
+        balanceRow('4000', 'income', null, 450000),
+        balanceRow('5010', 'expense', 130000, null),
+        balanceRow('5020', 'expense', null, null),
+      ]);
+
+      const report = await reportService.getTrialBalance(entityId, now, testUserId);
+
+      expect(mockDbQuery).toHaveBeenCalledWith(
+        expect.stringContaining("t.status IN ('posted', 'voided')"),
+        [testUserId, entityId, now, testUserId, entityId]
+      );
+      expect(report.rows.map(row => row.account_code)).toEqual(['1020', '1525', '2010', '4000', '5010']);
+      expect(report.rows[0]).toEqual(expect.objectContaining({ debit_balance: 380000, credit_balance: 0, balance: 380000 }));
+      expect(report.rows[1]).toEqual(expect.objectContaining({ debit_balance: 0, credit_balance: 30000, balance: -30000 }));
+      expect(report.rows[2]).toEqual(expect.objectContaining({ credit_balance: 30000, balance: 30000, normal_balance: 'credit' }));
+      expect(report.total_debits).toBe(510000);
+      expect(report.total_credits).toBe(510000);
+      expect(report.is_balanced).toBe(true);
+    });
+
+    it('should throw NOT_FOUND when the entity is not owned by the user', async () => {
+      mockDbQueryOne.mockResolvedValueOnce(null);
+      await expect(reportService.getTrialBalance('ent-x', now, testUserId))
+        .rejects.toMatchObject({ code: ErrorCode.NOT_FOUND, status: 404 });
+      expect(mockDbQuery).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getConsolidatedTrialBalance', () => {
+    it('should roll up every descendant entity under the shared account code', async () => {
+      const child = { ...mockDbEntity, id: 'ent-2', name: 'Oak Ave LLC', parent_id: entityId };
+      const grandchild = { ...mockDbEntity, id: 'ent-3', name: 'Oak Ave Unit B', parent_id: 'ent-2' };
+      mockDbQueryOne.mockResolvedValueOnce({ ...mockDbEntity, allows_sub_entities: 1 });
+      mockDbQuery.mockImplementation(async (sql: string, params: unknown[]) => {
+        if (sql.includes('WITH RECURSIVE')) return [child, grandchild];
+        if (sql.includes('FROM chart_of_accounts')) return [];
+        if (sql.includes('FROM intercompany_transactions')) return [];
+        const byEntity: Record<string, unknown[]> = {
+          [entityId]: [balanceRow('1020', 'asset', 10000, null), balanceRow('3010', 'equity', null, 10000)],
+          'ent-2': [balanceRow('1020', 'asset', 7000, 2000), balanceRow('4000', 'income', null, 5000)],
+          'ent-3': [balanceRow('1020', 'asset', 1500, null), balanceRow('4000', 'income', null, 1500)],
+        };
+        return byEntity[params[1] as string];
+      });
+
+      const report = await reportService.getConsolidatedTrialBalance(entityId, now, testUserId);
+
+      expect(report.entities.map(entity => [entity.entity_id, entity.depth])).toEqual([[entityId, 0], ['ent-2', 1], ['ent-3', 2]]);
+      expect(report.rows.map(row => [row.account_code, row.debit_balance, row.credit_balance]))
+        .toEqual([['1020', 16500, 0], ['3010', 0, 10000], ['4000', 0, 6500]]);
+      expect(report.rows[0].by_entity['ent-3']).toEqual({ debit_balance: 1500, credit_balance: 0 });
+      expect(report.is_balanced).toBe(true);
+    });
+
+    it('should throw NOT_FOUND when the parent entity is not owned by the user', async () => {
+      mockDbQueryOne.mockResolvedValueOnce(null);
+      await expect(reportService.getConsolidatedTrialBalance('ent-x', now, testUserId))
+        .rejects.toMatchObject({ code: ErrorCode.NOT_FOUND, status: 404 });
+      expect(mockDbQuery).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getGeneralLedger', () => {
+    it('should carry opening balances into running balances per account', async () => {
+      mockDbQueryOne.mockResolvedValueOnce(mockDbEntity);
+      mockDbQuery.mockResolvedValueOnce([
+        balanceRow('1020', 'asset', 100000, null),
+        balanceRow('4000', 'income', null, 100000),
+        balanceRow('5010', 'expense', null, null),
+      ]);
+      mockDbQuery.mockResolvedValueOnce([
+        ledgerLine('l1', '1020', 50000, true, 200),
+        ledgerLine('l2', '4000', 50000, false, 200),
+        ledgerLine('l3', '1020', 20000, false, 300),
+      ]);
+
+      const report = await reportService.getGeneralLedger(entityId, 150, 400, testUserId);
+
+      // Opening balances are computed through the day before the window.
+      expect(mockDbQuery.mock.calls[0][1]).toEqual([testUserId, entityId, 149, testUserId, entityId]);
+      expect(report.accounts.map(account => account.account_code)).toEqual(['1020', '4000']);
+      const cash = report.accounts[0];
+      expect(cash.opening_balance).toBe(100000);
+      expect(cash.entries.map(entry => entry.running_balance)).toEqual([150000, 130000]);
+      expect(cash).toEqual(expect.objectContaining({ total_debits: 50000, total_credits: 20000, closing_balance: 130000 }));
+      expect(report.accounts[1].closing_balance).toBe(150000);
+    });
+  });
+
+  describe('getAccountActivity', () => {
+    it('should throw NOT_FOUND for an entity account the user does not own', async () => {
+      mockDbQueryOne.mockResolvedValueOnce(null);
+      await expect(reportService.getAccountActivity('ea-x', { end_date: now }, testUserId))
+        .rejects.toMatchObject({ code: ErrorCode.NOT_FOUND, status: 404 });
+    });
+
+    it('should start from zero when no start date is given', async () => {
+      mockDbQueryOne.mockResolvedValueOnce({ ...balanceRow('2010', 'liability', null, null), entity_id: entityId });
+      mockDbQuery.mockResolvedValueOnce([
+        ledgerLine('l1', '2010', 40000, false, 100),
+        ledgerLine('l2', '2010', 15000, true, 200),
+      ]);
+
+      const report = await reportService.getAccountActivity('ea-2010', { end_date: now }, testUserId);
+
+      expect(mockDbQuery).toHaveBeenCalledTimes(1);
+      expect(mockDbQuery.mock.calls[0][1]).toEqual([testUserId, entityId, now, 'ea-2010']);
+      expect(report).toEqual(expect.objectContaining({ start_date: null, opening_balance: 0, closing_balance: 25000 }));
+      expect(report.entries.map(entry => [entry.debit, entry.credit])).toEqual([[0, 40000], [15000, 0]]);
+    });
+  });
+});
@@ -0,0 +1,478 @@
+// tests/unit/rule.test.ts
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { RuleService, createRuleService } from '../../src/lib/services/rule-service';
+import { RuleEngine, validateRuleConditions, type CategorizableItem, type Rule } from '../../src/lib/rules/engine';
+import { allocateSplits, validateRuleAction } from '../../src/lib/rules/splits';
+import { mergeCandidateRules, simulateRules } from '../../src/lib/rules/simulation';
+import { LEARNED_RULE_PRIORITY, suggestRules, type ManualCategorization } from '../../src/lib/rules/learning';
+import { defaultRules } from '../../src/lib/rules/ruleDefinitions';
+import type { DbCategorizationRule, DbEntity } from '../../src/db/schema';
+import { ErrorCode } from '../../src/utils/errors';
+import type { D1Database } from '@cloudflare/workers-types';
+
+const mockDbQuery = vi.fn();
+const mockDbQueryOne = vi.fn();
+const mockDbExecute = vi.fn();
+const mockDbBatch = vi.fn();
+const mockD1Prepare = vi.fn();
+const mockD1Bind = vi.fn();
+
+const mockPreparedStatement = { bind: mockD1Bind };
+
+vi.mock('@db/db', () => ({
+  createDbClient: vi.fn(() => ({
+    query: mockDbQuery,
+    queryOne: mockDbQueryOne,
+    execute: mockDbExecute,
+    batch: mockDbBatch,
+    d1Instance: {
+      prepare: mockD1Prepare,
+    },
+  })),
+}));
+
+const mockD1Instance = {} as D1Database;
+
+const bankItem = (description: string, overrides: Partial<CategorizableItem> = {}): CategorizableItem => ({
+  id: 'item-1',
+  date: new Date(Date.UTC(2024, 2, 1)),
+  description,
+  amount: 250000,
+  type: 'debit',
+  entityId: 'ent-1',
+  ...overrides,
+});
+
+describe('RuleEngine condition trees', () => {
+  const rule = (conditions: Rule['conditions']): Rule => ({
+    id: 'rule-1',
+    name: 'Test rule',
+    isActive: true,
+    priority: 50,
+    conditions,
+    action: { accountId: 'ea-1', isDebit: true },
+  });
+
+  it('should match the default mortgage rule on either keyword', () => {
+    const engine = new RuleEngine(defaultRules.filter(r => r.id === 'std-mortgage-payment'));
+
+    expect(engine.findMatchingRule(bankItem('ACH MORTGAGE PAYMENT 0042'))?.id).toBe('std-mortgage-payment');
+    expect(engine.findMatchingRule(bankItem('FIRST BANK LOAN PAYMENT'))?.id).toBe('std-mortgage-payment');
+    expect(engine.findMatchingRule(bankItem('CAR WASH'))).toBeNull();
+  });
+
+  it('should evaluate nested all/any/not groups alongside flat conditions', () => {
+    const engine = new RuleEngine([rule([
+      { field: 'type', operator: 'equals', value: 'debit' },
+      {
+        any: [
+          { field: 'description', operator: 'contains', value: 'ELECTRIC' },
+          { all: [{ field: 'description', operator: 'startsWith', value: 'CITY' }, { not: { field: 'description', operator: 'contains', value: 'PARKING' } }] },
+        ],
+      },
+    ])]);
+
+    expect(engine.findMatchingRule(bankItem('PG&E ELECTRIC'))).not.toBeNull();
+    expect(engine.findMatchingRule(bankItem('CITY WATER DEPT'))).not.toBeNull();
+    expect(engine.findMatchingRule(bankItem('CITY PARKING'))).toBeNull();
+    expect(engine.findMatchingRule(bankItem('PG&E ELECTRIC', { type: 'credit' }))).toBeNull();
+  });
+
+  it('should support between, in, notContains and dayOfMonthBetween', () => {
+    const matches = (conditions: Rule['conditions'], item: CategorizableItem) =>
+      new RuleEngine([rule(conditions)]).findMatchingRule(item) !== null;
+
+    expect(matches([{ field: 'amount', operator: 'between', value: [200000, 300000] }], bankItem('X'))).toBe(true);
+    expect(matches([{ field: 'amount', operator: 'between', value: [0, 249999] }], bankItem('X'))).toBe(false);
+    expect(matches([{ field: 'description', operator: 'in', value: ['comcast', 'verizon'] }], bankItem('VERIZON'))).toBe(true);
+    expect(matches([{ field: 'description', operator: 'notContains', value: 'refund' }], bankItem('AMAZON REFUND'))).toBe(false);
+    expect(matches([{ field: 'date', operator: 'dayOfMonthBetween', value: [1, 5] }], bankItem('X'))).toBe(true);
+    // Wraps around the month end
+    const lastDay = bankItem('X', { date: new Date(Date.UTC(2024, 1, 29)) });
+    expect(matches([{ field: 'date', operator: 'dayOfMonthBetween', value: [28, 3] }], lastDay)).toBe(true);
+    expect(matches([{ field: 'date', operator: 'dayOfMonthBetween', value: [10, 20] }], lastDay)).toBe(false);
+  });
+
+  it('should report malformed trees', () => {
+    expect(validateRuleConditions(defaultRules.flatMap(r => r.conditions))).toEqual([]);
+    expect(validateRuleConditions([
+      { any: [] },
+      { all: [{ field: 'amount', operator: 'between', value: [500, 100] }] },
+      { not: { field: 'date', operator: 'dayOfMonthBetween', value: [0, 40] } },
+      { any: [{ field: 'x', operator: 'equals', value: 1 }], not: { field: 'x', operator: 'equals', value: 1 } } as never,
+    ])).toEqual([
+      'conditions[0].any: must contain at least one condition.',
+      'conditions[1].all[0]: between needs a [min, max] pair of numbers with min <= max.',
+      'conditions[2].not: dayOfMonthBetween needs a [start, end] pair of days from 1 to 31.',
+      'conditions[3]: a group must have exactly one of all, any or not.',
+    ]);
+  });
+});
+
+describe('RuleEngine split actions', () => {
+  const splitRule = (splits: NonNullable<Rule['action']['splits']>): Rule => ({
+    id: 'rule-split',
+    name: 'Split',
+    isActive: true,
+    priority: 50,
+    conditions: [{ field: 'description', operator: 'contains', value: 'UTILITY' }],
+    action: { isDebit: true, description: 'Utilities', splits },
+  });
+
+  it('should split 60/40 with every cent accounted for', () => {
+    const engine = new RuleEngine([splitRule([
+      { accountId: 'ea-5030-r', type: 'percentage', value: 6000 },
+      { accountId: 'ea-5030', type: 'percentage', value: 4000 },
+    ])]);
+
+    const result = engine.getRuleApplicationResult(bankItem('CITY UTILITY', { amount: 12345 }));
+
+    expect(result?.ruleId).toBe('rule-split');
+    expect(result?.lines.map(line => [line.accountId, line.amount, line.isDebit, line.description])).toEqual([
+      ['ea-5030-r', 7407, true, 'Utilities'],
+      ['ea-5030', 4938, true, 'Utilities'],
+    ]);
+  });
+
+  it('should take fixed lines first and give the rest to the remainder line', () => {
+    const splits = [
+      { accountId: 'ea-interest', type: 'fixed' as const, value: 120000 },
+      { accountId: 'ea-principal', type: 'remainder' as const },
+      { accountId: 'ea-escrow', type: 'fixed' as const, value: 35000 },
+    ];
+    expect(allocateSplits(210000, splits)).toEqual([120000, 55000, 35000]);
+    expect(allocateSplits(155000, splits)).toEqual([120000, 0, 35000]);
+    expect(allocateSplits(100000, splits)).toBeNull();
+  });
+
+  it('should round percentages of the amount left after fixed lines by largest remainder', () => {
+    const amounts = allocateSplits(1000, [
+      { accountId: 'a', type: 'fixed', value: 1 },
+      { accountId: 'b', type: 'percentage', value: 3333 },
+      { accountId: 'c', type: 'percentage', value: 3333 },
+      { accountId: 'd', type: 'percentage', value: 3334 },
+    ]);
+    expect(amounts).toEqual([1, 333, 333, 333]);
+    expect(amounts!.reduce((sum, value) => sum + value, 0)).toBe(1000);
+  });
+
+  it('should leave an item uncategorized when its splits cannot cover it and drop zero lines', () => {
+    const engine = new RuleEngine([splitRule([
+      { accountId: 'ea-interest', type: 'fixed', value: 5000 },
+      { accountId: 'ea-principal', type: 'remainder' },
+    ])]);
+
+    expect(engine.getRuleApplicationResult(bankItem('UTILITY', { amount: 4000 }))).toBeNull();
+    expect(engine.getRuleApplicationResult(bankItem('UTILITY', { amount: 5000 }))?.lines).toHaveLength(1);
+  });
+
+  it('should report split actions that cannot add up to the item amount', () => {
+    expect(validateRuleAction({ isDebit: true, accountId: 'ea-1', splits: [] })).toEqual([
+      'action: provide either accountId or splits.',
+    ]);
+    expect(validateRuleAction({
+      isDebit: true,
+      splits: [
+        { accountId: 'ea-1', type: 'percentage', value: 6000 },
+        { accountId: 'ea-2', type: 'percentage', value: 3000 },
+        { accountId: 'ea-3', type: 'fixed', value: 0 },
+      ],
+    })).toEqual([
+      'action.splits[2]: a fixed split needs a positive amount in cents.',
+      'action.splits: without a remainder split, percentages must total 100% (10000 basis points).',
+    ]);
+  });
+});
+
+describe('Rule simulation', () => {
+  const rule = (id: string, priority: number, value: string, accountId: string): Rule => ({
+    id,
+    name: `Rule ${id}`,
+    isActive: true,
+    priority,
+    conditions: [{ field: 'description', operator: 'contains', value }],
+    action: { accountId, isDebit: true },
+  });
+
+  it('should report a new winning rule separately from a category change', () => {
+    const current = [rule('rule-fee', 80, 'FEE', 'ea-fees'), rule('rule-bank', 60, 'BANK', 'ea-fees')];
+    const candidates = mergeCandidateRules(current, [{ ...rule('rule-bank', 90, 'BANK', 'ea-fees') }]);
+
+    const report = simulateRules(
+      [
+        { kind: 'import_item', item: bankItem('BANK FEE', { id: 'item-1' }) },
+        { kind: 'import_item', item: bankItem('FEE', { id: 'item-2' }) },
+      ],
+      current,
+      candidates
+    );
+
+    expect(candidates.map(candidate => [candidate.id, candidate.priority])).toEqual([['rule-fee', 80], ['rule-bank', 90]]);
+    expect(report.changes).toHaveLength(1);
+    expect(report.changes[0]).toMatchObject({
+      item_id: 'item-1',
+      change: 'rule_changed',
+      before: { rule_id: 'rule-fee' },
+      after: { rule_id: 'rule-bank', lines: [{ entity_account_id: 'ea-fees', amount: 250000, is_debit: true }] },
+    });
+    expect(report.summary).toMatchObject({ items: 2, unchanged: 1, rule_changed: 1, unmatched: 0 });
+  });
+});
+
+describe('Rule learning', () => {
+  const manual = (id: string, description: string, entityAccountId: string): ManualCategorization => ({
+    item: bankItem(description, { id }),
+    entityAccountId,
+  });
+  const categorizations = [
+    manual('m-1', 'POS HOME DEPOT #4521 03/02', 'ea-repairs'),
+    manual('m-2', 'POS HOME DEPOT #4521 04/06', 'ea-repairs'),
+    manual('m-3', 'HOME DEPOT 0088', 'ea-repairs'),
+    manual('m-4', 'CITY WATER UTIL 0301', 'ea-utilities'),
+    manual('m-5', 'CITY WATER UTIL 0401', 'ea-utilities'),
+    manual('m-6', 'CITY WATER UTIL 0501', 'ea-utilities'),
+    manual('m-7', 'AMAZON MKTPLACE', 'ea-supplies'),
+    manual('m-8', 'AMAZON MKTPLACE', 'ea-supplies'),
+    manual('m-9', 'AMAZON MKTPLACE', 'ea-repairs'),
+    manual('m-10', 'AMAZON MKTPLACE', 'ea-repairs'),
+  ];
+
+  it('should suggest one rule per consistently mapped payee with a confidence score', () => {
+    const suggestions = suggestRules(categorizations, 'ent-1');
+
+    expect(suggestions.map(s => [s.key, s.entity_account_id, s.support, s.consistency, s.confidence])).toEqual([
+      ['city water', 'ea-utilities', 3, 1, 0.75],
+      ['home depot', 'ea-repairs', 3, 1, 0.75],
+    ]);
+    expect(suggestions[1].rule).toEqual({
+      name: 'Learned: home depot',
+      description: 'Suggested from lines categorized by hand that contain "home depot".',
+      entityId: 'ent-1',
+      priority: LEARNED_RULE_PRIORITY,
+      conditions: [
+        { field: 'description', operator: 'contains', value: 'home depot', caseSensitive: false },
+        { field: 'type', operator: 'equals', value: 'debit', caseSensitive: false },
+      ],
+      action: { accountId: 'ea-repairs', isDebit: true, description: 'Learned: home depot' },
+    });
+    expect(validateRuleConditions(suggestions[1].rule.conditions)).toEqual([]);
+  });
+
+  it('should be deterministic and skip payees the current rules already handle', () => {
+    const reversed = suggestRules([...categorizations].reverse(), 'ent-1');
+    expect(reversed.map(s => s.key)).toEqual(['city water', 'home depot']);
+
+    const engine = new RuleEngine([{
+      id: 'rule-water',
+      name: 'Water',
+      isActive: true,
+      priority: 50,
+      conditions: [{ field: 'description', operator: 'contains', value: 'WATER' }],
+      action: { accountId: 'ea-utilities', isDebit: true },
+    }]);
+    expect(suggestRules(categorizations, 'ent-1', engine).map(s => s.key)).toEqual(['home depot']);
+  });
+});
+
+describe('RuleService', () => {
+  let ruleService: RuleService;
+  const testUserId = 'user-test-123';
+  const entityId = 'ent-1';
+  const now = Math.floor(Date.now() / 1000);
+
+  const mockDbEntity: DbEntity = {
+    id: entityId,
+    user_id: testUserId,
+    name: 'Main Street LLC',
+    is_active: 1,
+    allows_sub_entities: 0,
+    created_at: now,
+    updated_at: now,
+  };
+
+  const link = (id: string, accountId: string, code: string, linkEntityId = entityId) => ({
+    id,
+    user_id: testUserId,
+    entity_id: linkEntityId,
+    account_id: accountId,
+    custom_name: null,
+    is_active: 1,
+    recovery_type: null,
+    recovery_percentage: null,
+    created_at: now,
+    updated_at: now,
+    account_code: code,
+    account_name: `Account ${code}`,
+    account_type: 'expense',
+    account_subtype: null,
+    account_is_recoverable: 0,
+  });
+
+  const dbRule = (id: string, accountId: string, ruleEntityId: string | null, priority = 50): DbCategorizationRule => ({
+    id,
+    user_id: testUserId,
+    entity_id: ruleEntityId,
+    template_id: null,
+    name: `Rule ${id}`,
+    description: null,
+    is_active: 1,
+    priority,
+    conditions: JSON.stringify([{ field: 'description', operator: 'contains', value: 'FEE' }]),
+    action: JSON.stringify({ accountId, isDebit: true }),
+    created_at: now,
+    updated_at: now,
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockD1Prepare.mockReturnValue(mockPreparedStatement);
+    mockD1Bind.mockReturnValue(mockPreparedStatement);
+    ruleService = createRuleService(mockD1Instance);
+  });
+
+  describe('createRule', () => {
+    const ruleInput = {
+      name: 'Wire fees',
+      entityId,
+      conditions: [{ field: 'description', operator: 'contains' as const, value: 'WIRE' }],
+      action: { accountId: 'ea-other', isDebit: true },
+    };
+
+    it('should store conditions and action as JSON', async () => {
+      mockDbQueryOne.mockResolvedValueOnce(mockDbEntity);
+      mockDbQueryOne.mockResolvedValueOnce(link('ea-other', 'acc-5110', '5110'));
+      mockDbExecute.mockResolvedValueOnce({ success: true, meta: { changes: 1 } });
+      mockDbQueryOne.mockResolvedValueOnce(dbRule('rule-1', 'ea-other', entityId));
+
+      const result = await ruleService.createRule(ruleInput, testUserId);
+
+      const params = mockDbExecute.mock.calls[0][1];
+      expect(params[2]).toBe(entityId);
+      expect(params[7]).toBe(50); // default priority
+      expect(JSON.parse(params[8])).toEqual(ruleInput.conditions);
+      expect(JSON.parse(params[9])).toEqual(ruleInput.action);
+      expect(result.action).toEqual({ accountId: 'ea-other', isDebit: true });
+      expect(result.isActive).toBe(true);
+    });
+
+    it('should reject a malformed condition tree before touching the database', async () => {
+      await expect(ruleService.createRule({ ...ruleInput, conditions: [{ all: [] }] }, testUserId))
+        .rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR, details: { conditions: ['conditions[0].all: must contain at least one condition.'] } });
+      expect(mockDbQueryOne).not.toHaveBeenCalled();
+    });
+
+    it('should check every split account', async () => {
+      mockDbQueryOne.mockResolvedValueOnce(mockDbEntity);
+      mockDbQueryOne.mockResolvedValueOnce(link('ea-5030-r', 'acc-5030-r', '5030-R'));
+      mockDbQueryOne.mockResolvedValueOnce(null);
+
+      await expect(ruleService.createRule({
+        ...ruleInput,
+        action: {
+          isDebit: true,
+          splits: [
+            { accountId: 'ea-5030-r', type: 'percentage', value: 6000 },
+            { accountId: 'ea-missing', type: 'remainder' },
+          ],
+        },
+      }, testUserId)).rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR, message: 'Rule action account must be an active entity account.' });
+      expect(mockDbExecute).not.toHaveBeenCalled();
+    });
+
+    it('should reject an action account from another entity', async () => {
+      mockDbQueryOne.mockResolvedValueOnce(mockDbEntity);
+      mockDbQueryOne.mockResolvedValueOnce(link('ea-other', 'acc-5110', '5110', 'ent-2'));
+
+      await expect(ruleService.createRule(ruleInput, testUserId))
+        .rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR, status: 400 });
+      expect(mockDbExecute).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getRulesForEntity', () => {
+    it('should re-point global rules to the entity\'s link of the same account and drop unlinked ones', async () => {
+      mockDbQueryOne.mockResolvedValueOnce(mockDbEntity);
+      mockDbQuery.mockResolvedValueOnce([
+        dbRule('rule-entity', 'ea-rent', entityId, 90),
+        dbRule('rule-global', 'ea-fees-ent-2', null, 80),
+        dbRule('rule-unlinked', 'ea-misc-ent-2', null, 70),
+      ]);
+      mockDbQueryOne.mockResolvedValueOnce(mockDbEntity);
+      mockDbQuery.mockResolvedValueOnce([link('ea-rent', 'acc-4010', '4010'), link('ea-fees', 'acc-5110', '5110')]);
+      mockDbQuery.mockResolvedValueOnce([
+        { id: 'ea-fees-ent-2', account_id: 'acc-5110' },
+        { id: 'ea-misc-ent-2', account_id: 'acc-5999' },
+      ]);
+
+      const rules = await ruleService.getRulesForEntity(entityId, testUserId);
+
+      expect(rules.map(rule => [rule.id, rule.action.accountId])).toEqual([
+        ['rule-entity', 'ea-rent'],
+        ['rule-global', 'ea-fees'],
+      ]);
+    });
+  });
+
+  describe('simulateRules', () => {
+    it('should diff imported lines between the current rules and the candidates without saving', async () => {
+      mockDbQueryOne.mockResolvedValueOnce(mockDbEntity);
+      mockDbQuery.mockResolvedValueOnce([dbRule('rule-fee', 'ea-fees', entityId)]);
+      mockDbQueryOne.mockResolvedValueOnce(mockDbEntity);
+      mockDbQuery.mockResolvedValueOnce([link('ea-fees', 'acc-5110', '5110'), link('ea-bank', 'acc-5120', '5120'), link('ea-wire', 'acc-5130', '5130')]);
+      mockDbQueryOne.mockResolvedValueOnce(link('ea-bank', 'acc-5120', '5120'));
+      mockDbQueryOne.mockResolvedValueOnce(link('ea-wire', 'acc-5130', '5130'));
+      mockDbQuery.mockResolvedValueOnce([
+        { id: 'item-1', date: 1709251200, description: 'SERVICE FEE', amount: 1200, direction: 'debit', reference: null, external_id: null, memo: null },
+        { id: 'item-2', date: 1709337600, description: 'WIRE OUT', amount: 50000, direction: 'debit', reference: null, external_id: null, memo: null },
+        { id: 'item-3', date: 1709424000, description: 'ACH TRANSFER', amount: 7000, direction: 'debit', reference: null, external_id: null, memo: null },
+      ]);
+
+      const report = await ruleService.simulateRules({
+        entity_id: entityId,
+        source: 'imports',
+        start_date: 1709251200,
+        end_date: 1711929599,
+        rules: [
+          { id: 'rule-fee', name: 'Bank fees', entityId, conditions: [{ field: 'description', operator: 'contains', value: 'FEE' }], action: { accountId: 'ea-bank', isDebit: true } },
+          { name: 'Wires', conditions: [{ field: 'description', operator: 'contains', value: 'WIRE' }], action: { accountId: 'ea-wire', isDebit: true } },
+        ],
+      }, testUserId);
+
+      expect(report.changes.map(item => [item.item_id, item.change, item.before?.rule_id ?? null, item.after?.lines[0].entity_account_id])).toEqual([
+        ['item-1', 'category_changed', 'rule-fee', 'ea-bank'],
+        ['item-2', 'newly_matched', null, 'ea-wire'],
+      ]);
+      expect(report.unmatched.map(item => item.item_id)).toEqual(['item-3']);
+      expect(report.summary).toMatchObject({ items: 3, unchanged: 1, category_changed: 1, newly_matched: 1, unmatched: 1 });
+      expect(report.truncated).toBe(false);
+      expect(mockDbExecute).not.toHaveBeenCalled();
+      expect(mockDbBatch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('seedDefaultRules', () => {
+    it('should resolve placeholder codes to the entity\'s accounts and skip defaults already seeded', async () => {
+      mockDbQueryOne.mockResolvedValueOnce(mockDbEntity);
+      mockDbQuery.mockResolvedValueOnce([{ template_id: 'std-bank-fee-service' }]);
+      mockDbQueryOne.mockResolvedValueOnce(mockDbEntity);
+      mockDbQuery.mockResolvedValueOnce([link('ea-5110', 'acc-5110', '5110'), link('ea-4510', 'acc-4510', '4510')]);
+      mockDbBatch.mockResolvedValueOnce([]);
+      mockDbQueryOne.mockResolvedValueOnce(mockDbEntity);
+      mockDbQuery.mockResolvedValueOnce([]);
+
+      const result = await ruleService.seedDefaultRules(entityId, testUserId);
+
+      const inserted = mockD1Bind.mock.calls.map(call => ({ templateId: call[3], action: JSON.parse(call[9]) }));
+      expect(inserted.map(row => row.templateId)).toEqual([
+        'std-bank-fee-monthly', 'std-interest-income',
+        'bank-monthly-fee', 'wire-fee', 'nsf-fee', 'atm-fee', 'interest-earned',
+      ]);
+      expect(inserted.find(row => row.templateId === 'wire-fee')?.action.accountId).toBe('ea-5110');
+      expect(inserted.find(row => row.templateId === 'std-interest-income')?.action.accountId).toBe('ea-4510');
+      expect(result.skipped.map(skip => skip.templateId)).toEqual([
+        'std-property-tax', 'std-mortgage-payment', 'std-insurance-payment', 'direct-deposit-rent',
+      ]);
+      expect(result.skipped[0].reason).toBe('Account 5050 is not linked to this entity.');
+    });
+  });
+});
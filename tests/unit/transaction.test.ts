@@ -0,0 +1,379 @@
+// tests/unit/transaction.test.ts
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { TransactionService, createTransactionService } from '../../src/lib/services/transaction-service';
+import { FiscalPeriodService } from '../../src/lib/services/fiscal-period-service';
+import type { TransactionInput } from '../../src/types/transaction';
+import type { DbEntity, DbTransaction, DbTransactionLine } from '../../src/db/schema';
+import { AppError, ErrorCode } from '../../src/utils/errors';
+import { transactionInputSchema } from '../../src/functions/api/utils/zodSchemas';
+import type { D1Database } from '@cloudflare/workers-types';
+
+const mockDbQuery = vi.fn();
+const mockDbQueryOne = vi.fn();
+const mockDbExecute = vi.fn();
+const mockDbBatch = vi.fn();
+const mockD1Prepare = vi.fn();
+const mockD1Bind = vi.fn();
+
+const mockPreparedStatement = { bind: mockD1Bind };
+const mockChangeCheck = { sql: 'change check' };
+
+vi.mock('@db/db', () => ({
+  createDbClient: vi.fn(() => ({
+    query: mockDbQuery,
+    queryOne: mockDbQueryOne,
+    execute: mockDbExecute,
+    batch: mockDbBatch,
+    prepareChangeCheck: () => mockChangeCheck,
+    d1Instance: {
+      prepare: mockD1Prepare,
+    },
+  })),
+}));
+
+const mockD1Instance = {} as D1Database;
+
+describe('TransactionService', () => {
+  let transactionService: TransactionService;
+  const testUserId = 'user-test-123';
+  const entityId = 'ent-1';
+  const now = Math.floor(Date.now() / 1000);
+
+  const mockDbEntity: DbEntity = {
+    id: entityId,
+    user_id: testUserId,
+    name: 'Main Street LLC',
+    is_active: 1,
+    allows_sub_entities: 0,
+    created_at: now,
+    updated_at: now,
+  };
+
+  const createMockDbTransaction = (overrides: Partial<DbTransaction> & { id: string }): DbTransaction => ({
+    user_id: testUserId,
+    entity_id: entityId,
+    journal_id: null,
+    date: now,
+    description: 'Rent received',
+    reference: null,
+    status: 'posted',
+    is_reconciled: 0,
+    document_url: null,
+    created_at: now,
+    updated_at: now,
+    ...overrides,
+  });
+
+  const mockDbLines: DbTransactionLine[] = [
+    { id: 'line-1', transaction_id: 'txn-1', entity_account_id: 'ea-cash', amount: 150000, is_debit: 1, memo: null, created_at: now },
+    { id: 'line-2', transaction_id: 'txn-1', entity_account_id: 'ea-rent', amount: 150000, is_debit: 0, memo: null, created_at: now },
+  ];
+
+  const transactionInput: TransactionInput = {
+    entity_id: entityId,
+    date: now,
+    description: 'Rent received',
+    lines: [
+      { entity_account_id: 'ea-cash', amount: 150000, is_debit: true },
+      { entity_account_id: 'ea-rent', amount: 150000, is_debit: false },
+    ],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockD1Prepare.mockReturnValue(mockPreparedStatement);
+    mockD1Bind.mockReturnValue(mockPreparedStatement);
+    vi.spyOn(FiscalPeriodService.prototype, 'preparePostingCheck').mockResolvedValue([]);
+    transactionService = createTransactionService(mockD1Instance);
+  });
+
+  afterEach(() => {
+    vi.mocked(FiscalPeriodService.prototype.preparePostingCheck).mockRestore();
+  });
+
+  const postingChecks = () => vi.mocked(FiscalPeriodService.prototype.preparePostingCheck).mock.calls;
+
+  describe('getTransactionById', () => {
+    it('should return the transaction with mapped lines', async () => {
+      mockDbQueryOne.mockResolvedValueOnce(createMockDbTransaction({ id: 'txn-1', is_reconciled: 1 }));
+      mockDbQuery.mockResolvedValueOnce(mockDbLines);
+
+      const result = await transactionService.getTransactionById('txn-1', testUserId);
+
+      expect(mockDbQueryOne).toHaveBeenCalledWith(expect.stringContaining('FROM transactions'), ['txn-1', testUserId]);
+      expect(result?.is_reconciled).toBe(true);
+      expect(result?.lines).toEqual([
+        expect.objectContaining({ id: 'line-1', is_debit: true, amount: 150000 }),
+        expect.objectContaining({ id: 'line-2', is_debit: false, amount: 150000 }),
+      ]);
+    });
+
+    it('should return null when the transaction does not belong to the user', async () => {
+      mockDbQueryOne.mockResolvedValueOnce(null);
+      const result = await transactionService.getTransactionById('txn-other', testUserId);
+      expect(result).toBeNull();
+      expect(mockDbQuery).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('listTransactions', () => {
+    it('should apply date filters and pagination', async () => {
+      mockDbQueryOne.mockResolvedValueOnce(mockDbEntity); // entity ownership check
+      mockDbQueryOne.mockResolvedValueOnce({ total: 3 });
+      mockDbQuery.mockResolvedValueOnce([createMockDbTransaction({ id: 'txn-3' })]);
+
+      const result = await transactionService.listTransactions(
+        { entity_id: entityId, start_date: 100, end_date: 200, page: 2, page_size: 2 },
+        testUserId
+      );
+
+      expect(mockDbQuery).toHaveBeenCalledWith(
+        expect.stringMatching(/WHERE user_id = \? AND entity_id = \? AND date >= \? AND date <= \?.*LIMIT \? OFFSET \?/s),
+        [testUserId, entityId, 100, 200, 2, 2]
+      );
+      expect(result).toEqual(expect.objectContaining({ page: 2, page_size: 2, total: 3, total_pages: 2 }));
+      expect(result.transactions[0].id).toBe('txn-3');
+    });
+
+    it('should throw NOT_FOUND if the entity is not owned by the user', async () => {
+      mockDbQueryOne.mockResolvedValueOnce(null);
+      await expect(transactionService.listTransactions({ entity_id: 'ent-x' }, testUserId))
+        .rejects.toMatchObject({ code: ErrorCode.NOT_FOUND, status: 404 });
+    });
+  });
+
+  describe('createTransaction', () => {
+    it('should write the header and lines in a single batch', async () => {
+      mockDbQueryOne.mockResolvedValueOnce(mockDbEntity);
+      mockDbQuery.mockResolvedValueOnce([{ id: 'ea-cash' }, { id: 'ea-rent' }]); // account validation
+      mockDbBatch.mockResolvedValue([]);
+      mockDbQueryOne.mockImplementationOnce(async (_sql, params) => createMockDbTransaction({ id: params[0] }));
+      mockDbQuery.mockResolvedValueOnce(mockDbLines);
+
+      const result = await transactionService.createTransaction(transactionInput, testUserId);
+
+      expect(mockDbBatch).toHaveBeenCalledTimes(1);
+      expect(mockDbBatch.mock.calls[0][0]).toHaveLength(3); // header + 2 lines
+      expect(mockD1Prepare).toHaveBeenCalledWith(expect.stringContaining('INSERT INTO transactions'));
+      expect(mockD1Prepare).toHaveBeenCalledWith(expect.stringContaining('INSERT INTO transaction_lines'));
+      expect(result.lines).toHaveLength(2);
+      expect(postingChecks()).toEqual([[entityId, now, expect.any(String), undefined, testUserId]]);
+      // Header binds: id, user_id, entity_id, journal_id, date, description, reference, status, is_reconciled, ...
+      expect(mockD1Bind.mock.calls[0][8]).toBe(0);
+    });
+
+    it('should not accept is_reconciled on a new transaction', () => {
+      const body = {
+        ...transactionInput,
+        entity_id: crypto.randomUUID(),
+        lines: transactionInput.lines.map(line => ({ ...line, entity_account_id: crypto.randomUUID(), amount: line.amount / 100 })),
+      };
+
+      expect(transactionInputSchema.safeParse(body).success).toBe(true);
+      expect(transactionInputSchema.safeParse({ ...body, is_reconciled: true }).success).toBe(false);
+    });
+
+    it('should reject a posting into a locked period before writing anything', async () => {
+      mockDbQueryOne.mockResolvedValueOnce(mockDbEntity);
+      mockDbQuery.mockResolvedValueOnce([{ id: 'ea-cash' }, { id: 'ea-rent' }]);
+      vi.mocked(FiscalPeriodService.prototype.preparePostingCheck).mockRejectedValueOnce(
+        new AppError(ErrorCode.VALIDATION_ERROR, 'March 2025 is closed. Reopen the period before posting into it.', 400)
+      );
+
+      await expect(transactionService.createTransaction(transactionInput, testUserId))
+        .rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR, message: expect.stringContaining('is closed') });
+      expect(mockDbBatch).not.toHaveBeenCalled();
+    });
+
+    it('should not check the period of a pending transaction', async () => {
+      mockDbQueryOne.mockResolvedValueOnce(mockDbEntity);
+      mockDbQuery.mockResolvedValueOnce([{ id: 'ea-cash' }, { id: 'ea-rent' }]);
+      mockDbBatch.mockResolvedValue([]);
+      mockDbQueryOne.mockImplementationOnce(async (_sql, params) => createMockDbTransaction({ id: params[0], status: 'pending' }));
+      mockDbQuery.mockResolvedValueOnce(mockDbLines);
+
+      await transactionService.createTransaction({ ...transactionInput, status: 'pending' }, testUserId);
+
+      expect(postingChecks()).toHaveLength(0);
+    });
+
+    it('should reject unbalanced lines', async () => {
+      mockDbQueryOne.mockResolvedValueOnce(mockDbEntity);
+      const unbalanced: TransactionInput = {
+        ...transactionInput,
+        lines: [
+          { entity_account_id: 'ea-cash', amount: 150000, is_debit: true },
+          { entity_account_id: 'ea-rent', amount: 140000, is_debit: false },
+        ],
+      };
+
+      await expect(transactionService.createTransaction(unbalanced, testUserId))
+        .rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR, message: 'Transaction debits and credits must balance.' });
+      expect(mockDbBatch).not.toHaveBeenCalled();
+    });
+
+    it('should reject lines referencing accounts not linked to the entity', async () => {
+      mockDbQueryOne.mockResolvedValueOnce(mockDbEntity);
+      mockDbQuery.mockResolvedValueOnce([{ id: 'ea-cash' }]);
+
+      await expect(transactionService.createTransaction(transactionInput, testUserId))
+        .rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR, details: { entity_account_ids: ['ea-rent'] } });
+      expect(mockDbBatch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateTransaction', () => {
+    it('should reject line changes on a posted transaction', async () => {
+      mockDbQueryOne.mockResolvedValueOnce(createMockDbTransaction({ id: 'txn-1' }));
+      mockDbQuery.mockResolvedValueOnce(mockDbLines);
+
+      await expect(transactionService.updateTransaction('txn-1', { lines: transactionInput.lines }, testUserId))
+        .rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR, status: 400 });
+      expect(mockDbBatch).not.toHaveBeenCalled();
+    });
+
+    it('should lock reconciled transactions, including descriptive edits', async () => {
+      mockDbQueryOne.mockResolvedValueOnce(createMockDbTransaction({ id: 'txn-1', is_reconciled: 1 }));
+      mockDbQuery.mockResolvedValueOnce(mockDbLines);
+
+      await expect(transactionService.updateTransaction('txn-1', { description: 'Rent received (May)' }, testUserId))
+        .rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR, message: 'Reconciled transactions are locked and cannot be modified.' });
+      expect(mockDbBatch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('postTransaction', () => {
+    it('should move a pending transaction to posted', async () => {
+      mockDbQueryOne.mockResolvedValueOnce(createMockDbTransaction({ id: 'txn-1', status: 'pending' }));
+      mockDbQuery.mockResolvedValueOnce(mockDbLines);
+      mockDbQuery.mockResolvedValueOnce([{ id: 'ea-cash' }, { id: 'ea-rent' }]);
+      mockDbBatch.mockResolvedValueOnce([{ success: true, meta: { changes: 1 } }]);
+      mockDbQueryOne.mockResolvedValueOnce(createMockDbTransaction({ id: 'txn-1', status: 'posted' }));
+      mockDbQuery.mockResolvedValueOnce(mockDbLines);
+
+      const result = await transactionService.postTransaction('txn-1', testUserId);
+
+      expect(mockD1Prepare).toHaveBeenCalledWith(expect.stringContaining("SET status = 'posted'"));
+      expect(mockD1Bind).toHaveBeenCalledWith(expect.any(Number), 'txn-1', testUserId);
+      expect(result.status).toBe('posted');
+    });
+
+    it('should record a soft-closed override in the same batch as the status change', async () => {
+      const overrideStatement = { bind: vi.fn() };
+      vi.mocked(FiscalPeriodService.prototype.preparePostingCheck).mockResolvedValueOnce([overrideStatement as any]);
+      mockDbQueryOne.mockResolvedValueOnce(createMockDbTransaction({ id: 'txn-1', status: 'pending' }));
+      mockDbQuery.mockResolvedValueOnce(mockDbLines);
+      mockDbQuery.mockResolvedValueOnce([{ id: 'ea-cash' }, { id: 'ea-rent' }]);
+      mockDbBatch.mockResolvedValueOnce([{ success: true, meta: { changes: 1 } }, { success: true, meta: { changes: 1 } }]);
+      mockDbQueryOne.mockResolvedValueOnce(createMockDbTransaction({ id: 'txn-1', status: 'posted' }));
+      mockDbQuery.mockResolvedValueOnce(mockDbLines);
+
+      await transactionService.postTransaction('txn-1', testUserId, { period_override_reason: 'Late vendor invoice' });
+
+      expect(postingChecks()[0].slice(2, 4)).toEqual(['txn-1', 'Late vendor invoice']);
+      expect(mockDbBatch).toHaveBeenCalledTimes(1);
+      expect(mockDbBatch.mock.calls[0][0]).toEqual([mockPreparedStatement, mockChangeCheck, overrideStatement]);
+    });
+
+    it('should fail when the transaction stopped being pending before the update', async () => {
+      mockDbQueryOne.mockResolvedValueOnce(createMockDbTransaction({ id: 'txn-1', status: 'pending' }));
+      mockDbQuery.mockResolvedValueOnce(mockDbLines);
+      mockDbQuery.mockResolvedValueOnce([{ id: 'ea-cash' }, { id: 'ea-rent' }]);
+      mockDbBatch.mockRejectedValueOnce(new Error('D1_ERROR: malformed JSON: SQLITE_ERROR'));
+      mockDbQueryOne.mockResolvedValueOnce(createMockDbTransaction({ id: 'txn-1', status: 'posted' }));
+      mockDbQuery.mockResolvedValueOnce(mockDbLines);
+
+      await expect(transactionService.postTransaction('txn-1', testUserId))
+        .rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR, status: 409 });
+    });
+
+    it('should reject a transaction that is not pending', async () => {
+      mockDbQueryOne.mockResolvedValueOnce(createMockDbTransaction({ id: 'txn-1', status: 'posted' }));
+      mockDbQuery.mockResolvedValueOnce(mockDbLines);
+
+      await expect(transactionService.postTransaction('txn-1', testUserId))
+        .rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR, status: 400 });
+      expect(mockDbBatch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('voidTransaction', () => {
+    it('should mark the original voided and insert a flipped, linked reversal in one batch', async () => {
+      mockDbQueryOne.mockResolvedValueOnce(createMockDbTransaction({ id: 'txn-1' }));
+      mockDbQuery.mockResolvedValueOnce(mockDbLines);
+      mockDbBatch.mockResolvedValue([]);
+      mockDbQueryOne.mockResolvedValueOnce(createMockDbTransaction({ id: 'txn-1', status: 'voided', voided_at: now }));
+      mockDbQuery.mockResolvedValueOnce(mockDbLines);
+      mockDbQueryOne.mockImplementationOnce(async (_sql, params) =>
+        createMockDbTransaction({ id: params[0], reverses_transaction_id: 'txn-1', date: now + 86400 })
+      );
+      mockDbQuery.mockResolvedValueOnce([
+        { ...mockDbLines[0], is_debit: 0 },
+        { ...mockDbLines[1], is_debit: 1 },
+      ]);
+
+      const result = await transactionService.voidTransaction('txn-1', { date: now + 86400, reason: 'Duplicate entry' }, testUserId);
+
+      // The reversal is what gets posted, so its date is the one checked
+      expect(postingChecks()[0].slice(0, 2)).toEqual([entityId, now + 86400]);
+
+      expect(mockDbBatch).toHaveBeenCalledTimes(1);
+      // void update + its change check + reversal header + 2 lines
+      expect(mockDbBatch.mock.calls[0][0]).toEqual([mockPreparedStatement, mockChangeCheck, ...Array(3).fill(mockPreparedStatement)]);
+      expect(mockD1Prepare).toHaveBeenCalledWith(expect.stringContaining("SET status = 'voided'"));
+      expect(mockD1Bind).toHaveBeenCalledWith(
+        expect.any(String), testUserId, entityId, null, now + 86400, 'VOID: Rent received', null,
+        'posted', 0, null, 'txn-1', expect.any(Number), expect.any(Number)
+      );
+      // Line binds: id, transaction_id, entity_account_id, amount, is_debit, memo, created_at
+      const lineBinds = mockD1Bind.mock.calls.filter(args => args.length === 7);
+      expect(lineBinds.map(args => [args[2], args[4]])).toEqual([['ea-cash', 0], ['ea-rent', 1]]);
+      expect(result.voided.status).toBe('voided');
+      expect(result.reversal.reverses_transaction_id).toBe('txn-1');
+    });
+
+    it('should report a 409 when another request voided the transaction first', async () => {
+      mockDbQueryOne.mockResolvedValueOnce(createMockDbTransaction({ id: 'txn-1' }));
+      mockDbQuery.mockResolvedValueOnce(mockDbLines);
+      mockDbBatch.mockRejectedValueOnce(new Error('D1_ERROR: malformed JSON: SQLITE_ERROR'));
+      mockDbQueryOne.mockResolvedValueOnce(createMockDbTransaction({ id: 'txn-1', status: 'voided', voided_at: now }));
+      mockDbQuery.mockResolvedValueOnce(mockDbLines);
+
+      await expect(transactionService.voidTransaction('txn-1', { date: now + 86400 }, testUserId))
+        .rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR, status: 409 });
+    });
+
+    it('should reject a reversal date before the original date', async () => {
+      mockDbQueryOne.mockResolvedValueOnce(createMockDbTransaction({ id: 'txn-1' }));
+      mockDbQuery.mockResolvedValueOnce(mockDbLines);
+
+      await expect(transactionService.voidTransaction('txn-1', { date: now - 86400 }, testUserId))
+        .rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR, status: 400 });
+      expect(mockDbBatch).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to void a reversing entry', async () => {
+      mockDbQueryOne.mockResolvedValueOnce(createMockDbTransaction({ id: 'txn-2', reverses_transaction_id: 'txn-1' }));
+      mockDbQuery.mockResolvedValueOnce(mockDbLines);
+
+      await expect(transactionService.voidTransaction('txn-2', { date: now }, testUserId))
+        .rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR });
+    });
+  });
+
+  describe('deleteTransaction', () => {
+    it('should throw NOT_FOUND if the transaction does not exist', async () => {
+      mockDbQueryOne.mockResolvedValueOnce(null);
+      await expect(transactionService.deleteTransaction('missing', testUserId))
+        .rejects.toMatchObject({ code: ErrorCode.NOT_FOUND, status: 404 });
+    });
+
+    it('should refuse to delete a posted transaction', async () => {
+      mockDbQueryOne.mockResolvedValueOnce(createMockDbTransaction({ id: 'txn-1' }));
+      mockDbQuery.mockResolvedValueOnce(mockDbLines);
+      await expect(transactionService.deleteTransaction('txn-1', testUserId))
+        .rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR, status: 400 });
+      expect(mockDbExecute).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,190 @@
+// tests/unit/waterfall.test.ts
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { PartnerService, createPartnerService } from '../../src/lib/services/partner-service';
+import { TransactionService } from '../../src/lib/services/transaction-service';
+import { EntityService } from '../../src/lib/services/entity-service';
+import { EntityAccountService } from '../../src/lib/services/entity-account-service';
+import { allocateProRata, capitalPositions, runWaterfall } from '../../src/lib/accounting/waterfall';
+import type { DbPartner, DbPartnerCapitalEntry } from '../../src/db/schema';
+import type { Entity } from '../../src/types/entity';
+import type { PartnerCapitalEntry } from '../../src/types/partner';
+import { ErrorCode } from '../../src/utils/errors';
+import type { D1Database } from '@cloudflare/workers-types';
+
+const mockDbQuery = vi.fn();
+const mockDbQueryOne = vi.fn();
+const mockDbBatch = vi.fn();
+const mockD1Prepare = vi.fn();
+const mockD1Bind = vi.fn();
+
+const mockPreparedStatement = { bind: mockD1Bind };
+
+vi.mock('@db/db', () => ({
+  createDbClient: vi.fn(() => ({
+    query: mockDbQuery,
+    queryOne: mockDbQueryOne,
+    execute: vi.fn(),
+    batch: mockDbBatch,
+    d1Instance: {
+      prepare: mockD1Prepare,
+    },
+  })),
+}));
+
+const mockD1Instance = {} as D1Database;
+
+const utc = (year: number, month: number, day: number) => Date.UTC(year, month - 1, day) / 1000;
+
+const contribution = (partnerId: string, amount: number, date: number) => ({
+  partner_id: partnerId, kind: 'contribution' as const, date, amount, tier: null,
+});
+
+const investors = [
+  { id: 'lp-1', role: 'investor' as const, ownership_bps: 6000 },
+  { id: 'lp-2', role: 'investor' as const, ownership_bps: 2000 },
+  { id: 'gp', role: 'sponsor' as const, ownership_bps: 2000 },
+];
+const terms = { preferred_return_bps: 800, catch_up_bps: 10000, promote_bps: 2000 };
+
+describe('waterfall', () => {
+  it('splits cents by weight so the shares add up exactly', () => {
+    expect(allocateProRata(100, [1, 1, 1])).toEqual([34, 33, 33]);
+    expect(allocateProRata(-100, [1, 1, 1])).toEqual([-33, -33, -34]);
+    expect(allocateProRata(500, [0, 0])).toEqual([0, 0]);
+  });
+
+  it('accrues the preferred return on capital outstanding between contributions and returns', () => {
+    const entries = [
+      contribution('lp-1', 1000000, utc(2024, 1, 1)),
+      { partner_id: 'lp-1', kind: 'distribution' as const, date: utc(2024, 7, 1), amount: 500000, tier: 'return_of_capital' as const },
+    ];
+
+    const position = capitalPositions([{ id: 'lp-1' }], entries, utc(2025, 1, 1), 1000).get('lp-1')!;
+
+    // 182 days on $10,000 and 184 days on $5,000 at 10%
+    expect(position.unreturned_capital).toBe(500000);
+    expect(position.accrued_preferred_return).toBe(49863 + 25205);
+    expect(position.unpaid_preferred_return).toBe(75068);
+  });
+
+  it('pays return of capital, preferred return, a full catch-up and the promote in order', () => {
+    const entries = [
+      contribution('lp-1', 7500000, utc(2024, 1, 1)),
+      contribution('lp-2', 2500000, utc(2024, 1, 1)),
+    ];
+
+    const result = runWaterfall(12000000, utc(2024, 12, 31), terms, investors, entries);
+
+    expect(result.tiers).toEqual([
+      { tier: 'return_of_capital', amount: 10000000 },
+      { tier: 'preferred_return', amount: 800000 },
+      { tier: 'catch_up', amount: 200000 },
+      { tier: 'promote', amount: 1000000 },
+    ]);
+    expect(result.allocations).toEqual([
+      { partner_id: 'lp-1', tier: 'return_of_capital', amount: 7500000 },
+      { partner_id: 'lp-2', tier: 'return_of_capital', amount: 2500000 },
+      { partner_id: 'lp-1', tier: 'preferred_return', amount: 600000 },
+      { partner_id: 'lp-2', tier: 'preferred_return', amount: 200000 },
+      { partner_id: 'gp', tier: 'catch_up', amount: 200000 },
+      { partner_id: 'lp-1', tier: 'promote', amount: 600000 },
+      { partner_id: 'lp-2', tier: 'promote', amount: 200000 },
+      { partner_id: 'gp', tier: 'promote', amount: 200000 },
+    ]);
+  });
+
+  it('picks up where earlier distributions left off', () => {
+    const entries: Array<Pick<PartnerCapitalEntry, 'partner_id' | 'kind' | 'date' | 'amount' | 'tier'>> = [
+      contribution('lp-1', 7500000, utc(2024, 1, 1)),
+      contribution('lp-2', 2500000, utc(2024, 1, 1)),
+      ...runWaterfall(10500000, utc(2024, 12, 31), terms, investors, [
+        contribution('lp-1', 7500000, utc(2024, 1, 1)),
+        contribution('lp-2', 2500000, utc(2024, 1, 1)),
+      ]).allocations.map(allocation => ({ ...allocation, kind: 'distribution' as const, date: utc(2024, 12, 31) })),
+    ];
+
+    const result = runWaterfall(1500000, utc(2024, 12, 31), terms, investors, entries);
+
+    expect(result.tiers.map(tier => tier.amount)).toEqual([0, 300000, 200000, 1000000]);
+  });
+});
+
+describe('PartnerService', () => {
+  let partnerService: PartnerService;
+  const testUserId = 'user-test-123';
+  const now = Math.floor(Date.now() / 1000);
+
+  const entity = { id: 'jv', user_id: testUserId, name: 'JV LLC', is_active: true } as Entity;
+  const dbPartner = (id: string, name: string, role: DbPartner['role'], bps: number): DbPartner => ({
+    id, user_id: testUserId, entity_id: 'jv', name, role, ownership_bps: bps, is_active: 1, created_at: now, updated_at: now,
+  });
+  const dbEntry = (id: string, partnerId: string, amount: number): DbPartnerCapitalEntry => ({
+    id, user_id: testUserId, entity_id: 'jv', partner_id: partnerId, kind: 'contribution', date: utc(2024, 1, 1), amount,
+    tier: null, transaction_id: `txn-${id}`, period_start: null, period_end: null, description: null, created_at: now,
+  });
+
+  let spies: Array<{ mockRestore: () => void }> = [];
+  const prepareCreateCalls = () => vi.mocked(TransactionService.prototype.prepareCreateStatements).mock.calls;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockD1Prepare.mockReturnValue(mockPreparedStatement);
+    mockD1Bind.mockReturnValue(mockPreparedStatement);
+    mockDbBatch.mockResolvedValue([]);
+    spies = [
+      vi.spyOn(TransactionService.prototype, 'prepareCreateStatements').mockResolvedValue([]),
+      vi.spyOn(EntityService.prototype, 'getEntityById').mockResolvedValue(entity),
+      vi.spyOn(EntityAccountService.prototype, 'findActiveEntityAccountIdByCode')
+        .mockImplementation(async (entityId, code) => `${entityId}-${code}`),
+    ];
+    partnerService = createPartnerService(mockD1Instance);
+  });
+
+  afterEach(() => {
+    spies.forEach(spy => spy.mockRestore());
+  });
+
+  it('should post a distribution as draws by partner and tier against cash in one batch', async () => {
+    mockDbQueryOne.mockResolvedValueOnce({ entity_id: 'jv', user_id: testUserId, ...terms, created_at: now, updated_at: now });
+    mockDbQuery
+      .mockResolvedValueOnce([dbPartner('gp', 'Sponsor LLC', 'sponsor', 2000), dbPartner('lp-1', 'Dana Smith', 'investor', 8000)])
+      .mockResolvedValueOnce([dbEntry('c1', 'lp-1', 1000000)]);
+
+    const distribution = await partnerService.postDistribution('jv', {
+      date: utc(2024, 12, 31),
+      amount: 1050000,
+      cash_entity_account_id: 'jv-cash',
+    }, testUserId);
+
+    expect(prepareCreateCalls()[0][1].lines).toEqual([
+      { entity_account_id: 'jv-3020', amount: 1000000, is_debit: true, memo: 'Dana Smith - Return of capital' },
+      { entity_account_id: 'jv-3020', amount: 50000, is_debit: true, memo: 'Dana Smith - Preferred return' },
+      { entity_account_id: 'jv-cash', amount: 1050000, is_debit: false },
+    ]);
+    expect(mockD1Bind.mock.calls.map(call => [call[3], call[4], call[6], call[7]])).toEqual([
+      ['lp-1', 'distribution', 1000000, 'return_of_capital'],
+      ['lp-1', 'distribution', 50000, 'preferred_return'],
+    ]);
+    expect(distribution.by_partner).toEqual([{ partner_id: 'lp-1', name: 'Dana Smith', amount: 1050000 }]);
+    expect(distribution.transaction_id).toBe(prepareCreateCalls()[0][0]);
+    expect(mockDbBatch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refuse a distribution when only inactive partners contributed capital', async () => {
+    mockDbQueryOne.mockResolvedValueOnce({ entity_id: 'jv', user_id: testUserId, ...terms, created_at: now, updated_at: now });
+    mockDbQuery
+      .mockResolvedValueOnce([dbPartner('lp-1', 'Dana Smith', 'investor', 8000), { ...dbPartner('lp-2', 'Lee Park', 'investor', 2000), is_active: 0 }])
+      .mockResolvedValueOnce([dbEntry('c1', 'lp-2', 1000000)]);
+
+    await expect(partnerService.calculateDistribution('jv', { date: utc(2024, 12, 31), amount: 1500000 }, testUserId))
+      .rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR, message: 'No active partner has contributed capital yet.' });
+  });
+
+  it('should refuse to allocate income until the active partners hold 100%', async () => {
+    mockDbQuery.mockResolvedValueOnce([dbPartner('lp-1', 'Dana Smith', 'investor', 8000)]);
+
+    await expect(partnerService.allocateIncome('jv', { start_date: utc(2024, 1, 1), end_date: utc(2024, 12, 31) }, testUserId))
+      .rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR, message: expect.stringContaining('add up to 80.00%') });
+    expect(mockDbBatch).not.toHaveBeenCalled();
+  });
+});